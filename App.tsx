@@ -1,12 +1,176 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import Controls from './components/Controls';
 import OSD from './components/OSD';
-import { CameraMode, CameraSettings, CapturedImage } from './types';
-import { performStacking, processSonyLook } from './services/imageProcessing';
-import { analyzeImageScene } from './services/geminiService';
-import { X, Wand2, Loader2, Download, RefreshCcw, AlertTriangle, RefreshCw } from 'lucide-react';
+import AssistOverlay from './components/AssistOverlay';
+import FocusArea from './components/FocusArea';
+import LutPreview from './components/LutPreview';
+import PhotoEditor from './components/PhotoEditor';
+import AnalysisPanel from './components/AnalysisPanel';
+import BindingsSheet from './components/BindingsSheet';
+import LongExposureOverlay from './components/LongExposureOverlay';
+import FramingOverlay from './components/FramingOverlay';
+import LevelIndicator from './components/LevelIndicator';
+import PanoramaGuide from './components/PanoramaGuide';
+import {
+  AssistSettings,
+  CameraMode,
+  CameraSelection,
+  CameraSettings,
+  CapturedImage,
+  CapturedVideo,
+  ControlStatus,
+  DriveSettings,
+  EditStep,
+  ExposureProgram,
+  ExposureSettings,
+  FramingSettings,
+  GalleryItem,
+  GalleryView,
+  AnalysisPreference,
+  AnalysisRecord,
+  HdrSettings,
+  InputAction,
+  InputBindings,
+  ManualControls,
+  NightSettings,
+  PanoramaSettings,
+  ProfileSettings,
+  SensorSource,
+  StackingSettings,
+  SuggestedSettings,
+  VideoSettings
+} from './types';
+import {
+  BracketSource,
+  buildCaptureSteps,
+  captureProcessed,
+  grabVideoFrame,
+  performHdrBracket,
+  performLongExposure,
+  performPanorama,
+  performStacking,
+  performSuperResolution
+} from './services/imageProcessing';
+import { DEFAULT_SUPER_RES_OPTIONS, getSuperResInputSize } from './services/superResolution';
+import { DEFAULT_PANORAMA_OPTIONS, PanGuide } from './services/panorama';
+import {
+  CUSTOM_PROFILE_PREFIX,
+  DEFAULT_PROFILE_ID,
+  PictureProfile,
+  createLutProfile,
+  findProfile,
+  getBuiltInProfiles
+} from './services/colorProfiles';
+import { MAX_LUT_SIZE, parseCubeLut } from './services/pipeline/lut';
+import {
+  applyCameraControls,
+  createExposureBracketer,
+  formatKelvin,
+  getSimulatedBalance,
+  getTrackCapabilities,
+  parseKelvin,
+  resolveControlStatus
+} from './services/cameraControls';
+import { PipelineProgress, PipelineStep } from './services/pipeline/pipelineClient';
+import { applyEditSteps, renderEdits } from './services/photoEditor';
+import {
+  DEFAULT_GALLERY_VIEW,
+  GALLERY_DATE_RANGES,
+  GALLERY_SORTS,
+  applyGalleryView,
+  canShareFiles,
+  exportArchive,
+  getCaptureFileName,
+  getGalleryModes,
+  isGalleryFiltered,
+  shareCaptures
+} from './services/galleryService';
+import { Frame } from './services/frameStacking';
+import {
+  BURST_BUFFER_BYTES,
+  BURST_RATES,
+  CaptureBuffer,
+  DriveStatus,
+  countdownTo,
+  createCaptureBuffer,
+  formatDriveMode,
+  runBurst,
+  runInterval
+} from './services/driveModes';
+import { captureToJpegMetadata, readJpegMetadata, writeJpegMetadata } from './services/jpegMetadata';
+import { createImportRecord } from './services/importService';
+import {
+  ANALYSIS_PREFERENCES,
+  getAnalysisProvider,
+  loadAnalysisPreference,
+  runAnalysis,
+  saveAnalysisPreference
+} from './services/analysisProvider';
+import { Histogram } from './services/assists';
+import {
+  CAMERA_SOURCE,
+  VirtualSensor,
+  openVirtualSensor,
+  parseSensorParam,
+  sourceFromFiles
+} from './services/virtualSensor';
+import { attachInputBindings, loadInputBindings, saveInputBindings } from './services/inputBindings';
+import { LevelReading, MAX_AUTO_STRAIGHTEN, buildFramingStep, getCaptureCrop, nextGuide, watchLevel } from './services/framing';
+import {
+  CameraDevice,
+  getActiveFormat,
+  listCameras,
+  loadCameraSelection,
+  openCamera,
+  saveCameraSelection
+} from './services/deviceManager';
+import { BatteryStatus, DeviceStatus, getDeviceActivity, watchBattery, watchConnectivity } from './services/deviceStatus';
+import {
+  createFrameSampler,
+  exposureFromSettings,
+  formatAperture,
+  formatEv,
+  formatShutter,
+  getCameraEv,
+  meterFrame,
+  parseEv,
+  solveExposure,
+  stepCompensation,
+  stepIso
+} from './services/metering';
+import {
+  CaptureRecord,
+  CaptureUpdate,
+  StorageQuota,
+  createThumbnail,
+  deleteCapture,
+  deleteEditStack,
+  deleteLut,
+  getStorageQuota,
+  loadCaptureBlob,
+  loadCaptureUrl,
+  loadCaptures,
+  loadEditStack,
+  loadLuts,
+  releaseItemUrls,
+  saveCapture,
+  saveEditStack,
+  saveLut,
+  updateCapture
+} from './services/storageService';
+import { canvasToBlob } from './services/canvasEncoding';
+import {
+  RecordingSession,
+  TIMELAPSE_FPS,
+  assembleTimelapse,
+  formatTimecode,
+  getSupportedVideoFormats,
+  getVideoExtension,
+  startRecording
+} from './services/videoRecorder';
+import { X, Wand2, Loader2, Download, RefreshCcw, AlertTriangle, RefreshCw, Video, Trash2, Upload, Layers, SlidersHorizontal, ClipboardPaste, ListFilter, CheckSquare, CheckCircle2, Share2, Archive, Undo2, Tv, FileVideo } from 'lucide-react';
 
-// Default Simulated Settings
+// Default Settings (shown until the first metering reading)
 const DEFAULT_SETTINGS: CameraSettings = {
   iso: 100,
   shutterSpeed: '1/250',
@@ -15,17 +179,148 @@ const DEFAULT_SETTINGS: CameraSettings = {
   ev: '+0.0'
 };
 
+const DEFAULT_EXPOSURE: ExposureSettings = {
+  program: 'P',
+  meteringMode: 'matrix',
+  compensation: 0,
+  aperture: 2.8,
+  shutter: 1 / 125,
+  iso: 'AUTO'
+};
+
+const DEFAULT_ASSISTS: AssistSettings = {
+  histogram: true,
+  zebra: false,
+  zebraThreshold: 95,
+  peaking: false,
+  peakingColor: 'red',
+  peakingLevel: 'mid'
+};
+
+const DEFAULT_FRAMING: FramingSettings = {
+  guide: 'thirds',
+  spiralTurn: 0,
+  aspect: 'native',
+  level: false,
+  autoStraighten: false
+};
+
+const METERING_INTERVAL = 500; // ms
+const AUTO_ISO_HYSTERESIS = 0.5; // Stops
+const AUTO_ISO_INTERVAL = 2000; // ms
+
+// Mode dial order, as laid out in Controls
+const MODE_CYCLE = [CameraMode.VIDEO, CameraMode.PHOTO, CameraMode.PRO, CameraMode.HDR, CameraMode.NIGHT, CameraMode.PANORAMA];
+
+// Long edge for rendering edited photos in the detail view / for their thumbnail
+const EDIT_DISPLAY_SIZE = 2048;
+const EDIT_THUMBNAIL_RENDER_SIZE = 640;
+
+const VIDEO_FORMATS = getSupportedVideoFormats();
+const SHARE_SUPPORTED = canShareFiles();
+
+// How long a batch delete can be undone before it is written to storage
+const UNDO_DELETE_MS = 6000;
+
+const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
+  mimeType: VIDEO_FORMATS[0]?.mimeType ?? '',
+  bitrate: 16_000_000,
+  audio: false
+};
+
+const DEFAULT_STACKING_SETTINGS: StackingSettings = {
+  frameCount: 8,
+  method: 'sigma-clip',
+  superResolution: false
+};
+
+const DEFAULT_NIGHT_SETTINGS: NightSettings = {
+  duration: 4,
+  blend: 'average'
+};
+
+const DEFAULT_PANORAMA_SETTINGS: PanoramaSettings = {
+  direction: 'right',
+  focalLength: DEFAULT_PANORAMA_OPTIONS.focalLength
+};
+
+const DEFAULT_HDR_SETTINGS: HdrSettings = {
+  bracketCount: 3,
+  evStep: 2,
+  keepSources: false
+};
+
+const DEFAULT_DRIVE_SETTINGS: DriveSettings = {
+  mode: 'single',
+  burstSpeed: 'hi',
+  timerDelay: 10,
+  interval: 5,
+  shotCount: 60,
+  timelapse: true
+};
+
+const DEFAULT_MANUAL_CONTROLS: ManualControls = {
+  whiteBalance: 'AUTO',
+  focusDistance: 'AUTO',
+  autofocus: 'AF-C',
+  focusPoint: null,
+  aeAfLock: false,
+  zoom: 1,
+  torch: false
+};
+
+const DEFAULT_PROFILE_SETTINGS: ProfileSettings = {
+  profileId: DEFAULT_PROFILE_ID,
+  interpolation: 'tetrahedral'
+};
+
+// A still before encoding; size and dimensions come from the processed canvas
+type StillRecord = Omit<CapturedImage, 'url' | 'thumbnailUrl' | 'size' | 'width' | 'height'>;
+
+// A burst frame waiting in the buffer, with everything needed to grade and save it
+interface BufferedShot {
+  frame: Frame;
+  steps: PipelineStep[];
+  photo: StillRecord;
+  exposureProgram: ExposureProgram;
+}
+
 const App: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
   const [stream, setStream] = useState<MediaStream | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const cameraRequestRef = useRef(0);
   const [mode, setMode] = useState<CameraMode>(CameraMode.PHOTO);
   const [isCapturing, setIsCapturing] = useState(false);
-  const [photos, setPhotos] = useState<CapturedImage[]>([]);
+  const [photos, setPhotos] = useState<GalleryItem[]>([]);
   const [galleryOpen, setGalleryOpen] = useState(false);
-  const [selectedPhoto, setSelectedPhoto] = useState<CapturedImage | null>(null);
-  const [gridEnabled, setGridEnabled] = useState(true);
+  const [selectedPhoto, setSelectedPhoto] = useState<GalleryItem | null>(null);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(() => new Set());
+  const [galleryView, setGalleryView] = useState<GalleryView>(DEFAULT_GALLERY_VIEW);
+  const [filtersOpen, setFiltersOpen] = useState(false);
+
+  // Multi-select
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [pendingDelete, setPendingDelete] = useState<GalleryItem[] | null>(null);
+  const pendingDeleteRef = useRef<{ items: GalleryItem[]; timer: number } | null>(null);
+  const [batchProgress, setBatchProgress] = useState<number | null>(null);
+
+  // Photo Editor
+  const [editing, setEditing] = useState<{ photo: CapturedImage; original: Blob; steps: EditStep[] } | null>(null);
+  const [copiedEdits, setCopiedEdits] = useState<EditStep[] | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Guides / Aspect / Level
+  const [framing, setFraming] = useState<FramingSettings>(DEFAULT_FRAMING);
+  const levelRef = useRef<LevelReading | null>(null);
+
+  // Keyboard / Remote / Gamepad
+  const [inputBindings, setInputBindings] = useState<InputBindings>(loadInputBindings);
+  const [bindingsOpen, setBindingsOpen] = useState(false);
+  const halfPressRef = useRef(false); // AE/AF lock is held by a half-press, not toggled
   
   // System State
   const [isLoading, setIsLoading] = useState(true);
@@ -33,43 +328,131 @@ const App: React.FC = () => {
   
   // AI State
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [lutError, setLutError] = useState<string | null>(null);
+  const [analysisPreference, setAnalysisPreference] = useState<AnalysisPreference>(loadAnalysisPreference);
+  const [suggestionApplied, setSuggestionApplied] = useState(false);
 
-  // Dynamic Settings (Simulation)
+  // Video Recording State
+  const recordingRef = useRef<RecordingSession | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  // Set while the recorder spins up, so a second press can't start another
+  const [recordingStarting, setRecordingStarting] = useState(false);
+  const recordingStartingRef = useRef(false);
+  const [recordingTime, setRecordingTime] = useState(0);
+  const [videoSettings, setVideoSettings] = useState<VideoSettings>(DEFAULT_VIDEO_SETTINGS);
+  const posterRef = useRef<Blob | null>(null);
+
+  // Processing State
+  const [processing, setProcessing] = useState<PipelineProgress | null>(null);
+
+  // Stacking State
+  const [stackingSettings, setStackingSettings] = useState<StackingSettings>(DEFAULT_STACKING_SETTINGS);
+  const [hdrSettings, setHdrSettings] = useState<HdrSettings>(DEFAULT_HDR_SETTINGS);
+  const [nightSettings, setNightSettings] = useState<NightSettings>(DEFAULT_NIGHT_SETTINGS);
+  const [nightPreview, setNightPreview] = useState<Frame | null>(null);
+  const [panoramaSettings, setPanoramaSettings] = useState<PanoramaSettings>(DEFAULT_PANORAMA_SETTINGS);
+  const [panoramaGuide, setPanoramaGuide] = useState<PanGuide | null>(null);
+  const panoramaAbortRef = useRef<AbortController | null>(null); // Set while a panorama is being shot
+
+  // Drive Modes
+  const [driveSettings, setDriveSettings] = useState<DriveSettings>(DEFAULT_DRIVE_SETTINGS);
+  const [driveStatus, setDriveStatus] = useState<DriveStatus | null>(null);
+  const [bufferedFrames, setBufferedFrames] = useState(0);
+  const [bufferFill, setBufferFill] = useState(0);
+  const driveAbortRef = useRef<AbortController | null>(null);
+  const burstBufferRef = useRef<CaptureBuffer<BufferedShot> | null>(null);
+
+  // Continuous shooting grabs single frames, so it's only offered in PHOTO
+  useEffect(() => {
+    if (mode !== CameraMode.PHOTO) {
+      setDriveSettings(prev => prev.mode === 'continuous' ? { ...prev, mode: 'single' } : prev);
+    }
+  }, [mode]);
+
+  // Storage State
+  const [storageQuota, setStorageQuota] = useState<StorageQuota | null>(null);
+
+  // Device Status (power and connectivity, for the OSD)
+  const [battery, setBattery] = useState<BatteryStatus | null>(null);
+  const [online, setOnline] = useState(true);
+  useEffect(() => watchBattery(setBattery), []);
+  useEffect(() => watchConnectivity(setOnline), []);
+
+  // Dynamic Settings (Metered)
   const [settings, setSettings] = useState<CameraSettings>(DEFAULT_SETTINGS);
+  const [exposure, setExposure] = useState<ExposureSettings>(DEFAULT_EXPOSURE);
 
-  const startCamera = useCallback(async () => {
+  // Manual Camera Controls
+  const [manualControls, setManualControls] = useState<ManualControls>(DEFAULT_MANUAL_CONTROLS);
+  const capabilities = useMemo(() => getTrackCapabilities(stream?.getVideoTracks()[0]), [stream]);
+  const [controlStatus, setControlStatus] = useState<ControlStatus>(
+    () => resolveControlStatus(getTrackCapabilities(undefined), DEFAULT_EXPOSURE, DEFAULT_MANUAL_CONTROLS)
+  );
+  const simulatedBalance = getSimulatedBalance(controlStatus, manualControls, parseEv(settings.ev) ?? 0);
+
+  // Shooting Assists
+  const [assists, setAssists] = useState<AssistSettings>(DEFAULT_ASSISTS);
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+
+  // Picture Profiles
+  const [profiles, setProfiles] = useState<PictureProfile[]>(getBuiltInProfiles);
+  const [profileSettings, setProfileSettings] = useState<ProfileSettings>(DEFAULT_PROFILE_SETTINGS);
+  const activeProfile = findProfile(profiles, profileSettings.profileId);
+
+  // Camera Device
+  const [devices, setDevices] = useState<CameraDevice[]>([]);
+  const [cameraSelection, setCameraSelection] = useState<CameraSelection>(loadCameraSelection);
+  const activeFormat = useMemo(() => getActiveFormat(stream), [stream]);
+
+  // What a super-resolution capture will come out at: the merge size, cropped to the capture aspect
+  const hiResSize = useMemo((): [number, number] | null => {
+    if (mode !== CameraMode.PRO || !stackingSettings.superResolution || !activeFormat) return null;
+    const { scale } = DEFAULT_SUPER_RES_OPTIONS;
+    const [width, height] = getSuperResInputSize(activeFormat.width, activeFormat.height);
+    const crop = getCaptureCrop(framing.aspect, width, height);
+    return [Math.round(width * scale * (crop?.width ?? 1)), Math.round(height * scale * (crop?.height ?? 1))];
+  }, [mode, stackingSettings.superResolution, activeFormat, framing.aspect]);
+
+  const deviceStatus: DeviceStatus = {
+    battery,
+    online,
+    shotsRemaining: storageQuota?.shotsRemaining ?? null,
+    stream: activeFormat,
+    activity: getDeviceActivity(isRecording, isCapturing || processing !== null || bufferedFrames > 0)
+  };
+  // Stills are always JPEG; with no format chosen the recorder picks one when it starts
+  const fileFormat = mode !== CameraMode.VIDEO ? 'JPEG'
+    : videoSettings.mimeType ? getVideoExtension(videoSettings.mimeType).toUpperCase() : 'AUTO';
+
+  // Sensor Source: the camera, or a virtual sensor (files / test pattern)
+  const [sensorSource, setSensorSource] = useState<SensorSource>(
+    () => parseSensorParam(window.location.search) ?? CAMERA_SOURCE
+  );
+  const virtualSensorRef = useRef<VirtualSensor | null>(null);
+
+  const startCamera = useCallback(async (selection: CameraSelection, source: SensorSource) => {
     setIsLoading(true);
     setCameraError(null);
 
     // Stop existing tracks if any
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
-    }
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    virtualSensorRef.current?.stop();
+    virtualSensorRef.current = null;
 
+    const request = ++cameraRequestRef.current;
     try {
-      let mediaStream: MediaStream;
-      
-      try {
-        // Try preferred settings (Rear camera, 4K)
-        const constraints = {
-          video: {
-            facingMode: 'environment',
-            width: { ideal: 3840 }, 
-            height: { ideal: 2160 }
-          },
-          audio: false
-        };
-        mediaStream = await navigator.mediaDevices.getUserMedia(constraints);
-      } catch (err) {
-        console.warn("Primary camera config failed, trying fallback...", err);
-        // Fallback to any available camera
-        mediaStream = await navigator.mediaDevices.getUserMedia({ 
-            video: true,
-            audio: false 
-        });
+      const sensor = source.kind === 'camera' ? null : await openVirtualSensor(source, selection);
+      const mediaStream = sensor?.stream ?? await openCamera(selection);
+      // A newer switch started while this one was waiting on the camera
+      if (request !== cameraRequestRef.current) {
+        mediaStream.getTracks().forEach(track => track.stop());
+        sensor?.stop();
+        return;
       }
-
+      streamRef.current = mediaStream;
+      virtualSensorRef.current = sensor;
       setStream(mediaStream);
       
       if (videoRef.current) {
@@ -77,101 +460,931 @@ const App: React.FC = () => {
         // Important: Explicitly call play() and ensure muted is set in JSX
         await videoRef.current.play();
       }
+
+      // Labels and capability ranges are only exposed once access is granted
+      setDevices(await listCameras());
     } catch (err) {
       console.error("Camera access denied:", err);
-      setCameraError("SENSOR ERROR: ACCESS DENIED OR NOT FOUND");
+      if (request === cameraRequestRef.current) {
+        setCameraError(source.kind === 'camera' || !(err instanceof Error)
+          ? "SENSOR ERROR: ACCESS DENIED OR NOT FOUND"
+          : `SENSOR ERROR: ${err.message.toUpperCase()}`);
+      }
     } finally {
-      setIsLoading(false);
+      if (request === cameraRequestRef.current) setIsLoading(false);
     }
   }, []);
 
-  // Initialize Camera
+  // Initialize Camera, and reopen it whenever the selection changes
   useEffect(() => {
-    startCamera();
-    
-    // Cleanup function
-    return () => {
-      // We don't stop the stream here immediately to prevent flicker on hot reloads, 
-      // but in a real app or unmount we should.
-      // The startCamera function handles stopping previous streams.
-    };
-  // eslint-disable-next-line react-hooks/exhaustive-deps
+    saveAnalysisPreference(analysisPreference);
+  }, [analysisPreference]);
+
+  useEffect(() => {
+    saveInputBindings(inputBindings);
+  }, [inputBindings]);
+
+  useEffect(() => {
+    saveCameraSelection(cameraSelection);
+    startCamera(cameraSelection, sensorSource);
+  }, [cameraSelection, sensorSource, startCamera]);
+
+  useEffect(() => () => virtualSensorRef.current?.stop(), []);
+
+  // Cameras plugged in or removed
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+    const refresh = () => listCameras().then(setDevices).catch(err => console.warn("Could not list cameras", err));
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => mediaDevices.removeEventListener('devicechange', refresh);
   }, []);
 
-  // Simulated Light Metering
+  // Scene Metering, held while AE is locked. Spot metering follows the focus point.
+  const { aeAfLock, focusPoint } = manualControls;
   useEffect(() => {
+    if (isLoading || cameraError || aeAfLock) return;
+    const sampleFrame = createFrameSampler();
     const interval = setInterval(() => {
-      // Randomly fluctuate exposure values to simulate metering
-      const isos = [100, 125, 160, 200, 400, 800];
-      const shutters = ['1/500', '1/250', '1/1000', '1/125'];
-      
+      const video = videoRef.current;
+      if (!video) return;
+      const frame = sampleFrame(video);
+      if (!frame) return;
+
+      const reading = meterFrame(frame, exposure.meteringMode, focusPoint ?? undefined, getCameraEv(stream?.getVideoTracks()[0]));
+      const solution = solveExposure(reading.sceneEv, exposure);
       setSettings(prev => ({
         ...prev,
-        iso: isos[Math.floor(Math.random() * isos.length)],
-        shutterSpeed: shutters[Math.floor(Math.random() * shutters.length)]
+        iso: solution.iso,
+        shutterSpeed: formatShutter(solution.shutter),
+        aperture: formatAperture(solution.aperture),
+        ev: formatEv(exposure.program === 'M' ? solution.deviation : exposure.compensation)
       }));
-    }, 2000);
+    }, METERING_INTERVAL);
     return () => clearInterval(interval);
+  }, [isLoading, cameraError, stream, exposure, aeAfLock, focusPoint]);
+
+  // Auto ISO in M: the metered ISO is sent to the camera, but only once it
+  // has moved by more than AUTO_ISO_HYSTERESIS stops, and at most every
+  // AUTO_ISO_INTERVAL, so metering jitter doesn't re-apply every control on
+  // each tick. Outside M the camera picks its own ISO and this stays put.
+  const [autoIso, setAutoIso] = useState(DEFAULT_SETTINGS.iso);
+  const autoIsoAppliedAtRef = useRef(0);
+  useEffect(() => {
+    if (exposure.program !== 'M' || exposure.iso !== 'AUTO') return;
+    if (Math.abs(Math.log2(settings.iso / autoIso)) < AUTO_ISO_HYSTERESIS) return;
+    const wait = Math.max(0, autoIsoAppliedAtRef.current + AUTO_ISO_INTERVAL - performance.now());
+    const timer = setTimeout(() => {
+      autoIsoAppliedAtRef.current = performance.now();
+      setAutoIso(settings.iso);
+    }, wait);
+    return () => clearTimeout(timer);
+  }, [exposure.program, exposure.iso, settings.iso, autoIso]);
+
+  // Push exposure / WB / focus / zoom / torch to the camera
+  const hardwareIso = exposure.iso === 'AUTO' ? autoIso : exposure.iso;
+  useEffect(() => {
+    const track = stream?.getVideoTracks()[0];
+    if (!track) return;
+    let cancelled = false;
+    applyCameraControls(track, capabilities, exposure, hardwareIso, manualControls)
+      .then(status => { if (!cancelled) setControlStatus(status); })
+      .catch(err => console.warn("Could not apply camera controls", err));
+    return () => { cancelled = true; };
+  }, [stream, capabilities, exposure, hardwareIso, manualControls]);
+
+  useEffect(() => {
+    setSettings(prev => ({ ...prev, wb: formatKelvin(manualControls.whiteBalance) }));
+  }, [manualControls.whiteBalance]);
+
+  // Latest horizon reading, for auto-straightening captures
+  useEffect(() => {
+    if (!framing.level) return;
+    const stop = watchLevel(reading => { levelRef.current = reading; });
+    return () => {
+      stop();
+      levelRef.current = null;
+    };
+  }, [framing.level]);
+
+  // Load persisted gallery
+  useEffect(() => {
+    loadCaptures()
+      .then(items => setPhotos(items))
+      .catch(err => console.error("Could not load gallery", err));
   }, []);
 
-  const handleCapture = async () => {
-    if (!videoRef.current || !canvasRef.current || isCapturing) return;
-    
+  // Load imported LUTs
+  useEffect(() => {
+    loadLuts()
+      .then(entries => {
+        // Oversized cubes imported before the size cap are dropped rather than sent to the worker
+        const oversized = entries.filter(entry => entry.lut.size > MAX_LUT_SIZE);
+        oversized.forEach(entry => {
+          console.warn(`Removing ${entry.lut.size}-point LUT "${entry.lut.title}"`);
+          deleteLut(entry.id).catch(err => console.error("Could not delete LUT", err));
+        });
+        setProfiles([
+          ...getBuiltInProfiles(),
+          ...entries.filter(entry => !oversized.includes(entry)).map(entry => createLutProfile(entry.id, entry.lut))
+        ]);
+      })
+      .catch(err => console.error("Could not load LUTs", err));
+  }, []);
+
+  // Keep the shots-remaining estimate in step with the gallery
+  useEffect(() => {
+    getStorageQuota(photos)
+      .then(setStorageQuota)
+      .catch(err => console.warn("Storage estimate unavailable", err));
+  }, [photos]);
+
+  const storeCapture = async (record: CaptureRecord, media: Blob, thumbnail: Blob) => {
+    const item = await saveCapture(record, media, thumbnail);
+    setPhotos(prev => [item, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+  };
+
+  const handleImport = async (files: FileList) => {
+    const batchId = Date.now();
+    for (const [index, file] of Array.from(files).entries()) {
+      try {
+        const record = await createImportRecord(file, `${batchId}-${index}`);
+        await storeCapture(record, file, await createThumbnail(file));
+      } catch (e) {
+        console.error(`Could not import ${file.name}`, e);
+      }
+    }
+  };
+
+  const handleImportLut = async (file: File) => {
+    setLutError(null);
+    try {
+      const lut = parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, ''));
+      const entry = { id: Date.now().toString(), importedAt: Date.now(), lut };
+      await saveLut(entry);
+      const profile = createLutProfile(entry.id, lut);
+      setProfiles(prev => [...prev, profile]);
+      setProfileSettings(prev => ({ ...prev, profileId: profile.id }));
+    } catch (e) {
+      console.error(`Could not import ${file.name}`, e);
+      setLutError(`Could not import ${file.name}: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const handleDeleteLut = async (profile: PictureProfile) => {
+    try {
+      await deleteLut(profile.id.slice(CUSTOM_PROFILE_PREFIX.length));
+      setProfiles(prev => prev.filter(p => p.id !== profile.id));
+      setProfileSettings(prev => prev.profileId === profile.id ? { ...prev, profileId: DEFAULT_PROFILE_ID } : prev);
+    } catch (e) {
+      console.error("Could not delete LUT", e);
+    }
+  };
+
+  // REC Timer
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(() => {
+      const session = recordingRef.current;
+      if (session) setRecordingTime((Date.now() - session.startedAt) / 1000);
+    }, 250);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  const toggleRecording = async () => {
+    const video = videoRef.current;
+    if (!video || recordingStartingRef.current) return;
+
+    if (recordingRef.current) {
+      const session = recordingRef.current;
+      recordingRef.current = null;
+      setIsRecording(false);
+      try {
+        const clip = await session.stop();
+        const newVideo: Omit<CapturedVideo, 'url' | 'thumbnailUrl'> = {
+          id: Date.now().toString(),
+          kind: 'video',
+          timestamp: session.startedAt,
+          size: clip.blob.size,
+          duration: clip.duration,
+          width: video.videoWidth,
+          height: video.videoHeight,
+          mimeType: clip.mimeType,
+          metadata: {
+            iso: settings.iso,
+            shutterSpeed: settings.shutterSpeed,
+            aperture: settings.aperture,
+            mode,
+            bitrate: videoSettings.bitrate,
+            audio: videoSettings.audio
+          }
+        };
+        const poster = posterRef.current ?? await createThumbnail(video);
+        await storeCapture(newVideo, clip.blob, poster);
+      } catch (e) {
+        console.error("Recording failed", e);
+      }
+      return;
+    }
+
+    if (!stream) return;
+    recordingStartingRef.current = true;
+    setRecordingStarting(true);
+    try {
+      posterRef.current = await createThumbnail(video);
+      recordingRef.current = await startRecording(stream, videoSettings);
+      setRecordingTime(0);
+      setIsRecording(true);
+    } catch (e) {
+      console.error("Could not start recording", e);
+    } finally {
+      recordingStartingRef.current = false;
+      setRecordingStarting(false);
+    }
+  };
+
+  // Encodes the processed capture left on `canvas`, tags it and adds it to the gallery
+  const saveStill = async (
+    canvas: HTMLCanvasElement,
+    photo: StillRecord,
+    exposureProgram: ExposureProgram
+  ) => {
+    const encoded = await canvasToBlob(canvas, 'image/jpeg', 0.95);
+    const record = { ...photo, size: encoded.size, width: canvas.width, height: canvas.height };
+    const blob = await writeJpegMetadata(encoded, captureToJpegMetadata(record, { exposureProgram }));
+    await storeCapture({ ...record, size: blob.size }, blob, await createThumbnail(canvas));
+  };
+
+  // Crop to the capture aspect and, when asked, level against the horizon,
+  // then grade. Tilts past MAX_AUTO_STRAIGHTEN are taken to be deliberate.
+  // Panoramas are framed by the stitch, so they're only graded.
+  const getCaptureSteps = (video: HTMLVideoElement): PipelineStep[] => {
+    if (mode === CameraMode.PANORAMA) {
+      return buildCaptureSteps(activeProfile, profileSettings.interpolation, simulatedBalance);
+    }
+    const roll = levelRef.current?.roll ?? 0;
+    const straighten = framing.autoStraighten && Math.abs(roll) <= MAX_AUTO_STRAIGHTEN ? roll : 0;
+    const framingStep = buildFramingStep(framing.aspect, straighten, video.videoWidth, video.videoHeight);
+    const steps = buildCaptureSteps(activeProfile, profileSettings.interpolation, simulatedBalance);
+    return framingStep ? [framingStep, ...steps] : steps;
+  };
+
+  // Single capture in the current mode. Returns the id of the saved image.
+  const takeShot = async (): Promise<string | null> => {
+    if (!videoRef.current || !canvasRef.current) return null;
+
     setIsCapturing(true);
 
     try {
-      let dataUrl = '';
-      
-      if (mode === CameraMode.PRO) {
+      const canvas = canvasRef.current;
+      const profile = activeProfile;
+      const steps = getCaptureSteps(videoRef.current);
+      let sources: BracketSource[] = [];
+      let superResFrames = 0;
+      let nightFrames = 0;
+      let panorama: { sources: Blob[]; framesUsed: number; fov: number } | null = null;
+
+      if (mode === CameraMode.PRO && stackingSettings.superResolution) {
+        // Merge the burst at 2x, using hand tremor as the pixel shift
+        const merged = await performSuperResolution(videoRef.current, canvas, stackingSettings.frameCount, steps, setProcessing);
+        superResFrames = merged.framesUsed;
+      } else if (mode === CameraMode.PRO) {
         // Perform Image Stacking
-        dataUrl = await performStacking(videoRef.current, canvasRef.current);
+        await performStacking(videoRef.current, canvas, stackingSettings, steps, setProcessing);
+      } else if (mode === CameraMode.HDR) {
+        // Bracket on the camera where possible, then fuse in the worker
+        const track = stream?.getVideoTracks()[0];
+        const bracketer = track
+          ? createExposureBracketer(track, capabilities, exposure, hardwareIso, manualControls)
+          : null;
+        const hdr = await performHdrBracket(videoRef.current, canvas, hdrSettings, steps, bracketer, setProcessing);
+        sources = hdr.sources;
+      } else if (mode === CameraMode.NIGHT) {
+        // Accumulate frames for the exposure time, previewing as it builds
+        const night = await performLongExposure(videoRef.current, canvas, nightSettings, steps, setProcessing, setNightPreview);
+        nightFrames = night.frames.length;
+      } else if (mode === CameraMode.PANORAMA) {
+        // Auto-capture while the user pans, until the shutter is pressed again
+        const controller = new AbortController();
+        panoramaAbortRef.current = controller;
+        try {
+          panorama = await performPanorama(videoRef.current, canvas, panoramaSettings, steps, controller.signal, setPanoramaGuide, setProcessing);
+        } finally {
+          panoramaAbortRef.current = null;
+          setPanoramaGuide(null);
+        }
       } else {
-        // Normal Capture
-        const video = videoRef.current;
-        const canvas = canvasRef.current;
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          ctx.drawImage(video, 0, 0);
-          // Apply Sony Filters
-          processSonyLook(canvas);
-          dataUrl = canvas.toDataURL('image/jpeg', 0.95);
+        // Normal Capture (profile LUT applied in the processing worker)
+        await captureProcessed(videoRef.current, canvas, steps, setProcessing);
+      }
+
+      const id = Date.now().toString();
+      const timestamp = Date.now();
+      await saveStill(canvas, {
+        id,
+        kind: 'photo',
+        timestamp,
+        isEnhanced: mode === CameraMode.PRO || mode === CameraMode.HDR || mode === CameraMode.NIGHT || mode === CameraMode.PANORAMA,
+        ...(sources.length > 0 && { group: { id, kind: 'hdr' as const, role: 'primary' as const, index: 0 } }),
+        ...(panorama && { group: { id, kind: 'panorama' as const, role: 'primary' as const, index: 0 } }),
+        metadata: {
+          ...settings,
+          mode,
+          profile: profile.name,
+          ...(mode === CameraMode.PRO && (superResFrames > 0 ? {
+            superResScale: DEFAULT_SUPER_RES_OPTIONS.scale,
+            superResFrames
+          } : {
+            stackCount: stackingSettings.frameCount,
+            stackMethod: stackingSettings.method
+          })),
+          ...(mode === CameraMode.HDR && {
+            bracketCount: hdrSettings.bracketCount,
+            bracketStep: hdrSettings.evStep
+          }),
+          ...(mode === CameraMode.NIGHT && {
+            shutterSpeed: formatShutter(nightSettings.duration),
+            stackCount: nightFrames,
+            nightBlend: nightSettings.blend
+          }),
+          ...(panorama && {
+            panoramaFrames: panorama.framesUsed,
+            panoramaFov: panorama.fov
+          })
         }
+      }, exposure.program);
+
+      // Individual brackets, darkest first, saved as members of the merge
+      const sorted = [...sources].sort((a, b) => a.ev - b.ev);
+      for (const [index, source] of sorted.entries()) {
+        const member: Omit<CapturedImage, 'url' | 'thumbnailUrl'> = {
+          id: `${id}-${index + 1}`,
+          kind: 'photo',
+          timestamp,
+          size: source.blob.size,
+          width: videoRef.current.videoWidth, // Brackets are kept uncropped
+          height: videoRef.current.videoHeight,
+          isEnhanced: false,
+          group: { id, kind: 'hdr', role: 'member', index: index + 1 },
+          metadata: { ...settings, mode, ev: formatEv(source.ev) }
+        };
+        const memberBlob = await writeJpegMetadata(source.blob, captureToJpegMetadata(member, {
+          exposureProgram: exposure.program
+        }));
+        await storeCapture({ ...member, size: memberBlob.size }, memberBlob, await createThumbnail(memberBlob));
       }
 
-      if (dataUrl) {
-        const newPhoto: CapturedImage = {
-          id: Date.now().toString(),
-          url: dataUrl,
-          timestamp: Date.now(),
-          width: canvasRef.current.width,
-          height: canvasRef.current.height,
-          isEnhanced: mode === CameraMode.PRO,
+      // Source frames of a panorama, in the order they were shot
+      for (const [index, source] of (panorama?.sources ?? []).entries()) {
+        const member: Omit<CapturedImage, 'url' | 'thumbnailUrl'> = {
+          id: `${id}-${index + 1}`,
+          kind: 'photo',
+          timestamp,
+          size: source.size,
+          width: videoRef.current.videoWidth,
+          height: videoRef.current.videoHeight,
+          isEnhanced: false,
+          group: { id, kind: 'panorama', role: 'member', index: index + 1 },
           metadata: { ...settings, mode }
         };
-        setPhotos(prev => [newPhoto, ...prev]);
+        const memberBlob = await writeJpegMetadata(source, captureToJpegMetadata(member, {
+          exposureProgram: exposure.program
+        }));
+        await storeCapture({ ...member, size: memberBlob.size }, memberBlob, await createThumbnail(memberBlob));
       }
+      return id;
     } catch (e) {
       console.error("Capture failed", e);
+      return null;
+    } finally {
+      setIsCapturing(false);
+      setProcessing(null);
+      setNightPreview(null);
+    }
+  };
+
+  // Timed sequences outlive the render that started them
+  const takeShotRef = useRef(takeShot);
+  takeShotRef.current = takeShot;
+
+  const processBufferedShot = async (shot: BufferedShot) => {
+    const canvas = document.createElement('canvas');
+    await captureProcessed(shot.frame, canvas, shot.steps);
+    await saveStill(canvas, shot.photo, shot.exposureProgram);
+  };
+
+  // Continuous drive: grab frames at the burst rate while the shutter is held.
+  // Grading and saving catch up from the buffer, which keeps filling between bursts.
+  const handleShutterDown = () => {
+    const video = videoRef.current;
+    if (!video || isCapturing || driveAbortRef.current) return;
+
+    const controller = new AbortController();
+    driveAbortRef.current = controller;
+    const buffer = burstBufferRef.current ??= createCaptureBuffer(
+      BURST_BUFFER_BYTES,
+      shot => shot.frame.data.byteLength,
+      processBufferedShot,
+      (pending, fill) => {
+        setBufferedFrames(pending);
+        setBufferFill(fill);
+      }
+    );
+    const groupId = Date.now().toString();
+    const steps = getCaptureSteps(video);
+    const metadata = { ...settings, mode, profile: activeProfile.name };
+    const grab = document.createElement('canvas');
+    let frames = 0;
+
+    setDriveStatus({ mode: 'continuous', frames: 0, total: null, countdown: null });
+    runBurst(BURST_RATES[driveSettings.burstSpeed], controller.signal, () => {
+      // Buffer full, this frame is dropped
+      if (!buffer.hasRoom(video.videoWidth * video.videoHeight * 4)) return;
+      const index = frames++;
+      buffer.push({
+        frame: grabVideoFrame(video, grab),
+        steps,
+        exposureProgram: exposure.program,
+        photo: {
+          id: index === 0 ? groupId : `${groupId}-${index}`,
+          kind: 'photo',
+          timestamp: Date.now(),
+          isEnhanced: false,
+          group: { id: groupId, kind: 'burst', role: index === 0 ? 'primary' : 'member', index },
+          metadata
+        }
+      });
+      setDriveStatus({ mode: 'continuous', frames, total: null, countdown: null });
+    }).finally(() => {
+      driveAbortRef.current = null;
+      setDriveStatus(null);
+    });
+  };
+
+  const handleShutterUp = () => driveAbortRef.current?.abort();
+
+  const runSelfTimer = async () => {
+    const controller = new AbortController();
+    driveAbortRef.current = controller;
+    const ready = await countdownTo(
+      performance.now() + driveSettings.timerDelay * 1000,
+      controller.signal,
+      remaining => setDriveStatus({ mode: 'timer', frames: 0, total: null, countdown: remaining })
+    );
+    driveAbortRef.current = null;
+    setDriveStatus(null);
+    if (ready) await takeShotRef.current();
+  };
+
+  const runIntervalometer = async () => {
+    const { interval, shotCount, timelapse } = driveSettings;
+    const controller = new AbortController();
+    driveAbortRef.current = controller;
+    const ids: string[] = [];
+
+    setDriveStatus({ mode: 'interval', frames: 0, total: shotCount, countdown: null });
+    try {
+      await runInterval(shotCount, interval, controller.signal, async () => {
+        setDriveStatus(prev => prev && { ...prev, countdown: null });
+        const id = await takeShotRef.current();
+        if (id) ids.push(id);
+        setDriveStatus(prev => prev && { ...prev, frames: prev.frames + 1 });
+      }, remaining => setDriveStatus(prev => prev && { ...prev, countdown: remaining }));
+    } finally {
+      driveAbortRef.current = null;
+      setDriveStatus(null);
+    }
+
+    if (timelapse && ids.length > 1) await saveTimelapse(ids);
+  };
+
+  const saveTimelapse = async (ids: string[]) => {
+    setIsCapturing(true);
+    try {
+      const images = await Promise.all(ids.map(loadCaptureBlob));
+      const clip = await assembleTimelapse(images, videoSettings, TIMELAPSE_FPS,
+        progress => setProcessing({ label: 'Timelapse', progress }));
+      const firstFrame = await createImageBitmap(images[0]);
+      const newVideo: Omit<CapturedVideo, 'url' | 'thumbnailUrl'> = {
+        id: Date.now().toString(),
+        kind: 'video',
+        timestamp: Date.now(),
+        size: clip.blob.size,
+        duration: clip.duration,
+        width: firstFrame.width,
+        height: firstFrame.height,
+        mimeType: clip.mimeType,
+        metadata: {
+          iso: settings.iso,
+          shutterSpeed: settings.shutterSpeed,
+          aperture: settings.aperture,
+          mode: 'TIMELAPSE',
+          bitrate: videoSettings.bitrate,
+          audio: false
+        }
+      };
+      firstFrame.close();
+      await storeCapture(newVideo, clip.blob, await createThumbnail(images[0]));
+    } catch (e) {
+      console.error("Timelapse assembly failed", e);
     } finally {
       setIsCapturing(false);
+      setProcessing(null);
+    }
+  };
+
+  const handleCapture = async () => {
+    if (mode === CameraMode.VIDEO) {
+      await toggleRecording();
+      return;
+    }
+
+    // The shutter ends a panorama under way
+    if (panoramaAbortRef.current) {
+      panoramaAbortRef.current.abort();
+      return;
+    }
+
+    // The shutter cancels a running self-timer or intervalometer
+    if (driveAbortRef.current) {
+      driveAbortRef.current.abort();
+      return;
+    }
+
+    if (!videoRef.current || !canvasRef.current || isCapturing) return;
+
+    if (driveSettings.mode === 'timer') {
+      await runSelfTimer();
+    } else if (driveSettings.mode === 'interval') {
+      await runIntervalometer();
+    } else {
+      await takeShot();
     }
   };
 
   const handleAiAnalysis = async (photo: CapturedImage) => {
     setIsAnalyzing(true);
-    setAiAnalysis(null);
+    setAiError(null);
+    setSuggestionApplied(false);
     try {
-      const result = await analyzeImageScene(photo.url);
-      setAiAnalysis(result);
+      const image = await loadCaptureBlob(photo.id);
+      const { analysis, fallbackReason } = await runAnalysis({ image, metadata: photo.metadata }, analysisPreference);
+      const record: AnalysisRecord = { timestamp: Date.now(), analysis, fallbackReason };
+      await updatePhotoRecord(photo.id, { analyses: [...photo.analyses ?? [], record] });
     } catch (e) {
-      setAiAnalysis("AI Service Unavailable.");
+      console.error("Scene analysis failed", e);
+      setAiError(e instanceof Error && e.message ? e.message : "Analysis unavailable.");
     } finally {
       setIsAnalyzing(false);
     }
   };
 
+  /**
+   * Persists a photo's analysis history / chat and mirrors the change into
+   * the gallery and the open detail view.
+   */
+  const updatePhotoRecord = async (id: string, changes: CaptureUpdate) => {
+    const merge = (item: GalleryItem): GalleryItem => item.id === id && item.kind === 'photo' ? { ...item, ...changes } : item;
+    setPhotos(prev => prev.map(merge));
+    setSelectedPhoto(prev => prev && merge(prev));
+    await updateCapture(id, changes);
+  };
+
+  // Suggested settings switch the camera to M so metering doesn't override them
+  const applySuggestedSettings = (suggested: SuggestedSettings) => {
+    setExposure(prev => exposureFromSettings(suggested, prev));
+    setManualControls(prev => ({ ...prev, whiteBalance: parseKelvin(suggested.wb) }));
+    setSettings(prev => ({ ...prev, ...suggested }));
+    setSuggestionApplied(true);
+  };
+
+  // Grouped captures (HDR brackets, burst frames) keyed by their primary's id
+  const groupMembers = useMemo(() => {
+    const groups = new Map<string, CapturedImage[]>();
+    for (const photo of photos) {
+      if (photo.kind !== 'photo' || photo.group?.role !== 'member') continue;
+      const members = groups.get(photo.group.id) ?? [];
+      members.push(photo);
+      groups.set(photo.group.id, members);
+    }
+    groups.forEach(members => members.sort((a, b) => (a.group?.index ?? 0) - (b.group?.index ?? 0)));
+    return groups;
+  }, [photos]);
+
+  const getGroupMembers = (item: GalleryItem): CapturedImage[] =>
+    item.kind === 'photo' && item.group?.role === 'primary' ? groupMembers.get(item.id) ?? [] : [];
+
+  // Members sit behind their primary in the grid unless the stack is expanded;
+  // filters and sorting apply to the primaries
+  const galleryPhotos = useMemo(() => applyGalleryView(
+    photos.filter(photo => !(photo.kind === 'photo' && photo.group?.role === 'member')),
+    galleryView
+  ).flatMap(photo =>
+    expandedGroups.has(photo.id) ? [photo, ...groupMembers.get(photo.id) ?? []] : [photo]
+  ), [photos, groupMembers, expandedGroups, galleryView]);
+
+  const galleryModes = useMemo(() => getGalleryModes(photos), [photos]);
+  const selectedItems = galleryPhotos.filter(photo => selectedIds.has(photo.id));
+
+  const toggleGroup = (id: string) => setExpandedGroups(prev => {
+    const next = new Set(prev);
+    if (!next.delete(id)) next.add(id);
+    return next;
+  });
+
+  // The open group (merge + brackets, or burst), for the detail view strip
+  const selectedPrimary = selectedPhoto?.kind === 'photo' && selectedPhoto.group?.role === 'member'
+    ? photos.find(photo => photo.id === selectedPhoto.group?.id)
+    : selectedPhoto;
+  const selectedGroup = selectedPrimary ? [selectedPrimary, ...getGroupMembers(selectedPrimary)] : [];
+
+  const openItem = async (item: GalleryItem) => {
+    setAiError(null);
+    setSuggestionApplied(false);
+    try {
+      const url = item.kind === 'photo' && item.editedAt
+        ? await renderEditedUrl(item)
+        : await loadCaptureUrl(item.id);
+      // Stepping between grouped captures replaces the open item
+      if (selectedPhoto?.url) URL.revokeObjectURL(selectedPhoto.url);
+      setSelectedPhoto({ ...item, url });
+    } catch (e) {
+      console.error("Could not load capture", e);
+    }
+  };
+
+  // Edited photos are shown rendered from the original and their edit stack
+  const renderEditedUrl = async (photo: CapturedImage, maxSize = EDIT_DISPLAY_SIZE): Promise<string> => {
+    const [original, stack] = await Promise.all([loadCaptureBlob(photo.id), loadEditStack(photo.id)]);
+    const canvas = document.createElement('canvas');
+    await renderEdits(original, applyEditSteps(stack?.steps ?? []), canvas, maxSize);
+    return URL.createObjectURL(await canvasToBlob(canvas, 'image/jpeg', 0.92));
+  };
+
+  // `extraSteps` start the session with changes on top of the stored edits
+  const openEditor = async (photo: CapturedImage, extraSteps: EditStep[] = []) => {
+    try {
+      const [original, stack] = await Promise.all([loadCaptureBlob(photo.id), loadEditStack(photo.id)]);
+      setEditing({ photo, original, steps: [...stack?.steps ?? [], ...extraSteps] });
+    } catch (e) {
+      console.error("Could not open editor", e);
+    }
+  };
+
+  /**
+   * Stores (or, for an empty stack, drops) a photo's edits and refreshes its
+   * thumbnail and, if it's open, the detail view.
+   */
+  const applyEdits = async (photo: CapturedImage, steps: EditStep[]) => {
+    try {
+      const original = await loadCaptureBlob(photo.id);
+      let thumbnail: Blob;
+      let editedAt: number | undefined;
+      if (steps.length === 0) {
+        thumbnail = await createThumbnail(original);
+        await deleteEditStack(photo.id, thumbnail);
+      } else {
+        const canvas = document.createElement('canvas');
+        await renderEdits(original, applyEditSteps(steps), canvas, EDIT_THUMBNAIL_RENDER_SIZE);
+        thumbnail = await createThumbnail(canvas);
+        editedAt = Date.now();
+        await saveEditStack({ photoId: photo.id, steps, updatedAt: editedAt }, thumbnail);
+      }
+
+      // The gallery copy may be newer than `photo` (analyses, chat) if the editor was open a while
+      const previous = photos.find(item => item.id === photo.id);
+      const current = previous?.kind === 'photo' ? previous : photo;
+      const updated: CapturedImage = { ...current, thumbnailUrl: URL.createObjectURL(thumbnail), editedAt };
+      setPhotos(prev => prev.map(item => item.id === photo.id ? updated : item));
+      if (previous) URL.revokeObjectURL(previous.thumbnailUrl);
+      if (selectedPhoto?.id === photo.id) await openItem(updated);
+    } catch (e) {
+      console.error("Could not save edits", e);
+    }
+  };
+
+  const handleSaveEdits = async (steps: EditStep[]) => {
+    if (!editing) return;
+    const { photo } = editing;
+    setEditing(null);
+    await applyEdits(photo, steps);
+  };
+
+  // Full-resolution render of an edited photo, tagged with the original's metadata
+  const handleExport = async (photo: CapturedImage) => {
+    setIsExporting(true);
+    try {
+      const [original, stack] = await Promise.all([loadCaptureBlob(photo.id), loadEditStack(photo.id)]);
+      const canvas = document.createElement('canvas');
+      await renderEdits(original, applyEditSteps(stack?.steps ?? []), canvas);
+      const meta = await readJpegMetadata(original);
+      const blob = await writeJpegMetadata(
+        await canvasToBlob(canvas, 'image/jpeg', 0.95),
+        { ...meta, width: canvas.width, height: canvas.height }
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `sony_a1_${photo.id}_edit.jpg`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (e) {
+      console.error("Export failed", e);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const closeItem = () => {
+    if (selectedPhoto?.url) URL.revokeObjectURL(selectedPhoto.url);
+    setSelectedPhoto(null);
+    setAiError(null);
+  };
+
+  // Batch actions act on whole stacks: a selected primary brings its members
+  const withGroupMembers = (items: GalleryItem[]): GalleryItem[] => {
+    const all = new Map<string, GalleryItem>();
+    for (const item of items) {
+      for (const capture of [item, ...getGroupMembers(item)]) all.set(capture.id, capture);
+    }
+    return Array.from(all.values());
+  };
+
+  const commitDelete = useCallback(async () => {
+    const pending = pendingDeleteRef.current;
+    if (!pending) return;
+    pendingDeleteRef.current = null;
+    clearTimeout(pending.timer);
+    setPendingDelete(null);
+    for (const item of pending.items) {
+      try {
+        await deleteCapture(item.id);
+        releaseItemUrls(item);
+      } catch (e) {
+        console.error("Delete failed", e);
+      }
+    }
+  }, []);
+
+  // Anything still waiting to be deleted is deleted when the app goes away
+  useEffect(() => () => { void commitDelete(); }, [commitDelete]);
+
+  /**
+   * Removes the items (and any stacks they head) from the gallery straight
+   * away, but only deletes them from storage once the undo window has passed.
+   */
+  const handleDelete = (items: GalleryItem[]) => {
+    // Starting another delete makes the previous one final
+    void commitDelete();
+    const removed = withGroupMembers(items);
+    if (removed.length === 0) return;
+    const removedIds = new Set(removed.map(capture => capture.id));
+    setPhotos(prev => prev.filter(photo => !removedIds.has(photo.id)));
+    if (selectedPhoto && removedIds.has(selectedPhoto.id)) closeItem();
+    setSelectedIds(new Set());
+    setSelecting(false);
+
+    pendingDeleteRef.current = { items: removed, timer: window.setTimeout(commitDelete, UNDO_DELETE_MS) };
+    setPendingDelete(removed);
+  };
+
+  const undoDelete = () => {
+    const pending = pendingDeleteRef.current;
+    if (!pending) return;
+    pendingDeleteRef.current = null;
+    clearTimeout(pending.timer);
+    setPendingDelete(null);
+    setPhotos(prev => [...prev, ...pending.items].sort((a, b) => b.timestamp - a.timestamp));
+  };
+
+  const toggleSelected = (id: string) => setSelectedIds(prev => {
+    const next = new Set(prev);
+    if (!next.delete(id)) next.add(id);
+    return next;
+  });
+
+  const allSelected = galleryPhotos.length > 0 && selectedItems.length === galleryPhotos.length;
+
+  const toggleSelectAll = () =>
+    setSelectedIds(allSelected ? new Set() : new Set(galleryPhotos.map(photo => photo.id)));
+
+  const exitSelection = () => {
+    setSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleExportSelection = async () => {
+    setIsExporting(true);
+    setBatchProgress(0);
+    try {
+      const archive = await exportArchive(withGroupMembers(selectedItems), (done, total) => setBatchProgress(done / total));
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `sony_a1_export_${Date.now()}.zip`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (e) {
+      console.error("Export failed", e);
+    } finally {
+      setIsExporting(false);
+      setBatchProgress(null);
+    }
+  };
+
+  const handleShareSelection = async () => {
+    setIsExporting(true);
+    try {
+      if (!await shareCaptures(withGroupMembers(selectedItems))) {
+        console.warn("Share cancelled or not supported for these files");
+      }
+    } catch (e) {
+      console.error("Share failed", e);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Bound keys and gamepad buttons. Only the gallery and cheat sheet toggles
+  // work outside the live view; nothing does while bindings are being edited.
+  // Returns whether the action was taken, so ignored keys keep their usual
+  // behaviour (scrolling the gallery, typing, pressing buttons).
+  const handleInputAction = (action: InputAction, pressed: boolean): boolean => {
+    if (bindingsOpen || editing) return false;
+    if (action === 'cheatSheet') {
+      if (pressed) setBindingsOpen(true);
+      return true;
+    }
+    if (action === 'gallery') {
+      if (isRecording) return false;
+      if (!pressed) return true;
+      if (galleryOpen) {
+        closeItem();
+        exitSelection();
+        setGalleryOpen(false);
+      } else {
+        setGalleryOpen(true);
+      }
+      return true;
+    }
+    if (galleryOpen || cameraError) return false;
+
+    switch (action) {
+      case 'shutterHalf':
+        if (pressed && !manualControls.aeAfLock) {
+          halfPressRef.current = true;
+          setManualControls(prev => ({ ...prev, aeAfLock: true }));
+        } else if (!pressed && halfPressRef.current) {
+          halfPressRef.current = false;
+          setManualControls(prev => ({ ...prev, aeAfLock: false }));
+        }
+        return true;
+      case 'shutterFull':
+        if (mode === CameraMode.PHOTO && driveSettings.mode === 'continuous') {
+          if (pressed) handleShutterDown();
+          else handleShutterUp();
+        } else if (pressed) {
+          handleCapture();
+        }
+        return true;
+    }
+
+    if (!pressed) return true;
+    switch (action) {
+      case 'aeAfLock':
+        halfPressRef.current = false;
+        setManualControls(prev => ({ ...prev, aeAfLock: !prev.aeAfLock }));
+        break;
+      case 'modeCycle':
+        if (!isRecording) setMode(MODE_CYCLE[(MODE_CYCLE.indexOf(mode) + 1) % MODE_CYCLE.length]);
+        break;
+      case 'grid':
+        setFraming(prev => ({ ...prev, guide: nextGuide(prev.guide) }));
+        break;
+      case 'evUp':
+      case 'evDown':
+        if (exposure.program !== 'M' || exposure.iso === 'AUTO') {
+          setExposure(prev => ({ ...prev, compensation: stepCompensation(prev.compensation, action === 'evUp' ? 1 : -1) }));
+        }
+        break;
+      case 'isoUp':
+      case 'isoDown':
+        if (exposure.program === 'M') {
+          setExposure(prev => ({ ...prev, iso: stepIso(prev.iso, action === 'isoUp' ? 1 : -1) }));
+        }
+        break;
+    }
+    return true;
+  };
+
+  const inputActionRef = useRef(handleInputAction);
+  inputActionRef.current = handleInputAction;
+
+  useEffect(
+    () => attachInputBindings(inputBindings, (action, pressed) => inputActionRef.current(action, pressed)),
+    [inputBindings]
+  );
+
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden flex flex-col">
       {/* Hidden Canvas for Processing */}
@@ -197,12 +1410,35 @@ const App: React.FC = () => {
                     <p className="font-mono text-xs text-zinc-400">{cameraError}</p>
                 </div>
                 <button 
-                    onClick={() => startCamera()}
+                    onClick={() => startCamera(cameraSelection, sensorSource)}
                     className="flex items-center gap-2 px-6 py-3 bg-zinc-800 border border-zinc-600 rounded hover:bg-zinc-700 transition-colors"
                 >
                     <RefreshCw size={18} />
                     <span>RETRY INITIALIZATION</span>
                 </button>
+                {/* No camera: run on a virtual sensor instead */}
+                <div className="flex items-center gap-2 font-mono text-xs">
+                    <button
+                        onClick={() => setSensorSource({ kind: 'pattern', pattern: 'bars', noise: 0 })}
+                        className="flex items-center gap-2 px-4 py-2 bg-zinc-900 border border-zinc-700 rounded hover:bg-zinc-800"
+                    >
+                        <Tv size={14} /> TEST PATTERN
+                    </button>
+                    <label className="flex items-center gap-2 px-4 py-2 bg-zinc-900 border border-zinc-700 rounded hover:bg-zinc-800 cursor-pointer">
+                        <FileVideo size={14} /> OPEN FILES
+                        <input
+                            type="file"
+                            accept="image/*,video/*"
+                            multiple
+                            className="hidden"
+                            onChange={(e) => {
+                                const source = sourceFromFiles(Array.from(e.target.files ?? []));
+                                if (source) setSensorSource(source);
+                                e.target.value = '';
+                            }}
+                        />
+                    </label>
+                </div>
             </div>
         )}
 
@@ -212,41 +1448,84 @@ const App: React.FC = () => {
           autoPlay 
           playsInline 
           muted // Critical for mobile autoplay
-          className={`h-full w-full object-cover brightness-105 contrast-[1.1] saturate-[1.1] transition-opacity duration-500 ${isLoading ? 'opacity-0' : 'opacity-100'}`} 
+          className={`h-full w-full object-cover transition-opacity duration-500 ${isLoading ? 'opacity-0' : 'opacity-100'}`} 
         />
         
         {/* Overlays (Only show when camera is active and no error) */}
         {!isLoading && !cameraError && (
             <>
-                {/* Grid Overlay */}
-                {gridEnabled && (
-                  <div className="absolute inset-0 pointer-events-none opacity-40">
-                     <div className="w-full h-full border border-white/20 grid grid-cols-3 grid-rows-3">
-                         <div className="border-r border-b border-white/20"></div>
-                         <div className="border-r border-b border-white/20"></div>
-                         <div className="border-b border-white/20"></div>
-                         <div className="border-r border-b border-white/20"></div>
-                         <div className="border-r border-b border-white/20"></div>
-                         <div className="border-b border-white/20"></div>
-                         <div className="border-r border-white/20"></div>
-                         <div className="border-r border-white/20"></div>
-                         <div></div>
-                     </div>
-                  </div>
+                {/* Graded Preview */}
+                {!galleryOpen && (
+                  <LutPreview
+                    videoRef={videoRef}
+                    lut={activeProfile.lut}
+                    interpolation={profileSettings.interpolation}
+                    balance={simulatedBalance}
+                  />
                 )}
 
-                {/* Focus Box (Center) */}
+                {/* Zebra / Peaking Overlay */}
                 {!galleryOpen && (
-                   <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-24 h-24 border border-white/50 corner-marks focus-box pointer-events-none">
-                      <div className="absolute top-0 left-0 w-2 h-2 border-t-2 border-l-2 border-white"></div>
-                      <div className="absolute top-0 right-0 w-2 h-2 border-t-2 border-r-2 border-white"></div>
-                      <div className="absolute bottom-0 left-0 w-2 h-2 border-b-2 border-l-2 border-white"></div>
-                      <div className="absolute bottom-0 right-0 w-2 h-2 border-b-2 border-r-2 border-white"></div>
-                   </div>
+                  <AssistOverlay videoRef={videoRef} settings={assists} onHistogram={setHistogram} />
+                )}
+
+                {/* Composition Guides / Aspect Mask */}
+                {!galleryOpen && (
+                  <FramingOverlay videoRef={videoRef} settings={framing} cropped={mode !== CameraMode.VIDEO && mode !== CameraMode.PANORAMA} />
+                )}
+
+                {/* Electronic Level */}
+                {framing.level && !galleryOpen && <LevelIndicator />}
+
+                {/* Focus Box (tap to move, long press for AE/AF lock) */}
+                {!galleryOpen && (
+                  <FocusArea videoRef={videoRef} controls={manualControls} onChange={setManualControls} />
+                )}
+
+                {/* Night Exposure Progress / Live Accumulation */}
+                {processing && !galleryOpen && mode === CameraMode.NIGHT && (
+                  <LongExposureOverlay preview={nightPreview} progress={processing} duration={nightSettings.duration} />
+                )}
+
+                {/* Panorama Pan Guide */}
+                {mode === CameraMode.PANORAMA && !galleryOpen && (!isCapturing || panoramaGuide) && (
+                  <PanoramaGuide videoRef={videoRef} direction={panoramaSettings.direction} guide={panoramaGuide} />
+                )}
+
+                {/* Processing Progress */}
+                {processing && !galleryOpen && mode !== CameraMode.NIGHT && (
+                  <div className="absolute top-16 left-1/2 -translate-x-1/2 z-10 w-48 bg-black/60 rounded px-3 py-2 font-mono text-[10px] text-white pointer-events-none">
+                    <div className="flex justify-between mb-1 uppercase">
+                      <span>{processing.label}</span>
+                      <span>{Math.round(processing.progress * 100)}%</span>
+                    </div>
+                    <div className="h-1 bg-zinc-700 rounded overflow-hidden">
+                      <div className="h-full bg-orange-500 transition-all" style={{ width: `${processing.progress * 100}%` }}></div>
+                    </div>
+                  </div>
                 )}
 
                 {/* OSD Layer */}
-                {!galleryOpen && <OSD settings={settings} mode={mode} />}
+                {!galleryOpen && (
+                  <OSD
+                    settings={settings}
+                    mode={mode}
+                    exposure={exposure}
+                    isRecording={isRecording}
+                    recordingTime={recordingTime}
+                    histogram={assists.histogram ? histogram : null}
+                    profileName={activeProfile.name}
+                    manualControls={manualControls}
+                    controlStatus={controlStatus}
+                    status={deviceStatus}
+                    fileFormat={fileFormat}
+                    hiResSize={hiResSize}
+                    driveLabel={mode === CameraMode.VIDEO ? null : formatDriveMode(driveSettings)}
+                    driveStatus={driveStatus}
+                    bufferedFrames={bufferedFrames}
+                    bufferFill={bufferFill}
+                  />
+                )}
             </>
         )}
       </div>
@@ -256,12 +1535,58 @@ const App: React.FC = () => {
         <Controls 
           mode={mode} 
           setMode={setMode} 
-          onCapture={handleCapture} 
-          isCapturing={isCapturing}
+          onCapture={handleCapture}
+          onShutterDown={handleShutterDown}
+          onShutterUp={handleShutterUp}
+          driveSettings={driveSettings}
+          onDriveSettingsChange={setDriveSettings}
+          driveActive={(driveStatus !== null && driveStatus.mode !== 'continuous') || panoramaGuide !== null} 
+          isCapturing={isCapturing || recordingStarting}
+          isRecording={isRecording}
+          videoSettings={videoSettings}
+          videoFormats={VIDEO_FORMATS}
+          onVideoSettingsChange={setVideoSettings}
+          stackingSettings={stackingSettings}
+          onStackingSettingsChange={setStackingSettings}
+          hdrSettings={hdrSettings}
+          onHdrSettingsChange={setHdrSettings}
+          nightSettings={nightSettings}
+          onNightSettingsChange={setNightSettings}
+          panoramaSettings={panoramaSettings}
+          onPanoramaSettingsChange={setPanoramaSettings}
+          exposure={exposure}
+          onExposureChange={setExposure}
+          manualControls={manualControls}
+          capabilities={capabilities}
+          onManualControlsChange={setManualControls}
+          assists={assists}
+          onAssistsChange={setAssists}
+          profiles={profiles}
+          profileSettings={profileSettings}
+          onProfileSettingsChange={setProfileSettings}
+          onImportLut={handleImportLut}
+          lutError={lutError}
+          onDeleteLut={handleDeleteLut}
           onGalleryClick={() => setGalleryOpen(true)}
-          lastPhotoUrl={photos[0]?.url}
-          gridEnabled={gridEnabled}
-          toggleGrid={() => setGridEnabled(!gridEnabled)}
+          lastPhotoUrl={galleryPhotos[0]?.thumbnailUrl}
+          devices={devices}
+          cameraSelection={cameraSelection}
+          activeFormat={activeFormat}
+          onCameraSelectionChange={setCameraSelection}
+          sensorSource={sensorSource}
+          onSensorSourceChange={setSensorSource}
+          framing={framing}
+          onFramingChange={setFraming}
+          onShowBindings={() => setBindingsOpen(true)}
+        />
+      )}
+
+      {/* Keyboard / Gamepad Cheat Sheet */}
+      {bindingsOpen && (
+        <BindingsSheet
+          bindings={inputBindings}
+          onChange={setInputBindings}
+          onClose={() => setBindingsOpen(false)}
         />
       )}
 
@@ -269,86 +1594,397 @@ const App: React.FC = () => {
       {galleryOpen && (
         <div className="absolute inset-0 z-50 bg-black flex flex-col">
           {/* Gallery Header */}
-          <div className="flex items-center justify-between p-4 bg-zinc-900 border-b border-zinc-800">
-            <h2 className="text-white font-bold text-lg tracking-wider">MEDIA</h2>
-            <button onClick={() => { setGalleryOpen(false); setSelectedPhoto(null); setAiAnalysis(null); }} className="text-white p-2">
-              <X />
-            </button>
-          </div>
+          {selecting && !selectedPhoto ? (
+            <div className="flex items-center justify-between p-4 bg-zinc-900 border-b border-zinc-800">
+              <h2 className="text-white font-bold text-lg tracking-wider">
+                {selectedItems.length} SELECTED
+                {batchProgress !== null && <span className="ml-2 text-xs font-mono text-orange-500">{Math.round(batchProgress * 100)}%</span>}
+              </h2>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={toggleSelectAll}
+                  disabled={galleryPhotos.length === 0}
+                  className="px-2 py-1 text-xs font-mono font-bold text-white border border-zinc-700 rounded disabled:opacity-40"
+                >
+                  {allSelected ? 'NONE' : 'ALL'}
+                </button>
+                {SHARE_SUPPORTED && (
+                  <button
+                    onClick={handleShareSelection}
+                    disabled={selectedItems.length === 0 || isExporting}
+                    title="Share"
+                    className="text-white p-2 disabled:opacity-40"
+                  >
+                    <Share2 />
+                  </button>
+                )}
+                <button
+                  onClick={handleExportSelection}
+                  disabled={selectedItems.length === 0 || isExporting}
+                  title="Export ZIP"
+                  className="text-white p-2 disabled:opacity-40"
+                >
+                  {isExporting ? <Loader2 className="animate-spin" /> : <Archive />}
+                </button>
+                <button
+                  onClick={() => handleDelete(selectedItems)}
+                  disabled={selectedItems.length === 0 || isExporting}
+                  title="Delete"
+                  className="text-white p-2 hover:text-red-500 disabled:opacity-40"
+                >
+                  <Trash2 />
+                </button>
+                <button onClick={exitSelection} className="text-white p-2">
+                  <X />
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between p-4 bg-zinc-900 border-b border-zinc-800">
+              <h2 className="text-white font-bold text-lg tracking-wider">MEDIA</h2>
+              <div className="flex items-center gap-2">
+                {!selectedPhoto && (
+                  <>
+                    <button
+                      onClick={() => setFiltersOpen(open => !open)}
+                      title="Sort and filter"
+                      className={`p-2 ${filtersOpen || isGalleryFiltered(galleryView) ? 'text-orange-500' : 'text-white'}`}
+                    >
+                      <ListFilter />
+                    </button>
+                    <button onClick={() => setSelecting(true)} title="Select" className="text-white p-2">
+                      <CheckSquare />
+                    </button>
+                  </>
+                )}
+                <label className="text-white p-2 cursor-pointer" title="Import images">
+                  <Upload />
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      if (e.target.files) handleImport(e.target.files);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                <button onClick={() => { closeItem(); exitSelection(); setGalleryOpen(false); }} className="text-white p-2">
+                  <X />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Sort / Filter */}
+          {filtersOpen && !selectedPhoto && (
+            <div className="flex flex-wrap items-center gap-2 px-4 py-2 bg-zinc-900 border-b border-zinc-800 text-[10px] font-mono font-bold uppercase">
+              <select
+                value={galleryView.sort}
+                onChange={(e) => setGalleryView(view => ({ ...view, sort: e.target.value as GalleryView['sort'] }))}
+                className="bg-black text-white border border-zinc-700 rounded px-2 py-1"
+              >
+                {GALLERY_SORTS.map(({ sort, label }) => <option key={sort} value={sort}>{label}</option>)}
+              </select>
+              <select
+                value={galleryView.mode ?? ''}
+                onChange={(e) => setGalleryView(view => ({ ...view, mode: e.target.value || null }))}
+                className="bg-black text-white border border-zinc-700 rounded px-2 py-1"
+              >
+                <option value="">All Modes</option>
+                {galleryModes.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+              </select>
+              <select
+                value={galleryView.dateRange}
+                onChange={(e) => setGalleryView(view => ({ ...view, dateRange: e.target.value as GalleryView['dateRange'] }))}
+                className="bg-black text-white border border-zinc-700 rounded px-2 py-1"
+              >
+                {GALLERY_DATE_RANGES.map(({ range, label }) => <option key={range} value={range}>{label}</option>)}
+              </select>
+              <button
+                onClick={() => setGalleryView(view => ({ ...view, enhancedOnly: !view.enhancedOnly }))}
+                className={`px-2 py-1 rounded border ${galleryView.enhancedOnly ? 'bg-orange-600 border-orange-600 text-white' : 'border-zinc-700 text-zinc-400'}`}
+              >
+                PRO Only
+              </button>
+              {isGalleryFiltered(galleryView) && (
+                <button
+                  onClick={() => setGalleryView(view => ({ ...DEFAULT_GALLERY_VIEW, sort: view.sort }))}
+                  className="px-2 py-1 text-zinc-400"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+          )}
 
           {/* Main View Area */}
           <div className="flex-1 overflow-y-auto no-scrollbar p-1">
             {selectedPhoto ? (
               <div className="flex flex-col h-full">
                 <div className="flex-1 flex items-center justify-center bg-zinc-950 relative">
-                   <img src={selectedPhoto.url} className="max-h-full max-w-full object-contain" alt="Selected" />
+                   {selectedPhoto.kind === 'video' ? (
+                     <video
+                       src={selectedPhoto.url}
+                       poster={selectedPhoto.thumbnailUrl}
+                       controls
+                       playsInline
+                       className="max-h-full max-w-full object-contain"
+                     />
+                   ) : (
+                     <img src={selectedPhoto.url} className="max-h-full max-w-full object-contain" alt="Selected" />
+                   )}
                    
                    {/* Info Overlay */}
-                   <div className="absolute bottom-4 left-4 bg-black/60 backdrop-blur px-3 py-2 rounded text-xs font-mono text-zinc-300">
+                   <div className="absolute bottom-4 left-4 bg-black/60 backdrop-blur px-3 py-2 rounded text-xs font-mono text-zinc-300 pointer-events-none">
                       <div>{selectedPhoto.metadata.mode} | {selectedPhoto.metadata.iso} | {selectedPhoto.metadata.shutterSpeed}</div>
+                      {selectedPhoto.kind === 'photo' && selectedPhoto.metadata.nightBlend && (
+                        <div>NIGHT {selectedPhoto.metadata.shutterSpeed} | {selectedPhoto.metadata.stackCount} FRAMES | {selectedPhoto.metadata.nightBlend === 'trails' ? 'LIGHT TRAILS' : 'AVERAGE'}</div>
+                      )}
+                      {selectedPhoto.kind === 'photo' && selectedPhoto.metadata.stackCount && !selectedPhoto.metadata.nightBlend && (
+                        <div>STACK {selectedPhoto.metadata.stackCount}x {selectedPhoto.metadata.stackMethod?.toUpperCase()}</div>
+                      )}
+                      {selectedPhoto.kind === 'photo' && selectedPhoto.metadata.superResScale && (
+                        <div>HI-RES {selectedPhoto.metadata.superResScale}x | {selectedPhoto.metadata.superResFrames} FRAMES | {selectedPhoto.width}x{selectedPhoto.height}</div>
+                      )}
+                      {selectedPhoto.kind === 'photo' && selectedPhoto.metadata.bracketCount && (
+                        <div>HDR {selectedPhoto.metadata.bracketCount}x ±{selectedPhoto.metadata.bracketStep}EV</div>
+                      )}
+                      {selectedPhoto.kind === 'photo' && selectedPhoto.group?.kind === 'hdr' && selectedPhoto.group.role === 'member' && (
+                        <div>BRACKET {selectedPhoto.group.index} | {selectedPhoto.metadata.ev} EV</div>
+                      )}
+                      {selectedPhoto.kind === 'photo' && selectedPhoto.metadata.panoramaFrames && (
+                        <div>PANO {selectedPhoto.metadata.panoramaFrames} FRAMES | {selectedPhoto.metadata.panoramaFov}° | {selectedPhoto.width}x{selectedPhoto.height}</div>
+                      )}
+                      {selectedPhoto.kind === 'photo' && selectedPhoto.group?.kind === 'panorama' && selectedPhoto.group.role === 'member' && (
+                        <div>PANO FRAME {selectedPhoto.group.index}/{selectedGroup.length - 1}</div>
+                      )}
+                      {selectedPhoto.kind === 'photo' && selectedPhoto.group?.kind === 'burst' && (
+                        <div>BURST {selectedPhoto.group.index + 1}/{selectedGroup.length}</div>
+                      )}
+                      {selectedPhoto.kind === 'photo' && selectedPhoto.editedAt && (
+                        <div className="text-orange-400">EDITED</div>
+                      )}
+                      {selectedPhoto.kind === 'photo' && selectedPhoto.metadata.profile && (
+                        <div>PP {selectedPhoto.metadata.profile}</div>
+                      )}
+                      {selectedPhoto.kind === 'video' && (
+                        <div>{formatTimecode(selectedPhoto.duration)} | {selectedPhoto.mimeType.split(';')[0]} | {selectedPhoto.metadata.bitrate / 1_000_000} Mbps</div>
+                      )}
                       <div className="text-zinc-500">{new Date(selectedPhoto.timestamp).toLocaleString()}</div>
                    </div>
                 </div>
 
+                {/* Group Strip */}
+                {selectedGroup.length > 1 && (
+                  <div className="flex gap-1 p-2 bg-zinc-950 border-t border-zinc-800 overflow-x-auto no-scrollbar">
+                    {selectedGroup.map(item => (
+                      <button
+                        key={item.id}
+                        onClick={() => openItem(item)}
+                        className={`relative w-14 h-14 flex-shrink-0 rounded overflow-hidden border-2 ${item.id === selectedPhoto.id ? 'border-orange-500' : 'border-transparent'}`}
+                      >
+                        <img src={item.thumbnailUrl} className="w-full h-full object-cover" alt="bracket" />
+                        <span className="absolute bottom-0 inset-x-0 bg-black/70 text-[9px] font-mono text-white text-center">
+                          {item.kind === 'photo' && item.group?.kind === 'burst'
+                            ? item.group.index + 1
+                            : item.kind === 'photo' && item.group?.kind === 'panorama'
+                              ? item.group.role === 'member' ? item.group.index : 'PANO'
+                              : item.kind === 'photo' && item.group?.role === 'member' ? item.metadata.ev : 'HDR'}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+
                 {/* AI Analysis Panel */}
                 <div className="bg-zinc-900 p-6 border-t border-zinc-800 min-h-[200px]">
                     <div className="flex items-center justify-between mb-4">
                         <h3 className="text-orange-500 font-bold flex items-center gap-2">
                             <Wand2 size={18} />
                             SONY AI ENGINE
+                            <select
+                                value={analysisPreference}
+                                onChange={(e) => setAnalysisPreference(e.target.value as AnalysisPreference)}
+                                disabled={isAnalyzing}
+                                title="Analysis provider"
+                                className="bg-zinc-800 text-zinc-300 text-[10px] font-mono border border-zinc-700 rounded px-1 py-0.5"
+                            >
+                                {ANALYSIS_PREFERENCES.map(({ preference, label }) => (
+                                  <option key={preference} value={preference}>{label}</option>
+                                ))}
+                            </select>
                         </h3>
                         <div className="flex gap-2">
-                            {/* Download */}
-                            <a href={selectedPhoto.url} download={`sony_a1_${selectedPhoto.id}.jpg`} className="p-2 bg-zinc-800 rounded-full text-white hover:bg-zinc-700">
-                                <Download size={20}/>
-                            </a>
-                            <button 
-                                onClick={() => handleAiAnalysis(selectedPhoto)}
-                                disabled={isAnalyzing}
-                                className="flex items-center gap-2 px-4 py-2 bg-white text-black font-bold text-sm rounded hover:bg-zinc-200 disabled:opacity-50"
+                            {/* Delete */}
+                            <button
+                                onClick={() => handleDelete([selectedPhoto])}
+                                className="p-2 bg-zinc-800 rounded-full text-white hover:bg-red-700"
                             >
-                                {isAnalyzing ? <Loader2 className="animate-spin" size={16}/> : <RefreshCcw size={16}/>}
-                                {aiAnalysis ? 'RE-ANALYZE' : 'ANALYZE SCENE'}
+                                <Trash2 size={20}/>
                             </button>
+                            {/* Download */}
+                            {selectedPhoto.kind === 'photo' && selectedPhoto.editedAt ? (
+                              <button
+                                  onClick={() => handleExport(selectedPhoto)}
+                                  disabled={isExporting}
+                                  className="p-2 bg-zinc-800 rounded-full text-white hover:bg-zinc-700 disabled:opacity-50"
+                              >
+                                  {isExporting ? <Loader2 className="animate-spin" size={20}/> : <Download size={20}/>}
+                              </button>
+                            ) : (
+                              <a
+                                  href={selectedPhoto.url}
+                                  download={getCaptureFileName(selectedPhoto)}
+                                  className="p-2 bg-zinc-800 rounded-full text-white hover:bg-zinc-700"
+                              >
+                                  <Download size={20}/>
+                              </a>
+                            )}
+                            {selectedPhoto.kind === 'photo' && (
+                              <button
+                                  onClick={() => openEditor(selectedPhoto)}
+                                  title="Edit"
+                                  className="p-2 bg-zinc-800 rounded-full text-white hover:bg-zinc-700"
+                              >
+                                  <SlidersHorizontal size={20}/>
+                              </button>
+                            )}
+                            {selectedPhoto.kind === 'photo' && copiedEdits && (
+                              <button
+                                  onClick={() => applyEdits(selectedPhoto, copiedEdits)}
+                                  title="Paste edits"
+                                  className="p-2 bg-zinc-800 rounded-full text-white hover:bg-zinc-700"
+                              >
+                                  <ClipboardPaste size={20}/>
+                              </button>
+                            )}
+                            {selectedPhoto.kind === 'photo' && (
+                              <button 
+                                  onClick={() => handleAiAnalysis(selectedPhoto)}
+                                  disabled={isAnalyzing}
+                                  className="flex items-center gap-2 px-4 py-2 bg-white text-black font-bold text-sm rounded hover:bg-zinc-200 disabled:opacity-50"
+                              >
+                                  {isAnalyzing ? <Loader2 className="animate-spin" size={16}/> : <RefreshCcw size={16}/>}
+                                  {selectedPhoto.analyses?.length ? 'RE-ANALYZE' : 'ANALYZE SCENE'}
+                              </button>
+                            )}
                         </div>
                     </div>
                     
-                    <div className="text-sm text-zinc-300 leading-relaxed font-mono bg-black/30 p-4 rounded border border-zinc-700/50">
-                        {isAnalyzing ? (
-                            <span className="flex items-center gap-2 text-zinc-500">
-                                <Loader2 className="animate-spin" size={14}/> Processing neural engine...
-                            </span>
-                        ) : aiAnalysis ? (
-                            aiAnalysis
-                        ) : (
-                            <span className="text-zinc-600">Tap 'Analyze Scene' to get professional composition insights and EXIF data extraction via Gemini AI.</span>
-                        )}
-                    </div>
+                    {selectedPhoto.kind === 'photo' && (
+                      <AnalysisPanel
+                        key={selectedPhoto.id}
+                        photo={selectedPhoto}
+                        isAnalyzing={isAnalyzing}
+                        error={aiError}
+                        suggestionApplied={suggestionApplied}
+                        chatAvailable={getAnalysisProvider('gemini').isAvailable()}
+                        onApplySettings={applySuggestedSettings}
+                        onEditCrop={(crop) => openEditor(selectedPhoto, [
+                          // The crop is relative to the unrotated original
+                          { tool: 'rotation', value: 0 },
+                          { tool: 'straighten', value: 0 },
+                          { tool: 'aspect', value: 'free' },
+                          { tool: 'crop', value: crop }
+                        ])}
+                        onChatChange={(chat) => {
+                          updatePhotoRecord(selectedPhoto.id, { chat })
+                            .catch(err => console.error("Could not save conversation", err));
+                        }}
+                      />
+                    )}
                 </div>
               </div>
             ) : (
               // Grid View
               <div className="grid grid-cols-3 gap-0.5">
-                {photos.map(photo => (
-                  <button 
-                    key={photo.id} 
-                    onClick={() => setSelectedPhoto(photo)}
-                    className="aspect-square relative group overflow-hidden"
+                {galleryPhotos.map(photo => {
+                  const stackSize = getGroupMembers(photo).length;
+                  const isMember = photo.kind === 'photo' && photo.group?.role === 'member';
+                  return (
+                  <div
+                    key={photo.id}
+                    className={`aspect-square relative group overflow-hidden ${isMember ? 'ring-2 ring-inset ring-orange-500/60' : ''}`}
                   >
-                    <img src={photo.url} className="w-full h-full object-cover transition-transform group-hover:scale-105" alt="thumb" />
-                    {photo.isEnhanced && (
-                        <div className="absolute top-1 right-1 bg-orange-600 text-[10px] font-bold px-1 rounded text-white">PRO</div>
+                    <button
+                      onClick={() => selecting ? toggleSelected(photo.id) : openItem(photo)}
+                      className="w-full h-full"
+                    >
+                      <img
+                        src={photo.thumbnailUrl}
+                        loading="lazy"
+                        className="w-full h-full object-cover transition-transform group-hover:scale-105"
+                        alt="thumb"
+                      />
+                    </button>
+                    {selecting && (
+                        <div className={`absolute inset-0 pointer-events-none flex items-center justify-center ${selectedIds.has(photo.id) ? 'bg-orange-500/30 ring-2 ring-inset ring-orange-500' : 'bg-black/20'}`}>
+                          {selectedIds.has(photo.id) && <CheckCircle2 className="text-white drop-shadow" size={28} />}
+                        </div>
                     )}
-                  </button>
-                ))}
-                {photos.length === 0 && (
+                    {stackSize > 0 && (
+                        <button
+                          onClick={() => toggleGroup(photo.id)}
+                          title={expandedGroups.has(photo.id) ? 'Collapse stack' : 'Expand stack'}
+                          className={`absolute bottom-1 left-1 flex items-center gap-1 text-[10px] font-mono font-bold px-1 rounded text-white ${expandedGroups.has(photo.id) ? 'bg-orange-600' : 'bg-black/70'}`}
+                        >
+                          <Layers size={10} />
+                          {stackSize + 1}
+                        </button>
+                    )}
+                    {photo.kind === 'photo' && photo.isEnhanced && (
+                        <div className="absolute top-1 right-1 bg-orange-600 text-[10px] font-bold px-1 rounded text-white">
+                          {photo.metadata.panoramaFrames ? 'PANO' : photo.metadata.nightBlend ? 'NIGHT' : photo.metadata.bracketCount ? 'HDR' : 'PRO'}
+                        </div>
+                    )}
+                    {photo.kind === 'photo' && photo.editedAt && (
+                        <div className="absolute top-1 left-1 bg-black/70 p-0.5 rounded text-white" title="Edited">
+                          <SlidersHorizontal size={10} />
+                        </div>
+                    )}
+                    {photo.kind === 'video' && (
+                        <div className="absolute bottom-1 right-1 flex items-center gap-1 bg-black/70 text-[10px] font-mono font-bold px-1 rounded text-white">
+                          <Video size={10} />
+                          {formatTimecode(photo.duration)}
+                        </div>
+                    )}
+                  </div>
+                  );
+                })}
+                {galleryPhotos.length === 0 && (
                     <div className="col-span-3 flex flex-col items-center justify-center py-20 text-zinc-600">
-                        <p>No images captured</p>
+                        <p>{photos.length > 0 && isGalleryFiltered(galleryView) ? 'No captures match the filters' : 'No images captured'}</p>
                     </div>
                 )}
               </div>
             )}
           </div>
+
+          {/* Undo Delete */}
+          {pendingDelete && (
+            <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-[55] flex items-center gap-4 bg-zinc-800 border border-zinc-700 rounded-full pl-4 pr-2 py-2 text-sm text-white shadow-lg">
+              <span>Deleted {pendingDelete.length} {pendingDelete.length === 1 ? 'item' : 'items'}</span>
+              <button
+                onClick={undoDelete}
+                className="flex items-center gap-1 px-3 py-1 rounded-full bg-orange-600 font-bold text-xs"
+              >
+                <Undo2 size={14} />
+                UNDO
+              </button>
+            </div>
+          )}
+
+          {editing && (
+            <PhotoEditor
+              original={editing.original}
+              initialSteps={editing.steps}
+              onSave={handleSaveEdits}
+              onCancel={() => setEditing(null)}
+              onCopy={setCopiedEdits}
+            />
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { CapturedImage, ChatMessage, CropRect, SceneAnalysis, SuggestedSettings } from '../types';
+import { formatColorCast, getAnalysisProvider } from '../services/analysisProvider';
+import PhotoChat from './PhotoChat';
+import { Crop, History, Loader2 } from 'lucide-react';
+
+interface AnalysisPanelProps {
+  photo: CapturedImage;
+  isAnalyzing: boolean;
+  error: string | null;
+  suggestionApplied: boolean;
+  chatAvailable: boolean;
+  onApplySettings: (settings: SuggestedSettings) => void;
+  onEditCrop: (crop: CropRect) => void;
+  onChatChange: (chat: ChatMessage[]) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Summary of an analysis handed to the chat as context
+const describeAnalysis = (analysis: SceneAnalysis): string =>
+  `${analysis.critique} Composition ${analysis.compositionScore}/10. Suggested ISO ${analysis.settings.iso}, ` +
+  `${analysis.settings.shutterSpeed}, ${analysis.settings.aperture}, WB ${analysis.settings.wb}.`;
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
+  photo,
+  isAnalyzing,
+  error,
+  suggestionApplied,
+  chatAvailable,
+  onApplySettings,
+  onEditCrop,
+  onChatChange
+}) => {
+  const history = photo.analyses ?? [];
+  // Index of the analysis being viewed; null follows the latest
+  const [viewIndex, setViewIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    setViewIndex(null);
+  }, [history.length]);
+
+  const record = history[viewIndex ?? history.length - 1];
+  const analysis = record?.analysis;
+  const latest = history[history.length - 1]?.analysis;
+
+  return (
+    <>
+      <div className="text-sm text-zinc-300 leading-relaxed font-mono bg-black/30 p-4 rounded border border-zinc-700/50">
+        {isAnalyzing ? (
+          <span className="flex items-center gap-2 text-zinc-500">
+            <Loader2 className="animate-spin" size={14}/> Processing neural engine...
+          </span>
+        ) : error ? (
+          <span className="text-red-400">{error}</span>
+        ) : analysis ? (
+          <div className="flex flex-col gap-4">
+            <div className="text-[10px] text-zinc-500">
+              {getAnalysisProvider(analysis.provider).label.toUpperCase()} · {formatTime(record.timestamp)}
+              {record.fallbackReason && <span className="text-yellow-500"> · FALLBACK ({record.fallbackReason})</span>}
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <div className="grid grid-cols-4 gap-2 flex-1 text-center">
+                {[
+                  ['ISO', analysis.settings.iso],
+                  ['SHUTTER', analysis.settings.shutterSpeed],
+                  ['APERTURE', analysis.settings.aperture],
+                  ['WB', analysis.settings.wb]
+                ].map(([label, value]) => (
+                  <div key={label} className="bg-zinc-800/60 rounded px-2 py-1">
+                    <div className="text-[10px] text-zinc-500">{label}</div>
+                    <div className="text-white font-bold">{value}</div>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => onApplySettings(analysis.settings)}
+                title="Use these settings (M) for the next shot"
+                className={`px-3 py-2 text-xs font-bold rounded ${suggestionApplied ? 'bg-zinc-800 text-orange-500' : 'bg-orange-600 text-white hover:bg-orange-500'}`}
+              >
+                {suggestionApplied ? 'APPLIED' : 'APPLY'}
+              </button>
+            </div>
+
+            <div>
+              <div className="flex justify-between text-[10px] text-zinc-500 mb-1">
+                <span>COMPOSITION</span>
+                <span className="text-white font-bold">{analysis.compositionScore}/10</span>
+              </div>
+              <div className="h-1.5 bg-zinc-800 rounded">
+                <div className="h-full bg-orange-500 rounded" style={{ width: `${analysis.compositionScore * 10}%` }} />
+              </div>
+            </div>
+
+            {analysis.subjects.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {analysis.subjects.map(subject => (
+                  <span key={subject} className="px-2 py-0.5 text-xs bg-zinc-800 rounded-full text-zinc-300">{subject}</span>
+                ))}
+              </div>
+            )}
+
+            <p>{analysis.critique}</p>
+
+            {analysis.diagnostics && (
+              <div className="grid grid-cols-3 gap-2 text-[10px]">
+                {[
+                  ['CLIP HI', `${analysis.diagnostics.clippedHighlights}%`],
+                  ['CLIP LO', `${analysis.diagnostics.clippedShadows}%`],
+                  ['SHARP', `${analysis.diagnostics.sharpnessScore}/100`],
+                  ['NOISE', `σ ${analysis.diagnostics.noise}`],
+                  ['CAST', formatColorCast(analysis.diagnostics.colorCast)],
+                  ['TILT', analysis.diagnostics.horizonTilt === null ? '--' : `${analysis.diagnostics.horizonTilt}°`]
+                ].map(([label, value]) => (
+                  <div key={label} className="flex justify-between bg-zinc-800/60 rounded px-2 py-1">
+                    <span className="text-zinc-500">{label}</span>
+                    <span className="text-white">{value}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {analysis.crop && (
+              <div className="flex items-center justify-between text-xs text-zinc-400">
+                <span>
+                  SUGGESTED CROP {Math.round(analysis.crop.width * 100)}% x {Math.round(analysis.crop.height * 100)}%
+                </span>
+                <button
+                  onClick={() => analysis.crop && onEditCrop(analysis.crop)}
+                  className="flex items-center gap-1 px-2 py-1 rounded bg-zinc-800 text-white hover:bg-zinc-700"
+                >
+                  <Crop size={12}/> OPEN IN EDITOR
+                </button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <span className="text-zinc-600">Tap 'Analyze Scene' to get professional composition insights and EXIF data extraction via Gemini AI, or on-device analysis offline.</span>
+        )}
+      </div>
+
+      {history.length > 1 && (
+        <div className="flex items-center gap-1 mt-2 overflow-x-auto no-scrollbar text-[10px] font-mono">
+          <History size={12} className="text-zinc-500 shrink-0" />
+          {history.map((entry, index) => (
+            <button
+              key={entry.timestamp}
+              onClick={() => setViewIndex(index === history.length - 1 ? null : index)}
+              className={`shrink-0 px-2 py-0.5 rounded ${entry === record ? 'bg-orange-600 text-white' : 'bg-zinc-800 text-zinc-400'}`}
+            >
+              {formatTime(entry.timestamp)} · {entry.analysis.provider === 'gemini' ? 'AI' : 'LOCAL'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <PhotoChat
+        photo={photo}
+        context={latest && describeAnalysis(latest)}
+        available={chatAvailable}
+        onChange={onChatChange}
+      />
+    </>
+  );
+};
+
+export default AnalysisPanel;
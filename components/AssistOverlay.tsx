@@ -0,0 +1,91 @@
+import React, { useEffect, useRef } from 'react';
+import { AssistSettings } from '../types';
+import { Histogram, computeHistogram, renderAssists } from '../services/assists';
+
+interface AssistOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  settings: AssistSettings;
+  onHistogram: (histogram: Histogram | null) => void;
+}
+
+const SAMPLE_WIDTH = 480;
+const FRAME_INTERVAL = 1000 / 15; // ms
+const HISTOGRAM_INTERVAL = 200; // ms
+
+/**
+ * Draws zebras and focus peaking over the `<video>` and feeds the histogram.
+ * Analysis runs on a downscaled copy of the frame; the overlay is scaled back
+ * up with the same object-cover crop the video uses so stripes line up.
+ */
+const AssistOverlay: React.FC<AssistOverlayProps> = ({ videoRef, settings, onHistogram }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const overlay = canvasRef.current;
+    const overlayCtx = overlay?.getContext('2d');
+    const sample = document.createElement('canvas');
+    const sampleCtx = sample.getContext('2d', { willReadFrequently: true });
+    const layer = document.createElement('canvas');
+    const layerCtx = layer.getContext('2d');
+    if (!overlay || !overlayCtx || !sampleCtx || !layerCtx) return;
+
+    const drawOverlay = settings.zebra || settings.peaking;
+    let frameId = 0;
+    let lastFrame = 0;
+    let lastHistogram = 0;
+    let phase = 0;
+
+    const tick = (now: number) => {
+      frameId = requestAnimationFrame(tick);
+      const video = videoRef.current;
+      if (!video || !video.videoWidth || now - lastFrame < FRAME_INTERVAL) return;
+      lastFrame = now;
+
+      const width = Math.min(SAMPLE_WIDTH, video.videoWidth);
+      const height = Math.round(width * video.videoHeight / video.videoWidth);
+      if (sample.width !== width || sample.height !== height) {
+        sample.width = layer.width = width;
+        sample.height = layer.height = height;
+      }
+      sampleCtx.drawImage(video, 0, 0, width, height);
+      const frame = sampleCtx.getImageData(0, 0, width, height);
+
+      if (settings.histogram && now - lastHistogram >= HISTOGRAM_INTERVAL) {
+        lastHistogram = now;
+        onHistogram(computeHistogram(frame));
+      }
+
+      if (!drawOverlay) return;
+
+      // Match the overlay to the displayed video box
+      const displayWidth = overlay.clientWidth;
+      const displayHeight = overlay.clientHeight;
+      if (overlay.width !== displayWidth || overlay.height !== displayHeight) {
+        overlay.width = displayWidth;
+        overlay.height = displayHeight;
+      }
+
+      const assists = layerCtx.createImageData(width, height);
+      renderAssists(frame, settings, assists.data, phase);
+      phase = (phase + 1) % 8;
+      layerCtx.putImageData(assists, 0, 0);
+
+      const scale = Math.max(displayWidth / width, displayHeight / height);
+      const drawWidth = width * scale;
+      const drawHeight = height * scale;
+      overlayCtx.clearRect(0, 0, displayWidth, displayHeight);
+      overlayCtx.imageSmoothingEnabled = false;
+      overlayCtx.drawImage(layer, (displayWidth - drawWidth) / 2, (displayHeight - drawHeight) / 2, drawWidth, drawHeight);
+    };
+
+    if (!drawOverlay) overlayCtx.clearRect(0, 0, overlay.width, overlay.height);
+    if (!settings.histogram) onHistogram(null);
+    if (drawOverlay || settings.histogram) frameId = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [videoRef, settings, onHistogram]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
+
+export default AssistOverlay;
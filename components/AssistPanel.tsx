@@ -0,0 +1,73 @@
+import React from 'react';
+import { AssistSettings, PeakingColor } from '../types';
+import { BarChart3, Focus, Zap } from 'lucide-react';
+
+interface AssistPanelProps {
+  assists: AssistSettings;
+  onChange: (assists: AssistSettings) => void;
+}
+
+const ZEBRA_LEVELS = [70, 75, 80, 85, 90, 95, 100];
+const PEAKING_COLOR_OPTIONS: PeakingColor[] = ['red', 'yellow', 'blue', 'white'];
+const PEAKING_LEVELS: AssistSettings['peakingLevel'][] = ['low', 'mid', 'high'];
+
+const toggleClass = (active: boolean) =>
+  `flex items-center gap-1 bg-black/60 border border-white/10 rounded px-2 py-1 ${active ? 'text-orange-500' : 'text-gray-400'}`;
+
+const AssistPanel: React.FC<AssistPanelProps> = ({ assists, onChange }) => {
+  const update = (patch: Partial<AssistSettings>) => onChange({ ...assists, ...patch });
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 mb-3 text-[10px] font-mono font-bold uppercase">
+      <button onClick={() => update({ histogram: !assists.histogram })} className={toggleClass(assists.histogram)}>
+        <BarChart3 size={12} />
+        Hist
+      </button>
+
+      <button onClick={() => update({ zebra: !assists.zebra })} className={toggleClass(assists.zebra)}>
+        <Zap size={12} />
+        Zebra
+      </button>
+      {assists.zebra && (
+        <select
+          value={assists.zebraThreshold}
+          onChange={(e) => update({ zebraThreshold: Number(e.target.value) })}
+          className="bg-black/60 text-white border border-white/10 rounded px-2 py-1"
+        >
+          {ZEBRA_LEVELS.map(level => (
+            <option key={level} value={level}>{level}+ IRE</option>
+          ))}
+        </select>
+      )}
+
+      <button onClick={() => update({ peaking: !assists.peaking })} className={toggleClass(assists.peaking)}>
+        <Focus size={12} />
+        Peak
+      </button>
+      {assists.peaking && (
+        <>
+          <select
+            value={assists.peakingColor}
+            onChange={(e) => update({ peakingColor: e.target.value as PeakingColor })}
+            className="bg-black/60 text-white border border-white/10 rounded px-2 py-1"
+          >
+            {PEAKING_COLOR_OPTIONS.map(color => (
+              <option key={color} value={color}>{color}</option>
+            ))}
+          </select>
+          <select
+            value={assists.peakingLevel}
+            onChange={(e) => update({ peakingLevel: e.target.value as AssistSettings['peakingLevel'] })}
+            className="bg-black/60 text-white border border-white/10 rounded px-2 py-1"
+          >
+            {PEAKING_LEVELS.map(level => (
+              <option key={level} value={level}>{level}</option>
+            ))}
+          </select>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AssistPanel;
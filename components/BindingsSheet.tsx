@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { InputAction, InputBinding, InputBindings } from '../types';
+import {
+  DEFAULT_INPUT_BINDINGS,
+  INPUT_ACTIONS,
+  assignBinding,
+  formatBinding,
+  removeBinding,
+  watchGamepads
+} from '../services/inputBindings';
+import { Gamepad2, Keyboard, Plus, RotateCcw, X } from 'lucide-react';
+
+interface BindingsSheetProps {
+  bindings: InputBindings;
+  onChange: (bindings: InputBindings) => void;
+  onClose: () => void;
+}
+
+/**
+ * Lists every bound key and gamepad button, and lets them be reassigned:
+ * "+" on an action listens for the next key or button. The app's own
+ * bindings are paused while this is open.
+ */
+const BindingsSheet: React.FC<BindingsSheetProps> = ({ bindings, onChange, onClose }) => {
+  const [listening, setListening] = useState<InputAction | null>(null);
+
+  useEffect(() => {
+    const assign = (binding: InputBinding) => {
+      if (listening) onChange(assignBinding(bindings, listening, binding));
+      setListening(null);
+    };
+
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.repeat) return;
+      if (e.code === 'Escape') {
+        e.preventDefault();
+        if (listening) setListening(null);
+        else onClose();
+        return;
+      }
+      if (!listening || ['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) return;
+      e.preventDefault();
+      assign({ device: 'keyboard', code: e.code });
+    };
+
+    window.addEventListener('keydown', handleKey);
+    const stopGamepads = listening
+      ? watchGamepads((button, pressed) => { if (pressed) assign({ device: 'gamepad', button }); })
+      : () => {};
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      stopGamepads();
+    };
+  }, [listening, bindings, onChange, onClose]);
+
+  return (
+    <div className="absolute inset-0 z-[60] bg-black/80 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-full overflow-y-auto no-scrollbar bg-zinc-900 border border-zinc-700 rounded-lg p-4 font-mono text-xs text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="flex items-center gap-2 font-bold tracking-wider">
+            <Keyboard size={16} className="text-orange-500" /> CONTROLS
+          </h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => onChange(DEFAULT_INPUT_BINDINGS)}
+              title="Reset to defaults"
+              className="p-1 text-zinc-400 hover:text-white"
+            >
+              <RotateCcw size={14} />
+            </button>
+            <button onClick={onClose} title="Close" className="p-1 text-zinc-400 hover:text-white">
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          {INPUT_ACTIONS.map(({ action, label }) => (
+            <div key={action} className="flex items-start justify-between gap-2 border-b border-zinc-800 pb-2">
+              <span className="text-zinc-400 pt-0.5">{label}</span>
+              <div className="flex flex-wrap justify-end items-center gap-1">
+                {bindings[action].map(binding => (
+                  <span
+                    key={formatBinding(binding) + binding.device}
+                    className="flex items-center gap-1 bg-zinc-800 rounded px-1.5 py-0.5"
+                  >
+                    {binding.device === 'gamepad' && <Gamepad2 size={10} className="text-zinc-500" />}
+                    {formatBinding(binding)}
+                    <button
+                      onClick={() => onChange(removeBinding(bindings, action, binding))}
+                      title="Remove"
+                      className="text-zinc-500 hover:text-red-400"
+                    >
+                      <X size={10} />
+                    </button>
+                  </span>
+                ))}
+                <button
+                  onClick={() => setListening(listening === action ? null : action)}
+                  title="Add a key or gamepad button"
+                  className={`flex items-center gap-1 rounded px-1.5 py-0.5 ${listening === action ? 'bg-orange-600 text-white animate-pulse' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}
+                >
+                  <Plus size={10} />
+                  {listening === action && 'Press a key or button'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <p className="mt-3 text-[10px] text-zinc-500">
+          Bluetooth shutter remotes usually send Enter or the volume keys. Esc closes this sheet.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default BindingsSheet;
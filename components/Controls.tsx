@@ -1,35 +1,344 @@
 import React from 'react';
-import { CameraMode } from '../types';
-import { Settings, Aperture, Timer, Zap, Grid3X3, Image as ImageIcon, Video, ZapOff } from 'lucide-react';
+import { AssistSettings, CameraMode, CameraSelection, DriveSettings, ExposureSettings, FramingSettings, HdrSettings, ManualControls, NightSettings, PanoramaSettings, ProfileSettings, SensorSource, StackingSettings, StackMethod, VideoSettings } from '../types';
+import { VideoFormat, VIDEO_BITRATES } from '../services/videoRecorder';
+import { PictureProfile } from '../services/colorProfiles';
+import { TrackCapabilities } from '../services/cameraControls';
+import { ActiveFormat, CameraDevice } from '../services/deviceManager';
+import { nextGuide } from '../services/framing';
+import { MAX_SUPER_RES_FRAMES } from '../services/superResolution';
+import { maxKeptFrames } from '../services/frameStacking';
+import { NIGHT_DURATIONS } from '../services/imageProcessing';
+import { PANORAMA_FOCAL_LENGTHS } from '../services/panorama';
+import ExposurePanel from './ExposurePanel';
+import AssistPanel from './AssistPanel';
+import ManualControlsPanel from './ManualControlsPanel';
+import ProfilePanel from './ProfilePanel';
+import DrivePanel from './DrivePanel';
+import DevicePanel from './DevicePanel';
+import FramingPanel from './FramingPanel';
+import { Settings, Aperture, Timer, Zap, Grid3X3, Image as ImageIcon, Keyboard, Video, ZapOff, Mic, MicOff, Layers, Maximize2, Sparkles, ArrowLeftRight } from 'lucide-react';
 
 interface ControlsProps {
   mode: CameraMode;
   setMode: (mode: CameraMode) => void;
   onCapture: () => void;
+  onShutterDown: () => void; // Continuous drive: shoot while held
+  onShutterUp: () => void;
   isCapturing: boolean;
+  driveSettings: DriveSettings;
+  onDriveSettingsChange: (settings: DriveSettings) => void;
+  driveActive: boolean; // Self-timer or intervalometer running; the shutter cancels it
+  isRecording: boolean;
+  videoSettings: VideoSettings;
+  videoFormats: VideoFormat[];
+  onVideoSettingsChange: (settings: VideoSettings) => void;
+  stackingSettings: StackingSettings;
+  onStackingSettingsChange: (settings: StackingSettings) => void;
+  hdrSettings: HdrSettings;
+  onHdrSettingsChange: (settings: HdrSettings) => void;
+  nightSettings: NightSettings;
+  onNightSettingsChange: (settings: NightSettings) => void;
+  panoramaSettings: PanoramaSettings;
+  onPanoramaSettingsChange: (settings: PanoramaSettings) => void;
+  exposure: ExposureSettings;
+  onExposureChange: (exposure: ExposureSettings) => void;
+  manualControls: ManualControls;
+  capabilities: TrackCapabilities;
+  onManualControlsChange: (controls: ManualControls) => void;
+  assists: AssistSettings;
+  onAssistsChange: (assists: AssistSettings) => void;
+  profiles: PictureProfile[];
+  profileSettings: ProfileSettings;
+  onProfileSettingsChange: (settings: ProfileSettings) => void;
+  onImportLut: (file: File) => void;
+  lutError: string | null; // Why the last LUT import failed
+  onDeleteLut: (profile: PictureProfile) => void;
   onGalleryClick: () => void;
   lastPhotoUrl?: string;
-  gridEnabled: boolean;
-  toggleGrid: () => void;
+  devices: CameraDevice[];
+  cameraSelection: CameraSelection;
+  activeFormat: ActiveFormat | null;
+  onCameraSelectionChange: (selection: CameraSelection) => void;
+  sensorSource: SensorSource;
+  onSensorSourceChange: (source: SensorSource) => void;
+  framing: FramingSettings;
+  onFramingChange: (settings: FramingSettings) => void;
+  onShowBindings: () => void;
 }
 
+const STACK_FRAME_COUNTS = [4, 8, 16, 32];
+const HDR_BRACKET_COUNTS = [3, 5, 7];
+const HDR_EV_STEPS = [0.7, 1, 1.3, 2, 3];
+
 const Controls: React.FC<ControlsProps> = ({
   mode,
   setMode,
   onCapture,
+  onShutterDown,
+  onShutterUp,
   isCapturing,
+  driveSettings,
+  onDriveSettingsChange,
+  driveActive,
+  isRecording,
+  videoSettings,
+  videoFormats,
+  onVideoSettingsChange,
+  stackingSettings,
+  onStackingSettingsChange,
+  hdrSettings,
+  onHdrSettingsChange,
+  nightSettings,
+  onNightSettingsChange,
+  panoramaSettings,
+  onPanoramaSettingsChange,
+  exposure,
+  onExposureChange,
+  manualControls,
+  capabilities,
+  onManualControlsChange,
+  assists,
+  onAssistsChange,
+  profiles,
+  profileSettings,
+  onProfileSettingsChange,
+  onImportLut,
+  lutError,
+  onDeleteLut,
   onGalleryClick,
   lastPhotoUrl,
-  gridEnabled,
-  toggleGrid
+  devices,
+  cameraSelection,
+  activeFormat,
+  onCameraSelectionChange,
+  sensorSource,
+  onSensorSourceChange,
+  framing,
+  onFramingChange,
+  onShowBindings
 }) => {
+  const holdToShoot = mode === CameraMode.PHOTO && driveSettings.mode === 'continuous';
+  // Median and sigma-clip keep every frame, so their frame count is capped by resolution
+  const keptLimit = !stackingSettings.superResolution && stackingSettings.method !== 'mean' && activeFormat
+    ? maxKeptFrames(activeFormat.width, activeFormat.height)
+    : null;
+
   return (
     <div className="absolute bottom-0 left-0 right-0 z-50 flex flex-col items-center pb-8 pt-4 bg-gradient-to-t from-black via-black/80 to-transparent">
       
+      {/* Camera / Format */}
+      {!isRecording && (
+        <DevicePanel
+          devices={devices}
+          selection={cameraSelection}
+          activeFormat={activeFormat}
+          onChange={onCameraSelectionChange}
+          source={sensorSource}
+          onSourceChange={onSensorSourceChange}
+          disabled={isCapturing || driveActive}
+        />
+      )}
+
+      {/* Guides / Aspect / Level */}
+      {!isRecording && (
+        <FramingPanel settings={framing} onChange={onFramingChange} allowCrop={mode !== CameraMode.VIDEO && mode !== CameraMode.PANORAMA} />
+      )}
+
+      {/* Shooting Assists */}
+      <AssistPanel assists={assists} onChange={onAssistsChange} />
+
+      {/* Exposure Program / Metering */}
+      {!isRecording && <ExposurePanel exposure={exposure} onChange={onExposureChange} />}
+
+      {/* Manual Camera Controls */}
+      {mode === CameraMode.PRO && (
+        <ManualControlsPanel controls={manualControls} capabilities={capabilities} onChange={onManualControlsChange} />
+      )}
+
+      {/* Picture Profile */}
+      {mode !== CameraMode.VIDEO && !isRecording && (
+        <ProfilePanel
+          profiles={profiles}
+          settings={profileSettings}
+          onChange={onProfileSettingsChange}
+          onImport={onImportLut}
+          importError={lutError}
+          onDelete={onDeleteLut}
+        />
+      )}
+
+      {/* Drive Mode */}
+      {mode !== CameraMode.VIDEO && (
+        <DrivePanel
+          settings={driveSettings}
+          onChange={onDriveSettingsChange}
+          allowContinuous={mode === CameraMode.PHOTO}
+          disabled={driveActive}
+        />
+      )}
+
+      {/* Video Settings */}
+      {mode === CameraMode.VIDEO && !isRecording && (
+        <div className="flex items-center gap-2 mb-3 text-[10px] font-mono font-bold uppercase">
+          <select
+            value={videoSettings.mimeType}
+            onChange={(e) => onVideoSettingsChange({ ...videoSettings, mimeType: e.target.value })}
+            className="bg-black/60 text-white border border-white/10 rounded px-2 py-1"
+          >
+            {videoFormats.length === 0 && <option value="">Auto</option>}
+            {videoFormats.map(format => (
+              <option key={format.mimeType} value={format.mimeType}>{format.label}</option>
+            ))}
+          </select>
+          <select
+            value={videoSettings.bitrate}
+            onChange={(e) => onVideoSettingsChange({ ...videoSettings, bitrate: Number(e.target.value) })}
+            className="bg-black/60 text-white border border-white/10 rounded px-2 py-1"
+          >
+            {VIDEO_BITRATES.map(rate => (
+              <option key={rate.value} value={rate.value}>{rate.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onVideoSettingsChange({ ...videoSettings, audio: !videoSettings.audio })}
+            className={`flex items-center gap-1 bg-black/60 border border-white/10 rounded px-2 py-1 ${videoSettings.audio ? 'text-orange-500' : 'text-gray-400'}`}
+          >
+            {videoSettings.audio ? <Mic size={12} /> : <MicOff size={12} />}
+            MIC
+          </button>
+        </div>
+      )}
+
+      {/* Stacking Settings */}
+      {mode === CameraMode.PRO && (
+        <div className="flex items-center gap-2 mb-3 text-[10px] font-mono font-bold uppercase">
+          <select
+            value={stackingSettings.frameCount}
+            onChange={(e) => onStackingSettingsChange({ ...stackingSettings, frameCount: Number(e.target.value) })}
+            className="bg-black/60 text-white border border-white/10 rounded px-2 py-1"
+          >
+            {STACK_FRAME_COUNTS
+              .filter(count => !stackingSettings.superResolution || count <= MAX_SUPER_RES_FRAMES)
+              .map(count => (
+                <option key={count} value={count} disabled={keptLimit !== null && count > keptLimit}>{count} Frames</option>
+              ))}
+          </select>
+          {keptLimit !== null && keptLimit < stackingSettings.frameCount && (
+            <span className="text-yellow-400" title="Median and sigma-clip hold every frame in memory">
+              Max {keptLimit} at {activeFormat?.width}x{activeFormat?.height}
+            </span>
+          )}
+          {!stackingSettings.superResolution && (
+            <select
+              value={stackingSettings.method}
+              onChange={(e) => onStackingSettingsChange({ ...stackingSettings, method: e.target.value as StackMethod })}
+              className="bg-black/60 text-white border border-white/10 rounded px-2 py-1"
+            >
+              <option value="mean">Mean</option>
+              <option value="median">Median</option>
+              <option value="sigma-clip">Sigma Clip</option>
+            </select>
+          )}
+          <button
+            onClick={() => onStackingSettingsChange({
+              ...stackingSettings,
+              superResolution: !stackingSettings.superResolution,
+              frameCount: Math.min(stackingSettings.frameCount, MAX_SUPER_RES_FRAMES)
+            })}
+            title="Merge the burst at twice the resolution"
+            className={`flex items-center gap-1 bg-black/60 border border-white/10 rounded px-2 py-1 ${stackingSettings.superResolution ? 'text-orange-500' : 'text-gray-400'}`}
+          >
+            <Maximize2 size={12} />
+            Hi-Res 2x
+          </button>
+        </div>
+      )}
+
+      {/* HDR Settings */}
+      {mode === CameraMode.HDR && (
+        <div className="flex items-center gap-2 mb-3 text-[10px] font-mono font-bold uppercase">
+          <select
+            value={hdrSettings.bracketCount}
+            onChange={(e) => onHdrSettingsChange({ ...hdrSettings, bracketCount: Number(e.target.value) })}
+            className="bg-black/60 text-white border border-white/10 rounded px-2 py-1"
+          >
+            {HDR_BRACKET_COUNTS.map(count => (
+              <option key={count} value={count}>{count} Frames</option>
+            ))}
+          </select>
+          <select
+            value={hdrSettings.evStep}
+            onChange={(e) => onHdrSettingsChange({ ...hdrSettings, evStep: Number(e.target.value) })}
+            className="bg-black/60 text-white border border-white/10 rounded px-2 py-1"
+          >
+            {HDR_EV_STEPS.map(step => (
+              <option key={step} value={step}>±{step} EV</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onHdrSettingsChange({ ...hdrSettings, keepSources: !hdrSettings.keepSources })}
+            className={`flex items-center gap-1 bg-black/60 border border-white/10 rounded px-2 py-1 ${hdrSettings.keepSources ? 'text-orange-500' : 'text-gray-400'}`}
+          >
+            <Layers size={12} />
+            Keep Brackets
+          </button>
+        </div>
+      )}
+
+      {/* Night Settings */}
+      {mode === CameraMode.NIGHT && (
+        <div className="flex items-center gap-2 mb-3 text-[10px] font-mono font-bold uppercase">
+          <select
+            value={nightSettings.duration}
+            onChange={(e) => onNightSettingsChange({ ...nightSettings, duration: Number(e.target.value) })}
+            className="bg-black/60 text-white border border-white/10 rounded px-2 py-1"
+          >
+            {NIGHT_DURATIONS.map(seconds => (
+              <option key={seconds} value={seconds}>{seconds}" Exposure</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onNightSettingsChange({ ...nightSettings, blend: nightSettings.blend === 'trails' ? 'average' : 'trails' })}
+            title="Keep the brightest value of moving lights instead of averaging them away"
+            className={`flex items-center gap-1 bg-black/60 border border-white/10 rounded px-2 py-1 ${nightSettings.blend === 'trails' ? 'text-orange-500' : 'text-gray-400'}`}
+          >
+            <Sparkles size={12} />
+            Light Trails
+          </button>
+        </div>
+      )}
+
+      {/* Panorama Settings */}
+      {mode === CameraMode.PANORAMA && (
+        <div className="flex items-center gap-2 mb-3 text-[10px] font-mono font-bold uppercase">
+          <button
+            onClick={() => onPanoramaSettingsChange({ ...panoramaSettings, direction: panoramaSettings.direction === 'right' ? 'left' : 'right' })}
+            disabled={isCapturing}
+            title="Pan direction"
+            className="flex items-center gap-1 bg-black/60 text-white border border-white/10 rounded px-2 py-1"
+          >
+            <ArrowLeftRight size={12} />
+            Pan {panoramaSettings.direction}
+          </button>
+          <select
+            value={panoramaSettings.focalLength}
+            onChange={(e) => onPanoramaSettingsChange({ ...panoramaSettings, focalLength: Number(e.target.value) })}
+            disabled={isCapturing}
+            title="35mm-equivalent focal length of the lens in use"
+            className="bg-black/60 text-white border border-white/10 rounded px-2 py-1"
+          >
+            {PANORAMA_FOCAL_LENGTHS.map(focal => (
+              <option key={focal} value={focal}>{focal}mm Lens</option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Mode Dial */}
       <div className="flex items-center space-x-6 mb-6 text-xs font-bold tracking-widest uppercase bg-black/50 px-6 py-2 rounded-full backdrop-blur-md border border-white/10">
         <button 
           onClick={() => setMode(CameraMode.VIDEO)}
+          disabled={isRecording}
           className={`transition-colors ${mode === CameraMode.VIDEO ? 'text-orange-500' : 'text-gray-400 hover:text-white'}`}
         >
           Video
@@ -37,6 +346,7 @@ const Controls: React.FC<ControlsProps> = ({
         <div className="w-px h-3 bg-gray-600"></div>
         <button 
           onClick={() => setMode(CameraMode.PHOTO)}
+          disabled={isRecording}
           className={`transition-colors ${mode === CameraMode.PHOTO ? 'text-orange-500' : 'text-gray-400 hover:text-white'}`}
         >
           Photo
@@ -44,10 +354,39 @@ const Controls: React.FC<ControlsProps> = ({
         <div className="w-px h-3 bg-gray-600"></div>
         <button 
           onClick={() => setMode(CameraMode.PRO)}
+          disabled={isRecording}
           className={`transition-colors ${mode === CameraMode.PRO ? 'text-orange-500' : 'text-gray-400 hover:text-white'}`}
         >
           Pro Stacking
         </button>
+        <div className="w-px h-3 bg-gray-600"></div>
+        <button 
+          onClick={() => setMode(CameraMode.HDR)}
+          disabled={isRecording}
+          className={`transition-colors ${mode === CameraMode.HDR ? 'text-orange-500' : 'text-gray-400 hover:text-white'}`}
+        >
+          HDR
+        </button>
+        <div className="w-px h-3 bg-gray-600"></div>
+        <button 
+          onClick={() => setMode(CameraMode.NIGHT)}
+          disabled={isRecording}
+          className={`transition-colors ${mode === CameraMode.NIGHT ? 'text-orange-500' : 'text-gray-400 hover:text-white'}`}
+        >
+          Night
+        </button>
+        <div className="w-px h-3 bg-gray-600"></div>
+        <button 
+          onClick={() => setMode(CameraMode.PANORAMA)}
+          disabled={isRecording}
+          className={`transition-colors ${mode === CameraMode.PANORAMA ? 'text-orange-500' : 'text-gray-400 hover:text-white'}`}
+        >
+          Pano
+        </button>
+        <div className="w-px h-3 bg-gray-600"></div>
+        <button onClick={onShowBindings} title="Keyboard and gamepad controls" className="text-gray-400 hover:text-white">
+          <Keyboard size={14} />
+        </button>
       </div>
 
       <div className="flex items-center justify-between w-full px-8 max-w-lg">
@@ -55,6 +394,7 @@ const Controls: React.FC<ControlsProps> = ({
         {/* Gallery / Playback */}
         <button 
           onClick={onGalleryClick}
+          disabled={isRecording}
           className="w-12 h-12 rounded-lg bg-zinc-800 border border-zinc-600 overflow-hidden relative group active:scale-95 transition-transform"
         >
           {lastPhotoUrl ? (
@@ -68,8 +408,23 @@ const Controls: React.FC<ControlsProps> = ({
 
         {/* Shutter Button */}
         <button 
-          onClick={onCapture}
-          disabled={isCapturing}
+          onClick={holdToShoot ? undefined : onCapture}
+          onPointerDown={holdToShoot ? onShutterDown : undefined}
+          onPointerUp={holdToShoot ? onShutterUp : undefined}
+          onPointerLeave={holdToShoot ? onShutterUp : undefined}
+          onPointerCancel={holdToShoot ? onShutterUp : undefined}
+          onKeyDown={holdToShoot ? e => {
+            if (e.key !== 'Enter' && e.key !== ' ') return;
+            e.preventDefault();
+            if (!e.repeat) onShutterDown();
+          } : undefined}
+          onKeyUp={holdToShoot ? e => {
+            if (e.key !== 'Enter' && e.key !== ' ') return;
+            e.preventDefault();
+            onShutterUp();
+          } : undefined}
+          onBlur={holdToShoot ? onShutterUp : undefined}
+          disabled={isCapturing && !driveActive}
           className={`
             relative w-20 h-20 rounded-full border-4 border-zinc-300 flex items-center justify-center shadow-lg
             transition-all active:scale-95 active:border-orange-500
@@ -78,7 +433,7 @@ const Controls: React.FC<ControlsProps> = ({
         >
           <div className={`
             w-16 h-16 rounded-full transition-all duration-300
-            ${isCapturing ? 'scale-90 bg-red-600' : mode === CameraMode.VIDEO ? 'bg-red-500 w-10 h-10 rounded-lg' : 'bg-white'}
+            ${isRecording || driveActive ? 'bg-red-600 w-8 h-8 rounded-md animate-pulse' : isCapturing ? 'scale-90 bg-red-600' : mode === CameraMode.VIDEO ? 'bg-red-500 w-10 h-10 rounded-lg' : 'bg-white'}
           `}></div>
           {/* Sony Orange Ring Accent */}
           <div className="absolute inset-0 rounded-full border border-orange-600 opacity-0 active:opacity-100 transition-opacity"></div>
@@ -86,8 +441,9 @@ const Controls: React.FC<ControlsProps> = ({
 
         {/* Quick Settings */}
         <button 
-            onClick={toggleGrid}
-            className={`w-12 h-12 rounded-full flex items-center justify-center border border-zinc-700 bg-zinc-900/80 backdrop-blur active:bg-zinc-800 ${gridEnabled ? 'text-orange-500' : 'text-white'}`}
+            onClick={() => onFramingChange({ ...framing, guide: nextGuide(framing.guide) })}
+            title="Next guide"
+            className={`w-12 h-12 rounded-full flex items-center justify-center border border-zinc-700 bg-zinc-900/80 backdrop-blur active:bg-zinc-800 ${framing.guide !== 'none' ? 'text-orange-500' : 'text-white'}`}
         >
            <Grid3X3 size={20} />
         </button>
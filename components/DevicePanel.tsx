@@ -0,0 +1,205 @@
+import React, { useRef } from 'react';
+import { CameraSelection, SensorSource, TestPattern } from '../types';
+import { ActiveFormat, CameraDevice, getNextCamera } from '../services/deviceManager';
+import {
+  CAMERA_SOURCE,
+  IMAGE_RATES,
+  PATTERN_NOISE_LEVELS,
+  TEST_PATTERNS,
+  describeSource,
+  sourceFromFiles
+} from '../services/virtualSensor';
+import { SwitchCamera } from 'lucide-react';
+
+interface DevicePanelProps {
+  devices: CameraDevice[];
+  selection: CameraSelection;
+  activeFormat: ActiveFormat | null;
+  onChange: (selection: CameraSelection) => void;
+  source: SensorSource;
+  onSourceChange: (source: SensorSource) => void;
+  disabled: boolean;
+}
+
+const FACING_LABELS: Record<CameraDevice['facing'], string> = {
+  front: 'Front',
+  rear: 'Rear',
+  external: 'Ext'
+};
+
+// Source select values; files are picked through the hidden input
+const OPEN_FILES = 'open';
+const FILES = 'files';
+
+const sourceValue = (source: SensorSource): string =>
+  source.kind === 'camera' ? 'camera' : source.kind === 'pattern' ? `pattern:${source.pattern}` : FILES;
+
+const selectClass = "bg-black/60 text-white border border-white/10 rounded px-2 py-1 max-w-[10rem] disabled:opacity-40";
+
+const DevicePanel: React.FC<DevicePanelProps> = ({
+  devices,
+  selection,
+  activeFormat,
+  onChange,
+  source,
+  onSourceChange,
+  disabled
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const activeId = activeFormat?.deviceId || selection.deviceId;
+  const device = devices.find(d => d.deviceId === activeId);
+  const nextCamera = getNextCamera(devices, activeId);
+  const requestedSize = selection.width && selection.height ? `${selection.width}x${selection.height}` : '';
+  const mismatch = source.kind === 'camera' && activeFormat && selection.width && selection.height
+    && Math.max(activeFormat.width, activeFormat.height) !== Math.max(selection.width, selection.height);
+
+  // Picking a camera also leaves a virtual sensor
+  const selectDevice = (target: CameraDevice) => {
+    onChange({ ...selection, deviceId: target.deviceId, facing: target.facing });
+    if (source.kind !== 'camera') onSourceChange(CAMERA_SOURCE);
+  };
+
+  const selectSource = (value: string) => {
+    if (value === OPEN_FILES) {
+      fileInputRef.current?.click();
+    } else if (value === 'camera') {
+      onSourceChange(CAMERA_SOURCE);
+    } else if (value.startsWith('pattern:')) {
+      const noise = source.kind === 'pattern' ? source.noise : 0;
+      onSourceChange({ kind: 'pattern', pattern: value.slice('pattern:'.length) as TestPattern, noise });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 mb-3 text-[10px] font-mono font-bold uppercase">
+      <select
+        value={sourceValue(source)}
+        disabled={disabled}
+        onChange={(e) => selectSource(e.target.value)}
+        className={selectClass}
+        title="Sensor source"
+      >
+        <option value="camera">Camera</option>
+        {TEST_PATTERNS.map(({ pattern, label }) => (
+          <option key={pattern} value={`pattern:${pattern}`}>Test: {label}</option>
+        ))}
+        {(source.kind === 'images' || source.kind === 'video') && (
+          <option value={FILES}>{describeSource(source)}</option>
+        )}
+        <option value={OPEN_FILES}>Open Files...</option>
+      </select>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*,video/*"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          const next = sourceFromFiles(Array.from(e.target.files ?? []));
+          if (next) onSourceChange(next);
+          e.target.value = '';
+        }}
+      />
+
+      {source.kind === 'pattern' && (
+        <select
+          value={source.noise}
+          disabled={disabled}
+          onChange={(e) => onSourceChange({ ...source, noise: Number(e.target.value) })}
+          className={selectClass}
+          title="Simulated sensor noise"
+        >
+          {PATTERN_NOISE_LEVELS.map(level => (
+            <option key={level} value={level}>{level === 0 ? 'No Noise' : `Noise σ${level}`}</option>
+          ))}
+        </select>
+      )}
+
+      {source.kind === 'images' && source.files.length > 1 && (
+        <select
+          value={source.rate}
+          disabled={disabled}
+          onChange={(e) => onSourceChange({ ...source, rate: Number(e.target.value) })}
+          className={selectClass}
+          title="Images per second"
+        >
+          {IMAGE_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate}/s</option>
+          ))}
+        </select>
+      )}
+
+      {devices.length > 0 && (
+        <select
+          value={device?.deviceId ?? ''}
+          disabled={disabled}
+          onChange={(e) => {
+            const target = devices.find(d => d.deviceId === e.target.value);
+            if (target) selectDevice(target);
+          }}
+          className={selectClass}
+        >
+          {!device && <option value="">Camera</option>}
+          {devices.map(d => (
+            <option key={d.deviceId} value={d.deviceId}>{FACING_LABELS[d.facing]} · {d.label}</option>
+          ))}
+        </select>
+      )}
+
+      <select
+        value={requestedSize}
+        disabled={disabled}
+        onChange={(e) => {
+          const [width, height] = e.target.value ? e.target.value.split('x').map(Number) : [null, null];
+          onChange({ ...selection, width, height });
+        }}
+        className={selectClass}
+      >
+        <option value="">Auto Size</option>
+        {requestedSize && !device?.formats.some(f => `${f.width}x${f.height}` === requestedSize) && (
+          <option value={requestedSize}>{requestedSize}</option>
+        )}
+        {(device?.formats ?? []).map(format => (
+          <option key={format.label} value={`${format.width}x${format.height}`}>
+            {format.label}{device?.verified ? '' : '?'}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value={selection.frameRate ?? ''}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...selection, frameRate: e.target.value ? Number(e.target.value) : null })}
+        className={selectClass}
+      >
+        <option value="">Auto FPS</option>
+        {selection.frameRate && !device?.frameRates.includes(selection.frameRate) && (
+          <option value={selection.frameRate}>{selection.frameRate}p</option>
+        )}
+        {(device?.frameRates ?? []).map(rate => (
+          <option key={rate} value={rate}>{rate}p</option>
+        ))}
+      </select>
+
+      {nextCamera && (
+        <button
+          onClick={() => selectDevice(nextCamera)}
+          disabled={disabled}
+          title={`Switch to ${nextCamera.label}`}
+          className="flex items-center gap-1 bg-black/60 border border-white/10 rounded px-2 py-1 text-gray-400 disabled:opacity-40"
+        >
+          <SwitchCamera size={12} />
+          {FACING_LABELS[nextCamera.facing]}
+        </button>
+      )}
+
+      {mismatch && (
+        <span className="text-yellow-400" title="The camera could not deliver the requested size">
+          Got {activeFormat.width}x{activeFormat.height}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default DevicePanel;
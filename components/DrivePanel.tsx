@@ -0,0 +1,105 @@
+import React from 'react';
+import { BurstSpeed, DriveMode, DriveSettings } from '../types';
+import { INTERVAL_SECONDS, INTERVAL_SHOT_COUNTS, TIMER_DELAYS } from '../services/driveModes';
+import { Film, Layers, Square, Timer, TimerReset } from 'lucide-react';
+
+interface DrivePanelProps {
+  settings: DriveSettings;
+  onChange: (settings: DriveSettings) => void;
+  allowContinuous: boolean; // Bursts only make sense for single-frame captures
+  disabled: boolean; // A timer or interval sequence is running
+}
+
+const DRIVE_MODES: { mode: DriveMode; label: string; icon: React.ElementType }[] = [
+  { mode: 'single', label: 'Single', icon: Square },
+  { mode: 'continuous', label: 'Cont', icon: Layers },
+  { mode: 'timer', label: 'Self', icon: Timer },
+  { mode: 'interval', label: 'Int', icon: TimerReset }
+];
+
+const BURST_SPEEDS: BurstSpeed[] = ['hi', 'mid', 'lo'];
+
+const toggleClass = (active: boolean) =>
+  `flex items-center gap-1 bg-black/60 border border-white/10 rounded px-2 py-1 disabled:opacity-40 ${active ? 'text-orange-500' : 'text-gray-400'}`;
+
+const selectClass = "bg-black/60 text-white border border-white/10 rounded px-2 py-1";
+
+const DrivePanel: React.FC<DrivePanelProps> = ({ settings, onChange, allowContinuous, disabled }) => {
+  const update = (patch: Partial<DriveSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 mb-3 text-[10px] font-mono font-bold uppercase">
+      {DRIVE_MODES.map(({ mode, label, icon: Icon }) => (
+        <button
+          key={mode}
+          onClick={() => update({ mode })}
+          disabled={disabled || (mode === 'continuous' && !allowContinuous)}
+          className={toggleClass(settings.mode === mode)}
+        >
+          <Icon size={12} />
+          {label}
+        </button>
+      ))}
+
+      {settings.mode === 'continuous' && allowContinuous && (
+        <select
+          value={settings.burstSpeed}
+          onChange={(e) => update({ burstSpeed: e.target.value as BurstSpeed })}
+          className={selectClass}
+        >
+          {BURST_SPEEDS.map(speed => (
+            <option key={speed} value={speed}>{speed}</option>
+          ))}
+        </select>
+      )}
+
+      {settings.mode === 'timer' && (
+        <select
+          value={settings.timerDelay}
+          disabled={disabled}
+          onChange={(e) => update({ timerDelay: Number(e.target.value) })}
+          className={selectClass}
+        >
+          {TIMER_DELAYS.map(delay => (
+            <option key={delay} value={delay}>{delay}s</option>
+          ))}
+        </select>
+      )}
+
+      {settings.mode === 'interval' && (
+        <>
+          <select
+            value={settings.interval}
+            disabled={disabled}
+            onChange={(e) => update({ interval: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {INTERVAL_SECONDS.map(seconds => (
+              <option key={seconds} value={seconds}>Every {seconds}s</option>
+            ))}
+          </select>
+          <select
+            value={settings.shotCount}
+            disabled={disabled}
+            onChange={(e) => update({ shotCount: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {INTERVAL_SHOT_COUNTS.map(count => (
+              <option key={count} value={count}>{count} Shots</option>
+            ))}
+          </select>
+          <button
+            onClick={() => update({ timelapse: !settings.timelapse })}
+            disabled={disabled}
+            className={toggleClass(settings.timelapse)}
+          >
+            <Film size={12} />
+            Timelapse
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DrivePanel;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { ExposureSettings } from '../types';
+import {
+  APERTURE_STOPS,
+  EXPOSURE_PROGRAMS,
+  METERING_MODES,
+  SHUTTER_STOPS,
+  formatAperture,
+  formatEv,
+  formatShutter,
+  stepCompensation,
+  stepIso,
+  stepStop
+} from '../services/metering';
+import Stepper from './Stepper';
+
+interface ExposurePanelProps {
+  exposure: ExposureSettings;
+  onChange: (exposure: ExposureSettings) => void;
+}
+
+const METERING_LABELS: Record<ExposureSettings['meteringMode'], string> = {
+  matrix: 'Multi',
+  center: 'Center',
+  spot: 'Spot'
+};
+
+const cycle = <T,>(values: T[], current: T): T => values[(values.indexOf(current) + 1) % values.length];
+
+const ExposurePanel: React.FC<ExposurePanelProps> = ({ exposure, onChange }) => {
+  const { program } = exposure;
+  const update = (patch: Partial<ExposureSettings>) => onChange({ ...exposure, ...patch });
+
+  const compensationEnabled = program !== 'M' || exposure.iso === 'AUTO';
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 mb-3 text-[10px] font-mono font-bold uppercase">
+      <button
+        onClick={() => update({ program: cycle(EXPOSURE_PROGRAMS, program) })}
+        className="bg-black/60 border border-white/10 rounded px-2 py-1 text-orange-500"
+      >
+        {program}
+      </button>
+      <button
+        onClick={() => update({ meteringMode: cycle(METERING_MODES, exposure.meteringMode) })}
+        className="bg-black/60 border border-white/10 rounded px-2 py-1 text-white"
+      >
+        {METERING_LABELS[exposure.meteringMode]}
+      </button>
+
+      {(program === 'A' || program === 'M') && (
+        <Stepper
+          label="F"
+          value={formatAperture(exposure.aperture)}
+          onStep={(d) => update({ aperture: stepStop(exposure.aperture, APERTURE_STOPS, d) })}
+        />
+      )}
+      {(program === 'S' || program === 'M') && (
+        // SHUTTER_STOPS runs slow to fast, so "+" moves to the next (faster) entry
+        <Stepper
+          label="SS"
+          value={formatShutter(exposure.shutter)}
+          onStep={(d) => update({ shutter: stepStop(exposure.shutter, SHUTTER_STOPS, d) })}
+        />
+      )}
+      {program === 'M' && (
+        <Stepper
+          label="ISO"
+          value={exposure.iso === 'AUTO' ? 'AUTO' : exposure.iso.toString()}
+          onStep={(d) => update({ iso: stepIso(exposure.iso, d) })}
+        />
+      )}
+      {compensationEnabled && (
+        <Stepper
+          label="EV"
+          value={formatEv(exposure.compensation)}
+          onStep={(d) => update({ compensation: stepCompensation(exposure.compensation, d) })}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ExposurePanel;
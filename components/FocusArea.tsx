@@ -0,0 +1,116 @@
+import React, { useEffect, useRef } from 'react';
+import { FocusPoint, ManualControls } from '../types';
+import { getCoverLayout } from '../services/framing';
+
+interface FocusAreaProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  controls: ManualControls;
+  onChange: (controls: ManualControls) => void;
+}
+
+const LONG_PRESS_MS = 600;
+const TAP_SLOP = 10; // px a press may wander and still count
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Tap-to-focus over the live preview. A tap moves the focus / spot metering
+ * point there; a long press locks AE/AF at that point, and a long press
+ * while locked releases the lock.
+ */
+const FocusArea: React.FC<FocusAreaProps> = ({ videoRef, controls, onChange }) => {
+  const pressRef = useRef<{ x: number; y: number; timer: number } | null>(null);
+  const controlsRef = useRef(controls);
+  controlsRef.current = controls;
+
+  useEffect(() => () => {
+    if (pressRef.current) clearTimeout(pressRef.current.timer);
+  }, []);
+
+  // Client coordinates to a point on the camera frame (the preview is object-cover)
+  const toFramePoint = (clientX: number, clientY: number): FocusPoint | null => {
+    const video = videoRef.current;
+    const layout = video && getCoverLayout(video);
+    if (!video || !layout) return null;
+    const rect = video.getBoundingClientRect();
+    return {
+      x: clamp01((clientX - rect.left - layout.offsetX) / layout.shownWidth),
+      y: clamp01((clientY - rect.top - layout.offsetY) / layout.shownHeight)
+    };
+  };
+
+  const cancelPress = () => {
+    if (pressRef.current) clearTimeout(pressRef.current.timer);
+    pressRef.current = null;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    cancelPress();
+    const { clientX, clientY } = e;
+    const timer = window.setTimeout(() => {
+      pressRef.current = null;
+      const current = controlsRef.current;
+      if (current.aeAfLock) {
+        onChange({ ...current, aeAfLock: false });
+      } else {
+        onChange({ ...current, focusPoint: toFramePoint(clientX, clientY) ?? current.focusPoint, aeAfLock: true });
+      }
+    }, LONG_PRESS_MS);
+    pressRef.current = { x: clientX, y: clientY, timer };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const press = pressRef.current;
+    if (press && Math.hypot(e.clientX - press.x, e.clientY - press.y) > TAP_SLOP) cancelPress();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!pressRef.current) return; // Long press already handled
+    cancelPress();
+    const point = toFramePoint(e.clientX, e.clientY);
+    // Moving the point releases a lock, as re-framing would
+    if (point) onChange({ ...controls, focusPoint: point, aeAfLock: false });
+  };
+
+  const video = videoRef.current;
+  const layout = video && getCoverLayout(video);
+  const point = controls.focusPoint ?? { x: 0.5, y: 0.5 };
+  const left = layout ? ((layout.offsetX + point.x * layout.shownWidth) / layout.width) * 100 : point.x * 100;
+  const top = layout ? ((layout.offsetY + point.y * layout.shownHeight) / layout.height) * 100 : point.y * 100;
+  const corner = controls.aeAfLock ? 'border-orange-500' : 'border-white';
+
+  return (
+    <div
+      className="absolute inset-0"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={cancelPress}
+      onPointerLeave={cancelPress}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <div
+        style={{ left: `${left}%`, top: `${top}%` }}
+        className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+      >
+        {/* Keyed on the point so the pulse replays whenever it moves; the
+            pulse animates transform, so it can't sit on the centred element */}
+        <div
+          key={`${point.x},${point.y}`}
+          className={`relative border corner-marks focus-box ${controls.focusPoint ? 'w-16 h-16' : 'w-24 h-24'} ${controls.aeAfLock ? 'border-orange-500/70' : 'border-white/50'}`}
+        >
+          <div className={`absolute top-0 left-0 w-2 h-2 border-t-2 border-l-2 ${corner}`}></div>
+          <div className={`absolute top-0 right-0 w-2 h-2 border-t-2 border-r-2 ${corner}`}></div>
+          <div className={`absolute bottom-0 left-0 w-2 h-2 border-b-2 border-l-2 ${corner}`}></div>
+          <div className={`absolute bottom-0 right-0 w-2 h-2 border-b-2 border-r-2 ${corner}`}></div>
+        </div>
+        {controls.aeAfLock && (
+          <span className="absolute -top-5 left-1/2 -translate-x-1/2 text-[10px] font-mono font-bold text-orange-500">AEL</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FocusArea;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { FramingSettings } from '../types';
+import { SAFE_AREAS, getCaptureCrop, getCoverLayout, getGuideLines, goldenSpiralPath } from '../services/framing';
+
+interface FramingOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  settings: FramingSettings;
+  cropped: boolean; // Whether captures in this mode are cropped to the aspect
+}
+
+/**
+ * Composition guides and the aspect-ratio mask, drawn over the part of the
+ * (object-cover) preview that will actually be captured.
+ */
+const FramingOverlay: React.FC<FramingOverlayProps> = ({ videoRef, settings, cropped }) => {
+  const video = videoRef.current;
+  const layout = video && getCoverLayout(video);
+  if (!video || !layout) return null;
+
+  const crop = cropped ? getCaptureCrop(settings.aspect, video.videoWidth, video.videoHeight) : null;
+  const rect = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  // Framed area in element pixels
+  const left = layout.offsetX + rect.x * layout.shownWidth;
+  const top = layout.offsetY + rect.y * layout.shownHeight;
+  const width = rect.width * layout.shownWidth;
+  const height = rect.height * layout.shownHeight;
+  const lines = getGuideLines(settings.guide);
+
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none" width={layout.width} height={layout.height}>
+      {crop && (
+        <path
+          d={`M 0 0 H ${layout.width} V ${layout.height} H 0 Z M ${left} ${top} v ${height} h ${width} v ${-height} Z`}
+          fillRule="evenodd"
+          className="fill-black/60"
+        />
+      )}
+      <g transform={`translate(${left} ${top})`} className="stroke-white/40" strokeWidth={1} fill="none">
+        {lines.map((line, i) => (
+          <line key={i} x1={line.x1 * width} y1={line.y1 * height} x2={line.x2 * width} y2={line.y2 * height} />
+        ))}
+        {settings.guide === 'spiral' && <path d={goldenSpiralPath(width, height, settings.spiralTurn)} />}
+        {settings.guide === 'safe' && SAFE_AREAS.map(area => (
+          <rect
+            key={area}
+            x={(1 - area) / 2 * width}
+            y={(1 - area) / 2 * height}
+            width={area * width}
+            height={area * height}
+            strokeDasharray={area === SAFE_AREAS[0] ? undefined : '4 4'}
+          />
+        ))}
+        {crop && <rect width={width} height={height} className="stroke-white/60" />}
+      </g>
+    </svg>
+  );
+};
+
+export default FramingOverlay;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { CaptureAspect, CompositionGuide, FramingSettings } from '../types';
+import { CAPTURE_ASPECTS, COMPOSITION_GUIDES, requestLevelPermission } from '../services/framing';
+import { Crop, MoveHorizontal, RotateCw } from 'lucide-react';
+
+interface FramingPanelProps {
+  settings: FramingSettings;
+  onChange: (settings: FramingSettings) => void;
+  allowCrop: boolean; // Aspect crop applies to stills only
+}
+
+const toggleClass = (active: boolean) =>
+  `flex items-center gap-1 bg-black/60 border border-white/10 rounded px-2 py-1 ${active ? 'text-orange-500' : 'text-gray-400'}`;
+
+const FramingPanel: React.FC<FramingPanelProps> = ({ settings, onChange, allowCrop }) => {
+  const update = (patch: Partial<FramingSettings>) => onChange({ ...settings, ...patch });
+
+  const toggleLevel = async () => {
+    if (settings.level) {
+      update({ level: false });
+      return;
+    }
+    // Must be asked from the tap itself on iOS
+    if (await requestLevelPermission()) update({ level: true });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 mb-3 text-[10px] font-mono font-bold uppercase">
+      <select
+        value={settings.guide}
+        onChange={(e) => update({ guide: e.target.value as CompositionGuide })}
+        className="bg-black/60 text-white border border-white/10 rounded px-2 py-1"
+      >
+        {COMPOSITION_GUIDES.map(({ guide, label }) => (
+          <option key={guide} value={guide}>{label}</option>
+        ))}
+      </select>
+      {settings.guide === 'spiral' && (
+        <button
+          onClick={() => update({ spiralTurn: (settings.spiralTurn + 1) % 4 })}
+          title="Turn spiral"
+          className={toggleClass(false)}
+        >
+          <RotateCw size={12} />
+        </button>
+      )}
+
+      {allowCrop && (
+        <div className="flex items-center gap-1 bg-black/60 border border-white/10 rounded px-2 py-1">
+          <Crop size={12} className={settings.aspect === 'native' ? 'text-gray-400' : 'text-orange-500'} />
+          <select
+            value={settings.aspect}
+            onChange={(e) => update({ aspect: e.target.value as CaptureAspect })}
+            className="bg-transparent text-white"
+          >
+            {CAPTURE_ASPECTS.map(({ aspect, label }) => (
+              <option key={aspect} value={aspect}>{label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <button onClick={toggleLevel} className={toggleClass(settings.level)}>
+        <MoveHorizontal size={12} />
+        Level
+      </button>
+      {settings.level && allowCrop && (
+        <button
+          onClick={() => update({ autoStraighten: !settings.autoStraighten })}
+          title="Level captures using the horizon"
+          className={toggleClass(settings.autoStraighten)}
+        >
+          Auto Straighten
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FramingPanel;
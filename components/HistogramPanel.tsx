@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from 'react';
+import { Histogram } from '../services/assists';
+
+interface HistogramPanelProps {
+  histogram: Histogram;
+}
+
+const WIDTH = 128;
+const HEIGHT = 64;
+
+const CHANNELS: { key: 'r' | 'g' | 'b'; color: string }[] = [
+  { key: 'r', color: 'rgba(255, 60, 60, 0.7)' },
+  { key: 'g', color: 'rgba(60, 255, 60, 0.7)' },
+  { key: 'b', color: 'rgba(60, 120, 255, 0.7)' }
+];
+
+/**
+ * RGB + luma histogram. Channels are drawn additively so overlaps read as
+ * white; bins are square-root scaled to keep small counts visible.
+ */
+const HistogramPanel: React.FC<HistogramPanelProps> = ({ histogram }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    let peak = 1;
+    for (let i = 1; i < 255; i++) {
+      peak = Math.max(peak, histogram.r[i], histogram.g[i], histogram.b[i], histogram.luma[i]);
+    }
+    const scale = HEIGHT / Math.sqrt(peak);
+
+    const plot = (bins: Uint32Array) => {
+      ctx.beginPath();
+      ctx.moveTo(0, HEIGHT);
+      for (let i = 0; i < 256; i++) {
+        ctx.lineTo((i / 255) * WIDTH, HEIGHT - Math.min(HEIGHT, Math.sqrt(bins[i]) * scale));
+      }
+      ctx.lineTo(WIDTH, HEIGHT);
+      ctx.closePath();
+    };
+
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    ctx.globalCompositeOperation = 'lighter';
+    CHANNELS.forEach(({ key, color }) => {
+      plot(histogram[key]);
+      ctx.fillStyle = color;
+      ctx.fill();
+    });
+    ctx.globalCompositeOperation = 'source-over';
+    plot(histogram.luma);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  }, [histogram]);
+
+  return (
+    <div className="bg-black/50 border border-white/10 rounded p-1">
+      <canvas ref={canvasRef} width={WIDTH} height={HEIGHT} className="block" />
+    </div>
+  );
+};
+
+export default HistogramPanel;
@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+import { LevelReading, watchLevel } from '../services/framing';
+
+// Within this the horizon counts as level
+const LEVEL_TOLERANCE = 0.5;
+// Near flat the roll is meaningless, so only pitch is shown
+const MAX_PITCH = 70;
+
+/**
+ * Electronic level: a horizon line that stays with the real horizon as the
+ * device rolls, turning green when level, with the pitch underneath.
+ */
+const LevelIndicator: React.FC = () => {
+  const [reading, setReading] = useState<LevelReading | null>(null);
+
+  useEffect(() => watchLevel(setReading), []);
+
+  if (!reading) return null;
+  const usable = Math.abs(reading.pitch) < MAX_PITCH;
+  const level = usable && Math.abs(reading.roll) < LEVEL_TOLERANCE;
+  const color = level ? 'bg-green-400' : 'bg-white/80';
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+      <div className="relative w-48 flex flex-col items-center">
+        {/* Fixed reference marks */}
+        <div className="absolute left-0 right-0 top-1/2 flex justify-between">
+          <div className={`w-4 h-0.5 ${color}`}></div>
+          <div className={`w-4 h-0.5 ${color}`}></div>
+        </div>
+        {usable && (
+          <div
+            className={`w-32 h-0.5 ${color}`}
+            style={{ transform: `rotate(${-reading.roll}deg)` }}
+          ></div>
+        )}
+        <span className={`absolute top-3 text-[10px] font-mono font-bold drop-shadow ${level ? 'text-green-400' : 'text-white'}`}>
+          {usable && `${reading.roll.toFixed(1)}° `}
+          {reading.pitch >= 0 ? '↑' : '↓'}{Math.abs(reading.pitch).toFixed(0)}°
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default LevelIndicator;
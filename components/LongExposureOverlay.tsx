@@ -0,0 +1,66 @@
+import React, { useEffect, useRef } from 'react';
+import { Frame } from '../services/frameStacking';
+import { PipelineProgress } from '../services/pipeline/pipelineClient';
+
+interface LongExposureOverlayProps {
+  preview: Frame | null; // Tone-mapped merge so far
+  progress: PipelineProgress;
+  duration: number; // Seconds
+}
+
+const RING_RADIUS = 42;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
+
+/**
+ * Night mode capture in progress: the accumulating exposure replaces the
+ * live view, with a ring counting through the exposure time.
+ */
+const LongExposureOverlay: React.FC<LongExposureOverlayProps> = ({ preview, progress, duration }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const exposing = progress.label === 'Exposing';
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !preview) return;
+    canvas.width = preview.width;
+    canvas.height = preview.height;
+    ctx.putImageData(new ImageData(preview.data, preview.width, preview.height), 0, 0);
+  }, [preview]);
+
+  return (
+    <div className="absolute inset-0 z-10 pointer-events-none">
+      {preview && <canvas ref={canvasRef} className="absolute inset-0 w-full h-full object-cover" />}
+      <div className="absolute inset-0 flex items-center justify-center">
+        <div className="relative w-24 h-24">
+          <svg viewBox="0 0 96 96" className="absolute inset-0 -rotate-90">
+            <circle cx={48} cy={48} r={RING_RADIUS} className="fill-black/40 stroke-white/20" strokeWidth={4} />
+            <circle
+              cx={48}
+              cy={48}
+              r={RING_RADIUS}
+              fill="none"
+              className="stroke-orange-500 transition-all"
+              strokeWidth={4}
+              strokeLinecap="round"
+              strokeDasharray={RING_LENGTH}
+              strokeDashoffset={RING_LENGTH * (1 - progress.progress)}
+            />
+          </svg>
+          <div className="absolute inset-0 flex flex-col items-center justify-center font-mono font-bold text-white">
+            {exposing ? (
+              <>
+                <span className="text-lg leading-none">{Math.floor(progress.progress * duration)}"</span>
+                <span className="text-[10px] text-zinc-400">/ {duration}"</span>
+              </>
+            ) : (
+              <span className="text-[9px] uppercase text-center px-2">{progress.label}</span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LongExposureOverlay;
@@ -0,0 +1,228 @@
+import React, { useEffect, useRef } from 'react';
+import { LutInterpolation } from '../types';
+import { Lut3D } from '../services/pipeline/lut';
+import { SimulatedBalance } from '../services/cameraControls';
+
+interface LutPreviewProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  lut: Lut3D;
+  interpolation: LutInterpolation;
+  balance: SimulatedBalance | null;
+}
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 position;
+uniform vec2 uvScale;
+uniform vec2 uvOffset;
+out vec2 uv;
+void main() {
+  uv = (position * 0.5 + 0.5) * uvScale + uvOffset;
+  gl_Position = vec4(position, 0.0, 1.0);
+}`;
+
+// Mirrors applyBalance and applyLut in services/pipeline so preview and capture match
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp sampler3D;
+uniform sampler2D frame;
+uniform sampler3D lut;
+uniform float lutSize;
+uniform vec3 domainMin;
+uniform vec3 domainMax;
+uniform bool tetrahedral;
+uniform vec3 balance; // Linear gain x white balance per channel
+in vec2 uv;
+out vec4 color;
+
+vec3 toLinear(vec3 c) {
+  return mix(c / 12.92, pow((c + 0.055) / 1.055, vec3(2.4)), step(vec3(0.04045), c));
+}
+
+vec3 toSrgb(vec3 c) {
+  return mix(c * 12.92, 1.055 * pow(c, vec3(1.0 / 2.4)) - 0.055, step(vec3(0.0031308), c));
+}
+
+vec3 fetch(ivec3 p) {
+  return texelFetch(lut, p, 0).rgb;
+}
+
+void main() {
+  vec3 rgb = toSrgb(min(toLinear(texture(frame, uv).rgb) * balance, 1.0));
+  vec3 s = clamp((rgb - domainMin) / (domainMax - domainMin), 0.0, 1.0) * (lutSize - 1.0);
+
+  if (!tetrahedral) {
+    color = vec4(texture(lut, (s + 0.5) / lutSize).rgb, 1.0);
+    return;
+  }
+
+  vec3 base = min(floor(s), vec3(lutSize - 2.0));
+  vec3 f = s - base;
+  ivec3 b = ivec3(base);
+  vec3 c000 = fetch(b);
+  vec3 c111 = fetch(b + ivec3(1));
+  vec3 result;
+  if (f.r > f.g) {
+    if (f.g > f.b) {
+      result = (1.0 - f.r) * c000 + (f.r - f.g) * fetch(b + ivec3(1, 0, 0)) + (f.g - f.b) * fetch(b + ivec3(1, 1, 0)) + f.b * c111;
+    } else if (f.r > f.b) {
+      result = (1.0 - f.r) * c000 + (f.r - f.b) * fetch(b + ivec3(1, 0, 0)) + (f.b - f.g) * fetch(b + ivec3(1, 0, 1)) + f.g * c111;
+    } else {
+      result = (1.0 - f.b) * c000 + (f.b - f.r) * fetch(b + ivec3(0, 0, 1)) + (f.r - f.g) * fetch(b + ivec3(1, 0, 1)) + f.g * c111;
+    }
+  } else {
+    if (f.b > f.g) {
+      result = (1.0 - f.b) * c000 + (f.b - f.g) * fetch(b + ivec3(0, 0, 1)) + (f.g - f.r) * fetch(b + ivec3(0, 1, 1)) + f.r * c111;
+    } else if (f.b > f.r) {
+      result = (1.0 - f.g) * c000 + (f.g - f.b) * fetch(b + ivec3(0, 1, 0)) + (f.b - f.r) * fetch(b + ivec3(0, 1, 1)) + f.r * c111;
+    } else {
+      result = (1.0 - f.g) * c000 + (f.g - f.r) * fetch(b + ivec3(0, 1, 0)) + (f.r - f.b) * fetch(b + ivec3(1, 1, 0)) + f.b * c111;
+    }
+  }
+  color = vec4(result, 1.0);
+}`;
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error("Shader allocation failed");
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(gl.getShaderInfoLog(shader) ?? "Shader compilation failed");
+  }
+  return shader;
+};
+
+const createProgram = (gl: WebGL2RenderingContext) => {
+  const program = gl.createProgram();
+  gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(gl.getProgramInfoLog(program) ?? "Program link failed");
+  }
+  return program;
+};
+
+/**
+ * Live preview graded through the active picture profile's 3D LUT on the GPU.
+ * Draws over the `<video>` with the same object-cover crop; if WebGL2 is not
+ * available the canvas stays transparent and the ungraded video shows through.
+ */
+const LutPreview: React.FC<LutPreviewProps> = ({ videoRef, lut, interpolation, balance }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const glRef = useRef<{ gl: WebGL2RenderingContext; program: WebGLProgram; lutTexture: WebGLTexture } | null>(null);
+  const settingsRef = useRef({ interpolation, balance });
+  settingsRef.current = { interpolation, balance };
+
+  // GL setup and render loop
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const gl = canvas?.getContext('webgl2', { alpha: true, premultipliedAlpha: false });
+    if (!canvas || !gl) return;
+
+    let program: WebGLProgram;
+    try {
+      program = createProgram(gl);
+    } catch (err) {
+      console.warn("LUT preview unavailable", err);
+      return;
+    }
+
+    gl.useProgram(program);
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(program, 'position');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    const frameTexture = gl.createTexture();
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, frameTexture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    const lutTexture = gl.createTexture();
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_3D, lutTexture);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+
+    gl.uniform1i(gl.getUniformLocation(program, 'frame'), 0);
+    gl.uniform1i(gl.getUniformLocation(program, 'lut'), 1);
+    const uvScale = gl.getUniformLocation(program, 'uvScale');
+    const uvOffset = gl.getUniformLocation(program, 'uvOffset');
+    const tetrahedral = gl.getUniformLocation(program, 'tetrahedral');
+    const balanceLocation = gl.getUniformLocation(program, 'balance');
+    glRef.current = { gl, program, lutTexture };
+
+    let frameId = 0;
+    const render = () => {
+      frameId = requestAnimationFrame(render);
+      const video = videoRef.current;
+      if (!video || !video.videoWidth || video.readyState < 2) return;
+
+      const dpr = window.devicePixelRatio || 1;
+      const displayWidth = Math.round(canvas.clientWidth * dpr);
+      const displayHeight = Math.round(canvas.clientHeight * dpr);
+      if (canvas.width !== displayWidth || canvas.height !== displayHeight) {
+        canvas.width = displayWidth;
+        canvas.height = displayHeight;
+      }
+
+      // object-cover: crop the video texture to the display aspect
+      const scale = Math.max(displayWidth / video.videoWidth, displayHeight / video.videoHeight);
+      const visibleU = displayWidth / (video.videoWidth * scale);
+      const visibleV = displayHeight / (video.videoHeight * scale);
+      gl.uniform2f(uvScale, visibleU, visibleV);
+      gl.uniform2f(uvOffset, (1 - visibleU) / 2, (1 - visibleV) / 2);
+      const { interpolation: currentInterpolation, balance: currentBalance } = settingsRef.current;
+      gl.uniform1i(tetrahedral, currentInterpolation === 'tetrahedral' ? 1 : 0);
+      const gain = currentBalance?.gain ?? 1;
+      const [wbR, wbG, wbB] = currentBalance?.wb ?? [1, 1, 1];
+      gl.uniform3f(balanceLocation, gain * wbR, gain * wbG, gain * wbB);
+
+      gl.activeTexture(gl.TEXTURE0);
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, video);
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+
+      gl.viewport(0, 0, displayWidth, displayHeight);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    };
+    frameId = requestAnimationFrame(render);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      glRef.current = null;
+      gl.deleteTexture(frameTexture);
+      gl.deleteTexture(lutTexture);
+      gl.deleteBuffer(buffer);
+      gl.deleteProgram(program);
+    };
+  }, [videoRef]);
+
+  // Upload the LUT whenever the profile changes
+  useEffect(() => {
+    const state = glRef.current;
+    if (!state) return;
+    const { gl, program, lutTexture } = state;
+    gl.useProgram(program);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_3D, lutTexture);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage3D(gl.TEXTURE_3D, 0, gl.RGB16F, lut.size, lut.size, lut.size, 0, gl.RGB, gl.FLOAT, lut.data);
+    gl.uniform1f(gl.getUniformLocation(program, 'lutSize'), lut.size);
+    gl.uniform3fv(gl.getUniformLocation(program, 'domainMin'), lut.domainMin);
+    gl.uniform3fv(gl.getUniformLocation(program, 'domainMax'), lut.domainMax);
+  }, [lut]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
+
+export default LutPreview;
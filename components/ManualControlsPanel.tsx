@@ -0,0 +1,115 @@
+import React from 'react';
+import { FocusMode, ManualControls } from '../types';
+import {
+  FOCUS_DISTANCES,
+  FOCUS_MODES,
+  TrackCapabilities,
+  WB_PRESETS,
+  formatFocusDistance,
+  formatKelvin,
+  getFocusMode
+} from '../services/cameraControls';
+import Stepper from './Stepper';
+import { Flashlight, FlashlightOff, Focus, Lock } from 'lucide-react';
+
+interface ManualControlsPanelProps {
+  controls: ManualControls;
+  capabilities: TrackCapabilities;
+  onChange: (controls: ManualControls) => void;
+}
+
+const ZOOM_STEP = 0.5;
+const DEFAULT_MANUAL_FOCUS = 1; // Metres, when switching to MF
+
+// Steps through a list that starts with 'AUTO', stopping at either end
+const stepList = <T,>(values: T[], current: T, direction: 1 | -1): T => {
+  const index = Math.max(0, values.indexOf(current));
+  return values[Math.min(values.length - 1, Math.max(0, index + direction))];
+};
+
+/**
+ * White balance, focus mode and distance, focus point / AE-AF lock, zoom and torch. Controls the camera can't drive are
+ * disabled unless the pipeline can simulate them (white balance always can).
+ */
+const ManualControlsPanel: React.FC<ManualControlsPanelProps> = ({ controls, capabilities, onChange }) => {
+  const update = (patch: Partial<ManualControls>) => onChange({ ...controls, ...patch });
+  const { focusDistance: focusRange, zoom: zoomRange } = capabilities;
+
+  const wbValues: (number | 'AUTO')[] = ['AUTO', ...WB_PRESETS];
+  const focusValues: (number | 'AUTO')[] = [
+    'AUTO',
+    ...FOCUS_DISTANCES.filter(d => !focusRange || (d >= focusRange.min && d <= focusRange.max))
+  ];
+  const manualFocus = capabilities.focusModes.includes('manual') && !!focusRange;
+  const focusMode = getFocusMode(controls);
+  const focusModes = FOCUS_MODES.filter(mode => mode !== 'MF' || manualFocus);
+
+  const setFocusMode = (mode: FocusMode) => {
+    if (mode === 'MF') {
+      const distances = focusValues.slice(1);
+      update({ focusDistance: distances.includes(DEFAULT_MANUAL_FOCUS) ? DEFAULT_MANUAL_FOCUS : distances[0] ?? 'AUTO' });
+    } else {
+      update({ autofocus: mode, focusDistance: 'AUTO' });
+    }
+  };
+
+  const stepZoom = (direction: 1 | -1) => {
+    if (!zoomRange) return;
+    const next = Math.round((controls.zoom + direction * ZOOM_STEP) / ZOOM_STEP) * ZOOM_STEP;
+    update({ zoom: Math.min(zoomRange.max, Math.max(zoomRange.min, next)) });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 mb-3 text-[10px] font-mono font-bold uppercase">
+      <Stepper
+        label="WB"
+        value={formatKelvin(controls.whiteBalance)}
+        onStep={(d) => update({ whiteBalance: stepList(wbValues, controls.whiteBalance, d) })}
+      />
+      <Stepper
+        label="AF"
+        value={focusMode}
+        onStep={(d) => setFocusMode(stepList(focusModes, focusMode, d))}
+      />
+      <Stepper
+        label="FOC"
+        value={formatFocusDistance(controls.focusDistance)}
+        onStep={(d) => update({ focusDistance: stepList(focusValues, controls.focusDistance, d) })}
+        disabled={!manualFocus}
+      />
+      <Stepper
+        label="ZM"
+        value={`${controls.zoom.toFixed(1)}x`}
+        onStep={stepZoom}
+        disabled={!zoomRange}
+      />
+      <button
+        onClick={() => update({ focusPoint: null, aeAfLock: false })}
+        disabled={!controls.focusPoint}
+        title="Back to wide area, unlocked"
+        className={`flex items-center gap-1 bg-black/60 border border-white/10 rounded px-2 py-1 ${controls.focusPoint ? 'text-white' : 'text-gray-400 opacity-40'}`}
+      >
+        <Focus size={12} />
+        Wide
+      </button>
+      <button
+        onClick={() => update({ aeAfLock: !controls.aeAfLock })}
+        title="Hold exposure and focus (or long press the preview)"
+        className={`flex items-center gap-1 bg-black/60 border border-white/10 rounded px-2 py-1 ${controls.aeAfLock ? 'text-orange-500' : 'text-gray-400'}`}
+      >
+        <Lock size={12} />
+        AEL
+      </button>
+      <button
+        onClick={() => update({ torch: !controls.torch })}
+        disabled={!capabilities.torch}
+        className={`flex items-center gap-1 bg-black/60 border border-white/10 rounded px-2 py-1 ${controls.torch ? 'text-orange-500' : 'text-gray-400'} ${capabilities.torch ? '' : 'opacity-40'}`}
+      >
+        {controls.torch ? <Flashlight size={12} /> : <FlashlightOff size={12} />}
+        Torch
+      </button>
+    </div>
+  );
+};
+
+export default ManualControlsPanel;
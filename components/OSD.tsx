@@ -1,14 +1,84 @@
 import React, { useEffect, useState } from 'react';
-import { CameraSettings, CameraMode } from '../types';
-import { Battery, Wifi, Aperture, Clock, Zap } from 'lucide-react';
+import { CameraSettings, CameraMode, ControlSource, ControlStatus, ExposureSettings, ManualControls } from '../types';
+import { formatTimecode } from '../services/videoRecorder';
+import { Histogram } from '../services/assists';
+import { formatFocusDistance, getFocusMode } from '../services/cameraControls';
+import { DriveStatus } from '../services/driveModes';
+import { formatMegapixels } from '../services/deviceManager';
+import { BatteryStatus, DeviceActivity, DeviceStatus, LOW_BATTERY } from '../services/deviceStatus';
+import HistogramPanel from './HistogramPanel';
+import { Battery, BatteryCharging, BatteryFull, BatteryLow, BatteryMedium, Wifi, WifiOff, Zap } from 'lucide-react';
 
 interface OSDProps {
   settings: CameraSettings;
   mode: CameraMode;
+  exposure: ExposureSettings;
+  isRecording: boolean;
+  recordingTime: number; // Seconds
+  histogram: Histogram | null;
+  profileName: string;
+  manualControls: ManualControls;
+  controlStatus: ControlStatus;
+  status: DeviceStatus;
+  fileFormat: string; // What captures in this mode are saved as
+  hiResSize: [number, number] | null; // Super-resolution capture size, after the aspect crop
+  driveLabel: string | null; // Null when stills drive modes don't apply
+  driveStatus: DriveStatus | null;
+  bufferedFrames: number; // Burst frames waiting to be processed
+  bufferFill: number; // Share of the burst buffer's memory they take, 0-1
 }
 
-const OSD: React.FC<OSDProps> = ({ settings, mode }) => {
+const METERING_LABELS: Record<ExposureSettings['meteringMode'], string> = {
+  matrix: '[◉]',
+  center: '(◎)',
+  spot: '[•]'
+};
+
+const SOURCE_BADGES: Record<ControlSource, { label: string; className: string }> = {
+  hardware: { label: 'HW', className: 'text-green-400' },
+  simulated: { label: 'SIM', className: 'text-yellow-400' },
+  unsupported: { label: 'N/A', className: 'text-zinc-500' }
+};
+
+const ACTIVITY_LABELS: Record<DeviceActivity, { label: string; className: string }> = {
+  recording: { label: 'REC', className: 'text-red-500' },
+  processing: { label: 'PROC', className: 'text-orange-400' },
+  standby: { label: 'STBY', className: 'text-green-400' }
+};
+
+const BatteryIcon: React.FC<{ battery: BatteryStatus | null }> = ({ battery }) => {
+  if (!battery) return <Battery size={16} className="text-zinc-500" />;
+  if (battery.charging) return <BatteryCharging size={16} className="text-green-400" />;
+  if (battery.level <= LOW_BATTERY) return <BatteryLow size={16} className="text-red-500" />;
+  return battery.level < 0.6 ? <BatteryMedium size={16} className="text-white" /> : <BatteryFull size={16} className="text-white" />;
+};
+
+const SourceBadge: React.FC<{ source: ControlSource }> = ({ source }) => (
+  <span className={`text-[8px] leading-none ${SOURCE_BADGES[source].className}`}>{SOURCE_BADGES[source].label}</span>
+);
+
+const OSD: React.FC<OSDProps> = ({
+  settings,
+  mode,
+  exposure,
+  isRecording,
+  recordingTime,
+  histogram,
+  profileName,
+  manualControls,
+  controlStatus,
+  status,
+  fileFormat,
+  hiResSize,
+  driveLabel,
+  driveStatus,
+  bufferedFrames,
+  bufferFill
+}) => {
   const [time, setTime] = useState('');
+  const focusMode = getFocusMode(manualControls);
+  const { battery, stream } = status;
+  const activity = ACTIVITY_LABELS[status.activity];
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -20,27 +90,88 @@ const OSD: React.FC<OSDProps> = ({ settings, mode }) => {
 
   return (
     <div className="absolute inset-0 pointer-events-none select-none p-4 flex flex-col justify-between">
+      {/* Recording Tally */}
+      {isRecording && (
+        <>
+          <div className="absolute inset-0 border-4 border-red-600"></div>
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-black/60 px-3 py-1 rounded text-xs font-mono font-bold text-white">
+            <span className="w-2 h-2 rounded-full bg-red-600 animate-pulse"></span>
+            <span className="text-red-500">REC</span>
+            <span>{formatTimecode(recordingTime)}</span>
+          </div>
+        </>
+      )}
       
+      {/* Self-timer / Interval Countdown */}
+      {driveStatus?.countdown != null && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center font-mono text-white drop-shadow-lg">
+          <span className="text-8xl font-bold text-orange-500 animate-pulse">{driveStatus.countdown}</span>
+          {driveStatus.mode === 'interval' && (
+            <span className="mt-2 bg-black/60 px-2 py-1 rounded text-xs font-bold">
+              {driveStatus.frames}/{driveStatus.total}
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Top Info Bar */}
       <div className="flex justify-between items-start text-xs font-mono font-bold text-white drop-shadow-md">
         <div className="flex flex-col gap-1">
           <div className="flex items-center gap-2 bg-black/40 px-2 py-1 rounded">
              <span className="text-orange-500">{mode}</span>
-             <span>RAW+J</span>
-             <span className="text-zinc-400">24MP</span>
+             <span>{fileFormat}</span>
+             <span className="text-zinc-400">
+               {stream
+                 ? `${formatMegapixels(stream.width, stream.height)} ${stream.width}x${stream.height} ${stream.frameRate ? `${stream.frameRate}p` : 'N/A fps'}`
+                 : 'N/A'}
+             </span>
+             {hiResSize && (
+               <span className="text-orange-400">
+                 HI-RES {formatMegapixels(hiResSize[0], hiResSize[1])}
+               </span>
+             )}
+             {driveLabel && <span className="text-zinc-300">{driveLabel}</span>}
           </div>
           <div className="flex items-center gap-2">
-            <span className="bg-black/40 px-2 py-1 rounded">AF-C</span>
-            <span className="bg-black/40 px-2 py-1 rounded">Wide</span>
+            <span className="flex items-center gap-1 bg-black/40 px-2 py-1 rounded">
+              {focusMode === 'MF' ? `MF ${formatFocusDistance(manualControls.focusDistance)}` : focusMode}
+              <SourceBadge source={controlStatus.focus} />
+            </span>
+            <span className="bg-black/40 px-2 py-1 rounded">{manualControls.focusPoint ? 'AF Point' : 'AF Wide'}</span>
+            {manualControls.aeAfLock && (
+              <span className="bg-orange-600/80 px-2 py-1 rounded">{focusMode === 'MF' ? 'AEL' : 'AEL AFL'}</span>
+            )}
+            {manualControls.zoom !== 1 && (
+              <span className="flex items-center gap-1 bg-black/40 px-2 py-1 rounded">
+                {manualControls.zoom.toFixed(1)}x
+                <SourceBadge source={controlStatus.zoom} />
+              </span>
+            )}
+            {manualControls.torch && (
+              <span className="flex items-center gap-1 bg-black/40 px-2 py-1 rounded">
+                <Zap size={10} className="text-yellow-300" />
+                <SourceBadge source={controlStatus.torch} />
+              </span>
+            )}
           </div>
+          <span className="self-start bg-black/40 px-2 py-1 rounded text-orange-300 uppercase">{profileName}</span>
         </div>
 
-        <div className="flex items-center gap-3 bg-black/40 px-3 py-1 rounded-full">
-           <Wifi size={14} className="text-gray-300"/>
-           <span className="text-green-400 font-bold">STBY</span>
-           <span>{time}</span>
-           <Battery size={16} className="text-white fill-white"/>
-           <span>84%</span>
+        <div className="flex flex-col items-end gap-2">
+          <div className="flex items-center gap-3 bg-black/40 px-3 py-1 rounded-full">
+             {status.online ? (
+               <Wifi size={14} className="text-gray-300" />
+             ) : (
+               <WifiOff size={14} className="text-zinc-500" />
+             )}
+             <span className={`font-bold ${activity.className}`}>{activity.label}</span>
+             <span>{time}</span>
+             <BatteryIcon battery={battery} />
+             <span className={battery ? (battery.level <= LOW_BATTERY && !battery.charging ? 'text-red-500' : '') : 'text-zinc-500'}>
+               {battery ? `${Math.round(battery.level * 100)}%` : 'N/A'}
+             </span>
+          </div>
+          {histogram && <HistogramPanel histogram={histogram} />}
         </div>
       </div>
 
@@ -50,24 +181,52 @@ const OSD: React.FC<OSDProps> = ({ settings, mode }) => {
             <div className="flex flex-col items-center">
                 <span className="text-[10px] text-orange-500 uppercase">Shutter</span>
                 <span className="text-xl font-bold">{settings.shutterSpeed}</span>
+                <SourceBadge source={controlStatus.shutter} />
             </div>
             <div className="flex flex-col items-center">
                 <span className="text-[10px] text-orange-500 uppercase">Iris</span>
                 <span className="text-xl font-bold">{settings.aperture}</span>
+                <SourceBadge source={controlStatus.aperture} />
             </div>
             <div className="flex flex-col items-center">
                 <span className="text-[10px] text-orange-500 uppercase">ISO</span>
                 <span className="text-xl font-bold">{settings.iso}</span>
+                <SourceBadge source={controlStatus.iso} />
             </div>
             <div className="flex flex-col items-center">
-                <span className="text-[10px] text-gray-400 uppercase">E.V.</span>
+                <span className="text-[10px] text-gray-400 uppercase">{exposure.program === 'M' ? 'M.M.' : 'E.V.'}</span>
                 <span className="text-lg font-bold">{settings.ev}</span>
+                <SourceBadge source={controlStatus.ev} />
+            </div>
+            <div className="flex flex-col items-center">
+                <span className="text-[10px] text-gray-400 uppercase">WB</span>
+                <span className="text-lg font-bold">{settings.wb}</span>
+                <SourceBadge source={controlStatus.wb} />
             </div>
          </div>
          
          <div className="flex flex-col items-end gap-1">
-            <span className="text-xs text-gray-300">ISO AUTO</span>
-            <span className="text-orange-500 text-sm font-bold">[ 9999 ]</span>
+            <span className="text-xs text-gray-300">
+              {exposure.program} {METERING_LABELS[exposure.meteringMode]}
+              {(exposure.program !== 'M' || exposure.iso === 'AUTO') && ' ISO AUTO'}
+            </span>
+            {driveStatus?.mode === 'interval' && (
+              <span className="text-[10px] font-bold text-white">INT {driveStatus.frames}/{driveStatus.total}</span>
+            )}
+            {(bufferedFrames > 0 || driveStatus?.mode === 'continuous') && (
+              <div className="flex items-center gap-2 text-[10px] font-bold">
+                {driveStatus?.mode === 'continuous' && <span className="text-white">{driveStatus.frames}</span>}
+                <span className="text-gray-400">BUF</span>
+                <div className="w-16 h-1.5 bg-zinc-700 rounded overflow-hidden">
+                  <div
+                    className={`h-full ${bufferFill >= 1 ? 'bg-red-500' : 'bg-orange-500'}`}
+                    style={{ width: `${bufferFill * 100}%` }}
+                  ></div>
+                </div>
+                <span className="text-gray-300">{bufferedFrames}</span>
+              </div>
+            )}
+            <span className="text-orange-500 text-sm font-bold">[ {status.shotsRemaining !== null ? Math.min(status.shotsRemaining, 99999) : 'N/A'} ]</span>
          </div>
       </div>
 
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef } from 'react';
+import { ChevronsLeft, ChevronsRight } from 'lucide-react';
+import { PanoramaDirection } from '../types';
+import { getCoverLayout } from '../services/framing';
+import { MAX_PANORAMA_FRAMES, PANORAMA_OVERLAP, PanGuide } from '../services/panorama';
+
+interface PanoramaGuideProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  direction: PanoramaDirection;
+  guide: PanGuide | null; // Null until a panorama is under way
+}
+
+// Progress below this is a pan the wrong way rather than a wobble
+const WRONG_WAY = -0.1;
+
+/**
+ * Panorama capture guide: the last captured frame as a ghost over the live
+ * view, where its edge has to reach for the next auto-capture, which way to
+ * pan, and how far the view has drifted off level.
+ */
+const PanoramaGuide: React.FC<PanoramaGuideProps> = ({ videoRef, direction, guide }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const keyframe = guide?.keyframe;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !keyframe) return;
+    canvas.width = keyframe.width;
+    canvas.height = keyframe.height;
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(keyframe.data), keyframe.width, keyframe.height), 0, 0);
+  }, [keyframe]);
+
+  const video = videoRef.current;
+  const layout = video && getCoverLayout(video);
+  const Arrow = direction === 'right' ? ChevronsRight : ChevronsLeft;
+  const wrongWay = !!guide && guide.progress < WRONG_WAY;
+
+  if (!guide || !layout) {
+    return (
+      <div className="absolute inset-0 z-10 pointer-events-none flex flex-col items-center justify-center gap-1 text-white/80">
+        <Arrow size={40} />
+        <span className="text-[10px] font-mono font-bold tracking-wider bg-black/40 px-2 py-0.5 rounded">
+          PRESS SHUTTER, THEN PAN {direction.toUpperCase()}
+        </span>
+      </div>
+    );
+  }
+
+  // Where the ghost's trailing edge has to get to, and where it is now (element pixels)
+  const target = layout.offsetX + (direction === 'right' ? PANORAMA_OVERLAP : 1 - PANORAMA_OVERLAP) * layout.shownWidth;
+  const edge = layout.offsetX + (guide.offsetX + (direction === 'right' ? 1 : 0)) * layout.shownWidth;
+  const centre = layout.height / 2;
+  const driftY = centre + guide.offsetY * layout.shownHeight;
+
+  return (
+    <div className="absolute inset-0 z-10 pointer-events-none overflow-hidden">
+      <canvas
+        ref={canvasRef}
+        className="absolute opacity-40"
+        style={{
+          left: layout.offsetX + guide.offsetX * layout.shownWidth,
+          top: layout.offsetY + guide.offsetY * layout.shownHeight,
+          width: layout.shownWidth,
+          height: layout.shownHeight
+        }}
+      />
+      <svg className="absolute inset-0 w-full h-full" width={layout.width} height={layout.height}>
+        <line x1={target} y1={0} x2={target} y2={layout.height} className="stroke-orange-500" strokeWidth={2} strokeDasharray="6 6" />
+        <line x1={edge} y1={0} x2={edge} y2={layout.height} className="stroke-white/80" strokeWidth={2} />
+        <line x1={0} y1={centre} x2={layout.width} y2={centre} className="stroke-white/30" strokeWidth={1} />
+        <line
+          x1={layout.width / 2 - 40}
+          y1={driftY}
+          x2={layout.width / 2 + 40}
+          y2={driftY}
+          className={guide.drift ? 'stroke-yellow-400' : 'stroke-green-400'}
+          strokeWidth={3}
+        />
+      </svg>
+      <div className="absolute inset-0 flex flex-col items-center justify-center gap-1">
+        <Arrow size={40} className={wrongWay ? 'text-red-500' : 'text-white animate-pulse'} />
+        {(wrongWay || guide.drift) && (
+          <span className={`text-[10px] font-mono font-bold bg-black/50 px-2 py-0.5 rounded ${wrongWay ? 'text-red-400' : 'text-yellow-400'}`}>
+            {wrongWay ? `PAN ${direction.toUpperCase()}` : 'KEEP LEVEL'}
+          </span>
+        )}
+      </div>
+      <div className="absolute top-20 left-1/2 -translate-x-1/2 flex flex-col items-center gap-1">
+        <span className="text-xs font-mono font-bold text-white bg-black/50 px-2 py-0.5 rounded">
+          {guide.frames} / {MAX_PANORAMA_FRAMES}
+        </span>
+        <div className="w-24 h-1 bg-white/20 rounded-full overflow-hidden">
+          <div className="h-full bg-orange-500" style={{ width: `${Math.min(1, Math.max(0, guide.progress)) * 100}%` }} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PanoramaGuide;
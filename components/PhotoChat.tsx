@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CapturedImage, ChatMessage } from '../types';
+import { chatAboutPhoto } from '../services/geminiService';
+import { blobToDataUrl, loadCaptureBlob } from '../services/storageService';
+import { MessageSquare, Send, Square, Trash2 } from 'lucide-react';
+
+interface PhotoChatProps {
+  photo: CapturedImage;
+  context?: string; // Latest analysis, so answers can build on it
+  available: boolean;
+  onChange: (chat: ChatMessage[]) => void;
+}
+
+const PhotoChat: React.FC<PhotoChatProps> = ({ photo, context, available, onChange }) => {
+  const [input, setInput] = useState('');
+  const [reply, setReply] = useState<string | null>(null); // Streaming reply, while one is running
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+  const messages = photo.chat ?? [];
+
+  // The parent remounts the chat per photo; leaving a photo stops its reply
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length, reply]);
+
+  const send = async () => {
+    const text = input.trim();
+    if (!text || abortRef.current) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const history = messages;
+    const question: ChatMessage = { role: 'user', text, timestamp: Date.now() };
+    setInput('');
+    setError(null);
+    setReply('');
+    onChange([...history, question]);
+
+    let answer = '';
+    try {
+      const dataUrl = await blobToDataUrl(await loadCaptureBlob(photo.id));
+      answer = await chatAboutPhoto(dataUrl, history, text, partial => {
+        answer = partial;
+        setReply(partial);
+      }, controller.signal, context);
+      onChange([...history, question, { role: 'model', text: answer, timestamp: Date.now() }]);
+    } catch (err) {
+      if (controller.signal.aborted && answer) {
+        onChange([...history, question, { role: 'model', text: answer, timestamp: Date.now(), stopped: true }]);
+      } else {
+        // Nothing came back: take the question back so the thread keeps alternating
+        onChange(history);
+        setInput(text);
+        if (!controller.signal.aborted) {
+          console.error("Photo chat failed", err);
+          setError(err instanceof Error && err.message ? err.message : "Chat unavailable.");
+        }
+      }
+    } finally {
+      abortRef.current = null;
+      setReply(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 mt-4">
+      <div className="flex items-center justify-between text-[10px] text-zinc-500">
+        <span className="flex items-center gap-1"><MessageSquare size={12} /> ASK ABOUT THIS PHOTO</span>
+        {messages.length > 0 && reply === null && (
+          <button onClick={() => onChange([])} title="Clear conversation" className="p-1 hover:text-white">
+            <Trash2 size={12} />
+          </button>
+        )}
+      </div>
+
+      {(messages.length > 0 || reply !== null) && (
+        <div className="flex flex-col gap-2 max-h-64 overflow-y-auto no-scrollbar">
+          {messages.map(message => (
+            <div
+              key={message.timestamp}
+              className={`px-3 py-2 rounded text-xs whitespace-pre-wrap ${message.role === 'user' ? 'self-end bg-orange-600/80 text-white max-w-[80%]' : 'self-start bg-zinc-800 text-zinc-200'}`}
+            >
+              {message.text}
+              {message.stopped && <span className="text-zinc-500"> [stopped]</span>}
+            </div>
+          ))}
+          {reply !== null && (
+            <div className="self-start px-3 py-2 rounded text-xs whitespace-pre-wrap bg-zinc-800 text-zinc-200">
+              {reply || <span className="text-zinc-500">Thinking...</span>}
+            </div>
+          )}
+          <div ref={endRef} />
+        </div>
+      )}
+
+      {error && <span className="text-xs text-red-400">{error}</span>}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          send();
+        }}
+        className="flex gap-2"
+      >
+        <input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          disabled={!available || reply !== null}
+          placeholder={available ? 'How would I fix the backlight?' : 'Chat needs Gemini (API key and network)'}
+          className="flex-1 bg-black/40 border border-zinc-700 rounded px-3 py-2 text-xs text-white placeholder:text-zinc-600 disabled:opacity-50"
+        />
+        {reply !== null ? (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            title="Stop"
+            className="px-3 rounded bg-zinc-800 text-white hover:bg-zinc-700"
+          >
+            <Square size={14} />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!available || !input.trim()}
+            title="Send"
+            className="px-3 rounded bg-orange-600 text-white hover:bg-orange-500 disabled:opacity-40"
+          >
+            <Send size={14} />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default PhotoChat;
@@ -0,0 +1,289 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CropAspect, EditStep, PhotoAdjustments } from '../types';
+import {
+  CROP_ASPECTS,
+  CropHandle,
+  applyEditSteps,
+  aspectCrop,
+  buildEditSteps,
+  decodeImage,
+  dragCrop,
+  getAspectRatio,
+  pushEditStep,
+  rotatedSize
+} from '../services/photoEditor';
+import { captureProcessed } from '../services/imageProcessing';
+import { Check, Copy, Crop, Loader2, Palette, RotateCcw, RotateCw, Sparkles, Sun, Undo2, X } from 'lucide-react';
+
+interface PhotoEditorProps {
+  original: Blob;
+  initialSteps: EditStep[];
+  onSave: (steps: EditStep[]) => void;
+  onCancel: () => void;
+  onCopy: (steps: EditStep[]) => void;
+}
+
+type EditorTab = 'crop' | 'light' | 'color' | 'effects';
+
+type SliderTool = Exclude<keyof PhotoAdjustments, 'crop' | 'aspect' | 'rotation'>;
+
+interface SliderSpec {
+  tool: SliderTool;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Long edge of the proxy the editor renders while adjusting
+const PREVIEW_SIZE = 1280;
+
+const TABS: { tab: EditorTab; label: string; icon: React.ElementType }[] = [
+  { tab: 'crop', label: 'Crop', icon: Crop },
+  { tab: 'light', label: 'Light', icon: Sun },
+  { tab: 'color', label: 'Color', icon: Palette },
+  { tab: 'effects', label: 'Effects', icon: Sparkles }
+];
+
+const SLIDERS: Record<EditorTab, SliderSpec[]> = {
+  crop: [
+    { tool: 'straighten', label: 'Straighten', min: -45, max: 45, step: 0.5 }
+  ],
+  light: [
+    { tool: 'exposure', label: 'Exposure', min: -3, max: 3, step: 0.05 },
+    { tool: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+    { tool: 'highlights', label: 'Highlights', min: -100, max: 100, step: 1 },
+    { tool: 'shadows', label: 'Shadows', min: -100, max: 100, step: 1 }
+  ],
+  color: [
+    { tool: 'temperature', label: 'Temp', min: -100, max: 100, step: 1 },
+    { tool: 'tint', label: 'Tint', min: -100, max: 100, step: 1 },
+    { tool: 'vibrance', label: 'Vibrance', min: -100, max: 100, step: 1 }
+  ],
+  effects: [
+    { tool: 'vignette', label: 'Vignette', min: -100, max: 100, step: 1 },
+    { tool: 'sharpen', label: 'Sharpen', min: 0, max: 100, step: 1 }
+  ]
+};
+
+const CORNERS: { handle: CropHandle; className: string }[] = [
+  { handle: 'nw', className: '-top-1 -left-1 border-t-2 border-l-2 cursor-nwse-resize' },
+  { handle: 'ne', className: '-top-1 -right-1 border-t-2 border-r-2 cursor-nesw-resize' },
+  { handle: 'sw', className: '-bottom-1 -left-1 border-b-2 border-l-2 cursor-nesw-resize' },
+  { handle: 'se', className: '-bottom-1 -right-1 border-b-2 border-r-2 cursor-nwse-resize' }
+];
+
+const formatValue = (tool: SliderTool, value: number) =>
+  tool === 'exposure' ? `${value >= 0 ? '+' : ''}${value.toFixed(2)}`
+    : tool === 'straighten' ? `${value.toFixed(1)}°`
+    : `${value > 0 ? '+' : ''}${Math.round(value)}`;
+
+/**
+ * Non-destructive editor. Works on a downscaled proxy of the original and
+ * renders every change through the same worker pipeline used for capture;
+ * the result is only an edit stack, handed back through `onSave`.
+ */
+const PhotoEditor: React.FC<PhotoEditorProps> = ({ original, initialSteps, onSave, onCancel, onCopy }) => {
+  const [steps, setSteps] = useState<EditStep[]>(initialSteps);
+  const [tab, setTab] = useState<EditorTab>('light');
+  const [proxy, setProxy] = useState<ImageData | null>(null);
+  const [rendering, setRendering] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const cropAreaRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ handle: CropHandle; startX: number; startY: number; rect: NonNullable<PhotoAdjustments['crop']> } | null>(null);
+  const pendingRef = useRef<{ adjustments: PhotoAdjustments; includeCrop: boolean } | null>(null);
+  const busyRef = useRef(false);
+
+  const adjustments = useMemo(() => applyEditSteps(steps), [steps]);
+  const [imageWidth, imageHeight] = proxy
+    ? rotatedSize(proxy.width, proxy.height, adjustments.rotation)
+    : [1, 1];
+  const ratio = getAspectRatio(adjustments.aspect, imageWidth, imageHeight);
+  const crop = adjustments.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+
+  const push = (step: EditStep) => setSteps(prev => pushEditStep(prev, step));
+
+  // Decode the proxy once
+  useEffect(() => {
+    let cancelled = false;
+    decodeImage(original, PREVIEW_SIZE)
+      .then(frame => { if (!cancelled) setProxy(frame); })
+      .catch(err => console.error("Could not decode photo for editing", err));
+    return () => { cancelled = true; };
+  }, [original]);
+
+  // Re-render on every change, dropping intermediate states while a render is running
+  useEffect(() => {
+    if (!proxy) return;
+    pendingRef.current = { adjustments, includeCrop: tab !== 'crop' };
+    if (busyRef.current) return;
+
+    const renderPending = async () => {
+      busyRef.current = true;
+      setRendering(true);
+      while (pendingRef.current && canvasRef.current) {
+        const { adjustments: next, includeCrop } = pendingRef.current;
+        pendingRef.current = null;
+        const frame = new ImageData(new Uint8ClampedArray(proxy.data), proxy.width, proxy.height);
+        try {
+          await captureProcessed(frame, canvasRef.current, buildEditSteps(next, includeCrop));
+        } catch (err) {
+          console.error("Preview render failed", err);
+        }
+      }
+      busyRef.current = false;
+      setRendering(false);
+    };
+    renderPending();
+  }, [proxy, adjustments, tab]);
+
+  const setAspect = (aspect: CropAspect) => {
+    const nextRatio = getAspectRatio(aspect, imageWidth, imageHeight);
+    push({ tool: 'aspect', value: aspect });
+    if (nextRatio) push({ tool: 'crop', value: aspectCrop(nextRatio, imageWidth, imageHeight) });
+  };
+
+  const rotate = (quarterTurns: number) => {
+    push({ tool: 'rotation', value: (adjustments.rotation + quarterTurns * 90 + 360) % 360 });
+    // The crop is relative to the rotated frame, so it starts over
+    if (adjustments.crop) push({ tool: 'crop', value: null });
+  };
+
+  const startDrag = (handle: CropHandle) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { handle, startX: e.clientX, startY: e.clientY, rect: crop };
+  };
+
+  const moveDrag = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const area = cropAreaRef.current?.getBoundingClientRect();
+    if (!drag || !area) return;
+    const dx = (e.clientX - drag.startX) / area.width;
+    const dy = (e.clientY - drag.startY) / area.height;
+    push({ tool: 'crop', value: dragCrop(drag.rect, drag.handle, dx, dy, ratio, imageWidth, imageHeight) });
+  };
+
+  const endDrag = () => { dragRef.current = null; };
+
+  return (
+    <div className="absolute inset-0 z-[60] bg-black flex flex-col font-mono text-white">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between p-3 bg-zinc-900 border-b border-zinc-800 text-xs font-bold uppercase">
+        <button onClick={onCancel} className="flex items-center gap-1 p-2 text-zinc-300"><X size={16} /> Cancel</button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setSteps(prev => prev.slice(0, -1))}
+            disabled={steps.length === 0}
+            className="p-2 text-zinc-300 disabled:opacity-30"
+            title="Undo"
+          >
+            <Undo2 size={16} />
+          </button>
+          <button
+            onClick={() => setSteps([])}
+            disabled={steps.length === 0}
+            className="px-2 py-1 rounded bg-zinc-800 disabled:opacity-30"
+          >
+            Revert
+          </button>
+          <button
+            onClick={() => onCopy(steps)}
+            disabled={steps.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-zinc-800 disabled:opacity-30"
+          >
+            <Copy size={12} /> Copy
+          </button>
+        </div>
+        <button onClick={() => onSave(steps)} className="flex items-center gap-1 p-2 text-orange-500"><Check size={16} /> Done</button>
+      </div>
+
+      {/* Preview */}
+      <div className="flex-1 min-h-0 flex items-center justify-center bg-zinc-950 p-4 relative">
+        {!proxy && <Loader2 className="animate-spin text-zinc-500" />}
+        <div ref={cropAreaRef} className="relative max-h-full max-w-full">
+          <canvas ref={canvasRef} className={`block max-h-[60vh] max-w-full object-contain ${proxy ? '' : 'hidden'}`} />
+          {tab === 'crop' && proxy && (
+            <div className="absolute inset-0" onPointerMove={moveDrag} onPointerUp={endDrag} onPointerCancel={endDrag}>
+              <div
+                className="absolute border border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.55)] cursor-move touch-none"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`
+                }}
+                onPointerDown={startDrag('move')}
+              >
+                <div className="absolute inset-0 grid grid-cols-3 grid-rows-3 pointer-events-none">
+                  {Array.from({ length: 9 }, (_, i) => <div key={i} className="border border-white/20" />)}
+                </div>
+                {CORNERS.map(({ handle, className }) => (
+                  <div
+                    key={handle}
+                    onPointerDown={startDrag(handle)}
+                    className={`absolute w-4 h-4 border-white touch-none ${className}`}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+        {rendering && proxy && (
+          <Loader2 size={14} className="absolute top-3 right-3 animate-spin text-orange-500" />
+        )}
+      </div>
+
+      {/* Tool Controls */}
+      <div className="bg-zinc-900 border-t border-zinc-800 p-4 space-y-3 text-[10px] font-bold uppercase">
+        {tab === 'crop' && (
+          <div className="flex flex-wrap items-center gap-2">
+            {CROP_ASPECTS.map(({ aspect, label }) => (
+              <button
+                key={aspect}
+                onClick={() => setAspect(aspect)}
+                className={`px-2 py-1 rounded border border-white/10 ${adjustments.aspect === aspect ? 'text-orange-500' : 'text-gray-400'}`}
+              >
+                {label}
+              </button>
+            ))}
+            <button onClick={() => rotate(-1)} className="p-1 text-gray-300" title="Rotate left"><RotateCcw size={14} /></button>
+            <button onClick={() => rotate(1)} className="p-1 text-gray-300" title="Rotate right"><RotateCw size={14} /></button>
+          </div>
+        )}
+
+        {SLIDERS[tab].map(({ tool, label, min, max, step }) => (
+          <label key={tool} className="flex items-center gap-3">
+            <span className="w-20 text-gray-400">{label}</span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={adjustments[tool]}
+              onChange={(e) => push({ tool, value: Number(e.target.value) })}
+              onDoubleClick={() => push({ tool, value: 0 })}
+              className="flex-1 accent-orange-500"
+            />
+            <span className="w-12 text-right text-white">{formatValue(tool, adjustments[tool])}</span>
+          </label>
+        ))}
+
+        <div className="flex justify-around pt-2">
+          {TABS.map(({ tab: id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`flex flex-col items-center gap-1 ${tab === id ? 'text-orange-500' : 'text-gray-400'}`}
+            >
+              <Icon size={18} />
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoEditor;
@@ -0,0 +1,80 @@
+import React, { useRef } from 'react';
+import { LutInterpolation, ProfileSettings } from '../types';
+import { PictureProfile } from '../services/colorProfiles';
+import { Palette, Upload, Trash2 } from 'lucide-react';
+
+interface ProfilePanelProps {
+  profiles: PictureProfile[];
+  settings: ProfileSettings;
+  onChange: (settings: ProfileSettings) => void;
+  onImport: (file: File) => void;
+  importError: string | null;
+  onDelete: (profile: PictureProfile) => void;
+}
+
+const INTERPOLATION_LABELS: Record<LutInterpolation, string> = {
+  trilinear: 'TRI',
+  tetrahedral: 'TET'
+};
+
+const ProfilePanel: React.FC<ProfilePanelProps> = ({ profiles, settings, onChange, onImport, importError, onDelete }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const active = profiles.find(profile => profile.id === settings.profileId);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-3 text-[10px] font-mono font-bold uppercase">
+      <Palette size={12} className="text-orange-500" />
+      <select
+        value={settings.profileId}
+        onChange={(e) => onChange({ ...settings, profileId: e.target.value })}
+        className="bg-black/60 text-white border border-white/10 rounded px-2 py-1 max-w-[10rem]"
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>{profile.builtIn ? profile.name : `LUT: ${profile.name}`}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => onChange({
+          ...settings,
+          interpolation: settings.interpolation === 'trilinear' ? 'tetrahedral' : 'trilinear'
+        })}
+        className="bg-black/60 border border-white/10 rounded px-2 py-1 text-orange-500"
+        title="LUT interpolation"
+      >
+        {INTERPOLATION_LABELS[settings.interpolation]}
+      </button>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="flex items-center gap-1 bg-black/60 border border-white/10 rounded px-2 py-1 text-gray-300"
+      >
+        <Upload size={12} />
+        .cube
+      </button>
+      {active && !active.builtIn && (
+        <button
+          onClick={() => onDelete(active)}
+          className="bg-black/60 border border-white/10 rounded px-2 py-1 text-red-400"
+          title="Remove LUT"
+        >
+          <Trash2 size={12} />
+        </button>
+      )}
+      {importError && (
+        <span className="basis-full text-red-400 normal-case">{importError}</span>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".cube"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default ProfilePanel;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { Minus, Plus } from 'lucide-react';
+
+interface StepperProps {
+  label: string;
+  value: string;
+  onStep: (direction: 1 | -1) => void;
+  disabled?: boolean;
+}
+
+const Stepper: React.FC<StepperProps> = ({ label, value, onStep, disabled = false }) => (
+  <div className={`flex items-center gap-1 bg-black/60 border border-white/10 rounded px-1 py-1 ${disabled ? 'opacity-40' : ''}`}>
+    <button onClick={() => onStep(-1)} disabled={disabled} className="text-gray-400 hover:text-white"><Minus size={12} /></button>
+    <span className="text-orange-500">{label}</span>
+    <span className="min-w-[3rem] text-center text-white">{value}</span>
+    <button onClick={() => onStep(1)} disabled={disabled} className="text-gray-400 hover:text-white"><Plus size={12} /></button>
+  </div>
+);
+
+export default Stepper;
@@ -0,0 +1,82 @@
+import { AnalysisPreference, AnalysisProviderId, CapturedImage, ImageDiagnostics, SceneAnalysis } from '../types';
+import { geminiProvider } from './geminiService';
+import { localProvider } from './localAnalyzer';
+
+export interface AnalysisRequest {
+  image: Blob; // The untouched original
+  metadata: CapturedImage['metadata'];
+}
+
+/**
+ * Something that can critique a photo. Providers throw when they can't
+ * produce a result so the caller can fall back to another one.
+ */
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  isAvailable: () => boolean; // Whether it can be tried at all (API key, etc.)
+  analyze: (request: AnalysisRequest) => Promise<SceneAnalysis>;
+}
+
+export interface AnalysisOutcome {
+  analysis: SceneAnalysis;
+  fallbackReason: string | null; // Why the preferred provider wasn't used
+}
+
+export const ANALYSIS_PROVIDERS: AnalysisProvider[] = [geminiProvider, localProvider];
+
+export const ANALYSIS_PREFERENCES: { preference: AnalysisPreference; label: string }[] = [
+  { preference: 'auto', label: 'Auto' },
+  { preference: 'gemini', label: geminiProvider.label },
+  { preference: 'local', label: localProvider.label }
+];
+
+const STORAGE_KEY = 'alphacam.analysis';
+
+export const loadAnalysisPreference = (): AnalysisPreference => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return ANALYSIS_PREFERENCES.some(entry => entry.preference === stored) ? stored as AnalysisPreference : 'auto';
+  } catch {
+    return 'auto';
+  }
+};
+
+export const saveAnalysisPreference = (preference: AnalysisPreference) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, preference);
+  } catch (err) {
+    console.warn("Could not persist analysis provider", err);
+  }
+};
+
+/**
+ * Colour cast as amber/blue and magenta/green offsets, e.g. "A12 G3".
+ */
+export const formatColorCast = ({ temperature, tint }: ImageDiagnostics['colorCast']): string =>
+  `${temperature >= 0 ? 'A' : 'B'}${Math.round(Math.abs(temperature) * 100)} ${tint >= 0 ? 'M' : 'G'}${Math.round(Math.abs(tint) * 100)}`;
+
+export const getAnalysisProvider = (id: AnalysisProviderId): AnalysisProvider =>
+  ANALYSIS_PROVIDERS.find(provider => provider.id === id) ?? localProvider;
+
+/**
+ * Runs the preferred provider, falling back to the on-device analyzer when
+ * it is unavailable or fails. Only the on-device analyzer itself can throw.
+ */
+export const runAnalysis = async (request: AnalysisRequest, preference: AnalysisPreference): Promise<AnalysisOutcome> => {
+  const preferred = getAnalysisProvider(preference === 'auto' ? 'gemini' : preference);
+  if (preferred === localProvider) return { analysis: await localProvider.analyze(request), fallbackReason: null };
+
+  let fallbackReason: string;
+  if (!preferred.isAvailable()) {
+    fallbackReason = `${preferred.label} unavailable`;
+  } else {
+    try {
+      return { analysis: await preferred.analyze(request), fallbackReason: null };
+    } catch (err) {
+      console.warn(`${preferred.label} analysis failed, using on-device analysis`, err);
+      fallbackReason = err instanceof Error && err.message ? err.message : `${preferred.label} failed`;
+    }
+  }
+  return { analysis: await localProvider.analyze(request), fallbackReason };
+};
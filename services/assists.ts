@@ -0,0 +1,99 @@
+import { AssistSettings, PeakingColor } from '../types';
+import { Frame } from './frameStacking';
+import { SOBEL_X, SOBEL_Y, convolvePlane } from './pipeline/stages';
+
+/**
+ * Live shooting assists: histogram, zebra stripes and focus peaking.
+ * Everything here works on plain RGBA buffers so the overlay loop can run
+ * on a downscaled copy of the preview.
+ */
+
+export interface Histogram {
+  r: Uint32Array;
+  g: Uint32Array;
+  b: Uint32Array;
+  luma: Uint32Array;
+  total: number; // Pixel count
+}
+
+export const PEAKING_COLORS: Record<PeakingColor, [number, number, number]> = {
+  red: [255, 40, 40],
+  yellow: [255, 230, 0],
+  blue: [40, 120, 255],
+  white: [255, 255, 255]
+};
+
+// Sobel magnitude (on 0-255 luma) above which an edge counts as in focus
+const PEAKING_THRESHOLDS: Record<AssistSettings['peakingLevel'], number> = {
+  low: 240,
+  mid: 170,
+  high: 110
+};
+
+const ZEBRA_STRIPE = 4; // Stripe width in sample pixels
+
+const rec709Luma = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+export const computeHistogram = (frame: Frame): Histogram => {
+  const r = new Uint32Array(256);
+  const g = new Uint32Array(256);
+  const b = new Uint32Array(256);
+  const luma = new Uint32Array(256);
+  const { data } = frame;
+
+  for (let p = 0; p < data.length; p += 4) {
+    r[data[p]]++;
+    g[data[p + 1]]++;
+    b[data[p + 2]]++;
+    luma[Math.round(rec709Luma(data[p], data[p + 1], data[p + 2]))]++;
+  }
+  return { r, g, b, luma, total: frame.width * frame.height };
+};
+
+/**
+ * Renders zebra stripes and/or focus peaking into a transparent RGBA overlay
+ * the same size as `frame`. `phase` animates the stripes between calls.
+ */
+export const renderAssists = (
+  frame: Frame,
+  settings: AssistSettings,
+  out: Uint8ClampedArray,
+  phase = 0
+) => {
+  const { data, width, height } = frame;
+  out.fill(0);
+
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+    luma[i] = rec709Luma(data[p], data[p + 1], data[p + 2]);
+  }
+
+  if (settings.zebra) {
+    const threshold = (settings.zebraThreshold / 100) * 255;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        if (luma[i] < threshold) continue;
+        const on = Math.floor((x + y + phase) / ZEBRA_STRIPE) % 2 === 0;
+        const o = i * 4;
+        out[o] = out[o + 1] = out[o + 2] = on ? 255 : 0;
+        out[o + 3] = 160;
+      }
+    }
+  }
+
+  if (settings.peaking) {
+    const gx = convolvePlane(luma, width, height, SOBEL_X);
+    const gy = convolvePlane(luma, width, height, SOBEL_Y);
+    const threshold = PEAKING_THRESHOLDS[settings.peakingLevel];
+    const [pr, pg, pb] = PEAKING_COLORS[settings.peakingColor];
+    for (let i = 0; i < luma.length; i++) {
+      if (Math.hypot(gx[i], gy[i]) < threshold) continue;
+      const o = i * 4;
+      out[o] = pr;
+      out[o + 1] = pg;
+      out[o + 2] = pb;
+      out[o + 3] = 255;
+    }
+  }
+};
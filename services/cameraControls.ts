@@ -0,0 +1,382 @@
+import { ControlSource, ControlStatus, ExposureSettings, FocusMode, ManualControls } from '../types';
+
+/**
+ * Manual camera controls on top of the Image Capture extensions to
+ * MediaStreamTrack (exposureTime, iso, colorTemperature, focusDistance, zoom,
+ * torch, pointsOfInterest). Whatever the track can't do in hardware is either simulated in the
+ * processing pipeline (exposure gain, white balance) or reported as unsupported.
+ */
+
+export interface ControlRange {
+  min: number;
+  max: number;
+  step?: number;
+}
+
+export interface TrackCapabilities {
+  exposureModes: string[];
+  exposureTime?: ControlRange; // Units of 100 microseconds
+  exposureCompensation?: ControlRange;
+  iso?: ControlRange;
+  whiteBalanceModes: string[];
+  colorTemperature?: ControlRange;
+  focusModes: string[];
+  focusDistance?: ControlRange;
+  zoom?: ControlRange;
+  torch: boolean;
+  pointsOfInterest: boolean; // Focus/metering point can be set
+}
+
+export interface SimulatedBalance {
+  gain: number; // Linear exposure multiplier
+  wb: [number, number, number]; // Linear per-channel multipliers
+}
+
+// Image Capture capability keys missing from lib.dom
+type ImageCaptureCapabilities = MediaTrackCapabilities & {
+  exposureMode?: string[];
+  exposureTime?: ControlRange;
+  exposureCompensation?: ControlRange;
+  iso?: ControlRange;
+  whiteBalanceMode?: string[];
+  colorTemperature?: ControlRange;
+  focusMode?: string[];
+  focusDistance?: ControlRange;
+  zoom?: ControlRange;
+  torch?: boolean;
+};
+
+// Image Capture settings missing from lib.dom, read back to hold AE/AF lock
+type ImageCaptureSettings = MediaTrackSettings & {
+  exposureTime?: number;
+  iso?: number;
+  focusDistance?: number;
+  pointsOfInterest?: { x: number; y: number }[];
+};
+
+export const WB_PRESETS = [2500, 3200, 4000, 4500, 5000, 5600, 6500, 7500, 9000];
+export const FOCUS_DISTANCES = [0.1, 0.15, 0.2, 0.3, 0.5, 0.7, 1, 1.5, 2, 3, 5, 10];
+export const FOCUS_MODES: FocusMode[] = ['AF-S', 'AF-C', 'MF'];
+
+// Camera AWB renders a neutral scene as D65 white
+const NEUTRAL_KELVIN = 6500;
+const MAX_SIMULATED_GAIN_STOPS = 4;
+
+const NO_CAPABILITIES: TrackCapabilities = {
+  exposureModes: [],
+  whiteBalanceModes: [],
+  focusModes: [],
+  torch: false,
+  pointsOfInterest: false
+};
+
+const clamp = (value: number, range: ControlRange) => Math.min(range.max, Math.max(range.min, value));
+
+export const getTrackCapabilities = (track: MediaStreamTrack | undefined): TrackCapabilities => {
+  if (!track?.getCapabilities) return NO_CAPABILITIES;
+  const caps = track.getCapabilities() as ImageCaptureCapabilities;
+  // Not a capability; platforms that support it report the current points
+  const settings = track.getSettings() as ImageCaptureSettings;
+  return {
+    exposureModes: caps.exposureMode ?? [],
+    exposureTime: caps.exposureTime,
+    exposureCompensation: caps.exposureCompensation,
+    iso: caps.iso,
+    whiteBalanceModes: caps.whiteBalanceMode ?? [],
+    colorTemperature: caps.colorTemperature,
+    focusModes: caps.focusMode ?? [],
+    focusDistance: caps.focusDistance,
+    zoom: caps.zoom,
+    torch: caps.torch ?? false,
+    pointsOfInterest: Array.isArray(settings.pointsOfInterest)
+  };
+};
+
+export const getFocusMode = (controls: ManualControls): FocusMode =>
+  controls.focusDistance === 'AUTO' ? controls.autofocus : 'MF';
+
+/**
+ * Decides, from the track capabilities alone, where each control will take effect.
+ */
+export const resolveControlStatus = (
+  caps: TrackCapabilities,
+  exposure: ExposureSettings,
+  controls: ManualControls
+): ControlStatus => {
+  const manualExposure = caps.exposureModes.includes('manual') && !!caps.exposureTime;
+  let shutter: ControlSource;
+  let iso: ControlSource;
+  let ev: ControlSource;
+
+  if (exposure.program === 'M') {
+    shutter = manualExposure ? 'hardware' : 'simulated';
+    iso = !manualExposure ? 'simulated' : caps.iso ? 'hardware' : 'unsupported';
+    ev = shutter;
+  } else {
+    // The camera runs its own auto-exposure; our shutter/ISO are computed readouts
+    shutter = 'simulated';
+    iso = 'simulated';
+    ev = caps.exposureCompensation ? 'hardware' : 'simulated';
+  }
+
+  const manualWb = caps.whiteBalanceModes.includes('manual') && !!caps.colorTemperature;
+  const manualFocus = caps.focusModes.includes('manual') && !!caps.focusDistance;
+
+  return {
+    shutter,
+    aperture: 'simulated', // No web API exposes the iris
+    iso,
+    ev,
+    wb: controls.whiteBalance === 'AUTO' || manualWb ? 'hardware' : 'simulated',
+    focus: controls.focusDistance === 'AUTO' || manualFocus ? 'hardware' : 'unsupported',
+    zoom: caps.zoom ? 'hardware' : 'unsupported',
+    torch: caps.torch ? 'hardware' : 'unsupported'
+  };
+};
+
+type ConstraintGroup = { controls: (keyof ControlStatus)[]; constraints: Record<string, unknown> };
+
+// Under AE/AF lock the camera is held at whatever it last settled on:
+// manual at the current values where possible, otherwise one more single shot
+const lockedExposure = (caps: TrackCapabilities, held: ImageCaptureSettings): Record<string, unknown> | null => {
+  if (caps.exposureModes.includes('manual') && caps.exposureTime && held.exposureTime) {
+    return {
+      exposureMode: 'manual',
+      exposureTime: clamp(held.exposureTime, caps.exposureTime),
+      ...(caps.iso && held.iso && { iso: clamp(held.iso, caps.iso) })
+    };
+  }
+  return caps.exposureModes.includes('single-shot') ? { exposureMode: 'single-shot' } : null;
+};
+
+const lockedFocus = (caps: TrackCapabilities, held: ImageCaptureSettings): Record<string, unknown> | null => {
+  if (caps.focusModes.includes('manual') && caps.focusDistance && held.focusDistance !== undefined) {
+    return { focusMode: 'manual', focusDistance: clamp(held.focusDistance, caps.focusDistance) };
+  }
+  return caps.focusModes.includes('single-shot') ? { focusMode: 'single-shot' } : null;
+};
+
+const buildConstraintGroups = (
+  caps: TrackCapabilities,
+  status: ControlStatus,
+  exposure: ExposureSettings,
+  iso: number,
+  controls: ManualControls,
+  held: ImageCaptureSettings | null
+): ConstraintGroup[] => {
+  const groups: ConstraintGroup[] = [];
+  const pointOfInterest = controls.focusPoint && caps.pointsOfInterest
+    ? { pointsOfInterest: [controls.focusPoint] }
+    : {};
+  const exposureLock = held && lockedExposure(caps, held);
+  const focusLock = held && lockedFocus(caps, held);
+
+  if (exposure.program === 'M' && status.shutter === 'hardware' && caps.exposureTime) {
+    groups.push({
+      controls: ['shutter', 'iso', 'ev'],
+      constraints: {
+        exposureMode: 'manual',
+        exposureTime: clamp(exposure.shutter * 10000, caps.exposureTime),
+        ...(status.iso === 'hardware' && caps.iso && { iso: clamp(iso, caps.iso) })
+      }
+    });
+  } else if (exposureLock) {
+    groups.push({ controls: ['ev'], constraints: { ...pointOfInterest, ...exposureLock } });
+  } else if (caps.exposureModes.includes('continuous')) {
+    groups.push({
+      controls: ['ev'],
+      constraints: {
+        exposureMode: 'continuous',
+        ...pointOfInterest,
+        ...(status.ev === 'hardware' && caps.exposureCompensation && {
+          exposureCompensation: clamp(exposure.compensation, caps.exposureCompensation)
+        })
+      }
+    });
+  }
+
+  if (controls.whiteBalance !== 'AUTO' && status.wb === 'hardware' && caps.colorTemperature) {
+    groups.push({
+      controls: ['wb'],
+      constraints: { whiteBalanceMode: 'manual', colorTemperature: clamp(controls.whiteBalance, caps.colorTemperature) }
+    });
+  } else if (caps.whiteBalanceModes.includes('continuous')) {
+    groups.push({ controls: ['wb'], constraints: { whiteBalanceMode: 'continuous' } });
+  }
+
+  if (controls.focusDistance !== 'AUTO' && status.focus === 'hardware' && caps.focusDistance) {
+    groups.push({
+      controls: ['focus'],
+      constraints: { focusMode: 'manual', focusDistance: clamp(controls.focusDistance, caps.focusDistance) }
+    });
+  } else if (focusLock) {
+    groups.push({ controls: ['focus'], constraints: { ...pointOfInterest, ...focusLock } });
+  } else {
+    // AF-S falls back to continuous on cameras without single-shot focus
+    const focusMode = controls.autofocus === 'AF-S' && caps.focusModes.includes('single-shot') ? 'single-shot'
+      : caps.focusModes.includes('continuous') ? 'continuous'
+      : null;
+    if (focusMode) groups.push({ controls: ['focus'], constraints: { focusMode, ...pointOfInterest } });
+  }
+
+  if (caps.zoom) groups.push({ controls: ['zoom'], constraints: { zoom: clamp(controls.zoom, caps.zoom) } });
+  if (caps.torch) groups.push({ controls: ['torch'], constraints: { torch: controls.torch } });
+
+  return groups;
+};
+
+// Values that can fall back to the pipeline when the camera rejects them
+const SIMULATABLE: (keyof ControlStatus)[] = ['shutter', 'iso', 'ev', 'wb'];
+
+/**
+ * Pushes the current settings to the camera with `applyConstraints` and
+ * returns where each value ended up. `iso` is the resolved ISO (the metered
+ * value when the program's ISO is AUTO).
+ * If the combined constraint set is rejected, groups are retried one by one
+ * so a single unsupported control doesn't disable the rest.
+ * With `aeAfLock` set, hardware auto exposure and focus are held at the
+ * values the track currently reports.
+ */
+export const applyCameraControls = async (
+  track: MediaStreamTrack,
+  caps: TrackCapabilities,
+  exposure: ExposureSettings,
+  iso: number,
+  controls: ManualControls
+): Promise<ControlStatus> => {
+  const status = resolveControlStatus(caps, exposure, controls);
+  const held = controls.aeAfLock ? track.getSettings() as ImageCaptureSettings : null;
+  const groups = buildConstraintGroups(caps, status, exposure, iso, controls, held);
+  if (groups.length === 0) return status;
+
+  const apply = (constraints: Record<string, unknown>) =>
+    track.applyConstraints({ advanced: [constraints as MediaTrackConstraintSet] });
+
+  try {
+    await apply(Object.assign({}, ...groups.map(group => group.constraints)));
+    return status;
+  } catch (err) {
+    console.warn("Camera rejected combined constraints, retrying individually", err);
+  }
+
+  let accepted: Record<string, unknown> = {};
+  for (const group of groups) {
+    try {
+      await apply({ ...accepted, ...group.constraints });
+      accepted = { ...accepted, ...group.constraints };
+    } catch {
+      group.controls.forEach(control => {
+        if (status[control] === 'hardware') {
+          status[control] = SIMULATABLE.includes(control) ? 'simulated' : 'unsupported';
+        }
+      });
+    }
+  }
+  return status;
+};
+
+// Tanner Helland's blackbody fit, returns sRGB 0-1
+const kelvinToRgb = (kelvin: number): [number, number, number] => {
+  const t = kelvin / 100;
+  const r = t <= 66 ? 255 : 329.698727446 * (t - 60) ** -0.1332047592;
+  const g = t <= 66 ? 99.4708025861 * Math.log(t) - 161.1195681661 : 288.1221695283 * (t - 60) ** -0.0755148492;
+  const b = t >= 66 ? 255 : t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+  return [r, g, b].map(v => Math.min(255, Math.max(0, v)) / 255) as [number, number, number];
+};
+
+const toLinear = (v: number) => v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+
+/**
+ * Linear channel gains that make a neutral (AWB-corrected) frame look as if
+ * the camera had been set to `kelvin`: low values cool the image, high values warm it.
+ */
+export const whiteBalanceGains = (kelvin: number): [number, number, number] => {
+  const neutral = kelvinToRgb(NEUTRAL_KELVIN).map(toLinear);
+  const target = kelvinToRgb(kelvin).map(toLinear);
+  const gains = neutral.map((n, i) => n / Math.max(1e-3, target[i]));
+  return [gains[0] / gains[1], 1, gains[2] / gains[1]];
+};
+
+/**
+ * The gain and white balance the pipeline must add for values the camera
+ * couldn't apply. `evStops` is the EV readout (M.M. deviation in M, otherwise
+ * the compensation). Returns null when nothing needs simulating.
+ */
+export const getSimulatedBalance = (
+  status: ControlStatus,
+  controls: ManualControls,
+  evStops: number
+): SimulatedBalance | null => {
+  const stops = status.ev === 'simulated'
+    ? Math.min(MAX_SIMULATED_GAIN_STOPS, Math.max(-MAX_SIMULATED_GAIN_STOPS, evStops))
+    : 0;
+  const wb: [number, number, number] = status.wb === 'simulated' && controls.whiteBalance !== 'AUTO'
+    ? whiteBalanceGains(controls.whiteBalance)
+    : [1, 1, 1];
+
+  if (stops === 0 && wb.every(g => g === 1)) return null;
+  return { gain: 2 ** stops, wb };
+};
+
+export const formatKelvin = (kelvin: number | 'AUTO'): string => kelvin === 'AUTO' ? 'AWB' : `${kelvin}K`;
+
+/**
+ * Inverse of `formatKelvin`, snapped to the nearest preset.
+ */
+export const parseKelvin = (value: string): number | 'AUTO' => {
+  const kelvin = parseFloat(value);
+  if (!Number.isFinite(kelvin)) return 'AUTO';
+  return WB_PRESETS.reduce((best, preset) => Math.abs(preset - kelvin) < Math.abs(best - kelvin) ? preset : best);
+};
+
+export const formatFocusDistance = (distance: number | 'AUTO'): string =>
+  distance === 'AUTO' ? 'AF' : distance >= 10 ? '∞' : `${distance}m`;
+
+export interface ExposureBracketer {
+  // Shifts exposure by `ev` stops from the current settings; resolves to the
+  // shift the camera actually accepted (the rest must be made up in software)
+  setOffset: (ev: number) => Promise<number>;
+  restore: () => Promise<void>;
+}
+
+/**
+ * Hardware exposure bracketing: varies exposureTime in M with manual exposure,
+ * otherwise exposureCompensation. Returns null when the camera can't do either.
+ */
+export const createExposureBracketer = (
+  track: MediaStreamTrack,
+  caps: TrackCapabilities,
+  exposure: ExposureSettings,
+  iso: number,
+  controls: ManualControls
+): ExposureBracketer | null => {
+  const status = resolveControlStatus(caps, exposure, controls);
+  const restore = async () => { await applyCameraControls(track, caps, exposure, iso, controls); };
+
+  if (exposure.program === 'M' && status.shutter === 'hardware' && caps.exposureTime) {
+    const range = caps.exposureTime;
+    const base = exposure.shutter * 10000;
+    return {
+      setOffset: async (ev) => {
+        const time = clamp(base * 2 ** ev, range);
+        const applied = await applyCameraControls(track, caps, { ...exposure, shutter: time / 10000 }, iso, controls);
+        return applied.shutter === 'hardware' ? Math.log2(time / base) : 0;
+      },
+      restore
+    };
+  }
+
+  if (exposure.program !== 'M' && status.ev === 'hardware' && caps.exposureCompensation) {
+    const range = caps.exposureCompensation;
+    return {
+      setOffset: async (ev) => {
+        const compensation = clamp(exposure.compensation + ev, range);
+        const applied = await applyCameraControls(track, caps, { ...exposure, compensation }, iso, controls);
+        return applied.ev === 'hardware' ? compensation - exposure.compensation : 0;
+      },
+      restore
+    };
+  }
+
+  return null;
+};
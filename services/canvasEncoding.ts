@@ -0,0 +1,7 @@
+/**
+ * Encodes a canvas to an image blob (JPEG by default).
+ */
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/jpeg', quality = 0.95): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Canvas encoding failed")), type, quality);
+  });
@@ -0,0 +1,105 @@
+import { Lut3D, buildLut, buildLutFromStage } from './pipeline/lut';
+import { applySonyLook } from './pipeline/stages';
+import { srgbToLinear } from './pipeline/srgb';
+
+/**
+ * Picture profiles.
+ * Every profile — built-in or imported — is a 3D LUT, so the live preview
+ * (WebGL) and the capture pipeline (worker) apply exactly the same grade.
+ */
+
+export interface PictureProfile {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  lut: Lut3D;
+}
+
+export const DEFAULT_PROFILE_ID = 'a1';
+export const CUSTOM_PROFILE_PREFIX = 'lut:';
+
+const BUILT_IN_LUT_SIZE = 33;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// CSS-style saturate() matrix with Rec.709 weights
+const saturate = (r: number, g: number, b: number, s: number): [number, number, number] => [
+  (0.213 + 0.787 * s) * r + (0.715 - 0.715 * s) * g + (0.072 - 0.072 * s) * b,
+  (0.213 - 0.213 * s) * r + (0.715 + 0.285 * s) * g + (0.072 - 0.072 * s) * b,
+  (0.213 - 0.213 * s) * r + (0.715 - 0.715 * s) * g + (0.072 + 0.928 * s) * b
+];
+
+const contrast = (v: number, amount: number) => (v - 0.5) * amount + 0.5;
+
+// Smooth S-curve around mid-grey, gentler on the ends than a linear contrast
+const sCurve = (v: number, amount: number) => {
+  const x = clamp01(v);
+  const s = x * x * (3 - 2 * x);
+  return x + (s - x) * amount;
+};
+
+const clampRgb = ([r, g, b]: [number, number, number]): [number, number, number] =>
+  [clamp01(r), clamp01(g), clamp01(b)];
+
+const BUILT_INS: { id: string; name: string; build: () => Lut3D }[] = [
+  {
+    id: 'a1',
+    name: 'A1 Look',
+    build: () => buildLutFromStage('A1 Look', BUILT_IN_LUT_SIZE, applySonyLook)
+  },
+  {
+    id: 'standard',
+    name: 'Standard',
+    build: () => buildLut('Standard', BUILT_IN_LUT_SIZE, (r, g, b) => [r, g, b])
+  },
+  {
+    id: 'vivid',
+    name: 'Vivid',
+    build: () => buildLut('Vivid', BUILT_IN_LUT_SIZE, (r, g, b) =>
+      clampRgb(saturate(sCurve(r, 0.5), sCurve(g, 0.5), sCurve(b, 0.5), 1.35)))
+  },
+  {
+    id: 'flat',
+    name: 'Flat (S-Log)',
+    // Log-encode linear light into 10-90% so highlights and shadows survive for grading
+    build: () => {
+      const k = 32;
+      const encode = (v: number) => 0.1 + 0.8 * Math.log2(1 + srgbToLinear(v) * k) / Math.log2(1 + k);
+      return buildLut('Flat (S-Log)', BUILT_IN_LUT_SIZE, (r, g, b) =>
+        clampRgb(saturate(encode(r), encode(g), encode(b), 0.85)));
+    }
+  },
+  {
+    id: 'portrait',
+    name: 'Portrait',
+    build: () => buildLut('Portrait', BUILT_IN_LUT_SIZE, (r, g, b) => {
+      const [sr, sg, sb] = saturate(r, g, b, 0.92);
+      return clampRgb([contrast(sr, 0.95) + 0.02, contrast(sg, 0.95) + 0.005, contrast(sb, 0.95) - 0.015]);
+    })
+  },
+  {
+    id: 'bw',
+    name: 'B&W',
+    build: () => buildLut('B&W', BUILT_IN_LUT_SIZE, (r, g, b) => {
+      const y = clamp01(sCurve(0.2126 * r + 0.7152 * g + 0.0722 * b, 0.35));
+      return [y, y, y];
+    })
+  }
+];
+
+let builtInProfiles: PictureProfile[] | null = null;
+
+export const getBuiltInProfiles = (): PictureProfile[] => {
+  builtInProfiles ??= BUILT_INS.map(({ id, name, build }) => ({ id, name, builtIn: true, lut: build() }));
+  return builtInProfiles;
+};
+
+export const createLutProfile = (id: string, lut: Lut3D): PictureProfile => ({
+  id: `${CUSTOM_PROFILE_PREFIX}${id}`,
+  name: lut.title,
+  builtIn: false,
+  lut
+});
+
+export const findProfile = (profiles: PictureProfile[], id: string): PictureProfile =>
+  profiles.find(profile => profile.id === id) ?? profiles.find(profile => profile.id === DEFAULT_PROFILE_ID) ?? profiles[0];
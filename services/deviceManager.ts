@@ -0,0 +1,173 @@
+import { CameraFacing, CameraSelection } from '../types';
+
+export interface CaptureFormat {
+  width: number;
+  height: number;
+  label: string;
+}
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+  facing: CameraFacing;
+  formats: CaptureFormat[]; // Sizes within the device's reported range, largest first
+  frameRates: number[];
+  verified: boolean; // False when the browser can't report ranges and the lists are guesses
+}
+
+// What the browser actually negotiated for the running stream
+export interface ActiveFormat {
+  deviceId: string;
+  label: string;
+  width: number;
+  height: number;
+  frameRate: number | null;
+}
+
+const STORAGE_KEY = 'alphacam.camera';
+
+export const DEFAULT_CAMERA_SELECTION: CameraSelection = {
+  deviceId: null,
+  facing: 'rear',
+  width: 3840,
+  height: 2160,
+  frameRate: null
+};
+
+const STANDARD_FORMATS: CaptureFormat[] = [
+  { width: 7680, height: 4320, label: '8K' },
+  { width: 3840, height: 2160, label: '4K UHD' },
+  { width: 2560, height: 1440, label: 'QHD' },
+  { width: 1920, height: 1080, label: 'FHD' },
+  { width: 1280, height: 720, label: 'HD' },
+  { width: 640, height: 480, label: 'VGA' },
+];
+
+const STANDARD_FRAME_RATES = [24, 25, 30, 50, 60, 120];
+
+// Offered when the browser can't report a device's range
+const UNVERIFIED_MAX = { width: 3840, height: 2160, frameRate: 60 };
+
+const FRONT_LABEL = /front|user|facetime|integrated|built-?in/i;
+const REAR_LABEL = /back|rear|environment|world/i;
+
+const facingFromMode = (mode: string | undefined): CameraFacing | null =>
+  mode === 'user' ? 'front' : mode === 'environment' ? 'rear' : null;
+
+/**
+ * Best guess at which way a camera points. Browsers report `facingMode` for
+ * phone cameras; desktop webcams usually only have a label to go on.
+ */
+const detectFacing = (label: string, facingModes: string[] = []): CameraFacing =>
+  facingModes.map(facingFromMode).find(facing => facing !== null)
+    ?? (REAR_LABEL.test(label) ? 'rear' : FRONT_LABEL.test(label) ? 'front' : 'external');
+
+/**
+ * Lists video inputs with the capture sizes and frame rates each supports.
+ * Labels (and often the capability ranges) are only available once the user
+ * has granted camera access, so call this after a stream is open.
+ */
+export const listCameras = async (): Promise<CameraDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const inputs = (await navigator.mediaDevices.enumerateDevices())
+    .filter(device => device.kind === 'videoinput' && device.deviceId);
+
+  return inputs.map((device, index) => {
+    const caps = 'getCapabilities' in device
+      ? (device as InputDeviceInfo).getCapabilities()
+      : null;
+    const verified = !!caps?.width?.max && !!caps?.height?.max;
+    const maxLong = verified ? Math.max(caps!.width!.max!, caps!.height!.max!) : UNVERIFIED_MAX.width;
+    const maxShort = verified ? Math.min(caps!.width!.max!, caps!.height!.max!) : UNVERIFIED_MAX.height;
+    const maxRate = caps?.frameRate?.max ?? UNVERIFIED_MAX.frameRate;
+    const label = device.label || `Camera ${index + 1}`;
+
+    return {
+      deviceId: device.deviceId,
+      label,
+      facing: detectFacing(device.label, caps?.facingMode),
+      formats: STANDARD_FORMATS.filter(format => format.width <= maxLong && format.height <= maxShort),
+      frameRates: STANDARD_FRAME_RATES.filter(rate => rate <= Math.round(maxRate)),
+      verified
+    };
+  });
+};
+
+export const loadCameraSelection = (): CameraSelection => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_CAMERA_SELECTION, ...JSON.parse(stored) } : DEFAULT_CAMERA_SELECTION;
+  } catch {
+    return DEFAULT_CAMERA_SELECTION;
+  }
+};
+
+export const saveCameraSelection = (selection: CameraSelection) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+  } catch (err) {
+    console.warn("Could not persist camera selection", err);
+  }
+};
+
+const sizeConstraints = (selection: CameraSelection): MediaTrackConstraints => ({
+  ...(selection.width && { width: { ideal: selection.width } }),
+  ...(selection.height && { height: { ideal: selection.height } }),
+  ...(selection.frameRate && { frameRate: { ideal: selection.frameRate } })
+});
+
+/**
+ * Opens the selected camera, relaxing the request step by step: the exact
+ * device at the requested format, the device at any format, any camera with
+ * the same facing, then any camera at all. Check `getActiveFormat` for what
+ * was actually granted.
+ */
+export const openCamera = async (selection: CameraSelection): Promise<MediaStream> => {
+  const facingMode = selection.facing === 'front' ? 'user' : 'environment';
+  const attempts: MediaTrackConstraints[] = [
+    ...(selection.deviceId ? [
+      { deviceId: { exact: selection.deviceId }, ...sizeConstraints(selection) },
+      { deviceId: { exact: selection.deviceId } }
+    ] : []),
+    { ...(selection.facing !== 'external' && { facingMode }), ...sizeConstraints(selection) }
+  ];
+
+  for (const video of attempts) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ video, audio: false });
+    } catch (err) {
+      // Permission errors won't be fixed by relaxing the request
+      if (err instanceof DOMException && err.name === 'NotAllowedError') throw err;
+      console.warn("Camera request failed, relaxing constraints", video, err);
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ video: true, audio: false });
+};
+
+export const getActiveFormat = (stream: MediaStream | null): ActiveFormat | null => {
+  const track = stream?.getVideoTracks()[0];
+  if (!track) return null;
+  const settings = track.getSettings();
+  if (!settings.width || !settings.height) return null;
+  return {
+    deviceId: settings.deviceId ?? '',
+    label: track.label,
+    width: settings.width,
+    height: settings.height,
+    frameRate: settings.frameRate ? Math.round(settings.frameRate) : null
+  };
+};
+
+/**
+ * The camera the flip button switches to: the next device with a different
+ * facing, or simply the next device when they all face the same way.
+ */
+export const getNextCamera = (devices: CameraDevice[], currentId: string | null): CameraDevice | null => {
+  if (devices.length < 2) return null;
+  const index = Math.max(0, devices.findIndex(device => device.deviceId === currentId));
+  const ordered = [...devices.slice(index + 1), ...devices.slice(0, index)];
+  return ordered.find(device => device.facing !== devices[index].facing) ?? ordered[0];
+};
+
+export const formatMegapixels = (width: number, height: number): string =>
+  `${(width * height / 1_000_000).toFixed(1)}MP`;
@@ -0,0 +1,91 @@
+import { ActiveFormat } from './deviceManager';
+
+/**
+ * What the OSD reports about the device itself: power, connectivity,
+ * storage, the stream actually negotiated and what the camera is busy with.
+ * Each comes from a browser API where one exists; anything the browser
+ * doesn't expose is null, and shown as such rather than made up.
+ */
+
+export interface BatteryStatus {
+  level: number; // 0-1
+  charging: boolean;
+}
+
+export type DeviceActivity = 'recording' | 'processing' | 'standby';
+
+export interface DeviceStatus {
+  battery: BatteryStatus | null; // Null without the Battery Status API
+  online: boolean;
+  shotsRemaining: number | null; // From getStorageQuota; null without a storage estimate
+  stream: ActiveFormat | null; // Null until a camera is open
+  activity: DeviceActivity;
+}
+
+// Battery Status API; Chromium only, so not in the DOM typings
+interface BatteryManager extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+const BATTERY_EVENTS = ['levelchange', 'chargingchange'];
+
+export const LOW_BATTERY = 0.2;
+
+/**
+ * Reports the battery level and charging state now and whenever they change.
+ * Reports null once if the browser has no Battery Status API (or refuses it).
+ * Returns a function that stops watching.
+ */
+export const watchBattery = (onChange: (battery: BatteryStatus | null) => void): (() => void) => {
+  const getBattery = (navigator as Navigator & { getBattery?: () => Promise<BatteryManager> }).getBattery;
+  if (!getBattery) {
+    onChange(null);
+    return () => {};
+  }
+
+  let manager: BatteryManager | null = null;
+  let stopped = false;
+  const report = () => {
+    if (manager) onChange({ level: manager.level, charging: manager.charging });
+  };
+
+  getBattery.call(navigator)
+    .then(battery => {
+      if (stopped) return;
+      manager = battery;
+      BATTERY_EVENTS.forEach(type => battery.addEventListener(type, report));
+      report();
+    })
+    .catch(err => {
+      console.warn("Battery status unavailable", err);
+      if (!stopped) onChange(null);
+    });
+
+  return () => {
+    stopped = true;
+    BATTERY_EVENTS.forEach(type => manager?.removeEventListener(type, report));
+  };
+};
+
+/**
+ * Reports whether the browser is online now and on every change.
+ * Returns a function that stops watching.
+ */
+export const watchConnectivity = (onChange: (online: boolean) => void): (() => void) => {
+  const report = () => onChange(navigator.onLine);
+  window.addEventListener('online', report);
+  window.addEventListener('offline', report);
+  report();
+  return () => {
+    window.removeEventListener('online', report);
+    window.removeEventListener('offline', report);
+  };
+};
+
+/**
+ * What the camera is doing, for the OSD's status tally. Recording wins over
+ * processing: stills can't be taken while recording.
+ */
+export const getDeviceActivity = (isRecording: boolean, isProcessing: boolean): DeviceActivity =>
+  isRecording ? 'recording' : isProcessing ? 'processing' : 'standby';
@@ -0,0 +1,168 @@
+import { BurstSpeed, DriveMode, DriveSettings } from '../types';
+
+export interface DriveStatus {
+  mode: DriveMode; // The sequence's drive mode, never 'single'
+  frames: number; // Shots taken so far in the running sequence
+  total: number | null; // Planned shots (intervalometer)
+  countdown: number | null; // Whole seconds until the next shot
+}
+
+export interface CaptureBuffer<T> {
+  push: (item: T) => boolean; // False when the buffer is full and the item was dropped
+  hasRoom: (bytes: number) => boolean; // Whether an item this size would be taken
+  pending: () => number;
+  fill: () => number; // Share of the byte budget in use, 0-1; 1 once another item like the last won't fit
+  drain: () => Promise<void>;
+}
+
+// Frames per second for continuous shooting
+export const BURST_RATES: Record<BurstSpeed, number> = {
+  hi: 10,
+  mid: 6,
+  lo: 3
+};
+
+// Memory a burst can get ahead of processing, like a camera's RAM buffer:
+// about 30 frames at 1080p, 7 at 4K
+export const BURST_BUFFER_BYTES = 256 * 1024 * 1024;
+
+export const TIMER_DELAYS = [2, 5, 10];
+export const INTERVAL_SECONDS = [1, 2, 5, 10, 30, 60];
+export const INTERVAL_SHOT_COUNTS = [10, 30, 60, 120, 300];
+
+/**
+ * Short OSD label for the drive mode, e.g. "CONT HI" or "INT 5s x120".
+ */
+export const formatDriveMode = (settings: DriveSettings): string => {
+  switch (settings.mode) {
+    case 'continuous': return `CONT ${settings.burstSpeed.toUpperCase()}`;
+    case 'timer': return `SELF ${settings.timerDelay}s`;
+    case 'interval': return `INT ${settings.interval}s x${settings.shotCount}`;
+    default: return 'SINGLE';
+  }
+};
+
+/**
+ * Resolves after `ms`, or as soon as `signal` aborts.
+ */
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Counts down to `deadline` (a performance.now() time), reporting the whole
+ * seconds remaining at each tick. Resolves true when the deadline was reached,
+ * false when aborted.
+ */
+export const countdownTo = async (
+  deadline: number,
+  signal: AbortSignal,
+  onTick: (remaining: number) => void
+): Promise<boolean> => {
+  let left = deadline - performance.now();
+  while (left > 0 && !signal.aborted) {
+    onTick(Math.ceil(left / 1000));
+    // Wake just past the next whole second; timers may fire a little early
+    await wait((left % 1000 || 1000) + 5, signal);
+    left = deadline - performance.now();
+  }
+  return !signal.aborted;
+};
+
+/**
+ * Fires `shoot` at a fixed rate until `signal` aborts. The first frame is
+ * taken immediately; the schedule doesn't drift when a shot runs long.
+ */
+export const runBurst = async (fps: number, signal: AbortSignal, shoot: () => void): Promise<void> => {
+  const period = 1000 / fps;
+  let next = performance.now();
+  while (!signal.aborted) {
+    shoot();
+    next = Math.max(next + period, performance.now());
+    await wait(next - performance.now(), signal);
+  }
+};
+
+/**
+ * Intervalometer: takes `count` shots `interval` seconds apart, measured from
+ * the first shot. A shot that overruns its slot delays only the next one.
+ */
+export const runInterval = async (
+  count: number,
+  interval: number,
+  signal: AbortSignal,
+  shoot: (index: number) => Promise<void>,
+  onCountdown: (remaining: number) => void
+): Promise<number> => {
+  const startedAt = performance.now();
+  let taken = 0;
+  for (let i = 0; i < count && !signal.aborted; i++) {
+    if (!await countdownTo(startedAt + i * interval * 1000, signal, onCountdown)) break;
+    await shoot(i);
+    taken++;
+  }
+  return taken;
+};
+
+/**
+ * FIFO bounded by the bytes it holds (as reported by `sizeOf`), processed one
+ * item at a time in the background so the shutter can keep firing while
+ * earlier frames are graded and saved. An empty buffer always takes an item,
+ * however large.
+ */
+export const createCaptureBuffer = <T>(
+  capacityBytes: number,
+  sizeOf: (item: T) => number,
+  process: (item: T) => Promise<void>,
+  onChange?: (pending: number, fill: number) => void
+): CaptureBuffer<T> => {
+  const queue: T[] = [];
+  let used = 0;
+  let lastSize = 0;
+  let active = false;
+  let idle = Promise.resolve();
+
+  const hasRoom = (bytes: number) => queue.length === 0 || used + bytes <= capacityBytes;
+  const fill = () => queue.length > 0 && !hasRoom(lastSize) ? 1 : used / capacityBytes;
+
+  const run = async () => {
+    active = true;
+    while (queue.length > 0) {
+      try {
+        await process(queue[0]);
+      } catch (err) {
+        console.error("Buffered capture failed", err);
+      }
+      used -= sizeOf(queue.shift() as T);
+      onChange?.(queue.length, fill());
+    }
+    active = false;
+  };
+
+  return {
+    push: (item) => {
+      const bytes = sizeOf(item);
+      if (!hasRoom(bytes)) return false;
+      queue.push(item);
+      used += bytes;
+      lastSize = bytes;
+      onChange?.(queue.length, fill());
+      if (!active) idle = run();
+      return true;
+    },
+    hasRoom,
+    pending: () => queue.length,
+    fill,
+    drain: () => idle
+  };
+};
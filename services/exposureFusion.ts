@@ -0,0 +1,350 @@
+import { Frame, FrameStats, buildPyramid, estimateTranslation, toLuma } from './frameStacking';
+
+/**
+ * Mertens-style exposure fusion.
+ * Each bracketed frame gets a per-pixel weight from local contrast, colour
+ * saturation and well-exposedness; frames are blended with Laplacian
+ * pyramids so weight seams don't show. Frames are folded in one at a time,
+ * so memory stays at one set of accumulator pyramids regardless of bracket size.
+ */
+
+export interface FusionOptions {
+  align: boolean;
+  maxShift: number; // Pixels at full resolution
+  contrastWeight: number; // Exponents of the three quality measures
+  saturationWeight: number;
+  exposednessWeight: number;
+}
+
+export interface ExposureFusion {
+  add: (frame: Frame) => FrameStats;
+  finish: () => Frame;
+}
+
+interface Plane {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_FUSION_OPTIONS: FusionOptions = {
+  align: true,
+  maxShift: 32,
+  contrastWeight: 1,
+  saturationWeight: 1,
+  exposednessWeight: 1
+};
+
+const PYRAMID_MIN_SIZE = 16;
+const EXPOSEDNESS_SIGMA = 0.2;
+const WEIGHT_EPSILON = 1e-12;
+const BINOMIAL = [1 / 16, 4 / 16, 6 / 16, 4 / 16, 1 / 16];
+
+const pyramidLevels = (width: number, height: number) => {
+  let levels = 1;
+  let w = width;
+  let h = height;
+  while (Math.min(w, h) / 2 >= PYRAMID_MIN_SIZE) {
+    w = Math.ceil(w / 2);
+    h = Math.ceil(h / 2);
+    levels++;
+  }
+  return levels;
+};
+
+/**
+ * Separable 5-tap binomial blur followed by 2x decimation.
+ */
+const pyrDown = (plane: Plane): Plane => {
+  const { data, width, height } = plane;
+  const temp = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -2; k <= 2; k++) {
+        sum += data[y * width + Math.min(width - 1, Math.max(0, x + k))] * BINOMIAL[k + 2];
+      }
+      temp[y * width + x] = sum;
+    }
+  }
+
+  const outWidth = Math.ceil(width / 2);
+  const outHeight = Math.ceil(height / 2);
+  const out = new Float32Array(outWidth * outHeight);
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      let sum = 0;
+      for (let k = -2; k <= 2; k++) {
+        sum += temp[Math.min(height - 1, Math.max(0, y * 2 + k)) * width + x * 2] * BINOMIAL[k + 2];
+      }
+      out[y * outWidth + x] = sum;
+    }
+  }
+  return { data: out, width: outWidth, height: outHeight };
+};
+
+/**
+ * Bilinear 2x expansion to the given size. Reconstruction is exact as long
+ * as building and collapsing the Laplacian pyramid use the same expansion.
+ */
+const pyrUp = (plane: Plane, width: number, height: number): Plane => {
+  const { data, width: srcWidth, height: srcHeight } = plane;
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(srcHeight - 1, Math.max(0, (y + 0.5) / 2 - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(srcHeight - 1, y0 + 1);
+    const fy = sy - y0;
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(srcWidth - 1, Math.max(0, (x + 0.5) / 2 - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(srcWidth - 1, x0 + 1);
+      const fx = sx - x0;
+      const top = data[y0 * srcWidth + x0] * (1 - fx) + data[y0 * srcWidth + x1] * fx;
+      const bottom = data[y1 * srcWidth + x0] * (1 - fx) + data[y1 * srcWidth + x1] * fx;
+      out[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return { data: out, width, height };
+};
+
+const gaussianPyramid = (plane: Plane, levels: number): Plane[] => {
+  const pyramid = [plane];
+  for (let l = 1; l < levels; l++) pyramid.push(pyrDown(pyramid[l - 1]));
+  return pyramid;
+};
+
+const laplacianPyramid = (plane: Plane, levels: number): Plane[] => {
+  const gaussian = gaussianPyramid(plane, levels);
+  return gaussian.map((level, l) => {
+    if (l === levels - 1) return level;
+    const expanded = pyrUp(gaussian[l + 1], level.width, level.height);
+    const data = new Float32Array(level.data.length);
+    for (let i = 0; i < data.length; i++) data[i] = level.data[i] - expanded.data[i];
+    return { data, width: level.width, height: level.height };
+  });
+};
+
+/**
+ * Splits an aligned frame into 0-1 float channel planes, sampling
+ * `frame(x + dx, y + dy)` with edge clamping.
+ */
+const toChannels = (frame: Frame, dx: number, dy: number): Plane[] => {
+  const { data, width, height } = frame;
+  const channels = [0, 1, 2].map(() => new Float32Array(width * height));
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(height - 1, Math.max(0, y + dy));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(width - 1, Math.max(0, x + dx));
+      const s = (sy * width + sx) * 4;
+      const d = y * width + x;
+      channels[0][d] = data[s] / 255;
+      channels[1][d] = data[s + 1] / 255;
+      channels[2][d] = data[s + 2] / 255;
+    }
+  }
+  return channels.map(channel => ({ data: channel, width, height }));
+};
+
+/**
+ * Per-pixel quality: |Laplacian| of grey x RGB standard deviation x
+ * Gaussian closeness of each channel to mid-grey, each raised to its exponent.
+ */
+const qualityWeights = ([r, g, b]: Plane[], options: FusionOptions): Plane => {
+  const { width, height } = r;
+  const count = width * height;
+  const grey = new Float32Array(count);
+  for (let i = 0; i < count; i++) grey[i] = (r.data[i] + g.data[i] + b.data[i]) / 3;
+
+  const weights = new Float32Array(count);
+  const twoSigmaSq = 2 * EXPOSEDNESS_SIGMA * EXPOSEDNESS_SIGMA;
+  for (let y = 0; y < height; y++) {
+    const up = Math.max(0, y - 1) * width;
+    const down = Math.min(height - 1, y + 1) * width;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const left = y * width + Math.max(0, x - 1);
+      const right = y * width + Math.min(width - 1, x + 1);
+      const contrast = Math.abs(grey[up + x] + grey[down + x] + grey[left] + grey[right] - 4 * grey[i]);
+
+      const mean = grey[i];
+      const saturation = Math.sqrt(((r.data[i] - mean) ** 2 + (g.data[i] - mean) ** 2 + (b.data[i] - mean) ** 2) / 3);
+
+      const exposedness = Math.exp(-(
+        (r.data[i] - 0.5) ** 2 + (g.data[i] - 0.5) ** 2 + (b.data[i] - 0.5) ** 2
+      ) / twoSigmaSq);
+
+      weights[i] = contrast ** options.contrastWeight *
+        saturation ** options.saturationWeight *
+        exposedness ** options.exposednessWeight + WEIGHT_EPSILON;
+    }
+  }
+  return { data: weights, width, height };
+};
+
+type LumaPlane = ReturnType<typeof toLuma>;
+
+// Histogram bins next to a frame's darkest/brightest level that count as clipped.
+// Measured from the frame's own extremes: a clipped tinted highlight doesn't reach luma 255.
+const CLIP_MARGIN = 3;
+// Below this shared unclipped fraction there is too little detail to align on
+const MIN_ALIGN_RANGE = 0.1;
+
+const lumaHistogram = (luma: LumaPlane) => {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < luma.data.length; i++) histogram[Math.min(255, Math.round(luma.data[i]))]++;
+  return histogram;
+};
+
+const clippedFractions = (histogram: Uint32Array, total: number) => {
+  let min = 0;
+  let max = 255;
+  while (min < 255 && histogram[min] === 0) min++;
+  while (max > 0 && histogram[max] === 0) max--;
+  let low = 0;
+  let high = 0;
+  for (let v = min; v <= Math.min(255, min + CLIP_MARGIN); v++) low += histogram[v];
+  for (let v = Math.max(0, max - CLIP_MARGIN); v <= max; v++) high += histogram[v];
+  return { low: low / total, high: high / total };
+};
+
+const percentile = (histogram: Uint32Array, total: number, q: number) => {
+  let seen = 0;
+  for (let v = 0; v < 256; v++) {
+    seen += histogram[v];
+    if (seen >= q * total) return v;
+  }
+  return 255;
+};
+
+/**
+ * Percentile threshold bitmap (after Ward's median threshold bitmap): pixels
+ * above the threshold become 255, the rest 0. Ranks survive an exposure
+ * change, so two brackets thresholded at the same percentile can be aligned
+ * with the ordinary SAD search. The percentile is taken from the middle of
+ * the range that is unclipped in both frames; returns null when that range
+ * is too small to align on.
+ */
+const toThresholdPyramids = (ref: LumaPlane, img: LumaPlane) => {
+  const total = ref.data.length;
+  const refHistogram = lumaHistogram(ref);
+  const imgHistogram = lumaHistogram(img);
+  const refClip = clippedFractions(refHistogram, total);
+  const imgClip = clippedFractions(imgHistogram, total);
+  const low = Math.max(refClip.low, imgClip.low);
+  const high = 1 - Math.max(refClip.high, imgClip.high);
+  if (high - low < MIN_ALIGN_RANGE) return null;
+  const q = (low + high) / 2;
+
+  const bitmap = (plane: LumaPlane, threshold: number) => {
+    const data = new Float32Array(plane.data.length);
+    for (let i = 0; i < data.length; i++) data[i] = plane.data[i] > threshold ? 255 : 0;
+    return buildPyramid({ data, width: plane.width, height: plane.height });
+  };
+  return {
+    ref: bitmap(ref, percentile(refHistogram, total, q)),
+    img: bitmap(img, percentile(imgHistogram, total, q))
+  };
+};
+
+/**
+ * Creates a fusion accumulator. The first frame added is the alignment
+ * reference, so callers should feed the middle exposure first.
+ */
+export const createExposureFusion = (options: Partial<FusionOptions> = {}): ExposureFusion => {
+  const opts: FusionOptions = { ...DEFAULT_FUSION_OPTIONS, ...options };
+  let width = 0;
+  let height = 0;
+  let levels = 0;
+  let refLuma: LumaPlane | null = null;
+  let blended: Plane[][] = []; // [channel][level], weighted Laplacian sums
+  let weightSums: Plane[] = [];
+  const stats: FrameStats[] = [];
+
+  const add = (frame: Frame): FrameStats => {
+    if (!refLuma) {
+      width = frame.width;
+      height = frame.height;
+      levels = pyramidLevels(width, height);
+    } else if (frame.width !== width || frame.height !== height) {
+      throw new Error("Frame size changed during fusion");
+    }
+
+    const luma = toLuma(frame);
+    let mean = 0;
+    for (let i = 0; i < luma.data.length; i++) mean += luma.data[i];
+    mean /= Math.max(1, luma.data.length);
+
+    let dx = 0;
+    let dy = 0;
+    let alignmentError = 0;
+    // Brackets differ in brightness, so align their threshold bitmaps rather than raw luma
+    if (!refLuma) {
+      refLuma = luma;
+    } else if (opts.align) {
+      const pyramids = toThresholdPyramids(refLuma, luma);
+      if (pyramids) {
+        const shift = estimateTranslation(pyramids.ref, pyramids.img, opts.maxShift);
+        dx = shift.dx;
+        dy = shift.dy;
+        alignmentError = shift.error;
+      }
+    }
+
+    const channels = toChannels(frame, dx, dy);
+    const weightPyramid = gaussianPyramid(qualityWeights(channels, opts), levels);
+
+    if (weightSums.length === 0) {
+      weightSums = weightPyramid.map(level => ({ ...level, data: new Float32Array(level.data.length) }));
+      blended = channels.map(() => weightPyramid.map(level => ({ ...level, data: new Float32Array(level.data.length) })));
+    }
+
+    weightPyramid.forEach((level, l) => {
+      const sum = weightSums[l].data;
+      for (let i = 0; i < sum.length; i++) sum[i] += level.data[i];
+    });
+    channels.forEach((channel, c) => {
+      laplacianPyramid(channel, levels).forEach((level, l) => {
+        const acc = blended[c][l].data;
+        const weight = weightPyramid[l].data;
+        for (let i = 0; i < acc.length; i++) acc[i] += level.data[i] * weight[i];
+      });
+    });
+
+    const frameStats: FrameStats = {
+      index: stats.length,
+      offsetX: dx,
+      offsetY: dy,
+      meanLuma: mean,
+      alignmentError,
+      rejectedRatio: 0
+    };
+    stats.push(frameStats);
+    return frameStats;
+  };
+
+  const finish = (): Frame => {
+    if (stats.length === 0) throw new Error("No frames to fuse");
+    const out = new Uint8ClampedArray(width * height * 4);
+
+    blended.forEach((pyramid, c) => {
+      // Normalise each level by the blurred weight sum, then collapse coarse to fine
+      pyramid.forEach((level, l) => {
+        const sum = weightSums[l].data;
+        for (let i = 0; i < level.data.length; i++) level.data[i] /= sum[i];
+      });
+      let image = pyramid[levels - 1];
+      for (let l = levels - 2; l >= 0; l--) {
+        const expanded = pyrUp(image, pyramid[l].width, pyramid[l].height);
+        for (let i = 0; i < expanded.data.length; i++) expanded.data[i] += pyramid[l].data[i];
+        image = expanded;
+      }
+      for (let i = 0; i < image.data.length; i++) out[i * 4 + c] = image.data[i] * 255;
+    });
+    for (let i = 3; i < out.length; i += 4) out[i] = 255;
+
+    return { data: out, width, height };
+  };
+
+  return { add, finish };
+};
@@ -0,0 +1,354 @@
+import { StackMethod } from '../types';
+
+/**
+ * Multi-frame stacking.
+ * Frames are aligned to the first (reference) frame with a coarse-to-fine
+ * translation search and combined in a Float32 accumulator, so averaging
+ * never round-trips through an 8-bit canvas.
+ */
+
+export interface Frame {
+  data: Uint8ClampedArray; // RGBA
+  width: number;
+  height: number;
+}
+
+export interface StackOptions {
+  method: StackMethod;
+  align: boolean;
+  maxShift: number; // Pixels at full resolution
+  sigma: number; // Rejection threshold for sigma-clip, in standard deviations
+}
+
+export interface FrameStats {
+  index: number;
+  offsetX: number; // Translation applied to align with the reference frame
+  offsetY: number;
+  meanLuma: number; // 0-255
+  alignmentError: number; // Mean absolute luma difference after alignment
+  rejectedRatio: number; // Fraction of samples discarded by sigma-clipping
+}
+
+export interface StackResult {
+  data: Float32Array; // RGBA, 0-255
+  width: number;
+  height: number;
+  method: StackMethod;
+  frames: FrameStats[];
+}
+
+export interface FrameStack {
+  add: (frame: Frame) => FrameStats;
+  finish: () => StackResult;
+}
+
+interface LumaPlane {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_STACK_OPTIONS: StackOptions = {
+  method: 'mean',
+  align: true,
+  maxShift: 32,
+  sigma: 2
+};
+
+// Memory median and sigma-clip may spend on kept frames, which caps how many
+// they take at high resolutions (15 at 4K; mean stacking has no limit)
+export const KEPT_FRAMES_BUDGET = 512 * 1024 * 1024;
+
+/**
+ * The most frames median and sigma-clip stacking keep at this frame size.
+ */
+export const maxKeptFrames = (width: number, height: number): number =>
+  Math.max(2, Math.floor(KEPT_FRAMES_BUDGET / Math.max(1, width * height * 4)));
+
+const PYRAMID_MIN_SIZE = 48;
+const ALIGN_SAMPLE_TARGET = 65536;
+
+export const toLuma = (frame: Frame): LumaPlane => {
+  const { data, width, height } = frame;
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+    luma[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  }
+  return { data: luma, width, height };
+};
+
+const downsample = (plane: LumaPlane): LumaPlane => {
+  const width = Math.floor(plane.width / 2);
+  const height = Math.floor(plane.height / 2);
+  const out = new Float32Array(width * height);
+  const src = plane.data;
+  const sw = plane.width;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * 2) * sw + x * 2;
+      out[y * width + x] = (src[i] + src[i + 1] + src[i + sw] + src[i + sw + 1]) * 0.25;
+    }
+  }
+  return { data: out, width, height };
+};
+
+/**
+ * Builds a luma pyramid, finest level first.
+ */
+export const buildPyramid = (plane: LumaPlane): LumaPlane[] => {
+  const levels = [plane];
+  let current = plane;
+  while (Math.min(current.width, current.height) / 2 >= PYRAMID_MIN_SIZE) {
+    current = downsample(current);
+    levels.push(current);
+  }
+  return levels;
+};
+
+/**
+ * Mean absolute difference between `ref(x, y)` and `img(x + dx, y + dy)` over
+ * their overlap, sampled on a sparse grid.
+ */
+const shiftError = (ref: LumaPlane, img: LumaPlane, dx: number, dy: number): number => {
+  const { width, height } = ref;
+  const step = Math.max(1, Math.floor(Math.sqrt((width * height) / ALIGN_SAMPLE_TARGET)));
+  const x0 = Math.max(0, -dx);
+  const y0 = Math.max(0, -dy);
+  const x1 = Math.min(width, img.width - dx);
+  const y1 = Math.min(height, img.height - dy);
+
+  let sum = 0;
+  let count = 0;
+  for (let y = y0; y < y1; y += step) {
+    const refRow = y * width;
+    const imgRow = (y + dy) * img.width + dx;
+    for (let x = x0; x < x1; x += step) {
+      sum += Math.abs(ref.data[refRow + x] - img.data[imgRow + x]);
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : Infinity;
+};
+
+/**
+ * Estimates the integer translation that maps `img` onto `ref`.
+ * Runs an exhaustive search at the coarsest pyramid level and refines by
+ * ±1 pixel at each finer level.
+ */
+export const estimateTranslation = (
+  refPyramid: LumaPlane[],
+  imgPyramid: LumaPlane[],
+  maxShift: number
+): { dx: number; dy: number; error: number } => {
+  const top = Math.min(refPyramid.length, imgPyramid.length) - 1;
+  const radius = Math.max(1, Math.ceil(maxShift / 2 ** top));
+
+  let best = { dx: 0, dy: 0, error: Infinity };
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const error = shiftError(refPyramid[top], imgPyramid[top], dx, dy);
+      if (error < best.error) best = { dx, dy, error };
+    }
+  }
+
+  for (let level = top - 1; level >= 0; level--) {
+    const cx = best.dx * 2;
+    const cy = best.dy * 2;
+    best = { dx: cx, dy: cy, error: Infinity };
+    for (let dy = cy - 1; dy <= cy + 1; dy++) {
+      for (let dx = cx - 1; dx <= cx + 1; dx++) {
+        const error = shiftError(refPyramid[level], imgPyramid[level], dx, dy);
+        if (error < best.error) best = { dx, dy, error };
+      }
+    }
+  }
+
+  return best;
+};
+
+const meanOf = (plane: LumaPlane): number => {
+  let sum = 0;
+  for (let i = 0; i < plane.data.length; i++) sum += plane.data[i];
+  return sum / Math.max(1, plane.data.length);
+};
+
+/**
+ * Creates an accumulator that frames are fed into one at a time.
+ * Mean stacking keeps only the running sum; median and sigma-clip keep every
+ * aligned frame, since both need all samples of a pixel at once, and refuse
+ * frames beyond `maxKeptFrames`.
+ */
+export const createFrameStack = (options: Partial<StackOptions> = {}): FrameStack => {
+  const opts: StackOptions = { ...DEFAULT_STACK_OPTIONS, ...options };
+  let refPyramid: LumaPlane[] | null = null;
+  let width = 0;
+  let height = 0;
+  let sum: Float32Array | null = null;
+  const kept: { data: Uint8ClampedArray; dx: number; dy: number }[] = [];
+  const stats: FrameStats[] = [];
+
+  const accumulate = (data: Uint8ClampedArray, dx: number, dy: number) => {
+    if (!sum) return;
+    for (let y = 0; y < height; y++) {
+      const sy = Math.min(height - 1, Math.max(0, y + dy));
+      for (let x = 0; x < width; x++) {
+        const sx = Math.min(width - 1, Math.max(0, x + dx));
+        const s = (sy * width + sx) * 4;
+        const d = (y * width + x) * 4;
+        sum[d] += data[s];
+        sum[d + 1] += data[s + 1];
+        sum[d + 2] += data[s + 2];
+      }
+    }
+  };
+
+  const add = (frame: Frame): FrameStats => {
+    if (!refPyramid) {
+      width = frame.width;
+      height = frame.height;
+      if (opts.method === 'mean') sum = new Float32Array(width * height * 4);
+    } else if (frame.width !== width || frame.height !== height) {
+      throw new Error("Frame size changed during stacking");
+    }
+    if (opts.method !== 'mean' && kept.length >= maxKeptFrames(width, height)) {
+      throw new Error(`At most ${maxKeptFrames(width, height)} frames can be kept for ${opts.method} stacking at ${width}x${height}`);
+    }
+
+    const luma = toLuma(frame);
+    const pyramid = buildPyramid(luma);
+    let dx = 0;
+    let dy = 0;
+    let alignmentError = 0;
+
+    if (!refPyramid) {
+      refPyramid = pyramid;
+    } else if (opts.align) {
+      const shift = estimateTranslation(refPyramid, pyramid, opts.maxShift);
+      dx = shift.dx;
+      dy = shift.dy;
+      alignmentError = shift.error;
+    } else {
+      alignmentError = shiftError(refPyramid[0], pyramid[0], 0, 0);
+    }
+
+    if (opts.method === 'mean') {
+      accumulate(frame.data, dx, dy);
+    } else {
+      kept.push({ data: frame.data, dx, dy });
+    }
+
+    const frameStats: FrameStats = {
+      index: stats.length,
+      offsetX: dx,
+      offsetY: dy,
+      meanLuma: meanOf(luma),
+      alignmentError,
+      rejectedRatio: 0
+    };
+    stats.push(frameStats);
+    return frameStats;
+  };
+
+  const combineSamples = (): Float32Array => {
+    const out = new Float32Array(width * height * 4);
+    const n = kept.length;
+    const samples = new Float32Array(n);
+    const rejected = new Float64Array(n);
+    const offsets = new Int32Array(n);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        for (let f = 0; f < n; f++) {
+          const { dx, dy } = kept[f];
+          const sx = Math.min(width - 1, Math.max(0, x + dx));
+          const sy = Math.min(height - 1, Math.max(0, y + dy));
+          offsets[f] = (sy * width + sx) * 4;
+        }
+        const d = (y * width + x) * 4;
+
+        for (let c = 0; c < 3; c++) {
+          for (let f = 0; f < n; f++) samples[f] = kept[f].data[offsets[f] + c];
+
+          if (opts.method === 'median') {
+            // Insertion sort: n is small (<= 32) and mostly pre-ordered by noise
+            for (let i = 1; i < n; i++) {
+              const v = samples[i];
+              let j = i - 1;
+              while (j >= 0 && samples[j] > v) {
+                samples[j + 1] = samples[j];
+                j--;
+              }
+              samples[j + 1] = v;
+            }
+            const mid = n >> 1;
+            out[d + c] = n % 2 ? samples[mid] : (samples[mid - 1] + samples[mid]) * 0.5;
+          } else {
+            let mean = 0;
+            for (let f = 0; f < n; f++) mean += samples[f];
+            mean /= n;
+            let variance = 0;
+            for (let f = 0; f < n; f++) variance += (samples[f] - mean) ** 2;
+            const limit = opts.sigma * Math.sqrt(variance / n);
+
+            let clippedSum = 0;
+            let clippedCount = 0;
+            for (let f = 0; f < n; f++) {
+              if (Math.abs(samples[f] - mean) <= limit) {
+                clippedSum += samples[f];
+                clippedCount++;
+              } else {
+                rejected[f]++;
+              }
+            }
+            out[d + c] = clippedCount > 0 ? clippedSum / clippedCount : mean;
+          }
+        }
+        out[d + 3] = 255;
+      }
+    }
+
+    const total = width * height * 3;
+    stats.forEach((s, i) => { s.rejectedRatio = rejected[i] / total; });
+    return out;
+  };
+
+  const finish = (): StackResult => {
+    if (stats.length === 0) throw new Error("No frames to stack");
+
+    let data: Float32Array;
+    if (opts.method === 'mean' && sum) {
+      data = sum;
+      const scale = 1 / stats.length;
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] *= scale;
+        data[i + 1] *= scale;
+        data[i + 2] *= scale;
+        data[i + 3] = 255;
+      }
+    } else {
+      data = combineSamples();
+    }
+
+    return { data, width, height, method: opts.method, frames: stats };
+  };
+
+  return { add, finish };
+};
+
+/**
+ * Stacks a set of already-captured frames.
+ */
+export const stackFrames = (frames: Frame[], options: Partial<StackOptions> = {}): StackResult => {
+  const stack = createFrameStack(options);
+  frames.forEach(frame => stack.add(frame));
+  return stack.finish();
+};
+
+/**
+ * Quantises a stacked buffer back to 8-bit RGBA.
+ */
+export const toRgba8 = (result: StackResult): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(result.data.length);
+  for (let i = 0; i < out.length; i++) out[i] = Math.round(result.data[i]);
+  return out;
+};
@@ -0,0 +1,242 @@
+import { CaptureAspect, CompositionGuide, CropRect } from '../types';
+import { aspectCrop } from './photoEditor';
+import { PipelineStep } from './pipeline/pipelineClient';
+
+/**
+ * Framing aids: composition guides, capture aspect ratios and the electronic
+ * level. Guide geometry is in fractions of the framed area so the overlay can
+ * draw it at any size.
+ */
+
+export interface Line {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface LevelReading {
+  roll: number; // Degrees the device is turned clockwise from level, as seen from the screen
+  pitch: number; // Degrees the camera points above the horizon
+}
+
+// Where an object-cover video shows its frame within the element
+export interface CoverLayout {
+  width: number;
+  height: number;
+  shownWidth: number;
+  shownHeight: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export const COMPOSITION_GUIDES: { guide: CompositionGuide; label: string }[] = [
+  { guide: 'none', label: 'No Guide' },
+  { guide: 'thirds', label: 'Thirds' },
+  { guide: 'phi', label: 'Phi Grid' },
+  { guide: 'spiral', label: 'Spiral' },
+  { guide: 'diagonals', label: 'Diagonals' },
+  { guide: 'cross', label: 'Center' },
+  { guide: 'safe', label: 'Safe Areas' }
+];
+
+export const CAPTURE_ASPECTS: { aspect: CaptureAspect; label: string }[] = [
+  { aspect: 'native', label: 'Native' },
+  { aspect: '1:1', label: '1:1' },
+  { aspect: '4:3', label: '4:3' },
+  { aspect: '3:2', label: '3:2' },
+  { aspect: '16:9', label: '16:9' },
+  { aspect: '65:24', label: '65:24' }
+];
+
+const PHI = (1 + Math.sqrt(5)) / 2;
+const SPIRAL_TURNS = 10;
+const CROSS_SIZE = 0.04;
+export const SAFE_AREAS = [0.93, 0.9]; // Action and title safe (EBU R 95)
+
+// Beyond this the camera is tilted on purpose, not by accident
+export const MAX_AUTO_STRAIGHTEN = 10;
+const LEVEL_SMOOTHING = 0.2;
+
+export const getCoverLayout = (video: HTMLVideoElement): CoverLayout | null => {
+  const { clientWidth: width, clientHeight: height, videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight || !width || !height) return null;
+  const scale = Math.max(width / videoWidth, height / videoHeight);
+  const shownWidth = videoWidth * scale;
+  const shownHeight = videoHeight * scale;
+  return {
+    width,
+    height,
+    shownWidth,
+    shownHeight,
+    offsetX: (width - shownWidth) / 2,
+    offsetY: (height - shownHeight) / 2
+  };
+};
+
+/**
+ * The centred crop a capture aspect leaves of a frame, or null for the full
+ * frame. Ratios follow the frame's orientation (3:2 on a portrait frame is 2:3).
+ */
+export const getCaptureCrop = (aspect: CaptureAspect, width: number, height: number): CropRect | null => {
+  if (aspect === 'native') return null;
+  const [a, b] = aspect.split(':').map(Number);
+  const ratio = width >= height ? a / b : b / a;
+  if (Math.abs(ratio - width / height) < 1e-3) return null;
+  return aspectCrop(ratio, width, height);
+};
+
+/**
+ * The pipeline step that crops a capture to the chosen aspect and levels it
+ * by `straighten` degrees clockwise, or null when the frame is used as is.
+ */
+export const buildFramingStep = (
+  aspect: CaptureAspect,
+  straighten: number,
+  width: number,
+  height: number
+): PipelineStep | null => {
+  const crop = getCaptureCrop(aspect, width, height);
+  if (!crop && straighten === 0) return null;
+  return { stage: 'transform', rotation: 0, straighten, crop };
+};
+
+export const nextGuide = (guide: CompositionGuide): CompositionGuide => {
+  const index = COMPOSITION_GUIDES.findIndex(g => g.guide === guide);
+  return COMPOSITION_GUIDES[(index + 1) % COMPOSITION_GUIDES.length].guide;
+};
+
+/**
+ * Straight guide lines for a guide, in fractions of the framed area.
+ * The spiral is drawn separately (see `goldenSpiralPath`).
+ */
+export const getGuideLines = (guide: CompositionGuide): Line[] => {
+  const grid = (a: number, b: number): Line[] => [
+    { x1: a, y1: 0, x2: a, y2: 1 },
+    { x1: b, y1: 0, x2: b, y2: 1 },
+    { x1: 0, y1: a, x2: 1, y2: a },
+    { x1: 0, y1: b, x2: 1, y2: b }
+  ];
+  switch (guide) {
+    case 'thirds':
+      return grid(1 / 3, 2 / 3);
+    case 'phi':
+      return grid(1 - 1 / PHI, 1 / PHI);
+    case 'diagonals':
+      return [{ x1: 0, y1: 0, x2: 1, y2: 1 }, { x1: 1, y1: 0, x2: 0, y2: 1 }];
+    case 'cross':
+      return [
+        { x1: 0.5 - CROSS_SIZE, y1: 0.5, x2: 0.5 + CROSS_SIZE, y2: 0.5 },
+        { x1: 0.5, y1: 0.5 - CROSS_SIZE, x2: 0.5, y2: 0.5 + CROSS_SIZE }
+      ];
+    default:
+      return [];
+  }
+};
+
+/**
+ * SVG path of a golden spiral filling a `width` x `height` box: quarter arcs
+ * through successive golden-section squares, stretched to the box. `turn`
+ * (0-3) mirrors it into each corner.
+ */
+export const goldenSpiralPath = (width: number, height: number, turn: number): string => {
+  const flipX = turn === 1 || turn === 2;
+  const flipY = turn === 2 || turn === 3;
+  const px = (x: number) => (flipX ? 1 - x : x) * width;
+  const py = (y: number) => (flipY ? 1 - y : y) * height;
+  // Mirroring once reverses the direction the arcs turn
+  const sweep = flipX === flipY ? 1 : 0;
+
+  let x = 0, y = 0, w = 1, h = 1;
+  let path = `M ${px(0)} ${py(1)}`;
+  for (let i = 0; i < SPIRAL_TURNS; i++) {
+    // Cut a square off the left, top, right then bottom, arcing across it
+    let end: [number, number];
+    let rx: number, ry: number;
+    switch (i % 4) {
+      case 0: {
+        const side = w / PHI;
+        end = [x + side, y];
+        rx = side; ry = h;
+        x += side; w -= side;
+        break;
+      }
+      case 1: {
+        const side = h / PHI;
+        end = [x + w, y + side];
+        rx = w; ry = side;
+        y += side; h -= side;
+        break;
+      }
+      case 2: {
+        const side = w / PHI;
+        end = [x + w - side, y + h];
+        rx = side; ry = h;
+        w -= side;
+        break;
+      }
+      default: {
+        const side = h / PHI;
+        end = [x, y + h - side];
+        rx = w; ry = side;
+        h -= side;
+      }
+    }
+    path += ` A ${rx * width} ${ry * height} 0 0 ${sweep} ${px(end[0])} ${py(end[1])}`;
+  }
+  return path;
+};
+
+/**
+ * Roll and pitch from DeviceOrientation angles, corrected for the screen
+ * orientation so roll is relative to the way the UI is drawn.
+ */
+export const levelFromOrientation = (beta: number, gamma: number, screenAngle: number): LevelReading => {
+  const b = beta * Math.PI / 180;
+  const g = gamma * Math.PI / 180;
+  // Gravity in device coordinates (x right, y up the screen, z out of it)
+  const gx = Math.cos(b) * Math.sin(g);
+  const gy = -Math.sin(b);
+  const gz = -Math.cos(b) * Math.cos(g);
+  let roll = Math.atan2(gx, -gy) * 180 / Math.PI + screenAngle;
+  roll = ((roll + 540) % 360) - 180;
+  // The rear camera looks along -z
+  const pitch = Math.asin(Math.max(-1, Math.min(1, gz))) * 180 / Math.PI;
+  return { roll, pitch };
+};
+
+/**
+ * iOS only delivers orientation events after the user grants access, which
+ * has to be requested from a tap. Resolves to whether events will arrive.
+ */
+export const requestLevelPermission = async (): Promise<boolean> => {
+  const request = (DeviceOrientationEvent as unknown as { requestPermission?: () => Promise<string> }).requestPermission;
+  if (!request) return typeof DeviceOrientationEvent !== 'undefined';
+  try {
+    return await request() === 'granted';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Smoothed level readings from DeviceOrientation events. Returns a function
+ * that stops listening. Devices without an orientation sensor never call back.
+ */
+export const watchLevel = (onReading: (reading: LevelReading) => void): (() => void) => {
+  let smoothed: LevelReading | null = null;
+  const handle = (e: DeviceOrientationEvent) => {
+    if (e.beta === null || e.gamma === null) return;
+    const reading = levelFromOrientation(e.beta, e.gamma, screen.orientation?.angle ?? 0);
+    if (smoothed) {
+      // Ease along the shortest way round, so ±180 doesn't swing through 0
+      const delta = ((reading.roll - smoothed.roll + 540) % 360) - 180;
+      reading.roll = ((smoothed.roll + delta * LEVEL_SMOOTHING + 540) % 360) - 180;
+      reading.pitch = smoothed.pitch + (reading.pitch - smoothed.pitch) * LEVEL_SMOOTHING;
+    }
+    smoothed = reading;
+    onReading(reading);
+  };
+  window.addEventListener('deviceorientation', handle);
+  return () => window.removeEventListener('deviceorientation', handle);
+};
@@ -0,0 +1,149 @@
+import { EditStack, GalleryDateRange, GalleryItem, GallerySort, GalleryView } from '../types';
+import { loadCaptureBlob, loadEditStack } from './storageService';
+import { getVideoExtension } from './videoRecorder';
+import { ZipEntry, createZip } from './zipArchive';
+
+export const DEFAULT_GALLERY_VIEW: GalleryView = {
+  sort: 'newest',
+  mode: null,
+  dateRange: 'all',
+  enhancedOnly: false
+};
+
+export const GALLERY_SORTS: { sort: GallerySort; label: string }[] = [
+  { sort: 'newest', label: 'Newest' },
+  { sort: 'oldest', label: 'Oldest' },
+  { sort: 'largest', label: 'Largest' }
+];
+
+export const GALLERY_DATE_RANGES: { range: GalleryDateRange; label: string }[] = [
+  { range: 'all', label: 'Any Date' },
+  { range: 'today', label: 'Today' },
+  { range: 'week', label: '7 Days' },
+  { range: 'month', label: '30 Days' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const rangeStart = (range: GalleryDateRange, now: number): number => {
+  switch (range) {
+    case 'today': {
+      const midnight = new Date(now);
+      midnight.setHours(0, 0, 0, 0);
+      return midnight.getTime();
+    }
+    case 'week': return now - 7 * DAY_MS;
+    case 'month': return now - 30 * DAY_MS;
+    default: return -Infinity;
+  }
+};
+
+/**
+ * Capture modes present in the gallery, for the mode filter.
+ */
+export const getGalleryModes = (items: GalleryItem[]): string[] =>
+  Array.from(new Set(items.map(item => item.metadata.mode))).sort();
+
+export const isGalleryFiltered = (view: GalleryView): boolean =>
+  view.mode !== null || view.dateRange !== 'all' || view.enhancedOnly;
+
+/**
+ * Applies the gallery's filters and sort order.
+ */
+export const applyGalleryView = <T extends GalleryItem>(items: T[], view: GalleryView, now = Date.now()): T[] => {
+  const since = rangeStart(view.dateRange, now);
+  const visible = items.filter(item =>
+    (view.mode === null || item.metadata.mode === view.mode)
+    && item.timestamp >= since
+    && (!view.enhancedOnly || (item.kind === 'photo' && item.isEnhanced))
+  );
+
+  switch (view.sort) {
+    case 'oldest': return visible.sort((a, b) => a.timestamp - b.timestamp);
+    case 'largest': return visible.sort((a, b) => b.size - a.size);
+    default: return visible.sort((a, b) => b.timestamp - a.timestamp);
+  }
+};
+
+export const getCaptureFileName = (item: GalleryItem): string =>
+  item.kind === 'video'
+    ? `sony_a1_${item.id}.${getVideoExtension(item.mimeType)}`
+    : `sony_a1_${item.id}.jpg`;
+
+/**
+ * Everything known about a capture beyond its pixels, for the JSON file
+ * exported next to it. Edited photos carry their edit stack, since the
+ * export holds the untouched original.
+ */
+export const buildSidecar = (item: GalleryItem, edits: EditStack | null) => ({
+  id: item.id,
+  file: getCaptureFileName(item),
+  kind: item.kind,
+  capturedAt: new Date(item.timestamp).toISOString(),
+  width: item.width,
+  height: item.height,
+  size: item.size,
+  metadata: item.metadata,
+  ...(item.kind === 'video' && { duration: item.duration, mimeType: item.mimeType }),
+  ...(item.kind === 'photo' && {
+    enhanced: item.isEnhanced,
+    ...(item.group && { group: item.group }),
+    ...(edits && { edits: { updatedAt: new Date(edits.updatedAt).toISOString(), steps: edits.steps } }),
+    ...(item.analyses?.length && { analyses: item.analyses }),
+    ...(item.chat?.length && { chat: item.chat })
+  })
+});
+
+/**
+ * Zips the captures, each followed by its JSON sidecar.
+ */
+export const exportArchive = async (
+  items: GalleryItem[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  for (const item of items) {
+    const [media, edits] = await Promise.all([
+      loadCaptureBlob(item.id),
+      item.kind === 'photo' && item.editedAt ? loadEditStack(item.id) : Promise.resolve(null)
+    ]);
+    const name = getCaptureFileName(item);
+    const sidecar = JSON.stringify(buildSidecar(item, edits), null, 2);
+    entries.push(
+      { name, data: media, lastModified: item.timestamp },
+      {
+        name: name.replace(/\.[^.]+$/, '.json'),
+        data: new Blob([sidecar], { type: 'application/json' }),
+        lastModified: item.timestamp
+      }
+    );
+  }
+  return createZip(entries, onProgress);
+};
+
+/**
+ * Whether the browser can hand files to the system share sheet.
+ */
+export const canShareFiles = (): boolean =>
+  typeof navigator.canShare === 'function'
+  && navigator.canShare({ files: [new File([], 'probe.jpg', { type: 'image/jpeg' })] });
+
+/**
+ * Shares the captures through the Web Share API. Resolves false when the
+ * browser refuses these files or the user dismisses the share sheet.
+ */
+export const shareCaptures = async (items: GalleryItem[]): Promise<boolean> => {
+  const files = await Promise.all(items.map(async item => {
+    const blob = await loadCaptureBlob(item.id);
+    return new File([blob], getCaptureFileName(item), { type: blob.type, lastModified: item.timestamp });
+  }));
+  if (!navigator.canShare?.({ files })) return false;
+
+  try {
+    await navigator.share({ files });
+    return true;
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return false;
+    throw err;
+  }
+};
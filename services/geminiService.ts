@@ -1,58 +1,189 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { ChatMessage, CropRect, SceneAnalysis } from '../types';
+import { AnalysisProvider } from './analysisProvider';
+import { blobToDataUrl } from './storageService';
 
 const apiKey = process.env.API_KEY || '';
 
 // Initialize Gemini Client
 const ai = new GoogleGenAI({ apiKey });
 
+// Structured output needs a text model; the image model doesn't accept a response schema
+const ANALYSIS_MODEL = 'gemini-2.5-flash';
+
+const ANALYSIS_PROMPT =
+  "Analyze this image as a professional photographer using a Sony A1. Suggest the settings " +
+  "(ISO, shutter speed, aperture, white balance) you would use to take this shot, score the " +
+  "composition, list the main subjects, give a 1-2 sentence critique of the composition and, " +
+  "if it would improve the image, suggest a crop.";
+
+const CHAT_INSTRUCTION =
+  "You are a professional photographer and Sony A1 expert. The user shared a photo they took and " +
+  "is asking follow-up questions about it. Answer concisely and practically: camera settings, " +
+  "technique, lighting, composition and editing.";
+
+const ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    iso: { type: Type.INTEGER, minimum: 50, maximum: 102400, description: "ISO sensitivity" },
+    shutterSpeed: { type: Type.STRING, description: 'Shutter speed as a fraction or seconds, e.g. "1/250" or "2"' },
+    aperture: { type: Type.NUMBER, minimum: 1, maximum: 32, description: "f-number, e.g. 2.8" },
+    whiteBalance: { type: Type.INTEGER, minimum: 2000, maximum: 10000, description: "Colour temperature in Kelvin" },
+    compositionScore: { type: Type.INTEGER, minimum: 1, maximum: 10, description: "Composition quality, 1 (poor) to 10 (excellent)" },
+    subjects: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Main subjects, most prominent first" },
+    critique: { type: Type.STRING, description: "1-2 sentence critique of the composition" },
+    crop: {
+      type: Type.OBJECT,
+      nullable: true,
+      description: "Suggested crop as fractions of the image (0-1, origin top left), or null to keep the framing",
+      properties: {
+        x: { type: Type.NUMBER },
+        y: { type: Type.NUMBER },
+        width: { type: Type.NUMBER },
+        height: { type: Type.NUMBER }
+      },
+      required: ['x', 'y', 'width', 'height']
+    }
+  },
+  required: ['iso', 'shutterSpeed', 'aperture', 'whiteBalance', 'compositionScore', 'subjects', 'critique', 'crop'],
+  propertyOrdering: ['iso', 'shutterSpeed', 'aperture', 'whiteBalance', 'compositionScore', 'subjects', 'critique', 'crop']
+};
+
+// Crops smaller than this, or that keep nearly everything, aren't worth suggesting
+const MIN_CROP = 0.1;
+const MAX_CROP = 0.98;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
 /**
- * Enhances an image using Gemini to simulate high-res Sony A1 processing.
- * Since direct image-to-image editing isn't fully standard in the basic generateContent without Imagen,
- * we will use the model to analyze the image and return a description, 
- * OR if the specific model supports editing, we use that.
- * 
- * For this demo, we will use a prompt that instructs the model to describe the necessary edits,
- * effectively simulating the "AI Processing" step.
- * 
- * Ideally, we would use `gemini-2.5-flash-image` with an editing prompt if supported by the environment,
- * or `imagen-3.0-generate-001` if we were generating from scratch.
- * 
- * Given the constraint to strictly follow guidelines, we will use `gemini-2.5-flash-image` to
- * analyze the image to provide "Professional Photographer Insights" which we display,
- * while the visual stacking happens in Canvas (in imageProcessingService).
+ * Splits a data URL into its base64 payload and mime type.
  */
-export const analyzeImageScene = async (base64Image: string): Promise<string> => {
-  if (!apiKey) {
-    console.warn("API Key missing");
-    return "API Key missing. AI features disabled.";
+const parseDataUrl = (dataUrl: string): { data: string; mimeType: string } => {
+  const match = dataUrl.match(/^data:([^;,]+)[^,]*,(.*)$/);
+  if (!match) throw new Error("Not a data URL");
+  return { mimeType: match[1], data: match[2] };
+};
+
+const parseCrop = (value: unknown): CropRect | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { x, y, width, height } = value as Record<string, unknown>;
+  if (![x, y, width, height].every(v => typeof v === 'number' && Number.isFinite(v))) return null;
+
+  const left = clamp(x as number, 0, 1);
+  const top = clamp(y as number, 0, 1);
+  const crop = {
+    x: left,
+    y: top,
+    width: clamp(width as number, 0, 1 - left),
+    height: clamp(height as number, 0, 1 - top)
+  };
+  if (crop.width < MIN_CROP || crop.height < MIN_CROP) return null;
+  if (crop.width > MAX_CROP && crop.height > MAX_CROP) return null;
+  return crop;
+};
+
+/**
+ * Validates the model's JSON and turns it into a `SceneAnalysis`. Throws if
+ * the response is not the expected shape.
+ */
+export const parseSceneAnalysis = (text: string): SceneAnalysis => {
+  const raw = JSON.parse(text) as Record<string, unknown>;
+  const { iso, shutterSpeed, aperture, whiteBalance, compositionScore, subjects, critique } = raw;
+  if (typeof iso !== 'number' || typeof shutterSpeed !== 'string' || typeof aperture !== 'number'
+    || typeof compositionScore !== 'number' || typeof critique !== 'string') {
+    throw new Error("Unexpected analysis response");
   }
 
-  try {
-    const model = ai.models.getGenerativeModel({ model: 'gemini-2.5-flash-image' }); // Using the vision capable model
-
-    // Extract base64 data (remove header if present)
-    const base64Data = base64Image.split(',')[1];
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: 'image/jpeg'
-            }
-          },
-          {
-            text: "Analyze this image as a professional photographer using a Sony A1. Suggest the optimal EXIF settings (ISO, Shutter, Aperture) used to take this shot and provide a 1-sentence critique on composition."
-          }
-        ]
-      }
-    });
-
-    return response.text || "Analysis failed.";
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    return "Could not analyze scene.";
+  return {
+    provider: 'gemini',
+    settings: {
+      iso: Math.round(iso),
+      shutterSpeed: shutterSpeed.trim(),
+      aperture: `f/${aperture}`,
+      wb: typeof whiteBalance === 'number' ? `${Math.round(whiteBalance)}K` : 'AWB'
+    },
+    compositionScore: clamp(Math.round(compositionScore), 1, 10),
+    subjects: Array.isArray(subjects) ? subjects.filter((s): s is string => typeof s === 'string') : [],
+    critique: critique.trim(),
+    crop: parseCrop(raw.crop)
+  };
+};
+
+/**
+ * Asks Gemini for "Professional Photographer Insights" on a capture:
+ * suggested settings, a composition score, the subjects, a critique and an
+ * optional crop, constrained to a JSON schema. The visual processing itself
+ * happens on-device in the pipeline. Throws when the service is unavailable
+ * or the response can't be parsed.
+ */
+export const analyzeImageScene = async (dataUrl: string): Promise<SceneAnalysis> => {
+  if (!apiKey) throw new Error("API Key missing. AI features disabled.");
+
+  const image = parseDataUrl(dataUrl);
+  const response = await ai.models.generateContent({
+    model: ANALYSIS_MODEL,
+    contents: {
+      parts: [
+        { inlineData: image },
+        { text: ANALYSIS_PROMPT }
+      ]
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: ANALYSIS_SCHEMA
+    }
+  });
+
+  if (!response.text) throw new Error("Analysis failed.");
+  return parseSceneAnalysis(response.text);
+};
+
+/**
+ * Sends a follow-up question about a photo and streams the reply. The image
+ * (and the latest analysis, as `context`) ride along with the first user
+ * turn so every request has the photo in view. `onText` receives the reply
+ * so far; aborting `signal` stops the stream and rejects with an AbortError.
+ */
+export const chatAboutPhoto = async (
+  dataUrl: string,
+  history: ChatMessage[],
+  message: string,
+  onText: (text: string) => void,
+  signal: AbortSignal,
+  context?: string
+): Promise<string> => {
+  if (!apiKey) throw new Error("API Key missing. AI features disabled.");
+
+  const photoParts = [
+    { inlineData: parseDataUrl(dataUrl) },
+    ...(context ? [{ text: `Earlier analysis of this photo: ${context}` }] : [])
+  ];
+  const chat = ai.chats.create({
+    model: ANALYSIS_MODEL,
+    history: history.map((entry, index) => ({
+      role: entry.role,
+      parts: index === 0 ? [...photoParts, { text: entry.text }] : [{ text: entry.text }]
+    }))
+  });
+
+  const stream = await chat.sendMessageStream({
+    message: history.length === 0 ? [...photoParts, { text: message }] : message,
+    // Per-request config replaces the chat's, so the instruction goes here too
+    config: { systemInstruction: CHAT_INSTRUCTION, abortSignal: signal }
+  });
+
+  let reply = '';
+  for await (const chunk of stream) {
+    signal.throwIfAborted();
+    reply += chunk.text ?? '';
+    onText(reply);
   }
+  return reply;
+};
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  isAvailable: () => !!apiKey && navigator.onLine !== false,
+  analyze: async ({ image }) => analyzeImageScene(await blobToDataUrl(image))
 };
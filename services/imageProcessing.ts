@@ -1,157 +1,416 @@
+import { HdrSettings, LutInterpolation, NightSettings, PanoramaSettings, StackingSettings } from '../types';
+import { PictureProfile } from './colorProfiles';
+import { ExposureBracketer, SimulatedBalance } from './cameraControls';
+import { canvasToBlob } from './canvasEncoding';
+import { Frame, maxKeptFrames } from './frameStacking';
+import { MAX_SUPER_RES_FRAMES, getSuperResInputSize } from './superResolution';
+import { createFrameSampler } from './metering';
+import {
+  DEFAULT_PANORAMA_OPTIONS,
+  MAX_PANORAMA_FRAMES,
+  PanGuide,
+  createPanTracker,
+  panoramaFocalPixels
+} from './panorama';
+import { applyBalance } from './pipeline/stages';
+import {
+  PipelineProgress,
+  PipelineResult,
+  PipelineSession,
+  PipelineStep,
+  createPipelineSession,
+  processFrame
+} from './pipeline/pipelineClient';
+
+const CAPTURE_SHARPEN_AMOUNT = 0.35;
+
 /**
- * Applies a convolution filter to a canvas context.
- * Used for sharpening to simulate high-resolution sensors.
+ * Capture grade: simulated exposure/WB for values the camera couldn't apply,
+ * then the active picture profile's LUT (the same one the live preview uses)
+ * and output sharpening.
+ * The pixel work runs in the processing worker (see pipeline/stages.ts).
  */
-const applyConvolution = (ctx: CanvasRenderingContext2D, width: number, height: number, kernel: number[]) => {
-  const imageData = ctx.getImageData(0, 0, width, height);
-  const side = Math.round(Math.sqrt(kernel.length));
-  const halfSide = Math.floor(side / 2);
-  const src = imageData.data;
-  const sw = width;
-  const sh = height;
-  
-  // Create output buffer
-  const output = ctx.createImageData(width, height);
-  const dst = output.data;
-
-  for (let y = 0; y < sh; y++) {
-    for (let x = 0; x < sw; x++) {
-      const sy = y;
-      const sx = x;
-      const dstOff = (y * sw + x) * 4;
-      
-      let r = 0, g = 0, b = 0;
-
-      for (let cy = 0; cy < side; cy++) {
-        for (let cx = 0; cx < side; cx++) {
-          const scy = sy + cy - halfSide;
-          const scx = sx + cx - halfSide;
-          
-          if (scy >= 0 && scy < sh && scx >= 0 && scx < sw) {
-            const srcOff = (scy * sw + scx) * 4;
-            const wt = kernel[cy * side + cx];
-            r += src[srcOff] * wt;
-            g += src[srcOff + 1] * wt;
-            b += src[srcOff + 2] * wt;
-          }
-        }
-      }
-      
-      dst[dstOff] = r;
-      dst[dstOff + 1] = g;
-      dst[dstOff + 2] = b;
-      dst[dstOff + 3] = src[dstOff + 3]; // Alpha
-    }
-  }
-  ctx.putImageData(output, 0, 0);
+export const buildCaptureSteps = (
+  profile: PictureProfile,
+  interpolation: LutInterpolation,
+  balance: SimulatedBalance | null = null
+): PipelineStep[] => [
+  ...(balance ? [{ stage: 'balance', gain: balance.gain, wb: balance.wb } as const] : []),
+  { stage: 'lut', lut: profile.lut, interpolation },
+  { stage: 'sharpen', amount: CAPTURE_SHARPEN_AMOUNT }
+];
+
+const writeResult = (canvas: HTMLCanvasElement, result: PipelineResult) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("No canvas context");
+  canvas.width = result.width;
+  canvas.height = result.height;
+  ctx.putImageData(new ImageData(result.data, result.width, result.height), 0, 0);
 };
 
 /**
- * Simulates Sony A1 Color Science
- * - High contrast
- * - Slightly warm highlights
- * - Deep blacks
- * - Sharp details
+ * Single-frame capture: grades the current video frame (or a frame grabbed
+ * earlier) off the main thread and leaves the result on `canvas`.
  */
-export const processSonyLook = (canvas: HTMLCanvasElement) => {
-  const ctx = canvas.getContext('2d');
-  if (!ctx) return;
-
-  // 1. Sharpening (simulating high megapixel count)
-  // Simple sharpen kernel
-  const sharpenKernel = [
-     0, -1,  0,
-    -1,  5, -1,
-     0, -1,  0
-  ];
-  // Note: Full convolution in JS is slow for large images. 
-  // We will rely on CSS filters for the preview and only do lightweight processing here or assume the hardware camera is good enough,
-  // then overlay a color grading pass.
-  
-  // For the sake of performance in this demo, we will use GlobalCompositeOperation to tint.
-  
-  const width = canvas.width;
-  const height = canvas.height;
-
-  // Save current state
-  const tempCanvas = document.createElement('canvas');
-  tempCanvas.width = width;
-  tempCanvas.height = height;
-  const tempCtx = tempCanvas.getContext('2d');
-  if(tempCtx) {
-      tempCtx.drawImage(canvas, 0, 0);
-      
-      // Clear main
-      ctx.clearRect(0,0, width, height);
-      
-      // Draw original
-      ctx.drawImage(tempCanvas, 0, 0);
-
-      // Sony Style: Cool shadows, Warm highlights (Subtle)
-      // Overlay a subtle blue for shadows
-      ctx.globalCompositeOperation = 'overlay';
-      ctx.fillStyle = 'rgba(0, 0, 20, 0.1)';
-      ctx.fillRect(0, 0, width, height);
-
-      // Overlay a subtle orange for warmth/pop
-      ctx.globalCompositeOperation = 'soft-light';
-      ctx.fillStyle = 'rgba(255, 150, 50, 0.15)';
-      ctx.fillRect(0, 0, width, height);
-
-      // Reset
-      ctx.globalCompositeOperation = 'source-over';
-      
-      // Increase contrast manually via pixel manipulation is expensive, 
-      // so we rely on the `filter` property of the context if supported or leave as is.
-      ctx.filter = 'contrast(1.15) saturate(1.1)';
-      ctx.drawImage(tempCanvas, 0, 0);
-      ctx.filter = 'none';
+export const captureProcessed = async (
+  source: HTMLVideoElement | Frame,
+  canvas: HTMLCanvasElement,
+  steps: PipelineStep[],
+  onProgress?: (progress: PipelineProgress) => void
+): Promise<PipelineResult> => {
+  const result = await processFrame(source, steps, onProgress);
+  writeResult(canvas, result);
+  return result;
+};
+
+/**
+ * Copies the current video frame's pixels so it can be processed later,
+ * e.g. from the burst buffer.
+ */
+export const grabVideoFrame = (video: HTMLVideoElement, canvas = document.createElement('canvas')): ImageData => {
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("No canvas context");
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Resolves when the video element has presented a new frame, so consecutive
+ * grabs carry independent sensor noise instead of duplicating a frame.
+ * Also resolves as soon as `signal` aborts, so a stalled stream can't hold
+ * up a capture that was cancelled.
+ */
+export const waitForNextFrame = (video: HTMLVideoElement, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    let cancel: () => void;
+    const onAbort = () => {
+      cancel();
+      resolve();
+    };
+    const onFrame = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    if ('requestVideoFrameCallback' in video) {
+      const handle = video.requestVideoFrameCallback(onFrame);
+      cancel = () => video.cancelVideoFrameCallback(handle);
+    } else {
+      const timer = setTimeout(onFrame, 1000 / 30);
+      cancel = () => clearTimeout(timer);
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * The multi-frame capture loop: hands the current video frame (or what
+ * `source` makes of it) to `session`, then waits for the next one, for as
+ * long as `more` (given the number of frames sent so far) says to. Cancels
+ * the job if grabbing fails.
+ */
+const feedFrames = async (
+  videoElement: HTMLVideoElement,
+  session: PipelineSession,
+  more: (sent: number) => boolean | Promise<boolean>,
+  source: () => HTMLVideoElement | HTMLCanvasElement = () => videoElement
+) => {
+  try {
+    for (let sent = 1; ; sent++) {
+      await session.addFrame(source());
+      if (!(await more(sent))) break;
+      await waitForNextFrame(videoElement);
+    }
+  } catch (err) {
+    session.cancel();
+    throw err;
   }
 };
 
 /**
  * Image Stacking Logic
- * Captures multiple frames and averages them to reduce noise and increase detail.
+ * Captures N frames, aligns them and combines them in floating point
+ * (mean, median or sigma-clipped mean) to reduce noise and reject moving objects.
+ * Median and sigma-clip take no more than `maxKeptFrames` at the stream's size.
+ * Frames are streamed to the processing worker as they are grabbed; the
+ * graded result is left on `canvas` and per-frame stats are returned.
  */
 export const performStacking = async (
   videoElement: HTMLVideoElement, 
-  canvas: HTMLCanvasElement
-): Promise<string> => {
-  const ctx = canvas.getContext('2d');
-  if (!ctx) throw new Error("No canvas context");
+  canvas: HTMLCanvasElement,
+  settings: StackingSettings,
+  steps: PipelineStep[],
+  onProgress?: (progress: PipelineProgress) => void
+): Promise<PipelineResult> => {
+  const limit = settings.method === 'mean' ? 32 : Math.min(32, maxKeptFrames(videoElement.videoWidth, videoElement.videoHeight));
+  const frameCount = Math.min(limit, Math.max(2, settings.frameCount));
+  const session = createPipelineSession(
+    { stack: { method: settings.method }, expectedFrames: frameCount },
+    onProgress
+  );
+
+  await feedFrames(videoElement, session, sent => sent < frameCount);
+
+  const result = await session.finish(steps);
+  writeResult(canvas, result);
+  return result;
+};
+
+export interface SuperResolutionResult extends PipelineResult {
+  framesUsed: number; // Frames that registered well enough to be merged
+}
 
-  const width = videoElement.videoWidth;
-  const height = videoElement.videoHeight;
-  
-  canvas.width = width;
-  canvas.height = height;
-
-  // Clear
-  ctx.clearRect(0, 0, width, height);
-
-  // Capture 4 frames with slight delay
-  const frameCount = 4;
-  
-  for (let i = 0; i < frameCount; i++) {
-    // Draw new frame
-    // We use varying opacity to average: 
-    // Frame 1: 100%
-    // Frame 2: 50% (Avg of 1 & 2)
-    // Frame 3: 33% (Avg of 1-3)
-    // Frame 4: 25% (Avg of 1-4)
-    
-    // In practice, 'screen' or simple opacity layering works well for "stacking" effect in frontend
-    ctx.globalAlpha = 1 / (i + 1);
+/**
+ * Super-resolution capture: grabs a burst (hand tremor shifts each frame by
+ * a fraction of a pixel) and merges it at twice the stream resolution in the
+ * processing worker. Streams above MAX_SUPER_RES_INPUT_PIXELS are scaled
+ * down as they are grabbed. The graded result is left on `canvas`.
+ */
+export const performSuperResolution = async (
+  videoElement: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  frameCount: number,
+  steps: PipelineStep[],
+  onProgress?: (progress: PipelineProgress) => void
+): Promise<SuperResolutionResult> => {
+  const count = Math.min(MAX_SUPER_RES_FRAMES, Math.max(2, frameCount));
+  const session = createPipelineSession({ superRes: {}, expectedFrames: count }, onProgress);
+  const [width, height] = getSuperResInputSize(videoElement.videoWidth, videoElement.videoHeight);
+  const scaled = document.createElement('canvas');
+  scaled.width = width;
+  scaled.height = height;
+
+  await feedFrames(videoElement, session, sent => sent < count, () => {
+    if (width === videoElement.videoWidth) return videoElement;
+    const ctx = scaled.getContext('2d');
+    if (!ctx) throw new Error("No canvas context");
     ctx.drawImage(videoElement, 0, 0, width, height);
-    
-    // Artificial delay to capture slightly different noise patterns
-    await new Promise(r => setTimeout(r, 50)); 
+    return scaled;
+  });
+
+  const result = await session.finish(steps);
+  writeResult(canvas, result);
+  return { ...result, framesUsed: result.frames.filter(frame => frame.rejectedRatio < 1).length };
+};
+
+export const NIGHT_DURATIONS = [1, 2, 4, 8, 15, 30]; // Seconds
+
+// Frames the worker may fall behind by before the capture loop waits for it
+const MAX_PENDING_FRAMES = 4;
+const PREVIEW_INTERVAL = 500; // ms
+const PREVIEW_SIZE = 480;
+const NOMINAL_FRAME_RATE = 30;
+
+/**
+ * Night mode: a simulated long exposure. Frames are streamed to the worker
+ * for `settings.duration` seconds and accumulated there (see longExposure.ts);
+ * when the worker falls behind, frames are skipped rather than queued.
+ * Progress is reported as the fraction of the exposure elapsed, and
+ * `onPreview` receives a tone-mapped look at the merge every half second.
+ */
+export const performLongExposure = async (
+  videoElement: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  settings: NightSettings,
+  steps: PipelineStep[],
+  onProgress?: (progress: PipelineProgress) => void,
+  onPreview?: (preview: Frame) => void
+): Promise<PipelineResult> => {
+  const duration = Math.min(30, Math.max(1, settings.duration)) * 1000;
+  let exposing = true;
+  const session = createPipelineSession(
+    { longExposure: { blend: settings.blend }, expectedFrames: Math.round(duration / 1000 * NOMINAL_FRAME_RATE) },
+    // Per-frame progress means little here; elapsed time is reported instead
+    progress => { if (!exposing) onProgress?.(progress); },
+    onPreview
+  );
+
+  const start = performance.now();
+  let lastPreview = start;
+  onProgress?.({ label: 'Exposing', progress: 0 });
+  await feedFrames(videoElement, session, async () => {
+    const elapsed = () => performance.now() - start;
+    while (session.pending() >= MAX_PENDING_FRAMES && elapsed() < duration) {
+      await waitForNextFrame(videoElement);
+    }
+    if (performance.now() - lastPreview >= PREVIEW_INTERVAL) {
+      session.preview(PREVIEW_SIZE);
+      lastPreview = performance.now();
+    }
+    onProgress?.({ label: 'Exposing', progress: Math.min(1, elapsed() / duration) });
+    return elapsed() < duration;
+  });
+  exposing = false;
+
+  const result = await session.finish(steps);
+  writeResult(canvas, result);
+  return result;
+};
+
+export interface PanoramaResult extends PipelineResult {
+  sources: Blob[]; // JPEGs of the frames as captured, in order
+  framesUsed: number; // Frames that registered and were stitched in
+  fov: number; // Degrees covered horizontally
+}
+
+const PAN_SAMPLE_WIDTH = 96;
+const PAN_TRACK_INTERVAL = 66; // ms
+
+/**
+ * Panorama capture: the first frame is taken straight away, then the pan is
+ * followed in the live view (see createPanTracker) and a frame taken each
+ * time the view has moved far enough, with `onGuide` told where things stand
+ * after every update. Ends when `signal` aborts (the shutter is pressed
+ * again) or after MAX_PANORAMA_FRAMES. Frames are stitched in the processing
+ * worker as they arrive and the graded panorama is left on `canvas`.
+ */
+export const performPanorama = async (
+  videoElement: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  settings: PanoramaSettings,
+  steps: PipelineStep[],
+  signal: AbortSignal,
+  onGuide: (guide: PanGuide) => void,
+  onProgress?: (progress: PipelineProgress) => void
+): Promise<PanoramaResult> => {
+  const options = { direction: settings.direction, focalLength: settings.focalLength };
+  let capturing = true;
+  const session = createPipelineSession(
+    { panorama: options, expectedFrames: MAX_PANORAMA_FRAMES },
+    // Frames arrive as the user pans; only the stitch itself reports progress
+    progress => { if (!capturing) onProgress?.(progress); }
+  );
+  const tracker = createPanTracker(settings.direction);
+  const sample = createFrameSampler(PAN_SAMPLE_WIDTH);
+  const grab = document.createElement('canvas');
+  const sources: Blob[] = [];
+
+  const capture = async () => {
+    const preview = sample(videoElement);
+    const frame = grabVideoFrame(videoElement, grab);
+    if (!preview) throw new Error("Video not ready");
+    sources.push(await canvasToBlob(grab, 'image/jpeg', 0.92));
+    await session.addFrame(frame);
+    tracker.capture(preview);
+  };
+
+  try {
+    await capture();
+    let lastUpdate = 0;
+    while (!signal.aborted && sources.length < MAX_PANORAMA_FRAMES) {
+      await waitForNextFrame(videoElement, signal);
+      if (performance.now() - lastUpdate < PAN_TRACK_INTERVAL) continue;
+      lastUpdate = performance.now();
+      const preview = sample(videoElement);
+      const guide = preview && tracker.update(preview);
+      if (!guide) continue;
+      onGuide(guide);
+      if (guide.progress >= 1) await capture();
+    }
+  } catch (err) {
+    session.cancel();
+    throw err;
   }
+  capturing = false;
+
+  if (sources.length < 2) {
+    session.cancel();
+    throw new Error("Pan further to capture a panorama");
+  }
+
+  const result = await session.finish(steps);
+  writeResult(canvas, result);
+  const f = panoramaFocalPixels(videoElement.videoWidth, videoElement.videoHeight, { ...DEFAULT_PANORAMA_OPTIONS, ...options });
+  return {
+    ...result,
+    sources,
+    framesUsed: result.frames.filter(frame => Number.isFinite(frame.alignmentError)).length,
+    fov: Math.round(result.width / f * 180 / Math.PI)
+  };
+};
+
+export interface BracketSource {
+  ev: number; // Offset from the metered exposure
+  blob: Blob; // JPEG of the frame as fed into the merge
+}
 
-  ctx.globalAlpha = 1.0;
-  
-  // Apply Sony Color Processing
-  processSonyLook(canvas);
+export interface HdrCaptureResult extends PipelineResult {
+  sources: BracketSource[]; // Empty unless settings.keepSources
+  hardware: boolean; // True when the camera bracketed (at least partly)
+}
 
-  return canvas.toDataURL('image/jpeg', 0.95);
-};
\ No newline at end of file
+// Frames to let auto-exposure settle after changing the hardware exposure
+const BRACKET_SETTLE_FRAMES = 6;
+
+/**
+ * EV offsets for a bracket, middle exposure first so it becomes the
+ * alignment reference: 0, -s, +s, -2s, +2s, ...
+ */
+export const bracketOffsets = (count: number, step: number): number[] => {
+  const offsets = [0];
+  for (let i = 1; offsets.length < count; i++) {
+    offsets.push(-i * step);
+    if (offsets.length < count) offsets.push(i * step);
+  }
+  return offsets;
+};
+
+/**
+ * HDR capture: grabs a bracket of exposures and merges them with exposure
+ * fusion in the processing worker. With a `bracketer` the camera shifts its
+ * exposure between frames; whatever it can't reach (or everything, without
+ * one) is made up with linear-light gain on the grabbed frame.
+ */
+export const performHdrBracket = async (
+  videoElement: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  settings: HdrSettings,
+  steps: PipelineStep[],
+  bracketer: ExposureBracketer | null,
+  onProgress?: (progress: PipelineProgress) => void
+): Promise<HdrCaptureResult> => {
+  const offsets = bracketOffsets(Math.min(7, Math.max(3, settings.bracketCount)), settings.evStep);
+  const session = createPipelineSession({ fuse: {}, expectedFrames: offsets.length }, onProgress);
+  const grab = document.createElement('canvas');
+  const sources: BracketSource[] = [];
+  let hardware = false;
+
+  try {
+    for (const ev of offsets) {
+      let residual = ev;
+      if (bracketer) {
+        const applied = await bracketer.setOffset(ev);
+        if (applied !== 0) hardware = true;
+        residual = ev - applied;
+        for (let i = 0; i < BRACKET_SETTLE_FRAMES; i++) await waitForNextFrame(videoElement);
+      } else {
+        await waitForNextFrame(videoElement);
+      }
+
+      let frame: Frame = grabVideoFrame(videoElement, grab);
+      if (Math.abs(residual) > 1e-3) {
+        frame = applyBalance(frame, 2 ** residual, [1, 1, 1]);
+        grab.getContext('2d')?.putImageData(new ImageData(frame.data, frame.width, frame.height), 0, 0);
+      }
+      if (settings.keepSources) {
+        sources.push({ ev, blob: await canvasToBlob(grab, 'image/jpeg', 0.92) });
+      }
+      await session.addFrame(frame);
+    }
+  } catch (err) {
+    session.cancel();
+    throw err;
+  } finally {
+    // A failed restore mustn't mask how the bracket itself went
+    try {
+      await bracketer?.restore();
+    } catch (err) {
+      console.warn("Could not restore camera exposure after bracketing", err);
+    }
+  }
+
+  const result = await session.finish(steps);
+  writeResult(canvas, result);
+  return { ...result, sources, hardware };
+};
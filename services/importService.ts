@@ -0,0 +1,55 @@
+import { CapturedImage, NightBlend, StackMethod } from '../types';
+import { readJpegMetadata } from './jpegMetadata';
+import { formatAperture, formatEv, formatShutter } from './metering';
+
+/**
+ * Builds a gallery record for an image file picked by the user.
+ * JPEGs carrying our Exif/XMP (or any camera's Exif) show their original
+ * settings; other images fall back to placeholders.
+ */
+export const createImportRecord = async (
+  file: File,
+  id: string
+): Promise<Omit<CapturedImage, 'url' | 'thumbnailUrl'>> => {
+  let meta: Awaited<ReturnType<typeof readJpegMetadata>> = {};
+  if (file.type === 'image/jpeg') {
+    try {
+      meta = await readJpegMetadata(file);
+    } catch (err) {
+      console.warn("Could not read JPEG metadata", err);
+    }
+  }
+
+  const bitmap = await createImageBitmap(file);
+  const { width, height } = bitmap;
+  bitmap.close();
+
+  return {
+    id,
+    kind: 'photo',
+    timestamp: meta.dateTimeOriginal?.getTime() ?? file.lastModified,
+    size: file.size,
+    width,
+    height,
+    isEnhanced: (meta.stackCount ?? 0) > 1 || (meta.bracketCount ?? 0) > 1 || (meta.superResScale ?? 0) > 1 || !!meta.nightBlend
+      || (meta.panoramaFrames ?? 0) > 1,
+    metadata: {
+      iso: meta.iso ?? 0,
+      shutterSpeed: meta.exposureTime ? formatShutter(meta.exposureTime) : '--',
+      aperture: meta.fNumber ? formatAperture(meta.fNumber) : '--',
+      mode: meta.mode ?? 'IMPORT',
+      wb: meta.whiteBalance,
+      ev: meta.exposureBias !== undefined ? formatEv(meta.exposureBias) : undefined,
+      stackCount: meta.stackCount,
+      stackMethod: meta.stackMethod as StackMethod | undefined,
+      superResScale: meta.superResScale,
+      superResFrames: meta.superResFrames,
+      profile: meta.processingProfile,
+      bracketCount: meta.bracketCount,
+      bracketStep: meta.bracketStep,
+      nightBlend: meta.nightBlend as NightBlend | undefined,
+      panoramaFrames: meta.panoramaFrames,
+      panoramaFov: meta.panoramaFov
+    }
+  };
+};
@@ -0,0 +1,232 @@
+import { InputAction, InputBinding, InputBindings } from '../types';
+
+/**
+ * Keyboard, remote-shutter and gamepad control. Bluetooth camera remotes
+ * present as keyboards (usually Enter or the volume / media keys), so they are
+ * bound like any other key. Gamepads are polled through the Gamepad API using
+ * the standard button mapping.
+ */
+
+export const INPUT_ACTIONS: { action: InputAction; label: string }[] = [
+  { action: 'shutterHalf', label: 'Shutter half-press (AE/AF lock while held)' },
+  { action: 'shutterFull', label: 'Shutter' },
+  { action: 'aeAfLock', label: 'AE/AF lock toggle' },
+  { action: 'modeCycle', label: 'Next mode' },
+  { action: 'gallery', label: 'Gallery' },
+  { action: 'grid', label: 'Next guide' },
+  { action: 'evUp', label: 'EV +1/3' },
+  { action: 'evDown', label: 'EV -1/3' },
+  { action: 'isoUp', label: 'ISO up (M)' },
+  { action: 'isoDown', label: 'ISO down (M)' },
+  { action: 'cheatSheet', label: 'Show controls' }
+];
+
+const key = (code: string): InputBinding => ({ device: 'keyboard', code });
+const pad = (button: number): InputBinding => ({ device: 'gamepad', button });
+
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+  shutterHalf: [key('KeyF'), pad(6)],
+  shutterFull: [key('Space'), key('Enter'), key('AudioVolumeUp'), key('AudioVolumeDown'), key('MediaPlayPause'), pad(0), pad(7)],
+  aeAfLock: [key('KeyL'), pad(4)],
+  modeCycle: [key('KeyM'), pad(3)],
+  gallery: [key('KeyP'), pad(1)],
+  grid: [key('KeyG'), pad(2)],
+  evUp: [key('Equal'), key('BracketRight'), pad(15)],
+  evDown: [key('Minus'), key('BracketLeft'), pad(14)],
+  isoUp: [key('ArrowUp'), pad(12)],
+  isoDown: [key('ArrowDown'), pad(13)],
+  cheatSheet: [key('Slash'), pad(8)]
+};
+
+// Standard Gamepad mapping, https://w3c.github.io/gamepad/#remapping
+const GAMEPAD_BUTTONS = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'LS', 'RS', 'D↑', 'D↓', 'D←', 'D→', 'Home'
+];
+
+const KEY_LABELS: Record<string, string> = {
+  Space: 'Space',
+  Enter: 'Enter',
+  Escape: 'Esc',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Equal: '=',
+  Minus: '-',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Slash: '/',
+  Backslash: '\\',
+  Comma: ',',
+  Period: '.',
+  Semicolon: ';',
+  Quote: "'",
+  Backquote: '`',
+  AudioVolumeUp: 'Vol+',
+  AudioVolumeDown: 'Vol-',
+  AudioVolumeMute: 'Mute',
+  MediaPlayPause: 'Play/Pause',
+  MediaTrackNext: 'Next Track',
+  MediaTrackPrevious: 'Prev Track'
+};
+
+// Analogue triggers count as pressed past this
+const TRIGGER_THRESHOLD = 0.5;
+
+const STORAGE_KEY = 'alphacam.bindings';
+
+const isBinding = (value: unknown): value is InputBinding => {
+  if (!value || typeof value !== 'object') return false;
+  const binding = value as Record<string, unknown>;
+  return (binding.device === 'keyboard' && typeof binding.code === 'string')
+    || (binding.device === 'gamepad' && Number.isInteger(binding.button));
+};
+
+export const sameBinding = (a: InputBinding, b: InputBinding): boolean =>
+  a.device === 'keyboard' ? b.device === 'keyboard' && a.code === b.code : b.device === 'gamepad' && a.button === b.button;
+
+export const formatBinding = (binding: InputBinding): string => {
+  if (binding.device === 'gamepad') return `Pad ${GAMEPAD_BUTTONS[binding.button] ?? binding.button}`;
+  const { code } = binding;
+  return KEY_LABELS[code] ?? code.replace(/^(Key|Digit|Numpad)/, '');
+};
+
+/**
+ * Stored bindings, with actions missing from storage (new in this version,
+ * or a corrupt entry) falling back to their defaults.
+ */
+export const loadInputBindings = (): InputBindings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, unknown>;
+    const bindings = { ...DEFAULT_INPUT_BINDINGS };
+    INPUT_ACTIONS.forEach(({ action }) => {
+      const entries = stored[action];
+      if (Array.isArray(entries)) bindings[action] = entries.filter(isBinding);
+    });
+    return bindings;
+  } catch {
+    return DEFAULT_INPUT_BINDINGS;
+  }
+};
+
+export const saveInputBindings = (bindings: InputBindings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (err) {
+    console.warn("Could not persist input bindings", err);
+  }
+};
+
+/**
+ * Adds `binding` to `action`, taking it off any other action first so one
+ * control never triggers two things.
+ */
+export const assignBinding = (bindings: InputBindings, action: InputAction, binding: InputBinding): InputBindings => {
+  const next = { ...bindings };
+  INPUT_ACTIONS.forEach(({ action: other }) => {
+    next[other] = next[other].filter(existing => !sameBinding(existing, binding));
+  });
+  next[action] = [...next[action], binding];
+  return next;
+};
+
+export const removeBinding = (bindings: InputBindings, action: InputAction, binding: InputBinding): InputBindings => ({
+  ...bindings,
+  [action]: bindings[action].filter(existing => !sameBinding(existing, binding))
+});
+
+const findAction = (bindings: InputBindings, binding: InputBinding): InputAction | null =>
+  INPUT_ACTIONS.find(({ action }) => bindings[action].some(existing => sameBinding(existing, binding)))?.action ?? null;
+
+// Typing in a field shouldn't fire the shutter
+const isEditable = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Space / Enter on a focused button or link should still press it; other
+// keys pass through, as clicking anything leaves it focused
+const ACTIVATION_KEYS = ['Space', 'Enter', 'NumpadEnter'];
+
+const activatesTarget = (target: EventTarget | null, code: string): boolean =>
+  ACTIVATION_KEYS.includes(code) && target instanceof Element && !!target.closest('button, a[href]');
+
+/**
+ * Polls connected gamepads once per frame and reports button presses and
+ * releases. Polling only runs while a gamepad is connected. Returns a
+ * function that stops watching.
+ */
+export const watchGamepads = (onButton: (button: number, pressed: boolean) => void): (() => void) => {
+  if (!navigator.getGamepads) return () => {};
+  let previous = new Set<number>();
+  let frame: number | null = null;
+
+  const poll = () => {
+    const gamepads = navigator.getGamepads().filter((gamepad): gamepad is Gamepad => gamepad !== null);
+    const current = new Set<number>();
+    gamepads.forEach(gamepad => gamepad.buttons.forEach((button, index) => {
+      if (button.pressed || button.value > TRIGGER_THRESHOLD) current.add(index);
+    }));
+    current.forEach(button => { if (!previous.has(button)) onButton(button, true); });
+    previous.forEach(button => { if (!current.has(button)) onButton(button, false); });
+    previous = current;
+    frame = gamepads.length > 0 ? requestAnimationFrame(poll) : null;
+  };
+
+  const start = () => {
+    if (frame === null) frame = requestAnimationFrame(poll);
+  };
+  window.addEventListener('gamepadconnected', start);
+  start(); // Gamepads connected before we were attached
+
+  return () => {
+    window.removeEventListener('gamepadconnected', start);
+    if (frame !== null) cancelAnimationFrame(frame);
+  };
+};
+
+/**
+ * Routes bound keys and gamepad buttons to `onAction`, with `pressed` false
+ * on release (only the shutter actions care). `onAction` returns whether it
+ * acted; only then is the key's default behaviour (scrolling, activating
+ * buttons) suppressed, and only then is its release reported. Key repeat is
+ * ignored, as are keys typed into form fields and Space / Enter on a focused
+ * button or link. Returns a function that detaches everything.
+ */
+export const attachInputBindings = (
+  bindings: InputBindings,
+  onAction: (action: InputAction, pressed: boolean) => boolean
+): (() => void) => {
+  const held = new Set<string>(); // Keys whose press was acted on
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (held.has(e.code)) {
+      e.preventDefault();
+      return;
+    }
+    if (e.repeat || isEditable(e.target) || activatesTarget(e.target, e.code) || e.ctrlKey || e.metaKey || e.altKey) return;
+    const action = findAction(bindings, { device: 'keyboard', code: e.code });
+    if (!action || !onAction(action, true)) return;
+    held.add(e.code);
+    e.preventDefault();
+  };
+
+  const handleKeyUp = (e: KeyboardEvent) => {
+    if (!held.delete(e.code)) return;
+    e.preventDefault();
+    const action = findAction(bindings, { device: 'keyboard', code: e.code });
+    if (action) onAction(action, false);
+  };
+
+  window.addEventListener('keydown', handleKeyDown);
+  window.addEventListener('keyup', handleKeyUp);
+  const stopGamepads = watchGamepads((button, pressed) => {
+    const action = findAction(bindings, { device: 'gamepad', button });
+    if (action) onAction(action, pressed);
+  });
+
+  return () => {
+    window.removeEventListener('keydown', handleKeyDown);
+    window.removeEventListener('keyup', handleKeyUp);
+    stopGamepads();
+  };
+};
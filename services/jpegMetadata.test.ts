@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { JpegMetadata, readJpegMetadata, writeJpegMetadata } from './jpegMetadata';
+
+// SOI followed directly by EOI: the smallest file the writer accepts
+const emptyJpeg = () => new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xd9])], { type: 'image/jpeg' });
+
+const roundTrip = async (meta: Partial<JpegMetadata>) =>
+  readJpegMetadata(await writeJpegMetadata(emptyJpeg(), meta));
+
+describe('writeJpegMetadata / readJpegMetadata', () => {
+  it.each([
+    [1 / 8000, 1 / 8000],
+    [1 / 250, 1 / 250],
+    [1 / 3, 1 / 3],
+    [0.8, 0.8],
+    [0.6, 0.6],
+    [0.4, 0.4],
+    [2.5, 2.5],
+    [30, 30]
+  ])('keeps an exposure time of %fs', async (written, read) => {
+    const meta = await roundTrip({ exposureTime: written });
+    expect(meta.exposureTime).toBeCloseTo(read, 6);
+  });
+
+  it('reads back the Exif and XMP fields it wrote', async () => {
+    const meta = await roundTrip({
+      iso: 800,
+      fNumber: 2.8,
+      exposureBias: -0.7,
+      exposureProgram: 'A',
+      width: 4000,
+      height: 3000,
+      mode: 'PRO',
+      stackCount: 8,
+      stackMethod: 'median'
+    });
+    expect(meta).toMatchObject({
+      iso: 800,
+      fNumber: 2.8,
+      exposureProgram: 'A',
+      width: 4000,
+      height: 3000,
+      mode: 'PRO',
+      stackCount: 8,
+      stackMethod: 'median'
+    });
+    expect(meta.exposureBias).toBeCloseTo(-0.7);
+  });
+});
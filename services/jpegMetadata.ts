@@ -0,0 +1,454 @@
+import { CapturedImage, ExposureProgram } from '../types';
+import { parseAperture, parseEv, parseShutter } from './metering';
+
+/**
+ * Minimal JPEG metadata writer/reader.
+ * Writes an APP1 Exif segment (big-endian TIFF with IFD0 + Exif sub-IFD) and an
+ * APP1 XMP packet carrying the app-specific processing details, and reads the
+ * same fields back from imported files.
+ */
+
+export interface JpegMetadata {
+  make: string;
+  model: string;
+  software: string;
+  dateTimeOriginal: Date;
+  width: number;
+  height: number;
+  iso: number;
+  exposureTime: number; // Seconds
+  fNumber: number;
+  exposureBias: number; // EV
+  exposureProgram: ExposureProgram;
+  mode: string;
+  processingProfile: string;
+  stackCount: number;
+  stackMethod: string;
+  superResScale: number;
+  superResFrames: number;
+  bracketCount: number;
+  bracketStep: number; // EV
+  nightBlend: string;
+  panoramaFrames: number;
+  panoramaFov: number; // Degrees
+  whiteBalance: string;
+}
+
+export const CAMERA_MAKE = 'AlphaCam';
+export const CAMERA_MODEL = 'AlphaCam A1';
+export const CAMERA_SOFTWARE = 'AlphaCam A1 Web';
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_NAMESPACE = 'http://ns.alphacam.app/xmp/1.0/';
+
+// TIFF field types
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+const UNDEFINED = 7;
+const SRATIONAL = 10;
+
+const TYPE_SIZES: Record<number, number> = { [ASCII]: 1, [SHORT]: 2, [LONG]: 4, [RATIONAL]: 8, [UNDEFINED]: 1, [SRATIONAL]: 8 };
+
+// Tags
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_SOFTWARE = 0x0131;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_EXPOSURE_TIME = 0x829a;
+const TAG_FNUMBER = 0x829d;
+const TAG_EXPOSURE_PROGRAM = 0x8822;
+const TAG_ISO = 0x8827;
+const TAG_EXIF_VERSION = 0x9000;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_EXPOSURE_BIAS = 0x9204;
+const TAG_PIXEL_X = 0xa002;
+const TAG_PIXEL_Y = 0xa003;
+
+const PROGRAM_CODES: Record<ExposureProgram, number> = { M: 1, P: 2, A: 3, S: 4 };
+
+/**
+ * Maps a capture's gallery metadata onto the fields written to the file.
+ */
+export const captureToJpegMetadata = (
+  capture: Omit<CapturedImage, 'url' | 'thumbnailUrl'>,
+  extra: Partial<JpegMetadata> = {}
+): Partial<JpegMetadata> => ({
+  dateTimeOriginal: new Date(capture.timestamp),
+  width: capture.width,
+  height: capture.height,
+  iso: capture.metadata.iso || undefined,
+  exposureTime: parseShutter(capture.metadata.shutterSpeed),
+  fNumber: parseAperture(capture.metadata.aperture),
+  exposureBias: capture.metadata.ev ? parseEv(capture.metadata.ev) : undefined,
+  mode: capture.metadata.mode,
+  whiteBalance: capture.metadata.wb,
+  stackCount: capture.metadata.stackCount,
+  stackMethod: capture.metadata.stackMethod,
+  superResScale: capture.metadata.superResScale,
+  superResFrames: capture.metadata.superResFrames,
+  processingProfile: capture.metadata.profile,
+  bracketCount: capture.metadata.bracketCount,
+  bracketStep: capture.metadata.bracketStep,
+  nightBlend: capture.metadata.nightBlend,
+  panoramaFrames: capture.metadata.panoramaFrames,
+  panoramaFov: capture.metadata.panoramaFov,
+  ...extra
+});
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  data: Uint8Array; // Big-endian encoded value
+}
+
+const ascii = (tag: number, value: string): IfdEntry => {
+  const bytes = new TextEncoder().encode(`${value}\0`);
+  return { tag, type: ASCII, count: bytes.length, data: bytes };
+};
+
+const short = (tag: number, value: number): IfdEntry => {
+  const data = new Uint8Array(2);
+  new DataView(data.buffer).setUint16(0, value);
+  return { tag, type: SHORT, count: 1, data };
+};
+
+const long = (tag: number, value: number): IfdEntry => {
+  const data = new Uint8Array(4);
+  new DataView(data.buffer).setUint32(0, value);
+  return { tag, type: LONG, count: 1, data };
+};
+
+const rational = (tag: number, numerator: number, denominator: number, signed = false): IfdEntry => {
+  const data = new Uint8Array(8);
+  const view = new DataView(data.buffer);
+  if (signed) {
+    view.setInt32(0, numerator);
+    view.setInt32(4, denominator);
+  } else {
+    view.setUint32(0, numerator);
+    view.setUint32(4, denominator);
+  }
+  return { tag, type: signed ? SRATIONAL : RATIONAL, count: 1, data };
+};
+
+const ifdSize = (entries: IfdEntry[]): number =>
+  2 + entries.length * 12 + 4 +
+  entries.reduce((sum, e) => sum + (e.data.length > 4 ? e.data.length + (e.data.length % 2) : 0), 0);
+
+/**
+ * Serialises an IFD located at `offset` (relative to the TIFF header).
+ * Values longer than 4 bytes go into a data area directly after the entry table.
+ */
+const writeIfd = (entries: IfdEntry[], offset: number): Uint8Array => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  const out = new Uint8Array(ifdSize(sorted));
+  const view = new DataView(out.buffer);
+  let dataOffset = 2 + sorted.length * 12 + 4;
+
+  view.setUint16(0, sorted.length);
+  sorted.forEach((entry, i) => {
+    const p = 2 + i * 12;
+    view.setUint16(p, entry.tag);
+    view.setUint16(p + 2, entry.type);
+    view.setUint32(p + 4, entry.count);
+    if (entry.data.length <= 4) {
+      out.set(entry.data, p + 8);
+    } else {
+      view.setUint32(p + 8, offset + dataOffset);
+      out.set(entry.data, dataOffset);
+      dataOffset += entry.data.length + (entry.data.length % 2);
+    }
+  });
+  // Next-IFD offset stays 0: no thumbnail IFD
+  return out;
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const formatExifDate = (date: Date): string =>
+  `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ` +
+  `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+const parseExifDate = (value: string): Date | undefined => {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  return new Date(y, mo - 1, d, h, mi, s);
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Exposure times are written as 1/n where that is exact (1/250, 1/3) and in
+ * tenths of a second otherwise (0.8, 2.5), so slow fractional stops survive.
+ * Below a tenth the nearest 1/n is always the closer of the two.
+ */
+const exposureTimeEntry = (seconds: number): IfdEntry => {
+  const reciprocal = 1 / seconds;
+  const wholeReciprocal = Math.abs(reciprocal - Math.round(reciprocal)) < 1e-3 * reciprocal;
+  return seconds < 0.1 || (seconds < 1 && wholeReciprocal)
+    ? rational(TAG_EXPOSURE_TIME, 1, Math.round(reciprocal))
+    : rational(TAG_EXPOSURE_TIME, Math.round(seconds * 10), 10);
+};
+
+const buildExif = (meta: Partial<JpegMetadata>): Uint8Array => {
+  const date = meta.dateTimeOriginal ?? new Date();
+
+  const exifEntries: IfdEntry[] = [
+    { tag: TAG_EXIF_VERSION, type: UNDEFINED, count: 4, data: new TextEncoder().encode('0232') },
+    ascii(TAG_DATETIME_ORIGINAL, formatExifDate(date))
+  ];
+  if (meta.exposureTime) exifEntries.push(exposureTimeEntry(meta.exposureTime));
+  if (meta.fNumber) exifEntries.push(rational(TAG_FNUMBER, Math.round(meta.fNumber * 10), 10));
+  if (meta.exposureProgram) exifEntries.push(short(TAG_EXPOSURE_PROGRAM, PROGRAM_CODES[meta.exposureProgram]));
+  if (meta.iso) exifEntries.push(short(TAG_ISO, Math.min(65535, meta.iso)));
+  if (meta.exposureBias !== undefined) {
+    exifEntries.push(rational(TAG_EXPOSURE_BIAS, Math.round(meta.exposureBias * 100), 100, true));
+  }
+  if (meta.width) exifEntries.push(long(TAG_PIXEL_X, meta.width));
+  if (meta.height) exifEntries.push(long(TAG_PIXEL_Y, meta.height));
+
+  const ifd0Entries: IfdEntry[] = [
+    ascii(TAG_MAKE, meta.make ?? CAMERA_MAKE),
+    ascii(TAG_MODEL, meta.model ?? CAMERA_MODEL),
+    short(TAG_ORIENTATION, 1),
+    ascii(TAG_SOFTWARE, meta.software ?? CAMERA_SOFTWARE),
+    ascii(TAG_DATETIME, formatExifDate(date)),
+    long(TAG_EXIF_IFD, 0) // Patched below once the IFD0 size is known
+  ];
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0Entries);
+  ifd0Entries[ifd0Entries.length - 1] = long(TAG_EXIF_IFD, exifOffset);
+
+  const ifd0 = writeIfd(ifd0Entries, ifd0Offset);
+  const exifIfd = writeIfd(exifEntries, exifOffset);
+
+  const header = new TextEncoder().encode(EXIF_HEADER);
+  const tiff = new Uint8Array(8);
+  const view = new DataView(tiff.buffer);
+  view.setUint16(0, 0x4d4d); // 'MM' big-endian
+  view.setUint16(2, 42);
+  view.setUint32(4, ifd0Offset);
+
+  return concat([header, tiff, ifd0, exifIfd]);
+};
+
+const buildXmp = (meta: Partial<JpegMetadata>): Uint8Array => {
+  const fields: [string, string | number | undefined][] = [
+    ['Mode', meta.mode],
+    ['ProcessingProfile', meta.processingProfile],
+    ['StackCount', meta.stackCount],
+    ['StackMethod', meta.stackMethod],
+    ['SuperResScale', meta.superResScale],
+    ['SuperResFrames', meta.superResFrames],
+    ['BracketCount', meta.bracketCount],
+    ['BracketStep', meta.bracketStep],
+    ['NightBlend', meta.nightBlend],
+    ['PanoramaFrames', meta.panoramaFrames],
+    ['PanoramaFov', meta.panoramaFov],
+    ['WhiteBalance', meta.whiteBalance]
+  ];
+  const attributes = fields
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => `\n    alphacam:${name}="${escapeXml(String(value))}"`)
+    .join('');
+  const created = (meta.dateTimeOriginal ?? new Date()).toISOString();
+
+  const packet =
+    `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n` +
+    `<x:xmpmeta xmlns:x="adobe:ns:meta/">\n` +
+    ` <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">\n` +
+    `  <rdf:Description rdf:about=""\n` +
+    `    xmlns:xmp="http://ns.adobe.com/xap/1.0/"\n` +
+    `    xmlns:alphacam="${XMP_NAMESPACE}"\n` +
+    `    xmp:CreatorTool="${escapeXml(meta.software ?? CAMERA_SOFTWARE)}"\n` +
+    `    xmp:CreateDate="${created}"${attributes}/>\n` +
+    ` </rdf:RDF>\n` +
+    `</x:xmpmeta>\n` +
+    `<?xpacket end="w"?>`;
+
+  return concat([new TextEncoder().encode(XMP_HEADER), new TextEncoder().encode(packet)]);
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+const app1Segment = (payload: Uint8Array): Uint8Array => {
+  if (payload.length + 2 > 0xffff) throw new Error("APP1 segment too large");
+  const header = new Uint8Array(4);
+  const view = new DataView(header.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, payload.length + 2);
+  return concat([header, payload]);
+};
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string): boolean => {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+interface Segment {
+  marker: number;
+  start: number; // Offset of the 0xFF marker byte
+  end: number; // Offset after the segment
+}
+
+/**
+ * Lists the marker segments before the start-of-scan.
+ */
+const readSegments = (bytes: Uint8Array): Segment[] => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error("Not a JPEG file");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const segments: Segment[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break; // SOS / EOI
+    const length = view.getUint16(offset + 2);
+    segments.push({ marker, start: offset, end: offset + 2 + length });
+    offset += 2 + length;
+  }
+  return segments;
+};
+
+const isExifSegment = (bytes: Uint8Array, s: Segment) => s.marker === 0xe1 && startsWith(bytes, s.start + 4, EXIF_HEADER);
+const isXmpSegment = (bytes: Uint8Array, s: Segment) => s.marker === 0xe1 && startsWith(bytes, s.start + 4, XMP_HEADER);
+
+/**
+ * Returns a copy of the JPEG with Exif and XMP segments replaced by ones
+ * built from `meta`. Any existing APP0 (JFIF) segment is kept first.
+ */
+export const writeJpegMetadata = async (jpeg: Blob, meta: Partial<JpegMetadata>): Promise<Blob> => {
+  const bytes = new Uint8Array(await jpeg.arrayBuffer());
+  const segments = readSegments(bytes);
+
+  const app0 = segments.find(s => s.marker === 0xe0);
+  const insertAt = app0 ? app0.end : 2;
+  const removed = segments.filter(s => isExifSegment(bytes, s) || isXmpSegment(bytes, s));
+
+  const parts: Uint8Array[] = [bytes.subarray(0, insertAt), app1Segment(buildExif(meta)), app1Segment(buildXmp(meta))];
+  let cursor = insertAt;
+  removed.filter(s => s.start >= insertAt).forEach(s => {
+    parts.push(bytes.subarray(cursor, s.start));
+    cursor = s.end;
+  });
+  parts.push(bytes.subarray(cursor));
+
+  return new Blob(parts as BlobPart[], { type: 'image/jpeg' });
+};
+
+const readTiff = (bytes: Uint8Array, start: number, meta: Partial<JpegMetadata>) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + start);
+  const little = view.getUint16(0) === 0x4949;
+  const u16 = (o: number) => view.getUint16(o, little);
+  const u32 = (o: number) => view.getUint32(o, little);
+  const i32 = (o: number) => view.getInt32(o, little);
+
+  const readString = (offset: number, count: number) =>
+    new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + offset, count)).replace(/\0+$/, '');
+
+  const readIfd = (ifdOffset: number, handler: (tag: number, type: number, count: number, valueOffset: number) => void) => {
+    const count = u16(ifdOffset);
+    for (let i = 0; i < count; i++) {
+      const p = ifdOffset + 2 + i * 12;
+      const type = u16(p + 2);
+      const n = u32(p + 4);
+      const size = (TYPE_SIZES[type] ?? 1) * n;
+      handler(u16(p), type, n, size > 4 ? u32(p + 8) : p + 8);
+    }
+  };
+
+  const rationalAt = (o: number, signed: boolean) =>
+    signed ? i32(o) / (i32(o + 4) || 1) : u32(o) / (u32(o + 4) || 1);
+
+  let exifOffset = 0;
+  readIfd(u32(4), (tag, _type, count, o) => {
+    if (tag === TAG_MAKE) meta.make = readString(o, count);
+    if (tag === TAG_MODEL) meta.model = readString(o, count);
+    if (tag === TAG_SOFTWARE) meta.software = readString(o, count);
+    if (tag === TAG_EXIF_IFD) exifOffset = u32(o);
+  });
+  if (!exifOffset) return;
+
+  readIfd(exifOffset, (tag, type, count, o) => {
+    if (tag === TAG_EXPOSURE_TIME) meta.exposureTime = rationalAt(o, false);
+    if (tag === TAG_FNUMBER) meta.fNumber = rationalAt(o, false);
+    if (tag === TAG_ISO) meta.iso = u16(o);
+    if (tag === TAG_EXPOSURE_BIAS) meta.exposureBias = rationalAt(o, true);
+    if (tag === TAG_DATETIME_ORIGINAL) meta.dateTimeOriginal = parseExifDate(readString(o, count));
+    if (tag === TAG_PIXEL_X) meta.width = type === SHORT ? u16(o) : u32(o);
+    if (tag === TAG_PIXEL_Y) meta.height = type === SHORT ? u16(o) : u32(o);
+    if (tag === TAG_EXPOSURE_PROGRAM) {
+      const code = u16(o);
+      meta.exposureProgram = (Object.keys(PROGRAM_CODES) as ExposureProgram[]).find(k => PROGRAM_CODES[k] === code);
+    }
+  });
+};
+
+const readXmpField = (xml: string, name: string): string | undefined => {
+  const attribute = xml.match(new RegExp(`alphacam:${name}="([^"]*)"`));
+  const element = xml.match(new RegExp(`<alphacam:${name}>([^<]*)</alphacam:${name}>`));
+  const raw = attribute?.[1] ?? element?.[1];
+  return raw
+    ?.replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+};
+
+/**
+ * Reads the Exif and AlphaCam XMP fields from a JPEG. Fields that are
+ * missing from the file are left undefined.
+ */
+export const readJpegMetadata = async (jpeg: Blob): Promise<Partial<JpegMetadata>> => {
+  const bytes = new Uint8Array(await jpeg.arrayBuffer());
+  const meta: Partial<JpegMetadata> = {};
+
+  readSegments(bytes).forEach(segment => {
+    if (isExifSegment(bytes, segment)) {
+      try {
+        readTiff(bytes, segment.start + 4 + EXIF_HEADER.length, meta);
+      } catch (err) {
+        console.warn("Malformed Exif segment", err);
+      }
+    } else if (isXmpSegment(bytes, segment)) {
+      const xml = new TextDecoder().decode(bytes.subarray(segment.start + 4 + XMP_HEADER.length, segment.end));
+      meta.mode = readXmpField(xml, 'Mode') ?? meta.mode;
+      meta.processingProfile = readXmpField(xml, 'ProcessingProfile') ?? meta.processingProfile;
+      meta.stackMethod = readXmpField(xml, 'StackMethod') ?? meta.stackMethod;
+      meta.whiteBalance = readXmpField(xml, 'WhiteBalance') ?? meta.whiteBalance;
+      meta.nightBlend = readXmpField(xml, 'NightBlend') ?? meta.nightBlend;
+      const stackCount = readXmpField(xml, 'StackCount');
+      if (stackCount) meta.stackCount = Number(stackCount);
+      const superResScale = readXmpField(xml, 'SuperResScale');
+      if (superResScale) meta.superResScale = Number(superResScale);
+      const superResFrames = readXmpField(xml, 'SuperResFrames');
+      if (superResFrames) meta.superResFrames = Number(superResFrames);
+      const bracketCount = readXmpField(xml, 'BracketCount');
+      if (bracketCount) meta.bracketCount = Number(bracketCount);
+      const bracketStep = readXmpField(xml, 'BracketStep');
+      if (bracketStep) meta.bracketStep = Number(bracketStep);
+      const panoramaFrames = readXmpField(xml, 'PanoramaFrames');
+      if (panoramaFrames) meta.panoramaFrames = Number(panoramaFrames);
+      const panoramaFov = readXmpField(xml, 'PanoramaFov');
+      if (panoramaFov) meta.panoramaFov = Number(panoramaFov);
+    }
+  });
+
+  return meta;
+};
@@ -0,0 +1,460 @@
+import { CapturedImage, CropRect, ImageDiagnostics, SceneAnalysis, SuggestedSettings } from '../types';
+import { AnalysisProvider } from './analysisProvider';
+import { formatKelvin, parseKelvin } from './cameraControls';
+import { Frame } from './frameStacking';
+import {
+  ISO_STOPS,
+  SHUTTER_STOPS,
+  formatShutter,
+  parseShutter,
+  stepStop
+} from './metering';
+
+/**
+ * On-device photo critique. Everything is measured from the pixels, so it
+ * works offline and without an API key:
+ * - exposure clipping from the channel extremes
+ * - sharpness as the variance of the Laplacian, at 1:1 so resizing doesn't hide blur
+ * - noise with Immerkær's estimator over the flat parts of the frame
+ * - colour cast from the grey-world mean of the mid-tones
+ * - horizon tilt from the dominant near-level edge orientation
+ * - a frequency-tuned saliency centroid checked against the rule of thirds
+ */
+
+// Long edge of the whole-frame preview used for the global measurements
+const PREVIEW_SIZE = 512;
+// Side of the 1:1 centre crop used for sharpness and noise
+const DETAIL_SIZE = 512;
+// Saliency grid width, in cells
+const SALIENCY_CELLS = 48;
+
+const HIGHLIGHT_CLIP = 250;
+const SHADOW_CLIP = 5;
+const SHARPNESS_SCALE = 150; // Laplacian variance giving a score of ~63
+const EDGE_THRESHOLD = 48; // Sobel magnitude for an edge to count towards the tilt
+const TILT_RANGE = 15; // Degrees either side of level that count as a tilted line
+const TILT_BIN = 0.25; // Degrees
+const TILT_REFINE_BINS = 4; // Either side of the peak; edge angles scatter by about a degree
+const THIRDS_TOLERANCE = 0.08;
+const CROP_SCALE = 0.8;
+
+// Thresholds for the critique and the suggested settings
+const CLIPPING_WARNING = 2; // %
+const SOFT_SCORE = 40;
+const NOISY_SIGMA = 4;
+const CAST_WARNING = 0.06;
+const TILT_WARNING = 0.75; // Degrees
+const HANDHELD_SHUTTER = 1 / 125;
+const SLOWEST_NOISE_SHUTTER = 1 / 60;
+const NEUTRAL_KELVIN = 5600;
+const CAST_MIRED_SHIFT = 400; // Mired per unit of temperature cast
+
+const THIRDS_POINTS = [[1 / 3, 1 / 3], [2 / 3, 1 / 3], [1 / 3, 2 / 3], [2 / 3, 2 / 3]];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Rec.709 luma of the 8-bit values, as a bare array (unlike frameStacking's toLuma)
+const lumaPlane709 = (frame: Frame): Float32Array => {
+  const { data, width, height } = frame;
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+    luma[i] = 0.2126 * data[p] + 0.7152 * data[p + 1] + 0.0722 * data[p + 2];
+  }
+  return luma;
+};
+
+const measureClipping = (frame: Frame): { highlights: number; shadows: number } => {
+  const { data } = frame;
+  const pixels = data.length / 4;
+  let highlights = 0;
+  let shadows = 0;
+  for (let p = 0; p < data.length; p += 4) {
+    const max = Math.max(data[p], data[p + 1], data[p + 2]);
+    if (max >= HIGHLIGHT_CLIP) highlights++;
+    else if (max <= SHADOW_CLIP) shadows++;
+  }
+  return { highlights: highlights / pixels * 100, shadows: shadows / pixels * 100 };
+};
+
+/**
+ * Variance of the 4-neighbour Laplacian: in-focus detail gives a strong,
+ * widely spread response, blur a weak one.
+ */
+export const laplacianVariance = (luma: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = luma[i - width] + luma[i + width] + luma[i - 1] + luma[i + 1] - 4 * luma[i];
+      sum += value;
+      sumSq += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+};
+
+const sobel = (luma: Float32Array, width: number, i: number): [number, number] => [
+  luma[i - width + 1] + 2 * luma[i + 1] + luma[i + width + 1] - luma[i - width - 1] - 2 * luma[i - 1] - luma[i + width - 1],
+  luma[i + width - 1] + 2 * luma[i + width] + luma[i + width + 1] - luma[i - width - 1] - 2 * luma[i - width] - luma[i - width + 1]
+];
+
+/**
+ * Immerkær's fast noise estimate (the response to a mask that cancels
+ * smooth gradients), taken only over the flatter half of the frame so
+ * texture isn't mistaken for noise.
+ */
+export const estimateNoise = (luma: Float32Array, width: number, height: number): number => {
+  const responses: number[] = [];
+  const magnitudes: number[] = [];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const response =
+        luma[i - width - 1] - 2 * luma[i - width] + luma[i - width + 1]
+        - 2 * luma[i - 1] + 4 * luma[i] - 2 * luma[i + 1]
+        + luma[i + width - 1] - 2 * luma[i + width] + luma[i + width + 1];
+      const [gx, gy] = sobel(luma, width, i);
+      responses.push(Math.abs(response));
+      magnitudes.push(Math.hypot(gx, gy));
+    }
+  }
+  if (responses.length === 0) return 0;
+
+  const median = [...magnitudes].sort((a, b) => a - b)[magnitudes.length >> 1];
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < responses.length; i++) {
+    if (magnitudes[i] > median) continue;
+    sum += responses[i];
+    count++;
+  }
+  return count ? Math.sqrt(Math.PI / 2) * sum / (6 * count) : 0;
+};
+
+const measureColorCast = (frame: Frame): ImageDiagnostics['colorCast'] => {
+  const { data } = frame;
+  let r = 0, g = 0, b = 0;
+  for (let p = 0; p < data.length; p += 4) {
+    const luma = 0.2126 * data[p] + 0.7152 * data[p + 1] + 0.0722 * data[p + 2];
+    if (luma < 30 || luma > 225) continue;
+    r += data[p];
+    g += data[p + 1];
+    b += data[p + 2];
+  }
+  const mean = (r + g + b) / 3;
+  if (mean === 0) return { temperature: 0, tint: 0 };
+  return {
+    temperature: (r - b) / (r + b),
+    tint: ((r + b) / 2 - g) / mean
+  };
+};
+
+// Separable [1 2 1] / 4 blur, which keeps Sobel orientations from snapping to the pixel grid
+const smooth = (luma: Float32Array, width: number, height: number): Float32Array => {
+  const row = new Float32Array(luma.length);
+  const out = new Float32Array(luma.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      row[i] = (luma[x > 0 ? i - 1 : i] + 2 * luma[i] + luma[x < width - 1 ? i + 1 : i]) / 4;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      out[i] = (row[y > 0 ? i - width : i] + 2 * row[i] + row[y < height - 1 ? i + width : i]) / 4;
+    }
+  }
+  return out;
+};
+
+/**
+ * Angle of the strongest near-level lines, from a magnitude-weighted
+ * histogram of Sobel edge orientations. Near-vertical lines count at half
+ * weight since perspective often leans them.
+ */
+export const measureHorizonTilt = (input: Float32Array, width: number, height: number): number | null => {
+  const luma = smooth(smooth(input, width, height), width, height);
+  const bins = Math.round(2 * TILT_RANGE / TILT_BIN) + 1;
+  const histogram = new Float64Array(bins);
+  let total = 0;
+  let edges = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const [gx, gy] = sobel(luma, width, y * width + x);
+      const magnitude = Math.hypot(gx, gy);
+      if (magnitude < EDGE_THRESHOLD) continue;
+      edges++;
+
+      // Direction along the edge, in image coordinates (y down), folded to -90..90
+      let angle = Math.atan2(gy, gx) * 180 / Math.PI + 90;
+      angle = ((angle + 90) % 180 + 180) % 180 - 90;
+      let weight = magnitude;
+      if (Math.abs(angle) > 90 - TILT_RANGE) {
+        angle = angle > 0 ? angle - 90 : angle + 90;
+        weight /= 2;
+      }
+      if (Math.abs(angle) > TILT_RANGE) continue;
+      histogram[Math.round((angle + TILT_RANGE) / TILT_BIN)] += weight;
+      total += weight;
+    }
+  }
+  if (total === 0 || edges < width * height * 0.005) return null;
+
+  let peak = 0;
+  let peakWeight = 0;
+  for (let i = 0; i < bins; i++) {
+    let weight = 0;
+    for (let j = Math.max(0, i - TILT_REFINE_BINS); j <= Math.min(bins - 1, i + TILT_REFINE_BINS); j++) weight += histogram[j];
+    if (weight > peakWeight) {
+      peak = i;
+      peakWeight = weight;
+    }
+  }
+  // A real horizon stands out; texture spreads evenly over the histogram
+  if (peakWeight < total * 0.2) return null;
+
+  let sum = 0;
+  let weightSum = 0;
+  for (let i = Math.max(0, peak - TILT_REFINE_BINS); i <= Math.min(bins - 1, peak + TILT_REFINE_BINS); i++) {
+    sum += (i * TILT_BIN - TILT_RANGE) * histogram[i];
+    weightSum += histogram[i];
+  }
+  // Rising to the right is negative in image coordinates
+  const tilt = -sum / weightSum;
+  return Math.abs(tilt) < TILT_BIN ? 0 : Math.round(tilt * 10) / 10;
+};
+
+/**
+ * Frequency-tuned saliency: cells whose blurred colour differs most from
+ * the frame's mean colour. Returns the centroid of the most salient fifth.
+ */
+export const findSalientCentre = (frame: Frame): { x: number; y: number } => {
+  const { data, width, height } = frame;
+  const cellSize = Math.max(1, Math.ceil(width / SALIENCY_CELLS));
+  const cols = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const cells = new Float32Array(cols * rows * 3);
+  const counts = new Uint32Array(cols * rows);
+
+  // Opponent colour space: lightness, red-green, yellow-blue
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      const c = Math.floor(y / cellSize) * cols + Math.floor(x / cellSize);
+      const r = data[p], g = data[p + 1], b = data[p + 2];
+      cells[c * 3] += 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      cells[c * 3 + 1] += r - g;
+      cells[c * 3 + 2] += (r + g) / 2 - b;
+      counts[c]++;
+    }
+  }
+
+  const mean = [0, 0, 0];
+  for (let c = 0; c < counts.length; c++) {
+    for (let k = 0; k < 3; k++) {
+      cells[c * 3 + k] /= counts[c];
+      mean[k] += cells[c * 3 + k] / counts.length;
+    }
+  }
+
+  const saliency = new Float32Array(counts.length);
+  for (let c = 0; c < counts.length; c++) {
+    saliency[c] = (cells[c * 3] - mean[0]) ** 2 + (cells[c * 3 + 1] - mean[1]) ** 2 + (cells[c * 3 + 2] - mean[2]) ** 2;
+  }
+
+  const threshold = [...saliency].sort((a, b) => b - a)[Math.floor(saliency.length / 5)];
+  let sx = 0, sy = 0, total = 0;
+  for (let c = 0; c < saliency.length; c++) {
+    if (saliency[c] < threshold || saliency[c] === 0) continue;
+    const cx = (c % cols + 0.5) * cellSize / width;
+    const cy = (Math.floor(c / cols) + 0.5) * cellSize / height;
+    sx += cx * saliency[c];
+    sy += cy * saliency[c];
+    total += saliency[c];
+  }
+  return total > 0
+    ? { x: clamp(sx / total, 0, 1), y: clamp(sy / total, 0, 1) }
+    : { x: 0.5, y: 0.5 };
+};
+
+const nearestThirdsPoint = (x: number, y: number): [number, number, number] =>
+  THIRDS_POINTS
+    .map(([px, py]) => [px, py, Math.hypot(x - px, y - py)] as [number, number, number])
+    .reduce((best, point) => point[2] < best[2] ? point : best);
+
+/**
+ * Crop at the frame's aspect ratio that moves the subject onto its nearest
+ * thirds intersection, or null when that wouldn't help.
+ */
+const suggestThirdsCrop = (subject: { x: number; y: number }, distance: number): CropRect | null => {
+  const [tx, ty] = nearestThirdsPoint(subject.x, subject.y);
+  const x = clamp(subject.x - tx * CROP_SCALE, 0, 1 - CROP_SCALE);
+  const y = clamp(subject.y - ty * CROP_SCALE, 0, 1 - CROP_SCALE);
+  const [, , cropped] = nearestThirdsPoint((subject.x - x) / CROP_SCALE, (subject.y - y) / CROP_SCALE);
+  return distance - cropped > THIRDS_TOLERANCE / 2
+    ? { x, y, width: CROP_SCALE, height: CROP_SCALE }
+    : null;
+};
+
+/**
+ * Measures a whole-frame preview and a 1:1 detail crop.
+ */
+export const diagnoseFrames = (preview: Frame, detail: Frame): ImageDiagnostics => {
+  const previewLuma = lumaPlane709(preview);
+  const detailLuma = lumaPlane709(detail);
+  const clipping = measureClipping(preview);
+  const sharpness = laplacianVariance(detailLuma, detail.width, detail.height);
+  const subject = findSalientCentre(preview);
+
+  return {
+    clippedHighlights: Math.round(clipping.highlights * 10) / 10,
+    clippedShadows: Math.round(clipping.shadows * 10) / 10,
+    sharpness: Math.round(sharpness),
+    sharpnessScore: Math.round(100 * (1 - Math.exp(-sharpness / SHARPNESS_SCALE))),
+    noise: Math.round(estimateNoise(detailLuma, detail.width, detail.height) * 10) / 10,
+    colorCast: measureColorCast(preview),
+    horizonTilt: measureHorizonTilt(previewLuma, preview.width, preview.height),
+    subject,
+    thirdsDistance: nearestThirdsPoint(subject.x, subject.y)[2]
+  };
+};
+
+/**
+ * Settings for a better next shot, starting from what this one was taken
+ * with: a stop less for clipped highlights, a stop more for crushed shadows,
+ * a faster shutter for blur, a lower ISO for noise and a white balance that
+ * cancels the cast.
+ */
+const suggestSettings = (diagnostics: ImageDiagnostics, metadata: CapturedImage['metadata']): SuggestedSettings => {
+  let shutter = parseShutter(metadata.shutterSpeed) ?? HANDHELD_SHUTTER;
+  let iso = metadata.iso || ISO_STOPS[0];
+  // Shutter scale runs slow to fast, ISO scale low to high; three steps per stop
+  const faster = (stops: number) => { shutter = stepStop(shutter, SHUTTER_STOPS, 3 * stops); };
+  const brighterIso = (stops: number) => { iso = stepStop(iso, ISO_STOPS, 3 * stops); };
+
+  if (diagnostics.clippedHighlights > CLIPPING_WARNING && diagnostics.clippedShadows < CLIPPING_WARNING) faster(1);
+  else if (diagnostics.clippedShadows > CLIPPING_WARNING * 2 && diagnostics.clippedHighlights < 0.5) brighterIso(1);
+
+  if (diagnostics.sharpnessScore < SOFT_SCORE && shutter > HANDHELD_SHUTTER) {
+    faster(1);
+    brighterIso(1);
+  } else if (diagnostics.noise > NOISY_SIGMA && iso > ISO_STOPS[0] && shutter < SLOWEST_NOISE_SHUTTER) {
+    faster(-1);
+    brighterIso(-1);
+  }
+
+  const { temperature } = diagnostics.colorCast;
+  let wb = metadata.wb ?? 'AWB';
+  if (Math.abs(temperature) > CAST_WARNING) {
+    const kelvin = parseKelvin(wb);
+    const mired = 1e6 / (kelvin === 'AUTO' ? NEUTRAL_KELVIN : kelvin) + temperature * CAST_MIRED_SHIFT;
+    wb = formatKelvin(parseKelvin(`${1e6 / mired}K`));
+  }
+
+  return { iso, shutterSpeed: formatShutter(shutter), aperture: metadata.aperture, wb };
+};
+
+const scoreComposition = (diagnostics: ImageDiagnostics): number => {
+  let score = 7;
+  const centred = Math.hypot(diagnostics.subject.x - 0.5, diagnostics.subject.y - 0.5) < THIRDS_TOLERANCE;
+  if (diagnostics.thirdsDistance < THIRDS_TOLERANCE) score += 2;
+  else if (!centred && diagnostics.thirdsDistance > 0.2) score -= 1;
+  const tilt = Math.abs(diagnostics.horizonTilt ?? 0);
+  if (tilt > 3) score -= 2;
+  else if (tilt > TILT_WARNING) score -= 1;
+  if (diagnostics.clippedHighlights > CLIPPING_WARNING * 2.5 || diagnostics.clippedShadows > CLIPPING_WARNING * 5) score -= 1;
+  if (diagnostics.sharpnessScore < SOFT_SCORE) score -= 2;
+  if (diagnostics.noise > NOISY_SIGMA) score -= 1;
+  return clamp(score, 1, 10);
+};
+
+const describePosition = ({ x, y }: { x: number; y: number }): string => {
+  const vertical = y < 0.4 ? 'upper' : y > 0.6 ? 'lower' : 'middle';
+  const horizontal = x < 0.4 ? 'left' : x > 0.6 ? 'right' : 'centre';
+  return vertical === 'middle' && horizontal === 'centre' ? 'centre' : vertical === 'middle' ? horizontal : `${vertical} ${horizontal}`;
+};
+
+const writeCritique = (diagnostics: ImageDiagnostics): string => {
+  const notes: string[] = [];
+  if (diagnostics.clippedHighlights > CLIPPING_WARNING) notes.push(`Highlights are clipped in ${diagnostics.clippedHighlights}% of the frame.`);
+  if (diagnostics.clippedShadows > CLIPPING_WARNING * 2) notes.push(`Shadows are crushed in ${diagnostics.clippedShadows}% of the frame.`);
+  if (diagnostics.sharpnessScore < SOFT_SCORE) notes.push(`The image looks soft (sharpness ${diagnostics.sharpnessScore}/100).`);
+  if (diagnostics.noise > NOISY_SIGMA) notes.push(`Noise is visible (σ ${diagnostics.noise}).`);
+  if (diagnostics.horizonTilt !== null && Math.abs(diagnostics.horizonTilt) > TILT_WARNING) {
+    notes.push(`The horizon is tilted ${Math.abs(diagnostics.horizonTilt)}° ${diagnostics.horizonTilt > 0 ? 'counter-clockwise' : 'clockwise'}.`);
+  }
+  const { temperature, tint } = diagnostics.colorCast;
+  if (Math.abs(temperature) > CAST_WARNING) notes.push(`There is a ${temperature > 0 ? 'warm' : 'cool'} colour cast.`);
+  else if (Math.abs(tint) > CAST_WARNING) notes.push(`There is a ${tint > 0 ? 'magenta' : 'green'} colour cast.`);
+  notes.push(diagnostics.thirdsDistance < THIRDS_TOLERANCE
+    ? `The subject sits on a thirds intersection (${describePosition(diagnostics.subject)}).`
+    : `The subject sits ${describePosition(diagnostics.subject)}, off the thirds.`);
+  return notes.join(' ');
+};
+
+/**
+ * Full analysis of a preview and detail crop; `metadata` is what the photo
+ * was shot with, which the suggested settings adjust.
+ */
+export const analyzeFrames = (preview: Frame, detail: Frame, metadata: CapturedImage['metadata']): SceneAnalysis => {
+  const diagnostics = diagnoseFrames(preview, detail);
+  return {
+    provider: 'local',
+    settings: suggestSettings(diagnostics, metadata),
+    compositionScore: scoreComposition(diagnostics),
+    subjects: [],
+    critique: writeCritique(diagnostics),
+    crop: suggestThirdsCrop(diagnostics.subject, diagnostics.thirdsDistance),
+    diagnostics
+  };
+};
+
+const drawFrame = (
+  bitmap: ImageBitmap,
+  sx: number, sy: number, sw: number, sh: number,
+  width: number, height: number
+): Frame => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("No canvas context");
+  ctx.drawImage(bitmap, sx, sy, sw, sh, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Decodes the whole frame downscaled, plus a 1:1 crop from the centre.
+ */
+const decodeForAnalysis = async (image: Blob): Promise<{ preview: Frame; detail: Frame }> => {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const { width, height } = bitmap;
+    const scale = Math.min(1, PREVIEW_SIZE / Math.max(width, height));
+    const detailWidth = Math.min(DETAIL_SIZE, width);
+    const detailHeight = Math.min(DETAIL_SIZE, height);
+    return {
+      preview: drawFrame(bitmap, 0, 0, width, height, Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale))),
+      detail: drawFrame(bitmap, (width - detailWidth) >> 1, (height - detailHeight) >> 1, detailWidth, detailHeight, detailWidth, detailHeight)
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const localProvider: AnalysisProvider = {
+  id: 'local',
+  label: 'On-device',
+  isAvailable: () => true,
+  analyze: async ({ image, metadata }) => {
+    const { preview, detail } = await decodeForAnalysis(image);
+    return analyzeFrames(preview, detail, metadata);
+  }
+};
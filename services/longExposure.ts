@@ -0,0 +1,208 @@
+import { NightBlend } from '../types';
+import { Frame, FrameStats, buildPyramid, estimateTranslation, toLuma } from './frameStacking';
+import { SRGB_DECODE, linearToSrgb } from './pipeline/srgb';
+
+/**
+ * Simulated long exposures for night mode.
+ * Short frames are aligned to the first and averaged in linear light in a
+ * float buffer. Samples far from a pixel's running mean (a passing car, a
+ * torch beam) are rejected as they arrive, so memory stays constant however
+ * long the exposure runs. The average is then brightened by up to the number
+ * of frames gathered, the light a real exposure of that length would have
+ * collected, and tone-mapped so highlights roll off instead of clipping.
+ * Light trails also keep a per-pixel maximum and lighten it over that
+ * cleaned-up background.
+ */
+
+export interface LongExposureOptions {
+  blend: NightBlend;
+  align: boolean;
+  maxShift: number; // Pixels at full resolution
+  sigma: number; // Rejection threshold, in standard deviations of a pixel's history
+  key: number; // Linear log-average luminance the result is brightened towards
+}
+
+export interface LongExposure {
+  add: (frame: Frame) => FrameStats;
+  preview: (maxSize: number) => Frame; // Tone-mapped, downscaled view of the exposure so far
+  finish: () => Frame;
+}
+
+export const DEFAULT_LONG_EXPOSURE_OPTIONS: LongExposureOptions = {
+  blend: 'average',
+  align: true,
+  maxShift: 32,
+  sigma: 3,
+  key: 0.18
+};
+
+const WARMUP_FRAMES = 4; // A pixel's history is too short to judge before this
+const MIN_SIGMA = 0.01; // Linear; keeps noiseless pixels from rejecting everything
+const LOG_DELTA = 1e-4;
+const KEY_SAMPLE_TARGET = 65536;
+const ENCODE_STEPS = 4096;
+
+const ENCODE = Uint8ClampedArray.from({ length: ENCODE_STEPS + 1 }, (_, i) => Math.round(linearToSrgb(i / ENCODE_STEPS) * 255));
+
+const lumaOf = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+/**
+ * Creates an accumulator that night-mode frames are streamed into. The first
+ * frame is the alignment reference.
+ */
+export const createLongExposure = (options: Partial<LongExposureOptions> = {}): LongExposure => {
+  const opts: LongExposureOptions = { ...DEFAULT_LONG_EXPOSURE_OPTIONS, ...options };
+  let refPyramid: ReturnType<typeof buildPyramid> | null = null;
+  let width = 0;
+  let height = 0;
+  // Per pixel: accepted samples, running linear mean (RGB), luma M2 (Welford)
+  let counts = new Uint16Array(0);
+  let mean = new Float32Array(0);
+  let m2 = new Float32Array(0);
+  let brightest: Uint8ClampedArray | null = null; // Light trails: per-channel max, sRGB
+  const stats: FrameStats[] = [];
+
+  const allocate = (frame: Frame) => {
+    width = frame.width;
+    height = frame.height;
+    counts = new Uint16Array(width * height);
+    mean = new Float32Array(width * height * 3);
+    m2 = new Float32Array(width * height);
+    if (opts.blend === 'trails') brightest = new Uint8ClampedArray(width * height * 3);
+  };
+
+  const add = (frame: Frame): FrameStats => {
+    if (!refPyramid) {
+      allocate(frame);
+    } else if (frame.width !== width || frame.height !== height) {
+      throw new Error("Frame size changed during long exposure");
+    }
+
+    const luma = toLuma(frame);
+    let dx = 0;
+    let dy = 0;
+    let alignmentError = 0;
+    if (!refPyramid) {
+      refPyramid = buildPyramid(luma);
+    } else if (opts.align) {
+      const shift = estimateTranslation(refPyramid, buildPyramid(luma), opts.maxShift);
+      dx = shift.dx;
+      dy = shift.dy;
+      alignmentError = shift.error;
+    }
+
+    const { data } = frame;
+    let rejected = 0;
+    let lumaSum = 0;
+    for (let y = 0; y < height; y++) {
+      const sy = Math.min(height - 1, Math.max(0, y + dy));
+      for (let x = 0; x < width; x++) {
+        const sx = Math.min(width - 1, Math.max(0, x + dx));
+        const s = (sy * width + sx) * 4;
+        const i = y * width + x;
+        const c = i * 3;
+        lumaSum += luma.data[sy * width + sx];
+
+        if (brightest) {
+          brightest[c] = Math.max(brightest[c], data[s]);
+          brightest[c + 1] = Math.max(brightest[c + 1], data[s + 1]);
+          brightest[c + 2] = Math.max(brightest[c + 2], data[s + 2]);
+        }
+
+        const r = SRGB_DECODE[data[s]];
+        const g = SRGB_DECODE[data[s + 1]];
+        const b = SRGB_DECODE[data[s + 2]];
+        const l = lumaOf(r, g, b);
+        const n = counts[i];
+        const meanLuma = lumaOf(mean[c], mean[c + 1], mean[c + 2]);
+        if (n >= WARMUP_FRAMES) {
+          const sd = Math.max(MIN_SIGMA, Math.sqrt(m2[i] / (n - 1)));
+          if (Math.abs(l - meanLuma) > opts.sigma * sd) {
+            rejected++;
+            continue;
+          }
+        }
+        if (n === 0xffff) continue;
+
+        const next = n + 1;
+        counts[i] = next;
+        mean[c] += (r - mean[c]) / next;
+        mean[c + 1] += (g - mean[c + 1]) / next;
+        mean[c + 2] += (b - mean[c + 2]) / next;
+        m2[i] += (l - meanLuma) * (l - lumaOf(mean[c], mean[c + 1], mean[c + 2]));
+      }
+    }
+
+    const frameStats: FrameStats = {
+      index: stats.length,
+      offsetX: dx,
+      offsetY: dy,
+      meanLuma: lumaSum / Math.max(1, width * height),
+      alignmentError,
+      rejectedRatio: rejected / Math.max(1, width * height)
+    };
+    stats.push(frameStats);
+    return frameStats;
+  };
+
+  /**
+   * Gain and white point for the exposure so far: brighten the log-average
+   * towards `key`, but never by more than the frames gathered.
+   */
+  const toneCurve = (): { gain: number; white: number } => {
+    const step = Math.max(1, Math.floor(Math.sqrt((width * height) / KEY_SAMPLE_TARGET)));
+    let logSum = 0;
+    let peak = 0;
+    let count = 0;
+    for (let y = 0; y < height; y += step) {
+      for (let x = 0; x < width; x += step) {
+        const c = (y * width + x) * 3;
+        const l = lumaOf(mean[c], mean[c + 1], mean[c + 2]);
+        logSum += Math.log(LOG_DELTA + l);
+        peak = Math.max(peak, l);
+        count++;
+      }
+    }
+    const logAverage = Math.exp(logSum / Math.max(1, count));
+    const gain = Math.min(stats.length, Math.max(1, opts.key / logAverage));
+    return { gain, white: Math.max(1, peak * gain) };
+  };
+
+  // Every `step`th pixel of the result, tone-mapped (extended Reinhard) and encoded
+  const render = (step: number): Frame => {
+    if (stats.length === 0) throw new Error("No frames for long exposure");
+    const { gain, white } = toneCurve();
+    const white2 = white * white;
+    const outWidth = Math.max(1, Math.floor(width / step));
+    const outHeight = Math.max(1, Math.floor(height / step));
+    const out = new Uint8ClampedArray(outWidth * outHeight * 4);
+
+    for (let y = 0; y < outHeight; y++) {
+      for (let x = 0; x < outWidth; x++) {
+        const c = ((y * step) * width + x * step) * 3;
+        const o = (y * outWidth + x) * 4;
+        const r = mean[c] * gain;
+        const g = mean[c + 1] * gain;
+        const b = mean[c + 2] * gain;
+        const l = lumaOf(r, g, b);
+        const scale = l > 0 ? (1 + l / white2) / (1 + l) : 1;
+        out[o] = ENCODE[Math.round(Math.min(1, r * scale) * ENCODE_STEPS)];
+        out[o + 1] = ENCODE[Math.round(Math.min(1, g * scale) * ENCODE_STEPS)];
+        out[o + 2] = ENCODE[Math.round(Math.min(1, b * scale) * ENCODE_STEPS)];
+        out[o + 3] = 255;
+        if (brightest) {
+          out[o] = Math.max(out[o], brightest[c]);
+          out[o + 1] = Math.max(out[o + 1], brightest[c + 1]);
+          out[o + 2] = Math.max(out[o + 2], brightest[c + 2]);
+        }
+      }
+    }
+    return { data: out, width: outWidth, height: outHeight };
+  };
+
+  return {
+    add,
+    preview: (maxSize) => render(Math.max(1, Math.ceil(Math.max(width, height) / maxSize))),
+    finish: () => render(1)
+  };
+};
@@ -0,0 +1,349 @@
+import { CameraSettings, ExposureProgram, ExposureSettings, MeteringMode } from '../types';
+import { Frame } from './frameStacking';
+import { SRGB_DECODE } from './pipeline/srgb';
+
+/**
+ * Scene metering and exposure-program model.
+ * The preview is sampled at low resolution, reduced to a weighted scene
+ * luminance, turned into an EV and then split into ISO / shutter / aperture
+ * the same way a camera's P/A/S/M programs would.
+ */
+
+export interface MeterReading {
+  luminance: number; // Weighted linear luminance, 0-1
+  sceneEv: number; // EV100 of the metered scene
+}
+
+export interface ExposureSolution {
+  iso: number;
+  shutter: number; // Seconds
+  aperture: number; // f-number
+  deviation: number; // EV difference from the metered target; non-zero when limits are hit or in M
+}
+
+export interface NormalizedPoint {
+  x: number; // 0-1
+  y: number; // 0-1
+}
+
+// Standard 1/3-stop scales
+export const SHUTTER_STOPS = [
+  30, 25, 20, 15, 13, 10, 8, 6, 5, 4, 3.2, 2.5, 2, 1.6, 1.3, 1, 0.8, 0.6, 0.5, 0.4, 0.3,
+  1 / 4, 1 / 5, 1 / 6, 1 / 8, 1 / 10, 1 / 13, 1 / 15, 1 / 20, 1 / 25, 1 / 30, 1 / 40, 1 / 50,
+  1 / 60, 1 / 80, 1 / 100, 1 / 125, 1 / 160, 1 / 200, 1 / 250, 1 / 320, 1 / 400, 1 / 500,
+  1 / 640, 1 / 800, 1 / 1000, 1 / 1250, 1 / 1600, 1 / 2000, 1 / 2500, 1 / 3200, 1 / 4000,
+  1 / 5000, 1 / 6400, 1 / 8000
+];
+export const APERTURE_STOPS = [
+  1.4, 1.6, 1.8, 2, 2.2, 2.5, 2.8, 3.2, 3.5, 4, 4.5, 5, 5.6, 6.3, 7.1, 8, 9, 10, 11, 13, 14, 16
+];
+export const ISO_STOPS = [
+  100, 125, 160, 200, 250, 320, 400, 500, 640, 800, 1000, 1250, 1600, 2000, 2500, 3200,
+  4000, 5000, 6400, 8000, 10000, 12800, 16000, 20000, 25600, 32000, 40000, 51200
+];
+
+export const EV_COMPENSATION_LIMIT = 3;
+export const METERING_MODES: MeteringMode[] = ['matrix', 'center', 'spot'];
+export const EXPOSURE_PROGRAMS: ExposureProgram[] = ['P', 'A', 'S', 'M'];
+
+const SAMPLE_WIDTH = 64;
+const MID_GREY = 0.18;
+// Browsers don't expose absolute sensor exposure on most devices, so the
+// stream is assumed to be auto-exposed for a typical indoor scene. When the
+// track does report its exposure time, that replaces the assumption.
+const REFERENCE_EV = 8;
+const ASSUMED_SENSOR_APERTURE = 1.8;
+// Slowest shutter the program modes pick before raising ISO
+const HANDHELD_LIMIT = 1 / 60;
+const SPOT_RADIUS = 0.04; // Fraction of frame width
+const MATRIX_ZONES = 5;
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+const snapToStops = (value: number, stops: number[]): number =>
+  stops.reduce((best, stop) =>
+    Math.abs(Math.log2(stop / value)) < Math.abs(Math.log2(best / value)) ? stop : best
+  , stops[0]);
+
+/**
+ * Returns a function that grabs a downscaled frame from the video element.
+ * The backing canvas is reused between calls.
+ */
+export const createFrameSampler = (sampleWidth = SAMPLE_WIDTH) => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  return (video: HTMLVideoElement): ImageData | null => {
+    if (!ctx || !video.videoWidth || video.readyState < 2) return null;
+    canvas.width = sampleWidth;
+    canvas.height = Math.max(1, Math.round(sampleWidth * video.videoHeight / video.videoWidth));
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  };
+};
+
+const linearLuminance = (frame: Frame): Float32Array => {
+  const { data, width, height } = frame;
+  const lum = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < lum.length; i++, p += 4) {
+    lum[i] = 0.2126 * SRGB_DECODE[data[p]] + 0.7152 * SRGB_DECODE[data[p + 1]] + 0.0722 * SRGB_DECODE[data[p + 2]];
+  }
+  return lum;
+};
+
+/**
+ * Matrix: the frame is split into a grid of zones, averaged in log space with
+ * the central zones weighted up, and zones far brighter than the median
+ * (sky, light sources) weighted down so they don't drag the subject dark.
+ */
+const meterMatrix = (lum: Float32Array, width: number, height: number): number => {
+  const sums = new Float64Array(MATRIX_ZONES * MATRIX_ZONES);
+  const counts = new Uint32Array(MATRIX_ZONES * MATRIX_ZONES);
+  for (let y = 0; y < height; y++) {
+    const zy = Math.min(MATRIX_ZONES - 1, Math.floor(y * MATRIX_ZONES / height));
+    for (let x = 0; x < width; x++) {
+      const zx = Math.min(MATRIX_ZONES - 1, Math.floor(x * MATRIX_ZONES / width));
+      sums[zy * MATRIX_ZONES + zx] += lum[y * width + x];
+      counts[zy * MATRIX_ZONES + zx]++;
+    }
+  }
+
+  const zones = Array.from(sums, (sum, i) => Math.max(1e-4, sum / Math.max(1, counts[i])));
+  const median = [...zones].sort((a, b) => a - b)[zones.length >> 1];
+  const centre = (MATRIX_ZONES - 1) / 2;
+
+  let logSum = 0;
+  let weightSum = 0;
+  zones.forEach((zone, i) => {
+    const zx = i % MATRIX_ZONES;
+    const zy = Math.floor(i / MATRIX_ZONES);
+    const distance = Math.hypot(zx - centre, zy - centre) / centre;
+    let weight = 1 + 2 * Math.max(0, 1 - distance);
+    if (zone > median * 4) weight *= 0.25;
+    logSum += Math.log2(zone) * weight;
+    weightSum += weight;
+  });
+  return 2 ** (logSum / weightSum);
+};
+
+const meterCenterWeighted = (lum: Float32Array, width: number, height: number): number => {
+  const sigma = 0.25;
+  let sum = 0;
+  let weightSum = 0;
+  for (let y = 0; y < height; y++) {
+    const ny = (y + 0.5) / height - 0.5;
+    for (let x = 0; x < width; x++) {
+      const nx = (x + 0.5) / width - 0.5;
+      const weight = Math.exp(-(nx * nx + ny * ny) / (2 * sigma * sigma));
+      sum += lum[y * width + x] * weight;
+      weightSum += weight;
+    }
+  }
+  return sum / weightSum;
+};
+
+const meterSpot = (lum: Float32Array, width: number, height: number, point: NormalizedPoint): number => {
+  const cx = point.x * width;
+  const cy = point.y * height;
+  const radius = Math.max(1, SPOT_RADIUS * width);
+  let sum = 0;
+  let count = 0;
+  for (let y = Math.floor(cy - radius); y <= Math.ceil(cy + radius); y++) {
+    if (y < 0 || y >= height) continue;
+    for (let x = Math.floor(cx - radius); x <= Math.ceil(cx + radius); x++) {
+      if (x < 0 || x >= width) continue;
+      if (Math.hypot(x + 0.5 - cx, y + 0.5 - cy) > radius) continue;
+      sum += lum[y * width + x];
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : MID_GREY;
+};
+
+/**
+ * Meters a (downscaled) frame and returns its weighted luminance and scene EV.
+ * `cameraEv` is the EV100 the stream itself was exposed at, when known.
+ */
+export const meterFrame = (
+  frame: Frame,
+  mode: MeteringMode,
+  point: NormalizedPoint = { x: 0.5, y: 0.5 },
+  cameraEv = REFERENCE_EV
+): MeterReading => {
+  const lum = linearLuminance(frame);
+  const luminance =
+    mode === 'matrix' ? meterMatrix(lum, frame.width, frame.height)
+    : mode === 'center' ? meterCenterWeighted(lum, frame.width, frame.height)
+    : meterSpot(lum, frame.width, frame.height, point);
+
+  return {
+    luminance,
+    sceneEv: cameraEv + Math.log2(Math.max(1e-4, luminance) / MID_GREY)
+  };
+};
+
+/**
+ * Derives the EV100 the stream was exposed at from the track's reported
+ * exposure time and, where reported, the ISO in effect (a frame shot at
+ * ISO 400 is as bright as one given two stops more light at ISO 100).
+ * Without the ISO the sensor is taken to be at base ISO.
+ */
+export const getCameraEv = (track: MediaStreamTrack | undefined): number => {
+  const trackSettings = track?.getSettings() as (MediaTrackSettings & { exposureTime?: number; iso?: number }) | undefined;
+  // exposureTime is reported in units of 100 microseconds
+  const exposureTime = trackSettings?.exposureTime;
+  if (!exposureTime) return REFERENCE_EV;
+  const iso = trackSettings?.iso ?? 100;
+  return Math.log2(ASSUMED_SENSOR_APERTURE ** 2 / (exposureTime / 10000)) - Math.log2(iso / 100);
+};
+
+// Exposure value arithmetic: EV100 = Av + Tv - Sv
+const av = (aperture: number) => Math.log2(aperture * aperture);
+const tv = (shutter: number) => -Math.log2(shutter);
+const sv = (iso: number) => Math.log2(iso / 100);
+
+const fromAv = (value: number) => Math.sqrt(2 ** value);
+const fromTv = (value: number) => 2 ** -value;
+const fromSv = (value: number) => 100 * 2 ** value;
+
+const MIN_AV = av(APERTURE_STOPS[0]);
+const MAX_AV = av(APERTURE_STOPS[APERTURE_STOPS.length - 1]);
+const MIN_TV = tv(SHUTTER_STOPS[0]);
+const MAX_TV = tv(SHUTTER_STOPS[SHUTTER_STOPS.length - 1]);
+const MAX_SV = sv(ISO_STOPS[ISO_STOPS.length - 1]);
+const HANDHELD_TV = tv(HANDHELD_LIMIT);
+
+/**
+ * Splits the required exposure into ISO, shutter and aperture according to
+ * the selected program. `sceneEv` is corrected by the exposure compensation
+ * first, so +1 EV yields one stop more exposure.
+ */
+export const solveExposure = (sceneEv: number, exposure: ExposureSettings): ExposureSolution => {
+  const target = sceneEv - exposure.compensation;
+  let apertureValue: number;
+  let timeValue: number;
+  let speedValue = 0;
+
+  // When the chosen Av/Tv needs more light than the target allows at ISO 100,
+  // raise ISO; returns the Sv that makes Av + Tv - Sv meet the target.
+  const autoIso = (a: number, t: number) => clamp(a + t - target, 0, MAX_SV);
+
+  switch (exposure.program) {
+    case 'P': {
+      // Program line: open up in dim light, stop down progressively as the scene brightens
+      apertureValue = clamp(av(2.8) + (target - 10) * 0.5, MIN_AV, MAX_AV);
+      timeValue = target - apertureValue;
+      if (timeValue < HANDHELD_TV) {
+        speedValue = clamp(HANDHELD_TV - timeValue, 0, MAX_SV);
+        timeValue += speedValue;
+      }
+      if (timeValue > MAX_TV) {
+        apertureValue = clamp(apertureValue + (timeValue - MAX_TV), MIN_AV, MAX_AV);
+        timeValue = target - apertureValue;
+      }
+      break;
+    }
+    case 'A': {
+      apertureValue = av(exposure.aperture);
+      timeValue = target - apertureValue;
+      if (timeValue < HANDHELD_TV) {
+        speedValue = clamp(HANDHELD_TV - timeValue, 0, MAX_SV);
+        timeValue += speedValue;
+      }
+      break;
+    }
+    case 'S': {
+      timeValue = tv(exposure.shutter);
+      apertureValue = target - timeValue;
+      if (apertureValue < MIN_AV) {
+        speedValue = autoIso(MIN_AV, timeValue);
+        apertureValue = MIN_AV;
+      }
+      break;
+    }
+    case 'M':
+    default: {
+      apertureValue = av(exposure.aperture);
+      timeValue = tv(exposure.shutter);
+      speedValue = exposure.iso === 'AUTO' ? autoIso(apertureValue, timeValue) : sv(exposure.iso);
+      break;
+    }
+  }
+
+  const iso = snapToStops(fromSv(speedValue), ISO_STOPS);
+  const shutter = snapToStops(fromTv(clamp(timeValue, MIN_TV, MAX_TV)), SHUTTER_STOPS);
+  const aperture = snapToStops(fromAv(clamp(apertureValue, MIN_AV, MAX_AV)), APERTURE_STOPS);
+
+  // Positive deviation: the chosen settings over-expose relative to the target
+  const deviation = target - (av(aperture) + tv(shutter) - sv(iso));
+  return { iso, shutter, aperture, deviation: Math.round(deviation * 3) / 3 };
+};
+
+export const formatShutter = (seconds: number): string =>
+  seconds >= 0.3 ? `${Math.round(seconds * 10) / 10}"` : `1/${Math.round(1 / seconds)}`;
+
+export const formatAperture = (aperture: number): string => `f/${aperture}`;
+
+export const formatEv = (ev: number): string => `${ev >= 0 ? '+' : '-'}${Math.abs(ev).toFixed(1)}`;
+
+/**
+ * Inverse of `formatShutter`; returns undefined for unparseable values.
+ */
+export const parseShutter = (value: string): number | undefined => {
+  const fraction = value.match(/^1\/(\d+(?:\.\d+)?)$/);
+  if (fraction) return 1 / Number(fraction[1]);
+  const seconds = parseFloat(value);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+};
+
+export const parseAperture = (value: string): number | undefined => {
+  const f = parseFloat(value.replace(/^f\//i, ''));
+  return Number.isFinite(f) && f > 0 ? f : undefined;
+};
+
+export const parseEv = (value: string): number | undefined => {
+  const ev = parseFloat(value);
+  return Number.isFinite(ev) ? ev : undefined;
+};
+
+/**
+ * Manual exposure matching suggested settings, snapped to the stop scales.
+ * Values that don't parse keep their current setting.
+ */
+export const exposureFromSettings = (
+  settings: Pick<CameraSettings, 'iso' | 'shutterSpeed' | 'aperture'>,
+  exposure: ExposureSettings
+): ExposureSettings => {
+  const shutter = parseShutter(settings.shutterSpeed);
+  const aperture = parseAperture(settings.aperture);
+  return {
+    ...exposure,
+    program: 'M',
+    shutter: shutter ? snapToStops(shutter, SHUTTER_STOPS) : exposure.shutter,
+    aperture: aperture ? snapToStops(aperture, APERTURE_STOPS) : exposure.aperture,
+    iso: settings.iso > 0 ? snapToStops(settings.iso, ISO_STOPS) : exposure.iso
+  };
+};
+
+/**
+ * Moves a value `steps` positions along one of the stop scales.
+ */
+export const stepStop = (value: number, stops: number[], steps: number): number => {
+  const index = stops.indexOf(snapToStops(value, stops));
+  return stops[clamp(index + steps, 0, stops.length - 1)];
+};
+
+/**
+ * One ISO stop up or down, with AUTO below the lowest stop.
+ */
+export const stepIso = (iso: number | 'AUTO', direction: 1 | -1): number | 'AUTO' => {
+  if (iso === 'AUTO') return direction > 0 ? ISO_STOPS[0] : 'AUTO';
+  if (direction < 0 && iso === ISO_STOPS[0]) return 'AUTO';
+  return stepStop(iso, ISO_STOPS, direction);
+};
+
+/**
+ * Exposure compensation moved a third of a stop, within the dial's limits.
+ */
+export const stepCompensation = (compensation: number, direction: 1 | -1): number =>
+  clamp(Math.round((compensation + direction / 3) * 3) / 3, -EV_COMPENSATION_LIMIT, EV_COMPENSATION_LIMIT);
@@ -0,0 +1,753 @@
+import { PanoramaDirection } from '../types';
+import { Frame, FrameStats, buildPyramid, estimateTranslation, toLuma } from './frameStacking';
+import { refineTranslation } from './superResolution';
+import { SRGB_DECODE, linearToSrgb } from './pipeline/srgb';
+
+/**
+ * Panorama stitching.
+ * Each frame is projected onto a cylinder around the camera, which turns a
+ * pan into a plain horizontal translation, and registered to the frame
+ * before it by matching Harris corners between the two. Frames are then
+ * composited in order across the panorama: each one's brightness is matched
+ * to its neighbour (auto-exposure drifts during a pan), the join follows the
+ * path through the overlap where the two differ least, and is feathered
+ * across that seam. The result is cropped to a fully covered rectangle.
+ */
+
+export interface PanoramaOptions {
+  direction: PanoramaDirection;
+  focalLength: number; // 35mm-equivalent; sets the cylinder's radius
+  maxFrameSize: number; // Long edge frames are scaled down to before warping
+  feather: number; // Blend width either side of the seam, pixels
+}
+
+export interface Panorama {
+  add: (frame: Frame) => FrameStats;
+  finish: (onProgress?: (progress: number) => void) => Frame; // Progress 0-1
+}
+
+// Guidance while panning, from the live view
+export interface PanGuide {
+  progress: number; // Towards the next capture, 0-1; negative when panning the wrong way
+  offsetX: number; // Where the last capture sits in the live view, fractions of the frame
+  offsetY: number;
+  drift: boolean; // Drifted up or down too far to stitch well
+  frames: number; // Captured so far
+  keyframe: Frame; // Downscaled last capture, for the overlap ghost
+}
+
+export interface PanTracker {
+  capture: (sample: Frame) => void; // A frame was captured; track from here
+  update: (sample: Frame) => PanGuide | null; // Null until the first capture
+}
+
+interface Plane {
+  data: Float32Array;
+  valid: Uint8Array; // 1 where the projected frame has data
+  width: number;
+  height: number;
+}
+
+interface Feature {
+  x: number;
+  y: number;
+  descriptor: Float32Array;
+}
+
+interface WarpedFrame {
+  data: Uint8ClampedArray; // RGBA, alpha 0 outside the projection
+  width: number;
+  height: number;
+  x: number; // Position in the panorama, warped pixels
+  y: number;
+}
+
+export const DEFAULT_PANORAMA_OPTIONS: PanoramaOptions = {
+  direction: 'right',
+  focalLength: 26,
+  maxFrameSize: 1600,
+  feather: 24
+};
+
+export const PANORAMA_FOCAL_LENGTHS = [13, 24, 26, 28, 35, 50]; // mm, 35mm-equivalent
+export const MAX_PANORAMA_FRAMES = 12;
+export const PANORAMA_OVERLAP = 0.35; // Of the frame width, shared between neighbouring captures
+
+const FULL_FRAME_WIDTH = 36; // mm
+const ANALYSIS_SIZE = 640; // Long edge registration runs at
+const COARSE_FACTOR = 4; // Analysis pixels per pixel of the fallback search
+const HARRIS_K = 0.04;
+const HARRIS_WINDOW = 2; // Radius of the structure tensor window
+const CORNER_CELL = 16; // One corner per cell at most
+const MAX_CORNERS = 500;
+const MIN_CORNER_RESPONSE = 0.01; // Of the strongest response in the frame
+const DESCRIPTOR_RADIUS = 8;
+const DESCRIPTOR_STEP = 2;
+const MIN_DESCRIPTOR_SD = 2; // Luma levels; flatter patches don't match reliably
+const MATCH_RATIO = 0.8; // Lowe's ratio test
+const INLIER_TOLERANCE = 2; // Analysis pixels
+const MIN_INLIERS = 8;
+const MAX_DRIFT = 0.15; // Of the frame height, searched either way between frames
+const MIN_OVERLAP = 0.1; // Of the frame width
+const MIN_GAIN = 0.5;
+const MAX_GAIN = 2;
+const GAIN_SAMPLE_STEP = 4;
+const SEAM_EDGE_COST = 1e4; // Keeps the seam a feather's width inside the overlap
+const CROP_INSETS = 25; // Row insets tried when cropping, 1% of the height each
+
+// Live tracking
+const TRACK_MAX_SHIFT = 12; // Sample pixels between updates
+const TRACK_REANCHOR = 4; // Sample pixels moved before tracking restarts from the current sample
+const DRIFT_WARNING = 0.08; // Of the frame height
+
+/**
+ * The cylinder radius, in pixels, for frames of the given size once scaled
+ * down to `maxFrameSize`. A panorama's width divided by this is the angle it
+ * covers, in radians.
+ */
+export const panoramaFocalPixels = (
+  width: number,
+  height: number,
+  options: Pick<PanoramaOptions, 'focalLength' | 'maxFrameSize'>
+): number => Math.min(options.maxFrameSize, Math.max(width, height)) * options.focalLength / FULL_FRAME_WIDTH;
+
+const sampleBilinear = (frame: Frame, x: number, y: number, out: Uint8ClampedArray, o: number) => {
+  const { data, width, height } = frame;
+  const cx = Math.min(width - 1, Math.max(0, x));
+  const cy = Math.min(height - 1, Math.max(0, y));
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(width - 1, x0 + 1);
+  const y1 = Math.min(height - 1, y0 + 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+  const a = (y0 * width + x0) * 4;
+  const b = (y0 * width + x1) * 4;
+  const c = (y1 * width + x0) * 4;
+  const d = (y1 * width + x1) * 4;
+  for (let k = 0; k < 3; k++) {
+    const top = data[a + k] * (1 - fx) + data[b + k] * fx;
+    const bottom = data[c + k] * (1 - fx) + data[d + k] * fx;
+    out[o + k] = top * (1 - fy) + bottom * fy;
+  }
+  out[o + 3] = 255;
+};
+
+/**
+ * Projects a frame onto a cylinder of radius `f` (pixels after scaling by
+ * `scale`). Columns keep their angle from the optical axis, so frames taken
+ * while turning the camera line up by shifting alone.
+ */
+const warpCylindrical = (frame: Frame, scale: number, f: number): Omit<WarpedFrame, 'x' | 'y'> => {
+  const sw = frame.width * scale;
+  const sh = frame.height * scale;
+  const halfAngle = Math.atan(sw / 2 / f);
+  const width = Math.max(1, Math.floor(2 * f * halfAngle));
+  const height = Math.max(1, Math.round(sh));
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let u = 0; u < width; u++) {
+    const theta = (u + 0.5 - width / 2) / f;
+    const xs = f * Math.tan(theta) + sw / 2;
+    if (xs < 0 || xs >= sw) continue;
+    const stretch = 1 / Math.cos(theta);
+    for (let v = 0; v < height; v++) {
+      const ys = (v + 0.5 - height / 2) * stretch + sh / 2;
+      if (ys < 0 || ys >= sh) continue;
+      sampleBilinear(frame, xs / scale - 0.5, ys / scale - 0.5, data, (v * width + u) * 4);
+    }
+  }
+  return { data, width, height };
+};
+
+/**
+ * Luma of a warped frame averaged over `factor`×`factor` blocks. A block is
+ * valid only if all of it was inside the projection.
+ */
+const toPlane = (frame: Omit<WarpedFrame, 'x' | 'y'>, factor: number): Plane => {
+  const width = Math.max(1, Math.floor(frame.width / factor));
+  const height = Math.max(1, Math.floor(frame.height / factor));
+  const data = new Float32Array(width * height);
+  const valid = new Uint8Array(width * height);
+  const norm = 1 / (factor * factor);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let inside = 1;
+      for (let j = 0; j < factor; j++) {
+        let p = ((y * factor + j) * frame.width + x * factor) * 4;
+        for (let i = 0; i < factor; i++, p += 4) {
+          sum += 0.299 * frame.data[p] + 0.587 * frame.data[p + 1] + 0.114 * frame.data[p + 2];
+          if (frame.data[p + 3] === 0) inside = 0;
+        }
+      }
+      data[y * width + x] = sum * norm;
+      valid[y * width + x] = inside;
+    }
+  }
+  return { data, valid, width, height };
+};
+
+const shrinkPlane = (plane: Plane, factor: number): Plane => {
+  const width = Math.max(1, Math.floor(plane.width / factor));
+  const height = Math.max(1, Math.floor(plane.height / factor));
+  const data = new Float32Array(width * height);
+  const valid = new Uint8Array(width * height);
+  const norm = 1 / (factor * factor);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let inside = 1;
+      for (let j = 0; j < factor; j++) {
+        const row = (y * factor + j) * plane.width + x * factor;
+        for (let i = 0; i < factor; i++) {
+          sum += plane.data[row + i];
+          inside &= plane.valid[row + i];
+        }
+      }
+      data[y * width + x] = sum * norm;
+      valid[y * width + x] = inside;
+    }
+  }
+  return { data, valid, width, height };
+};
+
+/**
+ * Harris corners, at most one per grid cell and the strongest first, each
+ * with a normalised patch descriptor. Corners whose patch leaves the
+ * projection are skipped.
+ */
+const detectFeatures = (plane: Plane): Feature[] => {
+  const { data, valid, width, height } = plane;
+  const size = width * height;
+
+  // Structure tensor, box-filtered
+  const ixx = new Float32Array(size);
+  const iyy = new Float32Array(size);
+  const ixy = new Float32Array(size);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = (data[i + 1] - data[i - 1]) * 0.5;
+      const gy = (data[i + width] - data[i - width]) * 0.5;
+      ixx[i] = gx * gx;
+      iyy[i] = gy * gy;
+      ixy[i] = gx * gy;
+    }
+  }
+  const boxFilter = (plane: Float32Array) => {
+    const tmp = new Float32Array(size);
+    for (let y = 0; y < height; y++) {
+      for (let x = HARRIS_WINDOW; x < width - HARRIS_WINDOW; x++) {
+        let sum = 0;
+        for (let k = -HARRIS_WINDOW; k <= HARRIS_WINDOW; k++) sum += plane[y * width + x + k];
+        tmp[y * width + x] = sum;
+      }
+    }
+    for (let y = HARRIS_WINDOW; y < height - HARRIS_WINDOW; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = -HARRIS_WINDOW; k <= HARRIS_WINDOW; k++) sum += tmp[(y + k) * width + x];
+        plane[y * width + x] = sum;
+      }
+    }
+  };
+  boxFilter(ixx);
+  boxFilter(iyy);
+  boxFilter(ixy);
+
+  // Invalid pixels counted over an integral image, so patch checks are O(1)
+  const integral = new Uint32Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += 1 - valid[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+  const r = DESCRIPTOR_RADIUS;
+  const patchInside = (x: number, y: number) => {
+    const x0 = x - r, y0 = y - r, x1 = x + r + 1, y1 = y + r + 1;
+    const w = width + 1;
+    return integral[y1 * w + x1] - integral[y0 * w + x1] - integral[y1 * w + x0] + integral[y0 * w + x0] === 0;
+  };
+
+  const response = (i: number) => {
+    const det = ixx[i] * iyy[i] - ixy[i] * ixy[i];
+    const trace = ixx[i] + iyy[i];
+    return det - HARRIS_K * trace * trace;
+  };
+
+  const candidates: { x: number; y: number; response: number }[] = [];
+  let strongest = 0;
+  for (let cy = r; cy < height - r - 1; cy += CORNER_CELL) {
+    for (let cx = r; cx < width - r - 1; cx += CORNER_CELL) {
+      let best = { x: 0, y: 0, response: 0 };
+      for (let y = cy; y < Math.min(cy + CORNER_CELL, height - r - 1); y++) {
+        for (let x = cx; x < Math.min(cx + CORNER_CELL, width - r - 1); x++) {
+          const value = response(y * width + x);
+          if (value > best.response && patchInside(x, y)) best = { x, y, response: value };
+        }
+      }
+      if (best.response > 0) {
+        candidates.push(best);
+        strongest = Math.max(strongest, best.response);
+      }
+    }
+  }
+
+  const features: Feature[] = [];
+  const samples = Math.floor((2 * r) / DESCRIPTOR_STEP);
+  for (const corner of candidates
+    .filter(c => c.response >= strongest * MIN_CORNER_RESPONSE)
+    .sort((a, b) => b.response - a.response)) {
+    if (features.length >= MAX_CORNERS) break;
+    const descriptor = new Float32Array(samples * samples);
+    let mean = 0;
+    for (let j = 0; j < samples; j++) {
+      for (let i = 0; i < samples; i++) {
+        // Average of a DESCRIPTOR_STEP block, which also blurs away aliasing
+        const px = corner.x - r + i * DESCRIPTOR_STEP;
+        const py = corner.y - r + j * DESCRIPTOR_STEP;
+        let sum = 0;
+        for (let dy = 0; dy < DESCRIPTOR_STEP; dy++) {
+          for (let dx = 0; dx < DESCRIPTOR_STEP; dx++) sum += data[(py + dy) * width + px + dx];
+        }
+        descriptor[j * samples + i] = sum / (DESCRIPTOR_STEP * DESCRIPTOR_STEP);
+        mean += descriptor[j * samples + i];
+      }
+    }
+    mean /= descriptor.length;
+    let variance = 0;
+    for (let k = 0; k < descriptor.length; k++) {
+      descriptor[k] -= mean;
+      variance += descriptor[k] * descriptor[k];
+    }
+    const sd = Math.sqrt(variance / descriptor.length);
+    if (sd < MIN_DESCRIPTOR_SD) continue;
+    for (let k = 0; k < descriptor.length; k++) descriptor[k] /= sd;
+    features.push({ x: corner.x, y: corner.y, descriptor });
+  }
+  return features;
+};
+
+/**
+ * Nearest-neighbour descriptor matches from `next` into `prev` that pass
+ * the ratio test, as the offset each implies for `next` (prev ≈ next + t).
+ */
+const matchFeatures = (prev: Feature[], next: Feature[]): { tx: number; ty: number }[] => {
+  const offsets: { tx: number; ty: number }[] = [];
+  for (const feature of next) {
+    let best = Infinity;
+    let second = Infinity;
+    let match: Feature | null = null;
+    for (const candidate of prev) {
+      let distance = 0;
+      for (let k = 0; k < feature.descriptor.length && distance < second; k++) {
+        const d = feature.descriptor[k] - candidate.descriptor[k];
+        distance += d * d;
+      }
+      if (distance < best) {
+        second = best;
+        best = distance;
+        match = candidate;
+      } else if (distance < second) {
+        second = distance;
+      }
+    }
+    if (match && best < MATCH_RATIO * MATCH_RATIO * second) {
+      offsets.push({ tx: match.x - feature.x, ty: match.y - feature.y });
+    }
+  }
+  return offsets;
+};
+
+/**
+ * The translation most matches agree on (every match is tried as the
+ * hypothesis, RANSAC-style), averaged over the matches that agree with it.
+ */
+const consensusOffset = (offsets: { tx: number; ty: number }[]): { tx: number; ty: number; inliers: number } => {
+  let best = { tx: 0, ty: 0, inliers: 0 };
+  for (const hypothesis of offsets) {
+    let inliers = 0;
+    let sumX = 0;
+    let sumY = 0;
+    for (const offset of offsets) {
+      if (Math.abs(offset.tx - hypothesis.tx) <= INLIER_TOLERANCE && Math.abs(offset.ty - hypothesis.ty) <= INLIER_TOLERANCE) {
+        inliers++;
+        sumX += offset.tx;
+        sumY += offset.ty;
+      }
+    }
+    if (inliers > best.inliers) best = { tx: sumX / inliers, ty: sumY / inliers, inliers };
+  }
+  return best;
+};
+
+/**
+ * Mean absolute luma difference between `prev(x + tx, y + ty)` and
+ * `next(x, y)` where both are valid, or Infinity if they share too little.
+ */
+const overlapError = (prev: Plane, next: Plane, tx: number, ty: number, minShared: number): number => {
+  let sum = 0;
+  let count = 0;
+  const x0 = Math.max(0, -tx);
+  const x1 = Math.min(next.width, prev.width - tx);
+  const y0 = Math.max(0, -ty);
+  const y1 = Math.min(next.height, prev.height - ty);
+  for (let y = y0; y < y1; y++) {
+    const prevRow = (y + ty) * prev.width + tx;
+    const nextRow = y * next.width;
+    for (let x = x0; x < x1; x++) {
+      if (!prev.valid[prevRow + x] || !next.valid[nextRow + x]) continue;
+      sum += Math.abs(prev.data[prevRow + x] - next.data[nextRow + x]);
+      count++;
+    }
+  }
+  return count >= minShared ? sum / count : Infinity;
+};
+
+/**
+ * Fallback registration for scenes with too few corners (sky, walls):
+ * an exhaustive search over every offset in the pan direction on a coarse
+ * copy, refined at the analysis scale.
+ */
+const searchOffset = (prev: Plane, next: Plane, sign: 1 | -1): { tx: number; ty: number; error: number } => {
+  const coarsePrev = shrinkPlane(prev, COARSE_FACTOR);
+  const coarseNext = shrinkPlane(next, COARSE_FACTOR);
+  const { width, height } = coarseNext;
+  const minShared = MIN_OVERLAP * width * height;
+  const drift = Math.ceil(height * MAX_DRIFT);
+
+  let best = { tx: 0, ty: 0, error: Infinity };
+  for (let shift = 0; shift <= width * (1 - MIN_OVERLAP); shift++) {
+    for (let ty = -drift; ty <= drift; ty++) {
+      const error = overlapError(coarsePrev, coarseNext, shift * sign, ty, minShared);
+      if (error < best.error) best = { tx: shift * sign, ty, error };
+    }
+  }
+  if (!Number.isFinite(best.error)) return best;
+
+  const cx = best.tx * COARSE_FACTOR;
+  const cy = best.ty * COARSE_FACTOR;
+  const fineShared = MIN_OVERLAP * next.width * next.height;
+  for (let ty = cy - COARSE_FACTOR; ty <= cy + COARSE_FACTOR; ty++) {
+    for (let tx = cx - COARSE_FACTOR; tx <= cx + COARSE_FACTOR; tx++) {
+      const error = overlapError(prev, next, tx, ty, fineShared);
+      if (error < best.error) best = { tx, ty, error };
+    }
+  }
+  return best;
+};
+
+const meanOf = (plane: Plane): number => {
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < plane.data.length; i++) {
+    if (!plane.valid[i]) continue;
+    sum += plane.data[i];
+    count++;
+  }
+  return count > 0 ? sum / count : 0;
+};
+
+const lumaAt = (data: Uint8ClampedArray, p: number) => 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+
+/**
+ * Linear-light gain for each frame (in panorama order) that matches its
+ * brightness to its left neighbour's over their overlap, normalised so the
+ * panorama as a whole keeps the frames' average brightness.
+ */
+const matchGains = (frames: WarpedFrame[]): number[] => {
+  const gains = [1];
+  for (let n = 1; n < frames.length; n++) {
+    const a = frames[n - 1];
+    const b = frames[n];
+    let sumA = 0;
+    let sumB = 0;
+    const x0 = Math.max(a.x, b.x);
+    const x1 = Math.min(a.x + a.width, b.x + b.width);
+    const y0 = Math.max(a.y, b.y);
+    const y1 = Math.min(a.y + a.height, b.y + b.height);
+    for (let y = y0; y < y1; y += GAIN_SAMPLE_STEP) {
+      for (let x = x0; x < x1; x += GAIN_SAMPLE_STEP) {
+        const pa = ((y - a.y) * a.width + x - a.x) * 4;
+        const pb = ((y - b.y) * b.width + x - b.x) * 4;
+        if (a.data[pa + 3] === 0 || b.data[pb + 3] === 0) continue;
+        sumA += SRGB_DECODE[Math.round(lumaAt(a.data, pa))];
+        sumB += SRGB_DECODE[Math.round(lumaAt(b.data, pb))];
+      }
+    }
+    const ratio = sumA > 0 && sumB > 0 ? sumA / sumB : 1;
+    gains.push(gains[n - 1] * ratio);
+  }
+  const logMean = gains.reduce((sum, gain) => sum + Math.log(gain), 0) / gains.length;
+  return gains.map(gain => Math.min(MAX_GAIN, Math.max(MIN_GAIN, gain / Math.exp(logMean))));
+};
+
+const gainTable = (gain: number): Uint8ClampedArray =>
+  Uint8ClampedArray.from({ length: 256 }, (_, i) => Math.round(linearToSrgb(Math.min(1, SRGB_DECODE[i] * gain)) * 255));
+
+/**
+ * The minimum-cost path from top to bottom through `cost` (row-major,
+ * `width` columns), moving at most one column per row. Returns the column
+ * for each row.
+ */
+const findSeam = (cost: Float32Array, width: number, height: number): Int32Array => {
+  const total = new Float32Array(cost.length);
+  const from = new Int8Array(cost.length);
+  total.set(cost.subarray(0, width));
+  for (let y = 1; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let best = total[(y - 1) * width + x];
+      let step = 0;
+      if (x > 0 && total[(y - 1) * width + x - 1] < best) {
+        best = total[(y - 1) * width + x - 1];
+        step = -1;
+      }
+      if (x < width - 1 && total[(y - 1) * width + x + 1] < best) {
+        best = total[(y - 1) * width + x + 1];
+        step = 1;
+      }
+      total[y * width + x] = cost[y * width + x] + best;
+      from[y * width + x] = step;
+    }
+  }
+
+  const seam = new Int32Array(height);
+  let x = 0;
+  for (let i = 1; i < width; i++) {
+    if (total[(height - 1) * width + i] < total[(height - 1) * width + x]) x = i;
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    seam[y] = x;
+    x += from[y * width + x];
+  }
+  return seam;
+};
+
+/**
+ * The largest rectangle covered throughout, trying progressively deeper
+ * row insets (the cylindrical projection curves the top and bottom edges)
+ * and, for each, the longest run of columns that covers those rows.
+ */
+const coveredRect = (
+  covered: Uint8Array,
+  width: number,
+  height: number,
+  rows: [number, number]
+): { x: number; y: number; width: number; height: number } => {
+  const top = new Int32Array(width).fill(height);
+  const bottom = new Int32Array(width);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      if (covered[y * width + x]) {
+        top[x] = Math.min(top[x], y);
+        bottom[x] = y + 1;
+      }
+    }
+  }
+
+  let best = { x: 0, y: 0, width: 0, height: 0 };
+  const core = rows[1] - rows[0];
+  for (let inset = 0; inset <= CROP_INSETS; inset++) {
+    const y0 = rows[0] + Math.round(core * inset / 100);
+    const y1 = rows[1] - Math.round(core * inset / 100);
+    if (y1 <= y0) break;
+    let start = 0;
+    for (let x = 0; x <= width; x++) {
+      if (x < width && top[x] <= y0 && bottom[x] >= y1) continue;
+      if ((x - start) * (y1 - y0) > best.width * best.height) {
+        best = { x: start, y: y0, width: x - start, height: y1 - y0 };
+      }
+      start = x + 1;
+    }
+  }
+  return best;
+};
+
+/**
+ * Creates a stitcher that panorama frames are fed into in capture order.
+ * Each frame is registered to the last one that registered.
+ */
+export const createPanorama = (options: Partial<PanoramaOptions> = {}): Panorama => {
+  const opts: PanoramaOptions = { ...DEFAULT_PANORAMA_OPTIONS, ...options };
+  const sign = opts.direction === 'right' ? 1 : -1;
+  const frames: WarpedFrame[] = [];
+  let previous: { plane: Plane; features: Feature[]; x: number; y: number } | null = null;
+  let analysisFactor = 1;
+  let count = 0;
+
+  const add = (frame: Frame): FrameStats => {
+    const index = count++;
+    const long = Math.max(frame.width, frame.height);
+    const scale = Math.min(1, opts.maxFrameSize / long);
+    const warped = warpCylindrical(frame, scale, panoramaFocalPixels(frame.width, frame.height, opts));
+    if (!previous) analysisFactor = Math.max(1, Math.round(Math.max(warped.width, warped.height) / ANALYSIS_SIZE));
+    const plane = toPlane(warped, analysisFactor);
+    const features = detectFeatures(plane);
+    const meanLuma = meanOf(plane);
+
+    if (!previous) {
+      previous = { plane, features, x: 0, y: 0 };
+      frames.push({ ...warped, x: 0, y: 0 });
+      return { index, offsetX: 0, offsetY: 0, meanLuma, alignmentError: 0, rejectedRatio: 0 };
+    }
+
+    const offsets = matchFeatures(previous.features, features);
+    const consensus = consensusOffset(offsets);
+    let tx: number;
+    let ty: number;
+    let error: number;
+    const minShared = MIN_OVERLAP * plane.width * plane.height;
+    if (consensus.inliers >= MIN_INLIERS && Math.sign(consensus.tx) === sign) {
+      tx = consensus.tx;
+      ty = consensus.ty;
+      error = overlapError(previous.plane, plane, Math.round(tx), Math.round(ty), minShared);
+    } else {
+      ({ tx, ty, error } = searchOffset(previous.plane, plane, sign));
+    }
+
+    // No usable overlap: leave the frame out and register the next one to the last good frame
+    if (!Number.isFinite(error)) {
+      return { index, offsetX: 0, offsetY: 0, meanLuma, alignmentError: Infinity, rejectedRatio: 1 };
+    }
+
+    const x = previous.x + Math.round(tx * analysisFactor);
+    const y = previous.y + Math.round(ty * analysisFactor);
+    previous = { plane, features, x, y };
+    frames.push({ ...warped, x, y });
+    return {
+      index,
+      offsetX: x,
+      offsetY: y,
+      meanLuma,
+      alignmentError: error,
+      rejectedRatio: offsets.length > 0 ? 1 - consensus.inliers / offsets.length : 0
+    };
+  };
+
+  const finish = (onProgress?: (progress: number) => void): Frame => {
+    if (frames.length < 2) throw new Error("Not enough overlapping frames for a panorama");
+    const ordered = [...frames].sort((a, b) => a.x - b.x);
+    const minX = ordered[0].x;
+    const minY = Math.min(...ordered.map(f => f.y));
+    const width = Math.max(...ordered.map(f => f.x + f.width)) - minX;
+    const height = Math.max(...ordered.map(f => f.y + f.height)) - minY;
+    const out = new Uint8ClampedArray(width * height * 4);
+    const covered = new Uint8Array(width * height);
+    const gains = matchGains(ordered);
+    const feather = opts.feather;
+    let right = 0; // Right edge of what's been composited so far
+
+    ordered.forEach((frame, n) => {
+      const table = gainTable(gains[n]);
+      const fx = frame.x - minX;
+      const fy = frame.y - minY;
+      const overlap = Math.max(0, Math.min(right, fx + frame.width) - fx);
+
+      // Seam through the overlap, down the frame's rows
+      let seam: Int32Array | null = null;
+      if (overlap > 1) {
+        const cost = new Float32Array(overlap * frame.height);
+        for (let y = 0; y < frame.height; y++) {
+          for (let x = 0; x < overlap; x++) {
+            const p = (y * frame.width + x) * 4;
+            const o = (y + fy) * width + fx + x;
+            let c = frame.data[p + 3] && covered[o]
+              ? Math.abs(lumaAt(out, o * 4) - (table[frame.data[p]] * 0.299 + table[frame.data[p + 1]] * 0.587 + table[frame.data[p + 2]] * 0.114))
+              : 0;
+            if (overlap > 2 * feather + 2 && (x < feather || x >= overlap - feather)) c += SEAM_EDGE_COST;
+            cost[y * overlap + x] = c;
+          }
+        }
+        seam = findSeam(cost, overlap, frame.height);
+      }
+
+      for (let y = 0; y < frame.height; y++) {
+        for (let x = 0; x < frame.width; x++) {
+          const p = (y * frame.width + x) * 4;
+          if (frame.data[p + 3] === 0) continue;
+          const o = (y + fy) * width + fx + x;
+          const q = o * 4;
+          // Weight of this frame: 0 left of the seam, rising to 1 across the feather
+          const t = !covered[o] || !seam || x >= overlap
+            ? 1
+            : Math.min(1, Math.max(0, (x - seam[y] + feather) / (2 * feather)));
+          if (t === 0) continue;
+          out[q] = out[q] * (1 - t) + table[frame.data[p]] * t;
+          out[q + 1] = out[q + 1] * (1 - t) + table[frame.data[p + 1]] * t;
+          out[q + 2] = out[q + 2] * (1 - t) + table[frame.data[p + 2]] * t;
+          out[q + 3] = 255;
+          covered[o] = 1;
+        }
+      }
+
+      right = Math.max(right, fx + frame.width);
+      onProgress?.((n + 1) / ordered.length);
+    });
+
+    const rows: [number, number] = [
+      Math.max(...ordered.map(f => f.y - minY)),
+      Math.min(...ordered.map(f => f.y - minY + f.height))
+    ];
+    const rect = coveredRect(covered, width, height, rows);
+    if (rect.width === 0 || rect.height === 0) throw new Error("Panorama frames don't overlap");
+    const cropped = new Uint8ClampedArray(rect.width * rect.height * 4);
+    for (let y = 0; y < rect.height; y++) {
+      const start = ((rect.y + y) * width + rect.x) * 4;
+      cropped.set(out.subarray(start, start + rect.width * 4), y * rect.width * 4);
+    }
+    return { data: cropped, width: rect.width, height: rect.height };
+  };
+
+  return { add, finish };
+};
+
+/**
+ * Follows the pan in the live view from small, frequent samples: the shift
+ * since the last capture accumulates from short hops, re-anchored every few
+ * pixels so the search stays small however far the pan goes. Guides the user towards the next
+ * capture point, PANORAMA_OVERLAP short of a full frame away.
+ */
+export const createPanTracker = (direction: PanoramaDirection, overlap = PANORAMA_OVERLAP): PanTracker => {
+  const sign = direction === 'right' ? 1 : -1;
+  let keyframe: Frame | null = null;
+  let anchor: ReturnType<typeof buildPyramid> | null = null;
+  let sumX = 0; // Sample pixels, anchor relative to the keyframe
+  let sumY = 0;
+  let frames = 0;
+
+  return {
+    capture: (sample) => {
+      keyframe = { data: new Uint8ClampedArray(sample.data), width: sample.width, height: sample.height };
+      anchor = buildPyramid(toLuma(sample));
+      sumX = 0;
+      sumY = 0;
+      frames++;
+    },
+    update: (sample) => {
+      if (!keyframe || !anchor) return null;
+      const pyramid = buildPyramid(toLuma(sample));
+      // anchor(x) ≈ sample(x + dx): content moves by dx, the camera the other way.
+      // Sub-pixel, or rounding at every re-anchor would add up over the pan.
+      const coarse = estimateTranslation(anchor, pyramid, TRACK_MAX_SHIFT);
+      const { dx, dy } = refineTranslation(anchor[0], pyramid[0], coarse.dx, coarse.dy);
+      const offsetX = sumX + dx;
+      const offsetY = sumY + dy;
+      if (Math.max(Math.abs(dx), Math.abs(dy)) >= TRACK_REANCHOR) {
+        anchor = pyramid;
+        sumX = offsetX;
+        sumY = offsetY;
+      }
+      return {
+        progress: (-sign * offsetX / keyframe.width) / (1 - overlap),
+        offsetX: offsetX / keyframe.width,
+        offsetY: offsetY / keyframe.height,
+        drift: Math.abs(offsetY / keyframe.height) > DRIFT_WARNING,
+        frames,
+        keyframe
+      };
+    }
+  };
+};
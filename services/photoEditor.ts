@@ -0,0 +1,192 @@
+import { CropAspect, CropRect, EditStep, PhotoAdjustments } from '../types';
+import { PipelineProgress, PipelineStep } from './pipeline/pipelineClient';
+import { captureProcessed } from './imageProcessing';
+
+export type CropHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+export const DEFAULT_ADJUSTMENTS: PhotoAdjustments = {
+  crop: null,
+  aspect: 'free',
+  rotation: 0,
+  straighten: 0,
+  exposure: 0,
+  contrast: 0,
+  highlights: 0,
+  shadows: 0,
+  temperature: 0,
+  tint: 0,
+  vibrance: 0,
+  vignette: 0,
+  sharpen: 0
+};
+
+export const CROP_ASPECTS: { aspect: CropAspect; label: string }[] = [
+  { aspect: 'free', label: 'Free' },
+  { aspect: 'original', label: 'Orig' },
+  { aspect: '1:1', label: '1:1' },
+  { aspect: '4:5', label: '4:5' },
+  { aspect: '4:3', label: '4:3' },
+  { aspect: '3:2', label: '3:2' },
+  { aspect: '16:9', label: '16:9' }
+];
+
+// Smallest crop side, as a fraction of the image
+const MIN_CROP = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Folds an edit stack into the adjustments it describes.
+ */
+export const applyEditSteps = (steps: EditStep[]): PhotoAdjustments =>
+  steps.reduce<PhotoAdjustments>((adjustments, step) => ({ ...adjustments, [step.tool]: step.value }), DEFAULT_ADJUSTMENTS);
+
+/**
+ * Appends a change to the stack. Consecutive changes to the same tool (a
+ * slider drag, say) collapse into one step so undo moves a whole gesture back.
+ */
+export const pushEditStep = (steps: EditStep[], step: EditStep): EditStep[] =>
+  steps[steps.length - 1]?.tool === step.tool ? [...steps.slice(0, -1), step] : [...steps, step];
+
+/**
+ * Pipeline stages for a set of adjustments, in the order a raw developer
+ * would run them: geometry, tone and colour, vignette, output sharpening.
+ * `includeCrop` is off while the crop tool shows the whole frame.
+ */
+export const buildEditSteps = (adjustments: PhotoAdjustments, includeCrop = true): PipelineStep[] => {
+  const steps: PipelineStep[] = [];
+  const crop = includeCrop ? adjustments.crop : null;
+
+  if (adjustments.rotation % 360 !== 0 || adjustments.straighten !== 0 || crop) {
+    steps.push({ stage: 'transform', rotation: adjustments.rotation, straighten: adjustments.straighten, crop });
+  }
+
+  const { exposure, contrast, highlights, shadows, temperature, tint, vibrance } = adjustments;
+  if ([exposure, contrast, highlights, shadows, temperature, tint, vibrance].some(value => value !== 0)) {
+    steps.push({
+      stage: 'tone',
+      settings: {
+        exposure,
+        contrast: contrast / 100,
+        highlights: highlights / 100,
+        shadows: shadows / 100,
+        temperature: temperature / 100,
+        tint: tint / 100,
+        vibrance: vibrance / 100
+      }
+    });
+  }
+
+  if (adjustments.vignette !== 0) steps.push({ stage: 'vignette', amount: adjustments.vignette / 100 });
+  if (adjustments.sharpen > 0) steps.push({ stage: 'sharpen', amount: adjustments.sharpen / 100 });
+  return steps;
+};
+
+/**
+ * Image size after the quarter-turn rotation, which the crop is relative to.
+ */
+export const rotatedSize = (width: number, height: number, rotation: number): [number, number] =>
+  rotation % 180 === 0 ? [width, height] : [height, width];
+
+/**
+ * Width / height ratio for a preset, or null when the crop is unconstrained.
+ * Ratio presets follow the image's orientation (4:3 on a portrait image is 3:4).
+ */
+export const getAspectRatio = (aspect: CropAspect, width: number, height: number): number | null => {
+  if (aspect === 'free') return null;
+  if (aspect === 'original') return width / height;
+  const [a, b] = aspect.split(':').map(Number);
+  const ratio = a / b;
+  return (width >= height) === (ratio >= 1) ? ratio : 1 / ratio;
+};
+
+/**
+ * Largest centred crop with the given ratio.
+ */
+export const aspectCrop = (ratio: number, width: number, height: number): CropRect => {
+  let cropWidth = 1;
+  let cropHeight = width / (ratio * height);
+  if (cropHeight > 1) {
+    cropHeight = 1;
+    cropWidth = ratio * height / width;
+  }
+  return { x: (1 - cropWidth) / 2, y: (1 - cropHeight) / 2, width: cropWidth, height: cropHeight };
+};
+
+/**
+ * Moves the crop, or drags one of its corners with the opposite corner
+ * pinned, keeping it inside the image and at `ratio` when one is set.
+ * `dx` and `dy` are pointer movement in fractions of the image.
+ */
+export const dragCrop = (
+  start: CropRect,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+  ratio: number | null,
+  width: number,
+  height: number
+): CropRect => {
+  if (handle === 'move') {
+    return {
+      ...start,
+      x: clamp(start.x + dx, 0, 1 - start.width),
+      y: clamp(start.y + dy, 0, 1 - start.height)
+    };
+  }
+
+  const west = handle === 'nw' || handle === 'sw';
+  const north = handle === 'nw' || handle === 'ne';
+  const anchorX = west ? start.x + start.width : start.x;
+  const anchorY = north ? start.y + start.height : start.y;
+  const maxWidth = west ? anchorX : 1 - anchorX;
+  const maxHeight = north ? anchorY : 1 - anchorY;
+
+  let cropWidth = clamp((west ? -1 : 1) * dx + start.width, MIN_CROP, maxWidth);
+  let cropHeight = clamp((north ? -1 : 1) * dy + start.height, MIN_CROP, maxHeight);
+  if (ratio) {
+    cropHeight = cropWidth * width / (ratio * height);
+    if (cropHeight > maxHeight) {
+      cropHeight = maxHeight;
+      cropWidth = cropHeight * ratio * height / width;
+    }
+  }
+
+  return {
+    x: west ? anchorX - cropWidth : anchorX,
+    y: north ? anchorY - cropHeight : anchorY,
+    width: cropWidth,
+    height: cropHeight
+  };
+};
+
+/**
+ * Decodes an image into pixels, downscaled so the long edge is at most `maxSize`.
+ */
+export const decodeImage = async (blob: Blob, maxSize = Infinity): Promise<ImageData> => {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("No canvas context");
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Renders the original with its edits through the processing pipeline and
+ * leaves the result on `canvas`. `maxSize` renders a smaller preview.
+ */
+export const renderEdits = async (
+  original: Blob,
+  adjustments: PhotoAdjustments,
+  canvas: HTMLCanvasElement,
+  maxSize = Infinity,
+  onProgress?: (progress: PipelineProgress) => void
+): Promise<void> => {
+  const frame = await decodeImage(original, maxSize);
+  await captureProcessed(frame, canvas, buildEditSteps(adjustments), onProgress);
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { Frame } from '../frameStacking';
+import { applyTransform } from './adjustments';
+
+// Each pixel's red channel holds its index, so positions can be traced
+const indexedFrame = (width: number, height: number): Frame => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) data.set([i * 10, 0, 0, 255], i * 4);
+  return { data, width, height };
+};
+
+const reds = (frame: Frame) => Array.from(frame.data.filter((_, i) => i % 4 === 0));
+
+describe('applyTransform', () => {
+  it('returns the frame as is with nothing to do', () => {
+    const frame = indexedFrame(3, 2);
+    expect(reds(applyTransform(frame, 0, 0, null))).toEqual([0, 10, 20, 30, 40, 50]);
+  });
+
+  it('rotates by quarter turns clockwise', () => {
+    const out = applyTransform(indexedFrame(3, 2), 90, 0, null);
+    expect([out.width, out.height]).toEqual([2, 3]);
+    // 0 1 2        3 0
+    // 3 4 5   ->   4 1
+    //              5 2
+    expect(reds(out)).toEqual([30, 0, 40, 10, 50, 20]);
+  });
+
+  it('rotates half a turn', () => {
+    expect(reds(applyTransform(indexedFrame(3, 2), 180, 0, null))).toEqual([50, 40, 30, 20, 10, 0]);
+  });
+
+  it('crops in fractions of the rotated frame', () => {
+    const out = applyTransform(indexedFrame(4, 4), 0, 0, { x: 0.5, y: 0.25, width: 0.5, height: 0.5 });
+    expect([out.width, out.height]).toEqual([2, 2]);
+    expect(reds(out)).toEqual([60, 70, 100, 110]);
+  });
+
+  it('scales up to cover the frame when straightening', () => {
+    const frame: Frame = { data: new Uint8ClampedArray(8 * 8 * 4).fill(200), width: 8, height: 8 };
+    const out = applyTransform(frame, 0, 10, null);
+    expect([out.width, out.height]).toEqual([8, 8]);
+    // No empty corners: every pixel still comes from the flat source
+    expect(out.data.every(v => v === 200)).toBe(true);
+  });
+});
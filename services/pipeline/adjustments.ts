@@ -0,0 +1,208 @@
+import { CropRect } from '../../types';
+import { Frame } from '../frameStacking';
+import { SRGB_DECODE, linearToSrgb } from './srgb';
+
+/**
+ * Editor stages: geometry, tone/colour and vignette. Like the rest of the
+ * pipeline these are pure functions over RGBA frames.
+ */
+
+export interface ToneSettings {
+  exposure: number; // EV
+  contrast: number; // -1..1
+  highlights: number; // -1..1
+  shadows: number; // -1..1
+  temperature: number; // -1..1, positive is warmer
+  tint: number; // -1..1, positive is more magenta
+  vibrance: number; // -1..1
+}
+
+const TONE_CURVE_SIZE = 1024;
+
+/**
+ * Scale needed for a frame rotated by `degrees` to still cover its own
+ * width x height, so straightening never shows empty corners.
+ */
+export const straightenScale = (width: number, height: number, degrees: number): number => {
+  const theta = Math.abs(degrees) * Math.PI / 180;
+  return Math.cos(theta) + Math.max(width / height, height / width) * Math.sin(theta);
+};
+
+const rotateQuarter = (frame: Frame, quarterTurns: number): Frame => {
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  if (turns === 0) return frame;
+  const { data: src, width, height } = frame;
+  const swap = turns % 2 === 1;
+  const outWidth = swap ? height : width;
+  const outHeight = swap ? width : height;
+  const dst = new Uint8ClampedArray(src.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let dx: number, dy: number;
+      if (turns === 1) { dx = height - 1 - y; dy = x; }
+      else if (turns === 2) { dx = width - 1 - x; dy = height - 1 - y; }
+      else { dx = y; dy = width - 1 - x; }
+      const s = (y * width + x) * 4;
+      const d = (dy * outWidth + dx) * 4;
+      dst[d] = src[s];
+      dst[d + 1] = src[s + 1];
+      dst[d + 2] = src[s + 2];
+      dst[d + 3] = src[s + 3];
+    }
+  }
+  return { data: dst, width: outWidth, height: outHeight };
+};
+
+/**
+ * Rotation by quarter turns, then straightening (bilinear, scaled to fill)
+ * and cropping in a single resampling pass. `crop` is in fractions of the
+ * rotated frame.
+ */
+export const applyTransform = (
+  frame: Frame,
+  rotation: number,
+  straighten: number,
+  crop: CropRect | null
+): Frame => {
+  const rotated = rotateQuarter(frame, Math.round(rotation / 90));
+  const { data: src, width, height } = rotated;
+  const rect = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const left = Math.round(rect.x * width);
+  const top = Math.round(rect.y * height);
+  const outWidth = Math.max(1, Math.min(width - left, Math.round(rect.width * width)));
+  const outHeight = Math.max(1, Math.min(height - top, Math.round(rect.height * height)));
+
+  if (Math.abs(straighten) < 1e-3 && !crop) return rotated;
+
+  const dst = new Uint8ClampedArray(outWidth * outHeight * 4);
+  const theta = straighten * Math.PI / 180;
+  const scale = straightenScale(width, height, straighten);
+  const cos = Math.cos(theta) / scale;
+  const sin = Math.sin(theta) / scale;
+  const cx = width / 2;
+  const cy = height / 2;
+
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      // Output pixel centre, relative to the frame centre, rotated back into the source
+      const qx = left + x + 0.5 - cx;
+      const qy = top + y + 0.5 - cy;
+      const sx = Math.min(width - 1, Math.max(0, cx + qx * cos + qy * sin - 0.5));
+      const sy = Math.min(height - 1, Math.max(0, cy - qx * sin + qy * cos - 0.5));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(width - 1, x0 + 1);
+      const y1 = Math.min(height - 1, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const i00 = (y0 * width + x0) * 4;
+      const i10 = (y0 * width + x1) * 4;
+      const i01 = (y1 * width + x0) * 4;
+      const i11 = (y1 * width + x1) * 4;
+      const d = (y * outWidth + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const upper = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * fx;
+        const lower = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * fx;
+        dst[d + c] = upper + (lower - upper) * fy;
+      }
+    }
+  }
+  return { data: dst, width: outWidth, height: outHeight };
+};
+
+/**
+ * Luma tone curve: contrast as a blend towards smoothstep, plus shadow and
+ * highlight lifts shaped so the curve stays monotonic over the -1..1 range.
+ */
+const buildToneCurve = (contrast: number, highlights: number, shadows: number): Float32Array => {
+  const curve = new Float32Array(TONE_CURVE_SIZE);
+  for (let i = 0; i < TONE_CURVE_SIZE; i++) {
+    const l = i / (TONE_CURVE_SIZE - 1);
+    let v = l + shadows * l * (1 - l) ** 2 + highlights * l * l * (1 - l);
+    v = Math.min(1, Math.max(0, v));
+    v += contrast * (v * v * (3 - 2 * v) - v);
+    curve[i] = v;
+  }
+  return curve;
+};
+
+/**
+ * Exposure and white balance in linear light, then the tone curve on luma
+ * (colour ratios preserved) and vibrance, which boosts muted colours more
+ * than already saturated ones.
+ */
+export const applyTone = (frame: Frame, settings: ToneSettings): Frame => {
+  const gain = 2 ** settings.exposure;
+  const channelGains = [
+    gain * (1 + 0.25 * settings.temperature) * (1 + 0.1 * settings.tint),
+    gain * (1 - 0.2 * settings.tint),
+    gain * (1 - 0.25 * settings.temperature) * (1 + 0.1 * settings.tint)
+  ];
+  const tables = channelGains.map(channelGain => {
+    const table = new Float32Array(256);
+    for (let i = 0; i < 256; i++) {
+      table[i] = linearToSrgb(Math.min(1, SRGB_DECODE[i] * channelGain));
+    }
+    return table;
+  });
+  const curve = buildToneCurve(settings.contrast, settings.highlights, settings.shadows);
+  const vibrance = settings.vibrance;
+  const data = new Uint8ClampedArray(frame.data);
+
+  for (let p = 0; p < data.length; p += 4) {
+    let r = tables[0][data[p]];
+    let g = tables[1][data[p + 1]];
+    let b = tables[2][data[p + 2]];
+
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    const mapped = curve[Math.round(luma * (TONE_CURVE_SIZE - 1))];
+    if (luma > 1e-4) {
+      const ratio = mapped / luma;
+      r *= ratio;
+      g *= ratio;
+      b *= ratio;
+    } else {
+      r = g = b = mapped;
+    }
+
+    if (vibrance !== 0) {
+      const max = Math.max(r, g, b);
+      const saturation = max > 0 ? (max - Math.min(r, g, b)) / max : 0;
+      const amount = 1 + vibrance * (1 - saturation);
+      r = mapped + (r - mapped) * amount;
+      g = mapped + (g - mapped) * amount;
+      b = mapped + (b - mapped) * amount;
+    }
+
+    data[p] = r * 255;
+    data[p + 1] = g * 255;
+    data[p + 2] = b * 255;
+  }
+  return { data, width: frame.width, height: frame.height };
+};
+
+/**
+ * Radial vignette relative to the (cropped) frame: negative amounts darken
+ * the corners, positive amounts lighten them.
+ */
+export const applyVignette = (frame: Frame, amount: number): Frame => {
+  const { width, height } = frame;
+  const data = new Uint8ClampedArray(frame.data);
+  const cx = width / 2;
+  const cy = height / 2;
+  const maxDistance = Math.hypot(cx, cy);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const r = Math.hypot(x + 0.5 - cx, y + 0.5 - cy) / maxDistance;
+      const t = Math.min(1, Math.max(0, (r - 0.35) / 0.65));
+      const factor = 1 + amount * t * t * (3 - 2 * t);
+      const p = (y * width + x) * 4;
+      data[p] *= factor;
+      data[p + 1] *= factor;
+      data[p + 2] *= factor;
+    }
+  }
+  return { data, width, height };
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Frame } from '../frameStacking';
+import { PipelineResponse, createPipelineExecutor } from './executor';
+
+const solidFrame = (value: number, width = 8, height = 8): Frame => {
+  const data = new Uint8ClampedArray(width * height * 4).fill(value);
+  for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  return { data, width, height };
+};
+
+const setup = () => {
+  const posted: PipelineResponse[] = [];
+  const handle = createPipelineExecutor(message => posted.push(message));
+  return { posted, handle };
+};
+
+describe('createPipelineExecutor', () => {
+  it('stacks the frames of a job and posts the result', () => {
+    const { posted, handle } = setup();
+    handle({ type: 'begin', jobId: 1, stack: { method: 'mean', align: false }, expectedFrames: 2 });
+    handle({ type: 'frame', jobId: 1, frame: solidFrame(100) });
+    handle({ type: 'frame', jobId: 1, frame: solidFrame(200) });
+    handle({ type: 'finish', jobId: 1, steps: [] });
+
+    expect(posted.filter(m => m.type === 'progress').map(m => m.type === 'progress' && m.progress)).toEqual([0.5, 1]);
+    const result = posted.at(-1);
+    expect(result?.type).toBe('result');
+    if (result?.type !== 'result') return;
+    expect(result.width).toBe(8);
+    expect(result.height).toBe(8);
+    expect(result.frames).toHaveLength(2);
+    expect(Array.from(result.data.slice(0, 4))).toEqual([150, 150, 150, 255]);
+  });
+
+  it('returns a single frame through the requested steps', () => {
+    const { posted, handle } = setup();
+    handle({ type: 'begin', jobId: 2, expectedFrames: 1 });
+    handle({ type: 'frame', jobId: 2, frame: solidFrame(100) });
+    handle({ type: 'finish', jobId: 2, steps: [{ stage: 'balance', gain: 2, wb: [1, 1, 1] }] });
+
+    const result = posted.at(-1);
+    expect(result?.type).toBe('result');
+    if (result?.type !== 'result') return;
+    expect(result.data[0]).toBeGreaterThan(100);
+  });
+
+  it('drops a cancelled job and ignores its late frames', () => {
+    const { posted, handle } = setup();
+    handle({ type: 'begin', jobId: 3, stack: { method: 'mean', align: false }, expectedFrames: 2 });
+    handle({ type: 'frame', jobId: 3, frame: solidFrame(100) });
+    handle({ type: 'cancel', jobId: 3 });
+    const before = posted.length;
+    handle({ type: 'frame', jobId: 3, frame: solidFrame(100) });
+    handle({ type: 'finish', jobId: 3, steps: [] });
+
+    expect(posted).toHaveLength(before);
+  });
+
+  it('reports an error when a job finishes without frames', () => {
+    const { posted, handle } = setup();
+    handle({ type: 'begin', jobId: 4, expectedFrames: 1 });
+    handle({ type: 'finish', jobId: 4, steps: [] });
+
+    expect(posted).toEqual([{ type: 'error', jobId: 4, message: "No frames received" }]);
+  });
+
+  it('keeps concurrent jobs apart', () => {
+    const { posted, handle } = setup();
+    handle({ type: 'begin', jobId: 5, expectedFrames: 1 });
+    handle({ type: 'begin', jobId: 6, expectedFrames: 1 });
+    handle({ type: 'frame', jobId: 5, frame: solidFrame(10) });
+    handle({ type: 'frame', jobId: 6, frame: solidFrame(20) });
+    handle({ type: 'finish', jobId: 6, steps: [] });
+    handle({ type: 'finish', jobId: 5, steps: [] });
+
+    const results = posted.filter(m => m.type === 'result');
+    expect(results.map(m => m.jobId)).toEqual([6, 5]);
+    expect(results.map(m => m.type === 'result' && m.data[0])).toEqual([20, 10]);
+  });
+});
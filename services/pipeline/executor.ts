@@ -0,0 +1,181 @@
+import { Frame, FrameStack, FrameStats, StackOptions, createFrameStack, toRgba8 } from '../frameStacking';
+import { ExposureFusion, FusionOptions, createExposureFusion } from '../exposureFusion';
+import { SuperResolution, SuperResolutionOptions, createSuperResolution } from '../superResolution';
+import { LongExposure, LongExposureOptions, createLongExposure } from '../longExposure';
+import { Panorama, PanoramaOptions, createPanorama } from '../panorama';
+import { PipelineStep, STEP_LABELS, runStep } from './stages';
+
+/**
+ * Message protocol between the pipeline client and its executor.
+ * A job is opened with `begin`, fed frames one at a time (so stacking can
+ * start while capture is still running) and closed with `finish`.
+ * A job either stacks (`stack`), fuses exposure brackets (`fuse`), merges a
+ * burst at a higher resolution (`superRes`), accumulates a long exposure
+ * (`longExposure`, which can be previewed while it runs), stitches a
+ * panorama (`panorama`) or, with none of these, processes the single frame
+ * it receives.
+ */
+
+export type PipelineRequest =
+  | {
+      type: 'begin';
+      jobId: number;
+      stack?: Partial<StackOptions>;
+      fuse?: Partial<FusionOptions>;
+      superRes?: Partial<SuperResolutionOptions>;
+      longExposure?: Partial<LongExposureOptions>;
+      panorama?: Partial<PanoramaOptions>;
+      expectedFrames: number;
+    }
+  | { type: 'frame'; jobId: number; frame: Frame | ImageBitmap }
+  | { type: 'preview'; jobId: number; maxSize: number }
+  | { type: 'finish'; jobId: number; steps: PipelineStep[] }
+  | { type: 'cancel'; jobId: number };
+
+export type PipelineResponse =
+  | { type: 'progress'; jobId: number; label: string; progress: number }
+  | { type: 'result'; jobId: number; data: Uint8ClampedArray; width: number; height: number; frames: FrameStats[] }
+  | { type: 'preview'; jobId: number; data: Uint8ClampedArray; width: number; height: number }
+  | { type: 'error'; jobId: number; message: string };
+
+type Post = (message: PipelineResponse, transfer?: Transferable[]) => void;
+
+interface Job {
+  stack: FrameStack | null;
+  fusion: ExposureFusion | null;
+  superRes: SuperResolution | null;
+  longExposure: LongExposure | null;
+  panorama: Panorama | null;
+  single: Frame | null; // Used when no multi-frame merge was asked for
+  frames: FrameStats[];
+  received: number;
+  expectedFrames: number;
+}
+
+const bitmapToFrame = (bitmap: ImageBitmap): Frame => {
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("No OffscreenCanvas context");
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const toFrame = (source: Frame | ImageBitmap): Frame =>
+  'data' in source ? source : bitmapToFrame(source);
+
+/**
+ * Creates a message handler that runs pipeline jobs and reports through `post`.
+ * Used as the body of the worker and, when workers are unavailable, in-process.
+ */
+export const createPipelineExecutor = (post: Post) => {
+  const jobs = new Map<number, Job>();
+
+  const fail = (jobId: number, err: unknown) => {
+    jobs.delete(jobId);
+    post({ type: 'error', jobId, message: err instanceof Error ? err.message : String(err) });
+  };
+
+  return (message: PipelineRequest) => {
+    const { jobId } = message;
+    try {
+      switch (message.type) {
+        case 'begin': {
+          jobs.set(jobId, {
+            stack: message.stack ? createFrameStack(message.stack) : null,
+            fusion: message.fuse ? createExposureFusion(message.fuse) : null,
+            superRes: message.superRes ? createSuperResolution(message.superRes) : null,
+            longExposure: message.longExposure ? createLongExposure(message.longExposure) : null,
+            panorama: message.panorama ? createPanorama(message.panorama) : null,
+            single: null,
+            frames: [],
+            received: 0,
+            expectedFrames: Math.max(1, message.expectedFrames)
+          });
+          break;
+        }
+        case 'frame': {
+          const job = jobs.get(jobId);
+          if (!job) {
+            if ('close' in message.frame) message.frame.close();
+            return;
+          }
+          const frame = toFrame(message.frame);
+          if (job.stack) {
+            job.frames.push(job.stack.add(frame));
+          } else if (job.fusion) {
+            job.frames.push(job.fusion.add(frame));
+          } else if (job.superRes) {
+            job.frames.push(job.superRes.add(frame));
+          } else if (job.longExposure) {
+            job.frames.push(job.longExposure.add(frame));
+          } else if (job.panorama) {
+            job.frames.push(job.panorama.add(frame));
+          } else {
+            job.single = frame;
+          }
+          job.received++;
+          post({
+            type: 'progress',
+            jobId,
+            label: job.fusion ? 'Fusing'
+              : job.superRes ? 'Registering'
+              : job.longExposure ? 'Exposing'
+              : job.panorama ? 'Matching'
+              : 'Stacking',
+            progress: job.received / job.expectedFrames
+          });
+          break;
+        }
+        case 'preview': {
+          const job = jobs.get(jobId);
+          if (!job?.longExposure || job.received === 0) return;
+          const preview = job.longExposure.preview(message.maxSize);
+          post({ type: 'preview', jobId, data: preview.data, width: preview.width, height: preview.height }, [preview.data.buffer]);
+          break;
+        }
+        case 'finish': {
+          const job = jobs.get(jobId);
+          if (!job) return;
+          jobs.delete(jobId);
+
+          let frame: Frame;
+          if (job.stack) {
+            const result = job.stack.finish();
+            frame = { data: toRgba8(result), width: result.width, height: result.height };
+          } else if (job.fusion) {
+            frame = job.fusion.finish();
+          } else if (job.superRes) {
+            frame = job.superRes.finish(progress => post({ type: 'progress', jobId, label: 'Super Resolution', progress }));
+          } else if (job.longExposure) {
+            post({ type: 'progress', jobId, label: 'Tone Mapping', progress: 0 });
+            frame = job.longExposure.finish();
+          } else if (job.panorama) {
+            frame = job.panorama.finish(progress => post({ type: 'progress', jobId, label: 'Stitching', progress }));
+          } else if (job.single) {
+            frame = job.single;
+          } else {
+            throw new Error("No frames received");
+          }
+
+          message.steps.forEach((step, i) => {
+            post({ type: 'progress', jobId, label: STEP_LABELS[step.stage], progress: i / message.steps.length });
+            frame = runStep(frame, step);
+          });
+
+          post(
+            { type: 'result', jobId, data: frame.data, width: frame.width, height: frame.height, frames: job.frames },
+            [frame.data.buffer]
+          );
+          break;
+        }
+        case 'cancel': {
+          jobs.delete(jobId);
+          break;
+        }
+      }
+    } catch (err) {
+      fail(jobId, err);
+    }
+  };
+};
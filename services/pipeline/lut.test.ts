@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { Frame } from '../frameStacking';
+import { applyLut, buildLut } from './lut';
+
+const pixel = (r: number, g: number, b: number): Frame => ({
+  data: Uint8ClampedArray.from([r, g, b, 255]),
+  width: 1,
+  height: 1
+});
+
+// Red becomes red x green: bilinear over the cube, so the two interpolations disagree inside it
+const productLut = buildLut('Product', 2, (r, g, b) => [r * g, g, b]);
+
+describe('applyLut', () => {
+  it('reproduces the lattice points with either interpolation', () => {
+    for (const interpolation of ['trilinear', 'tetrahedral'] as const) {
+      expect(Array.from(applyLut(pixel(255, 255, 0), productLut, interpolation).data)).toEqual([255, 255, 0, 255]);
+      expect(Array.from(applyLut(pixel(255, 0, 255), productLut, interpolation).data)).toEqual([0, 0, 255, 255]);
+    }
+  });
+
+  it('is exact for an identity LUT', () => {
+    const identity = buildLut('Identity', 17, (r, g, b) => [r, g, b]);
+    const frame = pixel(12, 130, 250);
+    for (const interpolation of ['trilinear', 'tetrahedral'] as const) {
+      const [r, g, b] = applyLut(frame, identity, interpolation).data;
+      expect([r, g, b]).toEqual([12, 130, 250]);
+    }
+  });
+
+  it('interpolates trilinearly or along a tetrahedron inside the cube', () => {
+    const frame = pixel(128, 128, 0);
+    // Trilinear follows the product, 0.5 x 0.5; tetrahedral runs along the
+    // diagonal from black to yellow, where red x green is linear
+    expect(applyLut(frame, productLut, 'trilinear').data[0]).toBe(64);
+    expect(applyLut(frame, productLut, 'tetrahedral').data[0]).toBe(128);
+  });
+
+  it('leaves its input untouched', () => {
+    const frame = pixel(128, 128, 0);
+    applyLut(frame, productLut, 'tetrahedral');
+    expect(Array.from(frame.data)).toEqual([128, 128, 0, 255]);
+  });
+});
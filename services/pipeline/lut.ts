@@ -0,0 +1,197 @@
+import { LutInterpolation } from '../../types';
+import { Frame } from '../frameStacking';
+
+/**
+ * 3D LUT support: `.cube` parsing, LUT generation from a colour transform,
+ * and trilinear / tetrahedral application to RGBA buffers.
+ */
+
+export interface Lut3D {
+  title: string;
+  size: number; // Lattice points per axis
+  data: Float32Array; // RGB triplets, red varying fastest (Adobe/Resolve .cube order)
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+}
+
+export type ColorTransform = (r: number, g: number, b: number) => [number, number, number];
+
+// The largest common grading size. The lattice is stored in IndexedDB and
+// sent to the worker with every capture, and a 256-point cube is ~200 MB
+export const MAX_LUT_SIZE = 65;
+
+/**
+ * Parses an Adobe / Resolve `.cube` file. Only 3D LUTs are supported.
+ */
+export const parseCubeLut = (text: string, fallbackTitle = 'Custom LUT'): Lut3D => {
+  let title = fallbackTitle;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  let values: Float32Array | null = null;
+  let count = 0;
+
+  const parseTriplet = (parts: string[], line: number): [number, number, number] => {
+    const triplet = parts.slice(0, 3).map(Number);
+    if (triplet.length !== 3 || triplet.some(v => !Number.isFinite(v))) {
+      throw new Error(`Invalid values on line ${line}`);
+    }
+    return triplet as [number, number, number];
+  };
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toUpperCase();
+
+    if (keyword === 'TITLE') {
+      title = line.slice(5).trim().replace(/^"|"$/g, '') || title;
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size = Number(parts[1]);
+      if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+        throw new Error(`Unsupported LUT size ${parts[1]} (at most ${MAX_LUT_SIZE})`);
+      }
+      values = new Float32Array(size * size * size * 3);
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error("1D LUTs are not supported");
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseTriplet(parts.slice(1), index + 1);
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseTriplet(parts.slice(1), index + 1);
+    } else if (/^[-+.\d]/.test(keyword)) {
+      if (!values) throw new Error("LUT data before LUT_3D_SIZE");
+      if (count >= size * size * size) throw new Error("Too many LUT entries");
+      values.set(parseTriplet(parts, index + 1), count * 3);
+      count++;
+    }
+    // Other keywords (LUT_3D_INPUT_RANGE, vendor extensions) are ignored
+  });
+
+  if (!values || count !== size * size * size) {
+    throw new Error(`Expected ${size ** 3} LUT entries, found ${count}`);
+  }
+  return { title, size, data: values, domainMin, domainMax };
+};
+
+/**
+ * Bakes a colour transform into a LUT of the given size.
+ */
+export const buildLut = (title: string, size: number, transform: ColorTransform): Lut3D => {
+  const data = new Float32Array(size * size * size * 3);
+  const scale = 1 / (size - 1);
+  let i = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const out = transform(r * scale, g * scale, b * scale);
+        data[i++] = out[0];
+        data[i++] = out[1];
+        data[i++] = out[2];
+      }
+    }
+  }
+  return { title, size, data, domainMin: [0, 0, 0], domainMax: [1, 1, 1] };
+};
+
+/**
+ * Bakes a buffer-level stage (e.g. a tone curve implemented on 8-bit pixels)
+ * into a LUT by running it over the lattice points.
+ */
+export const buildLutFromStage = (title: string, size: number, stage: (frame: Frame) => Frame): Lut3D => {
+  const count = size * size * size;
+  const lattice: Frame = { data: new Uint8ClampedArray(count * 4), width: count, height: 1 };
+  const scale = 255 / (size - 1);
+  let p = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        lattice.data[p++] = r * scale;
+        lattice.data[p++] = g * scale;
+        lattice.data[p++] = b * scale;
+        lattice.data[p++] = 255;
+      }
+    }
+  }
+
+  const graded = stage(lattice).data;
+  const data = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    data[i * 3] = graded[i * 4] / 255;
+    data[i * 3 + 1] = graded[i * 4 + 1] / 255;
+    data[i * 3 + 2] = graded[i * 4 + 2] / 255;
+  }
+  return { title, size, data, domainMin: [0, 0, 0], domainMax: [1, 1, 1] };
+};
+
+/**
+ * Returns the frame graded through the LUT.
+ */
+export const applyLut = (frame: Frame, lut: Lut3D, interpolation: LutInterpolation): Frame => {
+  const data = new Uint8ClampedArray(frame.data);
+  const { size, data: table, domainMin, domainMax } = lut;
+  const max = size - 1;
+  const strideG = size * 3;
+  const strideB = size * size * 3;
+  const scaleR = max / (255 * (domainMax[0] - domainMin[0]));
+  const scaleG = max / (255 * (domainMax[1] - domainMin[1]));
+  const scaleB = max / (255 * (domainMax[2] - domainMin[2]));
+  const offR = domainMin[0] * 255;
+  const offG = domainMin[1] * 255;
+  const offB = domainMin[2] * 255;
+  const out = [0, 0, 0];
+
+  for (let p = 0; p < data.length; p += 4) {
+    const sr = Math.min(max, Math.max(0, (data[p] - offR) * scaleR));
+    const sg = Math.min(max, Math.max(0, (data[p + 1] - offG) * scaleG));
+    const sb = Math.min(max, Math.max(0, (data[p + 2] - offB) * scaleB));
+    const r0 = Math.min(max - 1, Math.floor(sr));
+    const g0 = Math.min(max - 1, Math.floor(sg));
+    const b0 = Math.min(max - 1, Math.floor(sb));
+    const fr = sr - r0;
+    const fg = sg - g0;
+    const fb = sb - b0;
+
+    const c000 = b0 * strideB + g0 * strideG + r0 * 3;
+    const c100 = c000 + 3;
+    const c010 = c000 + strideG;
+    const c110 = c010 + 3;
+    const c001 = c000 + strideB;
+    const c101 = c001 + 3;
+    const c011 = c001 + strideG;
+    const c111 = c011 + 3;
+
+    if (interpolation === 'tetrahedral') {
+      // Split the cube into six tetrahedra by the ordering of the fractions
+      let w0: number, w1: number, w2: number, w3: number;
+      let a: number, b: number;
+      if (fr > fg) {
+        if (fg > fb) { w0 = 1 - fr; w1 = fr - fg; w2 = fg - fb; w3 = fb; a = c100; b = c110; }
+        else if (fr > fb) { w0 = 1 - fr; w1 = fr - fb; w2 = fb - fg; w3 = fg; a = c100; b = c101; }
+        else { w0 = 1 - fb; w1 = fb - fr; w2 = fr - fg; w3 = fg; a = c001; b = c101; }
+      } else {
+        if (fb > fg) { w0 = 1 - fb; w1 = fb - fg; w2 = fg - fr; w3 = fr; a = c001; b = c011; }
+        else if (fb > fr) { w0 = 1 - fg; w1 = fg - fb; w2 = fb - fr; w3 = fr; a = c010; b = c011; }
+        else { w0 = 1 - fg; w1 = fg - fr; w2 = fr - fb; w3 = fb; a = c010; b = c110; }
+      }
+      for (let c = 0; c < 3; c++) {
+        out[c] = w0 * table[c000 + c] + w1 * table[a + c] + w2 * table[b + c] + w3 * table[c111 + c];
+      }
+    } else {
+      for (let c = 0; c < 3; c++) {
+        const x00 = table[c000 + c] + (table[c100 + c] - table[c000 + c]) * fr;
+        const x10 = table[c010 + c] + (table[c110 + c] - table[c010 + c]) * fr;
+        const x01 = table[c001 + c] + (table[c101 + c] - table[c001 + c]) * fr;
+        const x11 = table[c011 + c] + (table[c111 + c] - table[c011 + c]) * fr;
+        const y0 = x00 + (x10 - x00) * fg;
+        const y1 = x01 + (x11 - x01) * fg;
+        out[c] = y0 + (y1 - y0) * fb;
+      }
+    }
+
+    data[p] = out[0] * 255;
+    data[p + 1] = out[1] * 255;
+    data[p + 2] = out[2] * 255;
+  }
+  return { data, width: frame.width, height: frame.height };
+};
@@ -0,0 +1,183 @@
+import { Frame, FrameStats, StackOptions } from '../frameStacking';
+import { FusionOptions } from '../exposureFusion';
+import { SuperResolutionOptions } from '../superResolution';
+import { LongExposureOptions } from '../longExposure';
+import { PanoramaOptions } from '../panorama';
+import { PipelineRequest, PipelineResponse, createPipelineExecutor } from './executor';
+import { PipelineStep } from './stages';
+
+export type { PipelineStep } from './stages';
+
+export interface PipelineProgress {
+  label: string;
+  progress: number; // 0-1
+}
+
+export interface PipelineResult {
+  data: Uint8ClampedArray; // RGBA
+  width: number;
+  height: number;
+  frames: FrameStats[]; // Empty unless the job merged several frames
+}
+
+export interface PipelineSession {
+  addFrame: (source: HTMLVideoElement | HTMLCanvasElement | Frame) => Promise<void>;
+  finish: (steps: PipelineStep[]) => Promise<PipelineResult>;
+  cancel: () => void;
+  pending: () => number; // Frames handed over but not merged yet
+  preview: (maxSize: number) => void; // Long exposures: ask for a look at the merge so far
+}
+
+type Send = (message: PipelineRequest, transfer?: Transferable[]) => void;
+
+const listeners = new Map<number, (message: PipelineResponse) => void>();
+let send: Send | null = null;
+let transferBitmaps = false;
+let nextJobId = 1;
+
+const dispatch = (message: PipelineResponse) => listeners.get(message.jobId)?.(message);
+
+/**
+ * Lazily starts the worker. Falls back to running the same executor on the
+ * main thread when module workers are unavailable.
+ */
+const getTransport = (): Send => {
+  if (send) return send;
+
+  if (typeof Worker !== 'undefined') {
+    try {
+      const worker = new Worker(new URL('./pipelineWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<PipelineResponse>) => dispatch(event.data);
+      worker.onerror = (event) => {
+        console.error("Pipeline worker error", event);
+        [...listeners.keys()].forEach(jobId => dispatch({ type: 'error', jobId, message: "Pipeline worker crashed" }));
+      };
+      send = (message, transfer = []) => worker.postMessage(message, transfer);
+      // The worker decodes ImageBitmaps itself when it has OffscreenCanvas
+      transferBitmaps = typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap === 'function';
+      return send;
+    } catch (err) {
+      console.warn("Pipeline worker unavailable, processing on main thread", err);
+    }
+  }
+
+  const handle = createPipelineExecutor(message => queueMicrotask(() => dispatch(message)));
+  send = (message) => handle(message);
+  transferBitmaps = false;
+  return send;
+};
+
+let scratchCanvas: HTMLCanvasElement | null = null;
+
+const grabPixels = (source: HTMLVideoElement | HTMLCanvasElement): Frame => {
+  const width = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const height = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+  scratchCanvas ??= document.createElement('canvas');
+  scratchCanvas.width = width;
+  scratchCanvas.height = height;
+  const ctx = scratchCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("No canvas context");
+  ctx.drawImage(source, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Opens a processing job. Frames are grabbed on the main thread (as
+ * ImageBitmaps where possible, which is cheap) and handed to the worker,
+ * which does the stacking and every pixel stage.
+ */
+export const createPipelineSession = (
+  options: {
+    stack?: Partial<StackOptions>;
+    fuse?: Partial<FusionOptions>;
+    superRes?: Partial<SuperResolutionOptions>;
+    longExposure?: Partial<LongExposureOptions>;
+    panorama?: Partial<PanoramaOptions>;
+    expectedFrames: number;
+  },
+  onProgress?: (progress: PipelineProgress) => void,
+  onPreview?: (preview: Frame) => void
+): PipelineSession => {
+  const post = getTransport();
+  const jobId = nextJobId++;
+
+  let resolveJob: (result: PipelineResult) => void = () => {};
+  let rejectJob: (err: Error) => void = () => {};
+  const done = new Promise<PipelineResult>((resolve, reject) => {
+    resolveJob = resolve;
+    rejectJob = reject;
+  });
+  // Errors may arrive before the caller awaits `finish`
+  done.catch(() => {});
+
+  // Until `finish`, the executor reports progress once per merged frame
+  let sent = 0;
+  let merged = 0;
+  let finishing = false;
+
+  listeners.set(jobId, (message) => {
+    if (message.type === 'progress') {
+      if (!finishing) merged++;
+      onProgress?.({ label: message.label, progress: message.progress });
+    } else if (message.type === 'preview') {
+      onPreview?.({ data: message.data, width: message.width, height: message.height });
+    } else if (message.type === 'result') {
+      listeners.delete(jobId);
+      resolveJob({ data: message.data, width: message.width, height: message.height, frames: message.frames });
+    } else {
+      listeners.delete(jobId);
+      rejectJob(new Error(message.message));
+    }
+  });
+
+  post({
+    type: 'begin',
+    jobId,
+    stack: options.stack,
+    fuse: options.fuse,
+    superRes: options.superRes,
+    longExposure: options.longExposure,
+    panorama: options.panorama,
+    expectedFrames: options.expectedFrames
+  });
+
+  return {
+    addFrame: async (source) => {
+      sent++;
+      if ('data' in source) {
+        post({ type: 'frame', jobId, frame: source }, [source.data.buffer]);
+      } else if (transferBitmaps) {
+        const bitmap = await createImageBitmap(source);
+        post({ type: 'frame', jobId, frame: bitmap }, [bitmap]);
+      } else {
+        const frame = grabPixels(source);
+        post({ type: 'frame', jobId, frame }, [frame.data.buffer]);
+      }
+    },
+    finish: (steps) => {
+      finishing = true;
+      post({ type: 'finish', jobId, steps });
+      return done;
+    },
+    cancel: () => {
+      post({ type: 'cancel', jobId });
+      listeners.delete(jobId);
+      rejectJob(new Error("Pipeline job cancelled"));
+    },
+    pending: () => sent - merged,
+    preview: (maxSize) => post({ type: 'preview', jobId, maxSize })
+  };
+};
+
+/**
+ * Runs a single frame through the given stages.
+ */
+export const processFrame = async (
+  source: HTMLVideoElement | HTMLCanvasElement | Frame,
+  steps: PipelineStep[],
+  onProgress?: (progress: PipelineProgress) => void
+): Promise<PipelineResult> => {
+  const session = createPipelineSession({ expectedFrames: 1 }, onProgress);
+  await session.addFrame(source);
+  return session.finish(steps);
+};
@@ -0,0 +1,8 @@
+import { PipelineRequest, createPipelineExecutor } from './executor';
+
+// Worker entry: all pixel work for captures happens here, off the UI thread.
+const handle = createPipelineExecutor((message, transfer = []) => {
+  self.postMessage(message, { transfer });
+});
+
+self.onmessage = (event: MessageEvent<PipelineRequest>) => handle(event.data);
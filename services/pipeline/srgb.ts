@@ -0,0 +1,10 @@
+/**
+ * sRGB transfer functions, on 0-1 values, shared by every stage that works
+ * in linear light.
+ */
+
+export const srgbToLinear = (v: number) => v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+export const linearToSrgb = (v: number) => v <= 0.0031308 ? v * 12.92 : 1.055 * v ** (1 / 2.4) - 0.055;
+
+// Linear light of each 8-bit sRGB sample, for per-pixel loops
+export const SRGB_DECODE = Float32Array.from({ length: 256 }, (_, i) => srgbToLinear(i / 255));
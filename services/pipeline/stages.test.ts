@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { Frame } from '../frameStacking';
+import { applyBalance, applySonyLook, convolvePlane, runStep, sharpen } from './stages';
+
+const frameOf = (width: number, height: number, pixel: (x: number, y: number) => number[]): Frame => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(pixel(x, y), (y * width + x) * 4);
+  }
+  return { data, width, height };
+};
+
+// Dark left half, bright right half
+const edgeFrame = () => frameOf(6, 3, x => x < 3 ? [60, 60, 60, 255] : [180, 180, 180, 255]);
+
+describe('convolvePlane', () => {
+  it('leaves a plane unchanged under the identity kernel', () => {
+    const src = Float32Array.from([1, 2, 3, 4, 5, 6]);
+    expect(Array.from(convolvePlane(src, 3, 2, [0, 0, 0, 0, 1, 0, 0, 0, 0]))).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('clamps at the edges, so a flat plane stays flat', () => {
+    const src = new Float32Array(12).fill(7);
+    const box = new Array(9).fill(1 / 9);
+    convolvePlane(src, 4, 3, box).forEach(v => expect(v).toBeCloseTo(7));
+  });
+});
+
+describe('applyBalance', () => {
+  it('is the identity at unit gain', () => {
+    const frame = edgeFrame();
+    expect(Array.from(applyBalance(frame, 1, [1, 1, 1]).data)).toEqual(Array.from(frame.data));
+  });
+
+  it('scales in linear light, per channel', () => {
+    const frame = frameOf(1, 1, () => [100, 100, 100, 255]);
+    const [r, g, b, a] = applyBalance(frame, 2, [1, 1, 0.5]).data;
+    // sRGB 100 is 12.7% linear; doubled it is 25.5%, which encodes as 138
+    expect(r).toBe(138);
+    expect(g).toBe(138);
+    expect(b).toBe(100);
+    expect(a).toBe(255);
+  });
+});
+
+describe('sharpen', () => {
+  it('steepens an edge and leaves flat areas alone', () => {
+    const out = sharpen(edgeFrame(), 1).data;
+    const at = (x: number) => out[(1 * 6 + x) * 4];
+    expect(at(0)).toBe(60);
+    expect(at(2)).toBeLessThan(60);
+    expect(at(3)).toBeGreaterThan(180);
+    expect(at(5)).toBe(180);
+  });
+
+  it('does nothing at amount 0', () => {
+    const frame = edgeFrame();
+    expect(Array.from(sharpen(frame, 0).data)).toEqual(Array.from(frame.data));
+  });
+});
+
+describe('runStep', () => {
+  it('never modifies the frame it is given', () => {
+    const frame = edgeFrame();
+    const before = Array.from(frame.data);
+    runStep(frame, { stage: 'sonyLook' });
+    runStep(frame, { stage: 'sharpen', amount: 1 });
+    runStep(frame, { stage: 'balance', gain: 2, wb: [1, 1, 1] });
+    runStep(frame, { stage: 'vignette', amount: -1 });
+    expect(Array.from(frame.data)).toEqual(before);
+  });
+
+  it('returns what the stage returns', () => {
+    const frame = edgeFrame();
+    expect(Array.from(runStep(frame, { stage: 'sonyLook' }).data)).toEqual(Array.from(applySonyLook(frame).data));
+  });
+});
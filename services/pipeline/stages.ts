@@ -0,0 +1,216 @@
+import { CropRect, LutInterpolation } from '../../types';
+import { Frame } from '../frameStacking';
+import { Lut3D, applyLut } from './lut';
+import { ToneSettings, applyTone, applyTransform, applyVignette } from './adjustments';
+import { SRGB_DECODE, linearToSrgb } from './srgb';
+
+/**
+ * Pixel-processing stages.
+ * Every stage is a pure function over an RGBA buffer: it returns a new frame
+ * and leaves its input untouched. With no DOM access, the same code runs in
+ * the worker, on the main thread as a fallback, and under Node.
+ */
+
+export type PipelineStep =
+  | { stage: 'sonyLook' }
+  | { stage: 'sharpen'; amount: number }
+  | { stage: 'balance'; gain: number; wb: [number, number, number] }
+  | { stage: 'lut'; lut: Lut3D; interpolation: LutInterpolation }
+  | { stage: 'transform'; rotation: number; straighten: number; crop: CropRect | null }
+  | { stage: 'tone'; settings: ToneSettings }
+  | { stage: 'vignette'; amount: number };
+
+export const SHARPEN_KERNEL = [
+   0, -1,  0,
+  -1,  5, -1,
+   0, -1,  0
+];
+
+export const SOBEL_X = [
+  -1, 0, 1,
+  -2, 0, 2,
+  -1, 0, 1
+];
+
+export const SOBEL_Y = [
+  -1, -2, -1,
+   0,  0,  0,
+   1,  2,  1
+];
+
+/**
+ * Convolves a single-channel plane with a square kernel.
+ * Edges are handled by clamping, so the output has the same size as the input.
+ */
+export const convolvePlane = (src: Float32Array, width: number, height: number, kernel: number[]): Float32Array => {
+  const side = Math.round(Math.sqrt(kernel.length));
+  const halfSide = Math.floor(side / 2);
+  const dst = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let cy = 0; cy < side; cy++) {
+        const scy = Math.min(height - 1, Math.max(0, y + cy - halfSide));
+        for (let cx = 0; cx < side; cx++) {
+          const scx = Math.min(width - 1, Math.max(0, x + cx - halfSide));
+          sum += src[scy * width + scx] * kernel[cy * side + cx];
+        }
+      }
+      dst[y * width + x] = sum;
+    }
+  }
+  return dst;
+};
+
+/**
+ * Convolves the RGB channels of a frame; alpha is copied through.
+ */
+export const convolveRgba = (frame: Frame, kernel: number[]): Frame => {
+  const { data: src, width, height } = frame;
+  const side = Math.round(Math.sqrt(kernel.length));
+  const halfSide = Math.floor(side / 2);
+  const dst = new Uint8ClampedArray(src.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dstOff = (y * width + x) * 4;
+      let r = 0, g = 0, b = 0;
+
+      for (let cy = 0; cy < side; cy++) {
+        const scy = Math.min(height - 1, Math.max(0, y + cy - halfSide));
+        for (let cx = 0; cx < side; cx++) {
+          const scx = Math.min(width - 1, Math.max(0, x + cx - halfSide));
+          const srcOff = (scy * width + scx) * 4;
+          const wt = kernel[cy * side + cx];
+          r += src[srcOff] * wt;
+          g += src[srcOff + 1] * wt;
+          b += src[srcOff + 2] * wt;
+        }
+      }
+
+      dst[dstOff] = r;
+      dst[dstOff + 1] = g;
+      dst[dstOff + 2] = b;
+      dst[dstOff + 3] = src[dstOff + 3];
+    }
+  }
+  return { data: dst, width, height };
+};
+
+// W3C compositing blend functions, all values 0-1
+const overlay = (b: number, s: number) => b < 0.5 ? 2 * b * s : 1 - 2 * (1 - b) * (1 - s);
+
+const softLight = (b: number, s: number) => {
+  if (s <= 0.5) return b - (1 - 2 * s) * b * (1 - b);
+  const d = b <= 0.25 ? ((16 * b - 12) * b + 4) * b : Math.sqrt(b);
+  return b + (2 * s - 1) * (d - b);
+};
+
+const buildSonyCurve = (shadowTint: number, warmTint: number): Uint8ClampedArray => {
+  const curve = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) {
+    let v = i / 255;
+    // Cool shadows: overlay rgba(0, 0, 20, 0.1)
+    v = v * 0.9 + overlay(v, shadowTint) * 0.1;
+    // Warm highlights: soft-light rgba(255, 150, 50, 0.15)
+    v = v * 0.85 + softLight(v, warmTint) * 0.15;
+    // contrast(1.15)
+    v = (v - 0.5) * 1.15 + 0.5;
+    curve[i] = Math.round(v * 255);
+  }
+  return curve;
+};
+
+const SONY_CURVES = [
+  buildSonyCurve(0, 1),
+  buildSonyCurve(0, 150 / 255),
+  buildSonyCurve(20 / 255, 50 / 255)
+];
+const SONY_SATURATION = 1.1;
+
+/**
+ * Sony A1 look: cool shadows, warm highlights, contrast 1.15, saturation 1.1.
+ * The per-channel tone work is baked into lookup curves; saturation uses the
+ * CSS `saturate()` matrix so the result matches the preview filter.
+ */
+export const applySonyLook = (frame: Frame): Frame => {
+  const data = new Uint8ClampedArray(frame.data);
+  const [curveR, curveG, curveB] = SONY_CURVES;
+  const s = SONY_SATURATION;
+
+  for (let p = 0; p < data.length; p += 4) {
+    const r = curveR[data[p]];
+    const g = curveG[data[p + 1]];
+    const b = curveB[data[p + 2]];
+    data[p] = (0.213 + 0.787 * s) * r + (0.715 - 0.715 * s) * g + (0.072 - 0.072 * s) * b;
+    data[p + 1] = (0.213 - 0.213 * s) * r + (0.715 + 0.285 * s) * g + (0.072 - 0.072 * s) * b;
+    data[p + 2] = (0.213 - 0.213 * s) * r + (0.715 - 0.715 * s) * g + (0.072 + 0.928 * s) * b;
+  }
+  return { data, width: frame.width, height: frame.height };
+};
+
+/**
+ * Software exposure gain and white balance for cameras that can't apply them
+ * in hardware. Scaling happens in linear light; each channel is a fixed
+ * 8-bit mapping, so it is baked into a table per channel.
+ */
+export const applyBalance = (frame: Frame, gain: number, wb: [number, number, number]): Frame => {
+  const tables = wb.map(channelGain => {
+    const table = new Uint8ClampedArray(256);
+    for (let i = 0; i < 256; i++) {
+      table[i] = Math.round(linearToSrgb(Math.min(1, SRGB_DECODE[i] * gain * channelGain)) * 255);
+    }
+    return table;
+  });
+  const data = new Uint8ClampedArray(frame.data);
+  for (let p = 0; p < data.length; p += 4) {
+    data[p] = tables[0][data[p]];
+    data[p + 1] = tables[1][data[p + 1]];
+    data[p + 2] = tables[2][data[p + 2]];
+  }
+  return { data, width: frame.width, height: frame.height };
+};
+
+/**
+ * Blends the frame towards its sharpened version; `amount` 1 is the full kernel.
+ */
+export const sharpen = (frame: Frame, amount: number): Frame => {
+  const sharpened = convolveRgba(frame, SHARPEN_KERNEL);
+  const data = new Uint8ClampedArray(frame.data);
+  for (let p = 0; p < data.length; p += 4) {
+    data[p] += (sharpened.data[p] - data[p]) * amount;
+    data[p + 1] += (sharpened.data[p + 1] - data[p + 1]) * amount;
+    data[p + 2] += (sharpened.data[p + 2] - data[p + 2]) * amount;
+  }
+  return { data, width: frame.width, height: frame.height };
+};
+
+export const runStep = (frame: Frame, step: PipelineStep): Frame => {
+  switch (step.stage) {
+    case 'sonyLook':
+      return applySonyLook(frame);
+    case 'sharpen':
+      return sharpen(frame, step.amount);
+    case 'balance':
+      return applyBalance(frame, step.gain, step.wb);
+    case 'lut':
+      return applyLut(frame, step.lut, step.interpolation);
+    case 'transform':
+      return applyTransform(frame, step.rotation, step.straighten, step.crop);
+    case 'tone':
+      return applyTone(frame, step.settings);
+    case 'vignette':
+      return applyVignette(frame, step.amount);
+  }
+};
+
+export const STEP_LABELS: Record<PipelineStep['stage'], string> = {
+  sonyLook: 'Color Grade',
+  sharpen: 'Sharpen',
+  balance: 'Exposure / WB',
+  lut: 'Picture Profile',
+  transform: 'Crop / Rotate',
+  tone: 'Tone / Color',
+  vignette: 'Vignette'
+};
@@ -0,0 +1,289 @@
+import { CapturedImage, CapturedVideo, EditStack, GalleryItem } from '../types';
+import { Lut3D } from './pipeline/lut';
+import { canvasToBlob } from './canvasEncoding';
+
+const DB_NAME = 'alphacam-a1';
+const DB_VERSION = 3;
+// Small records (metadata + thumbnail) are kept apart from the full-resolution
+// media so listing the gallery never pulls multi-megabyte blobs into memory.
+const CAPTURES_STORE = 'captures';
+const MEDIA_STORE = 'media';
+// Imported .cube LUTs, stored parsed so they don't need re-parsing on every launch
+const LUTS_STORE = 'luts';
+// Photo edit stacks, keyed by photo id; the original media is never rewritten
+const EDITS_STORE = 'edits';
+
+const THUMBNAIL_SIZE = 320;
+// Used for the shots-remaining estimate until the gallery has real captures to average.
+const DEFAULT_CAPTURE_SIZE = 3 * 1024 * 1024;
+
+/**
+ * A gallery item as persisted: everything except the per-session object URLs.
+ */
+export type CaptureRecord =
+  | Omit<CapturedImage, 'url' | 'thumbnailUrl'>
+  | Omit<CapturedVideo, 'url' | 'thumbnailUrl'>;
+
+type StoredCapture = CaptureRecord & { thumbnail: Blob };
+
+export interface StoredLut {
+  id: string;
+  importedAt: number;
+  lut: Lut3D;
+}
+
+export interface StorageQuota {
+  usage: number; // Bytes
+  quota: number; // Bytes
+  shotsRemaining: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CAPTURES_STORE)) {
+          const store = db.createObjectStore(CAPTURES_STORE, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          db.createObjectStore(MEDIA_STORE);
+        }
+        if (!db.objectStoreNames.contains(LUTS_STORE)) {
+          db.createObjectStore(LUTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(EDITS_STORE)) {
+          db.createObjectStore(EDITS_STORE, { keyPath: 'photoId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Renders a small JPEG preview of an encoded image, a canvas or the current video frame.
+ */
+export const createThumbnail = async (
+  source: Blob | HTMLCanvasElement | HTMLVideoElement,
+  maxSize = THUMBNAIL_SIZE
+): Promise<Blob> => {
+  const image = source instanceof Blob ? await createImageBitmap(source) : source;
+  const width = image instanceof HTMLVideoElement ? image.videoWidth : image.width;
+  const height = image instanceof HTMLVideoElement ? image.videoHeight : image.height;
+  const scale = Math.min(1, maxSize / Math.max(width, height, 1));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("No canvas context");
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  if (image instanceof ImageBitmap) image.close();
+  return canvasToBlob(canvas, 'image/jpeg', 0.8);
+};
+
+/**
+ * Persists a capture and its thumbnail.
+ * Returns the gallery item with a thumbnail URL; the full-resolution URL is
+ * left unset and loaded on demand via `loadCaptureUrl`.
+ */
+export const saveCapture = async (record: CaptureRecord, media: Blob, thumbnail: Blob): Promise<GalleryItem> => {
+  const db = await openDatabase();
+  const tx = db.transaction([CAPTURES_STORE, MEDIA_STORE], 'readwrite');
+  const stored: StoredCapture = { ...record, thumbnail };
+  tx.objectStore(CAPTURES_STORE).put(stored);
+  tx.objectStore(MEDIA_STORE).put(media, record.id);
+  await transactionDone(tx);
+
+  return { ...record, thumbnailUrl: URL.createObjectURL(thumbnail) } as GalleryItem;
+};
+
+/**
+ * Lists all stored captures, newest first, without loading their full-resolution media.
+ */
+export const loadCaptures = async (): Promise<GalleryItem[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(CAPTURES_STORE, 'readonly');
+  const index = tx.objectStore(CAPTURES_STORE).index('timestamp');
+  const items: GalleryItem[] = [];
+
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const { thumbnail, ...record } = cursor.value as StoredCapture;
+      items.push({ ...record, thumbnailUrl: URL.createObjectURL(thumbnail) } as GalleryItem);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  return items;
+};
+
+export const loadCaptureBlob = async (id: string): Promise<Blob> => {
+  const db = await openDatabase();
+  const tx = db.transaction(MEDIA_STORE, 'readonly');
+  const blob = await requestToPromise<Blob | undefined>(tx.objectStore(MEDIA_STORE).get(id));
+  if (!blob) throw new Error(`Capture ${id} not found`);
+  return blob;
+};
+
+/**
+ * Creates an object URL for the full-resolution media. The caller owns the URL
+ * and should revoke it once the item is no longer displayed.
+ */
+export const loadCaptureUrl = async (id: string): Promise<string> =>
+  URL.createObjectURL(await loadCaptureBlob(id));
+
+export const deleteCapture = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([CAPTURES_STORE, MEDIA_STORE, EDITS_STORE], 'readwrite');
+  tx.objectStore(CAPTURES_STORE).delete(id);
+  tx.objectStore(MEDIA_STORE).delete(id);
+  tx.objectStore(EDITS_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// Fields of a stored photo that change after capture
+export type CaptureUpdate = Partial<Pick<CapturedImage, 'analyses' | 'chat'>>;
+
+/**
+ * Merges changes into a capture record within `tx`.
+ */
+const patchCapture = async (tx: IDBTransaction, id: string, changes: Partial<StoredCapture>) => {
+  const store = tx.objectStore(CAPTURES_STORE);
+  const stored = await requestToPromise<StoredCapture | undefined>(store.get(id));
+  if (!stored) {
+    tx.abort();
+    throw new Error(`Capture ${id} not found`);
+  }
+  store.put({ ...stored, ...changes });
+};
+
+/**
+ * Saves a photo's analysis history and/or chat thread.
+ */
+export const updateCapture = async (id: string, changes: CaptureUpdate): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(CAPTURES_STORE, 'readwrite');
+  await patchCapture(tx, id, changes);
+  await transactionDone(tx);
+};
+
+/**
+ * Stores a photo's edit stack alongside the original, and swaps the gallery
+ * thumbnail for one rendered with the edits.
+ */
+export const saveEditStack = async (stack: EditStack, thumbnail: Blob): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([EDITS_STORE, CAPTURES_STORE], 'readwrite');
+  tx.objectStore(EDITS_STORE).put(stack);
+  await patchCapture(tx, stack.photoId, { thumbnail, editedAt: stack.updatedAt });
+  await transactionDone(tx);
+};
+
+export const loadEditStack = async (photoId: string): Promise<EditStack | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(EDITS_STORE, 'readonly');
+  return (await requestToPromise<EditStack | undefined>(tx.objectStore(EDITS_STORE).get(photoId))) ?? null;
+};
+
+/**
+ * Drops a photo's edits, restoring the thumbnail of the original.
+ */
+export const deleteEditStack = async (photoId: string, originalThumbnail: Blob): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([EDITS_STORE, CAPTURES_STORE], 'readwrite');
+  tx.objectStore(EDITS_STORE).delete(photoId);
+  await patchCapture(tx, photoId, { thumbnail: originalThumbnail, editedAt: undefined });
+  await transactionDone(tx);
+};
+
+export const saveLut = async (entry: StoredLut): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(LUTS_STORE, 'readwrite');
+  tx.objectStore(LUTS_STORE).put(entry);
+  await transactionDone(tx);
+};
+
+/**
+ * Lists imported LUTs in import order.
+ */
+export const loadLuts = async (): Promise<StoredLut[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(LUTS_STORE, 'readonly');
+  const entries = await requestToPromise<StoredLut[]>(tx.objectStore(LUTS_STORE).getAll());
+  return entries.sort((a, b) => a.importedAt - b.importedAt);
+};
+
+export const deleteLut = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(LUTS_STORE, 'readwrite');
+  tx.objectStore(LUTS_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Revokes the object URLs held by a gallery item.
+ */
+export const releaseItemUrls = (item: GalleryItem) => {
+  URL.revokeObjectURL(item.thumbnailUrl);
+  if (item.url) URL.revokeObjectURL(item.url);
+};
+
+/**
+ * Estimates remaining capacity from the browser storage quota and the
+ * average size of the photos already in the gallery.
+ */
+export const getStorageQuota = async (items: GalleryItem[]): Promise<StorageQuota | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+
+  const photos = items.filter(item => item.kind === 'photo');
+  const averageSize = photos.length > 0
+    ? photos.reduce((sum, item) => sum + item.size, 0) / photos.length
+    : DEFAULT_CAPTURE_SIZE;
+
+  return {
+    usage,
+    quota,
+    shotsRemaining: Math.max(0, Math.floor((quota - usage) / averageSize))
+  };
+};
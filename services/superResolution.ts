@@ -0,0 +1,328 @@
+import { Frame, FrameStats, buildPyramid, estimateTranslation, toLuma } from './frameStacking';
+
+/**
+ * Multi-frame super-resolution, "pixel shift" without a moving sensor.
+ * Hand tremor offsets each burst frame by some fraction of a pixel. Frames are
+ * registered to the first one with sub-pixel accuracy and every sample is
+ * splatted onto a finer grid at its true position (shift-and-add), so the
+ * burst fills in detail between the pixels of any single frame.
+ * A first pass weights samples by distance only; the second also down-weights
+ * samples that disagree with that estimate, so moving subjects and local
+ * misregistration (tremor is not a pure translation) don't ghost.
+ */
+
+export interface SuperResolutionOptions {
+  scale: number; // Output size relative to the input (integer)
+  maxShift: number; // Pixels at full resolution
+  kernelSigma: number; // Splat footprint, in output pixels
+  robustSigma: number; // Luma residual (0-255) at which a sample's weight halves
+  maxAlignmentError: number; // Frames aligning worse than this times the median are dropped
+}
+
+export interface SuperResolution {
+  add: (frame: Frame) => FrameStats;
+  finish: (onProgress?: (progress: number) => void) => Frame; // Progress 0-1
+}
+
+interface Plane {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+interface KeptFrame {
+  data: Uint8ClampedArray;
+  dx: number; // Sub-pixel position of the frame relative to the reference
+  dy: number;
+}
+
+export const DEFAULT_SUPER_RES_OPTIONS: SuperResolutionOptions = {
+  scale: 2,
+  maxShift: 32,
+  kernelSigma: 0.4,
+  robustSigma: 12,
+  maxAlignmentError: 2
+};
+
+// Beyond this the kept frames alone take hundreds of megabytes
+export const MAX_SUPER_RES_FRAMES = 16;
+
+// Largest input merged as is. Merging a 4K stream at 2x would need over 1 GB
+// for its accumulators and kept frames, so bigger streams are scaled down first
+export const MAX_SUPER_RES_INPUT_PIXELS = 1920 * 1080;
+
+/**
+ * The size frames of a `width` x `height` stream are merged at: the stream's
+ * own, scaled down to at most MAX_SUPER_RES_INPUT_PIXELS.
+ */
+export const getSuperResInputSize = (width: number, height: number): [number, number] => {
+  const shrink = Math.min(1, Math.sqrt(MAX_SUPER_RES_INPUT_PIXELS / Math.max(1, width * height)));
+  return [Math.round(width * shrink), Math.round(height * shrink)];
+};
+
+const REFINE_SAMPLE_TARGET = 65536;
+const REFINE_ITERATIONS = 5;
+const REFINE_TOLERANCE = 0.01; // Pixels
+const MIN_COVERAGE = 1e-3; // Output pixels with less total weight fall back to the reference
+
+const bilinear = (plane: Plane, x: number, y: number): number => {
+  const { data, width, height } = plane;
+  const cx = Math.min(width - 1, Math.max(0, x));
+  const cy = Math.min(height - 1, Math.max(0, y));
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(width - 1, x0 + 1);
+  const y1 = Math.min(height - 1, y0 + 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+  const top = data[y0 * width + x0] * (1 - fx) + data[y0 * width + x1] * fx;
+  const bottom = data[y1 * width + x0] * (1 - fx) + data[y1 * width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+};
+
+/**
+ * How far `value` lies outside the range of the 3x3 neighbourhood of a
+ * position. Fine detail the first estimate smoothed over stays within the
+ * range; a sample of something that moved doesn't.
+ */
+const outsideRange = (plane: Plane, x: number, y: number, value: number): number => {
+  const { data, width, height } = plane;
+  const cx = Math.min(width - 1, Math.max(0, Math.round(x)));
+  const cy = Math.min(height - 1, Math.max(0, Math.round(y)));
+  let min = Infinity;
+  let max = -Infinity;
+  for (let j = Math.max(0, cy - 1); j <= Math.min(height - 1, cy + 1); j++) {
+    for (let i = Math.max(0, cx - 1); i <= Math.min(width - 1, cx + 1); i++) {
+      const v = data[j * width + i];
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+  }
+  return Math.max(0, value - max, min - value);
+};
+
+/**
+ * Refines an integer translation to sub-pixel accuracy with Lucas-Kanade
+ * steps on a sparse grid, using the reference's gradients. Returns the
+ * shift (`ref(x) ≈ img(x + d)`) and the mean absolute residual at it.
+ */
+export const refineTranslation = (
+  ref: Plane,
+  img: Plane,
+  dx: number,
+  dy: number
+): { dx: number; dy: number; error: number } => {
+  const { data, width, height } = ref;
+  const step = Math.max(1, Math.floor(Math.sqrt((width * height) / REFINE_SAMPLE_TARGET)));
+  let error = Infinity;
+
+  for (let iteration = 0; iteration < REFINE_ITERATIONS; iteration++) {
+    // Keep clear of the edges, where the shifted image has no data
+    const margin = Math.ceil(Math.max(Math.abs(dx), Math.abs(dy))) + 2;
+    let sxx = 0, sxy = 0, syy = 0, bx = 0, by = 0, absSum = 0, count = 0;
+    for (let y = margin; y < height - margin; y += step) {
+      for (let x = margin; x < width - margin; x += step) {
+        const i = y * width + x;
+        const gx = (data[i + 1] - data[i - 1]) * 0.5;
+        const gy = (data[i + width] - data[i - width]) * 0.5;
+        const e = bilinear(img, x + dx, y + dy) - data[i];
+        sxx += gx * gx;
+        sxy += gx * gy;
+        syy += gy * gy;
+        bx += gx * e;
+        by += gy * e;
+        absSum += Math.abs(e);
+        count++;
+      }
+    }
+    if (count === 0) break;
+    error = absSum / count;
+
+    const det = sxx * syy - sxy * sxy;
+    if (det < 1e-6) break; // Featureless: no direction is better than another
+    const stepX = Math.max(-1, Math.min(1, -(syy * bx - sxy * by) / det));
+    const stepY = Math.max(-1, Math.min(1, -(sxx * by - sxy * bx) / det));
+    dx += stepX;
+    dy += stepY;
+    if (Math.abs(stepX) < REFINE_TOLERANCE && Math.abs(stepY) < REFINE_TOLERANCE) break;
+  }
+
+  return { dx, dy, error };
+};
+
+/**
+ * Gaussian weights of the output pixels a sample at `pos` (output
+ * coordinates) lands on along one axis. Returns the first pixel index.
+ */
+const axisWeights = (pos: number, radius: number, sigma: number, size: number, out: Float32Array): [number, number] => {
+  const first = Math.max(0, Math.ceil(pos - 0.5 - radius));
+  const last = Math.min(size - 1, Math.floor(pos - 0.5 + radius));
+  for (let i = first; i <= last; i++) {
+    const d = i + 0.5 - pos;
+    out[i - first] = Math.exp(-(d * d) / (2 * sigma * sigma));
+  }
+  return [first, last];
+};
+
+/**
+ * Creates a super-resolution accumulator that burst frames are fed into one
+ * at a time. The first frame is the reference: the output is registered to it.
+ */
+export const createSuperResolution = (options: Partial<SuperResolutionOptions> = {}): SuperResolution => {
+  const opts: SuperResolutionOptions = { ...DEFAULT_SUPER_RES_OPTIONS, ...options };
+  const scale = Math.max(1, Math.round(opts.scale));
+  let refLuma: Plane | null = null;
+  let refPyramid: Plane[] | null = null;
+  let width = 0;
+  let height = 0;
+  const kept: KeptFrame[] = [];
+  const stats: FrameStats[] = [];
+
+  const add = (frame: Frame): FrameStats => {
+    const luma = toLuma(frame);
+    const pyramid = buildPyramid(luma);
+    let dx = 0;
+    let dy = 0;
+    let alignmentError = 0;
+    let meanLuma = 0;
+    for (let i = 0; i < luma.data.length; i++) meanLuma += luma.data[i];
+    meanLuma /= Math.max(1, luma.data.length);
+
+    if (!refLuma || !refPyramid) {
+      width = frame.width;
+      height = frame.height;
+      refLuma = luma;
+      refPyramid = pyramid;
+    } else {
+      if (frame.width !== width || frame.height !== height) {
+        throw new Error("Frame size changed during super-resolution");
+      }
+      const coarse = estimateTranslation(refPyramid, pyramid, opts.maxShift);
+      const fine = refineTranslation(refLuma, luma, coarse.dx, coarse.dy);
+      dx = fine.dx;
+      dy = fine.dy;
+      alignmentError = fine.error;
+    }
+
+    kept.push({ data: frame.data, dx, dy });
+    const frameStats: FrameStats = {
+      index: stats.length,
+      offsetX: dx,
+      offsetY: dy,
+      meanLuma,
+      alignmentError,
+      rejectedRatio: 0
+    };
+    stats.push(frameStats);
+    return frameStats;
+  };
+
+  /**
+   * Drops frames that failed to register (motion blur, a big jolt). They are
+   * marked with a rejectedRatio of 1; the reference is always kept.
+   */
+  const selectFrames = (): KeptFrame[] => {
+    const errors = stats.slice(1).map(s => s.alignmentError).sort((a, b) => a - b);
+    if (errors.length === 0) return kept;
+    const median = errors[errors.length >> 1];
+    const limit = median * opts.maxAlignmentError + 1;
+    return kept.filter((frame, i) => {
+      if (i === 0 || stats[i].alignmentError <= limit) return true;
+      stats[i].rejectedRatio = 1;
+      return false;
+    });
+  };
+
+  const finish = (onProgress?: (progress: number) => void): Frame => {
+    if (!refLuma) throw new Error("No frames for super-resolution");
+    const frames = selectFrames();
+    const outWidth = width * scale;
+    const outHeight = height * scale;
+    const sigma = opts.kernelSigma;
+    const radius = sigma * 2;
+    const taps = Math.ceil(radius * 2) + 1;
+    const wx = new Float32Array(taps);
+    const wy = new Float32Array(taps);
+    const accum = new Float32Array(outWidth * outHeight * 4); // RGB sums and total weight
+    const reference = kept[0].data;
+
+    // Splats every sample of every frame; with an estimate, samples are also
+    // weighted by how well they agree with it (Cauchy weighting)
+    const splat = (estimate: Plane | null, pass: number) => {
+      accum.fill(0);
+      const robust2 = opts.robustSigma * opts.robustSigma;
+      frames.forEach(({ data, dx, dy }, f) => {
+        let rejected = 0;
+        for (let v = 0; v < height; v++) {
+          const y = (v + 0.5 - dy) * scale;
+          const [y0, y1] = axisWeights(y, radius, sigma, outHeight, wy);
+          if (y1 < y0) continue;
+          for (let u = 0; u < width; u++) {
+            const x = (u + 0.5 - dx) * scale;
+            const [x0, x1] = axisWeights(x, radius, sigma, outWidth, wx);
+            if (x1 < x0) continue;
+            const p = (v * width + u) * 4;
+            const r = data[p], g = data[p + 1], b = data[p + 2];
+
+            let weight = 1;
+            if (estimate) {
+              const residual = outsideRange(estimate, x - 0.5, y - 0.5, 0.299 * r + 0.587 * g + 0.114 * b);
+              weight = 1 / (1 + residual * residual / robust2);
+              if (weight < 0.5) rejected++;
+            }
+
+            for (let j = y0; j <= y1; j++) {
+              const rowWeight = wy[j - y0] * weight;
+              let o = (j * outWidth + x0) * 4;
+              for (let i = x0; i <= x1; i++, o += 4) {
+                const w = wx[i - x0] * rowWeight;
+                accum[o] += r * w;
+                accum[o + 1] += g * w;
+                accum[o + 2] += b * w;
+                accum[o + 3] += w;
+              }
+            }
+          }
+        }
+        if (estimate) stats[kept.indexOf(frames[f])].rejectedRatio = rejected / (width * height);
+        onProgress?.((pass + (f + 1) / frames.length) / 2);
+      });
+    };
+
+    // Weighted mean per output pixel; gaps the burst didn't reach are
+    // filled from the reference frame
+    const resolve = (visit: (o: number, r: number, g: number, b: number) => void) => {
+      for (let j = 0; j < outHeight; j++) {
+        for (let i = 0; i < outWidth; i++) {
+          const o = (j * outWidth + i) * 4;
+          const w = accum[o + 3];
+          if (w > MIN_COVERAGE) {
+            visit(o, accum[o] / w, accum[o + 1] / w, accum[o + 2] / w);
+          } else {
+            const sx = Math.min(width - 1, Math.floor(i / scale));
+            const sy = Math.min(height - 1, Math.floor(j / scale));
+            const p = (sy * width + sx) * 4;
+            visit(o, reference[p], reference[p + 1], reference[p + 2]);
+          }
+        }
+      }
+    };
+
+    splat(null, 0);
+    const estimate: Plane = { data: new Float32Array(outWidth * outHeight), width: outWidth, height: outHeight };
+    resolve((o, r, g, b) => { estimate.data[o >> 2] = 0.299 * r + 0.587 * g + 0.114 * b; });
+
+    splat(estimate, 1);
+    const out = new Uint8ClampedArray(outWidth * outHeight * 4);
+    resolve((o, r, g, b) => {
+      out[o] = r;
+      out[o + 1] = g;
+      out[o + 2] = b;
+      out[o + 3] = 255;
+    });
+
+    return { data: out, width: outWidth, height: outHeight };
+  };
+
+  return { add, finish };
+};
@@ -0,0 +1,192 @@
+import { VideoSettings } from '../types';
+
+export interface VideoFormat {
+  mimeType: string;
+  label: string;
+}
+
+export interface RecordedClip {
+  blob: Blob;
+  mimeType: string;
+  duration: number; // Seconds
+}
+
+export interface RecordingSession {
+  mimeType: string;
+  startedAt: number;
+  stop: () => Promise<RecordedClip>;
+}
+
+// Ordered by preference. Only the video codec is pinned; the browser picks
+// the matching audio codec when a microphone track is present.
+const CANDIDATE_FORMATS: VideoFormat[] = [
+  { mimeType: 'video/mp4;codecs=avc1', label: 'MP4 H.264' },
+  { mimeType: 'video/webm;codecs=av01', label: 'WebM AV1' },
+  { mimeType: 'video/webm;codecs=vp9', label: 'WebM VP9' },
+  { mimeType: 'video/webm;codecs=vp8', label: 'WebM VP8' },
+  { mimeType: 'video/mp4', label: 'MP4' },
+  { mimeType: 'video/webm', label: 'WebM' },
+];
+
+export const VIDEO_BITRATES = [
+  { value: 4_000_000, label: '4 Mbps' },
+  { value: 8_000_000, label: '8 Mbps' },
+  { value: 16_000_000, label: '16 Mbps' },
+  { value: 25_000_000, label: '25 Mbps' },
+  { value: 50_000_000, label: '50 Mbps' },
+];
+
+/**
+ * Lists the recording formats this browser's MediaRecorder can produce.
+ */
+export const getSupportedVideoFormats = (): VideoFormat[] => {
+  if (typeof MediaRecorder === 'undefined') return [];
+  return CANDIDATE_FORMATS.filter(format => MediaRecorder.isTypeSupported(format.mimeType));
+};
+
+export const getVideoExtension = (mimeType: string): string =>
+  mimeType.includes('mp4') ? 'mp4' : 'webm';
+
+/**
+ * Formats elapsed seconds as an HH:MM:SS timecode for the REC counter.
+ */
+export const formatTimecode = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return [h, m, s].map(v => v.toString().padStart(2, '0')).join(':');
+};
+
+/**
+ * Starts recording the live camera stream.
+ * The video track is shared with the viewfinder; the microphone (if requested)
+ * is opened only for the duration of the recording and released on stop.
+ */
+export const startRecording = async (
+  videoStream: MediaStream,
+  settings: VideoSettings
+): Promise<RecordingSession> => {
+  let audioStream: MediaStream | null = null;
+  if (settings.audio) {
+    try {
+      audioStream = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
+    } catch (err) {
+      console.warn("Microphone unavailable, recording without audio", err);
+    }
+  }
+
+  const recordStream = new MediaStream([
+    ...videoStream.getVideoTracks(),
+    ...(audioStream?.getAudioTracks() ?? [])
+  ]);
+
+  const releaseAudio = () => audioStream?.getTracks().forEach(track => track.stop());
+
+  let recorder: MediaRecorder;
+  try {
+    recorder = new MediaRecorder(recordStream, {
+      mimeType: settings.mimeType || undefined,
+      videoBitsPerSecond: settings.bitrate,
+      audioBitsPerSecond: 128_000
+    });
+  } catch (err) {
+    releaseAudio();
+    throw err;
+  }
+
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const startedAt = Date.now();
+  // Timeslice keeps memory bounded to ~1s of encoder output per chunk
+  recorder.start(1000);
+
+  return {
+    mimeType: recorder.mimeType || settings.mimeType,
+    startedAt,
+    stop: () => new Promise<RecordedClip>((resolve, reject) => {
+      recorder.onstop = () => {
+        releaseAudio();
+        const mimeType = recorder.mimeType || settings.mimeType || 'video/webm';
+        resolve({
+          blob: new Blob(chunks, { type: mimeType }),
+          mimeType,
+          duration: (Date.now() - startedAt) / 1000
+        });
+      };
+      recorder.onerror = (event) => {
+        releaseAudio();
+        reject(event);
+      };
+      recorder.stop();
+    })
+  };
+};
+
+export const TIMELAPSE_FPS = 24;
+
+/**
+ * Encodes still images into a video clip, one image per frame at `fps`.
+ * MediaRecorder timestamps frames by wall clock, so the recorder is paused
+ * while each image decodes and resumed for exactly one frame period.
+ */
+export const assembleTimelapse = async (
+  images: Blob[],
+  settings: VideoSettings,
+  fps = TIMELAPSE_FPS,
+  onProgress?: (progress: number) => void
+): Promise<RecordedClip> => {
+  if (images.length === 0) throw new Error("No frames to assemble");
+
+  const first = await createImageBitmap(images[0]);
+  const canvas = document.createElement('canvas');
+  canvas.width = first.width;
+  canvas.height = first.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("No canvas context");
+
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, {
+    mimeType: settings.mimeType || undefined,
+    videoBitsPerSecond: settings.bitrate
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve, reject) => {
+    recorder.onstop = () => resolve();
+    recorder.onerror = (event) => reject(event);
+  });
+
+  const period = 1000 / fps;
+  try {
+    for (let i = 0; i < images.length; i++) {
+      const bitmap = i === 0 ? first : await createImageBitmap(images[i]);
+      ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      bitmap.close();
+
+      if (recorder.state === 'inactive') recorder.start();
+      else recorder.resume();
+      track.requestFrame();
+      await new Promise(resolve => setTimeout(resolve, period));
+      recorder.pause();
+      onProgress?.((i + 1) / images.length);
+    }
+  } finally {
+    if (recorder.state !== 'inactive') recorder.stop();
+    track.stop();
+  }
+  await stopped;
+
+  const mimeType = recorder.mimeType || settings.mimeType || 'video/webm';
+  return {
+    blob: new Blob(chunks, { type: mimeType }),
+    mimeType,
+    duration: images.length / fps
+  };
+};
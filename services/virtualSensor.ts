@@ -0,0 +1,317 @@
+import { CameraSelection, SensorSource, TestPattern } from '../types';
+
+/**
+ * A stand-in for the camera: image files, a video file or a generated test
+ * pattern drawn into a canvas and exposed as a MediaStream, so the preview,
+ * metering, assists and capture pipeline run unchanged on known inputs.
+ * Frames are pushed on a fixed clock and generated noise is seeded by frame
+ * number, so a given source always produces the same frames.
+ */
+
+export interface VirtualSensor {
+  stream: MediaStream;
+  stop: () => void;
+}
+
+export type VirtualSource = Exclude<SensorSource, { kind: 'camera' }>;
+
+export const CAMERA_SOURCE: SensorSource = { kind: 'camera' };
+
+export const TEST_PATTERNS: { pattern: TestPattern; label: string }[] = [
+  { pattern: 'bars', label: 'Bars' },
+  { pattern: 'ramp', label: 'Ramp' },
+  { pattern: 'chart', label: 'Star Chart' }
+];
+
+export const PATTERN_NOISE_LEVELS = [0, 4, 8, 16];
+export const IMAGE_RATES = [0.5, 1, 2, 5, 15, 30];
+
+const DEFAULT_FRAME_RATE = 30;
+const DEFAULT_PATTERN_SIZE = { width: 1920, height: 1080 };
+const MAX_PATTERN_EDGE = 1920; // Generated noise is per pixel, per frame
+const MAX_SOURCE_EDGE = 4096;
+
+// 75% colour bars, then an 11-step grey wedge
+const BARS: [number, number, number][] = [
+  [191, 191, 191], [191, 191, 0], [0, 191, 191], [0, 191, 0], [191, 0, 191], [191, 0, 0], [0, 0, 191]
+];
+const WEDGE_STEPS = 11;
+const MID_GREY_SRGB = 119; // 18% reflectance
+const STAR_SPOKES = 36;
+
+const NOISE_TABLE_SIZE = 1 << 20;
+let noiseTable: Float32Array | null = null;
+
+// Small, fast seeded PRNG (mulberry32)
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Unit-variance Gaussian samples (Irwin-Hall approximation), generated once.
+// Each frame reads the table from a seeded offset, which keeps noise cheap
+// enough to add to every pixel at the stream frame rate.
+const getNoiseTable = (): Float32Array => {
+  if (noiseTable) return noiseTable;
+  const random = createRandom(1);
+  noiseTable = new Float32Array(NOISE_TABLE_SIZE);
+  for (let i = 0; i < NOISE_TABLE_SIZE; i++) {
+    noiseTable[i] = (random() + random() + random() - 1.5) * 2;
+  }
+  return noiseTable;
+};
+
+const fitWithin = (width: number, height: number, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const drawPattern = (ctx: CanvasRenderingContext2D, pattern: TestPattern, width: number, height: number) => {
+  if (pattern === 'bars') {
+    const barHeight = Math.round(height * 2 / 3);
+    BARS.forEach(([r, g, b], i) => {
+      ctx.fillStyle = `rgb(${r},${g},${b})`;
+      const x = Math.round(i * width / BARS.length);
+      ctx.fillRect(x, 0, Math.round((i + 1) * width / BARS.length) - x, barHeight);
+    });
+    for (let i = 0; i < WEDGE_STEPS; i++) {
+      const level = Math.round(i * 255 / (WEDGE_STEPS - 1));
+      ctx.fillStyle = `rgb(${level},${level},${level})`;
+      const x = Math.round(i * width / WEDGE_STEPS);
+      ctx.fillRect(x, barHeight, Math.round((i + 1) * width / WEDGE_STEPS) - x, height - barHeight);
+    }
+  } else if (pattern === 'ramp') {
+    const grey = ctx.createLinearGradient(0, 0, width, 0);
+    grey.addColorStop(0, '#000');
+    grey.addColorStop(1, '#fff');
+    ctx.fillStyle = grey;
+    ctx.fillRect(0, 0, width, height / 2);
+    const hue = ctx.createLinearGradient(0, 0, width, 0);
+    for (let i = 0; i <= 6; i++) hue.addColorStop(i / 6, `hsl(${i * 60}, 100%, 50%)`);
+    ctx.fillStyle = hue;
+    ctx.fillRect(0, height / 2, width, height - height / 2);
+  } else {
+    // Siemens star on mid grey, with black and white patches for clipping
+    ctx.fillStyle = `rgb(${MID_GREY_SRGB},${MID_GREY_SRGB},${MID_GREY_SRGB})`;
+    ctx.fillRect(0, 0, width, height);
+    const cx = width / 2;
+    const cy = height / 2;
+    const radius = Math.min(width, height) * 0.4;
+    for (let i = 0; i < STAR_SPOKES * 2; i++) {
+      const start = (i / (STAR_SPOKES * 2)) * Math.PI * 2;
+      const end = ((i + 1) / (STAR_SPOKES * 2)) * Math.PI * 2;
+      ctx.fillStyle = i % 2 === 0 ? '#000' : '#fff';
+      ctx.beginPath();
+      ctx.moveTo(cx, cy);
+      ctx.arc(cx, cy, radius, start, end);
+      ctx.closePath();
+      ctx.fill();
+    }
+    const patch = Math.round(Math.min(width, height) * 0.12);
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, patch, patch);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(width - patch, height - patch, patch, patch);
+  }
+};
+
+const drawContained = (ctx: CanvasRenderingContext2D, image: CanvasImageSource, imageWidth: number, imageHeight: number) => {
+  const { width, height } = ctx.canvas;
+  const scale = Math.min(width / imageWidth, height / imageHeight);
+  const drawWidth = imageWidth * scale;
+  const drawHeight = imageHeight * scale;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+// Canvas plus a frame clock; `render` draws frame `index` before it is pushed
+const createCanvasSensor = (
+  width: number,
+  height: number,
+  frameRate: number,
+  render: (ctx: CanvasRenderingContext2D, index: number) => void,
+  cleanup: () => void
+): VirtualSensor => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    cleanup();
+    throw new Error("No canvas context");
+  }
+
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  let index = 0;
+  const tick = () => {
+    render(ctx, index++);
+    track.requestFrame();
+  };
+  tick();
+  const timer = setInterval(tick, 1000 / frameRate);
+
+  return {
+    stream,
+    stop: () => {
+      clearInterval(timer);
+      track.stop();
+      cleanup();
+    }
+  };
+};
+
+const openPattern = (source: Extract<VirtualSource, { kind: 'pattern' }>, selection: CameraSelection): VirtualSensor => {
+  const { width, height } = fitWithin(
+    selection.width ?? DEFAULT_PATTERN_SIZE.width,
+    selection.height ?? DEFAULT_PATTERN_SIZE.height,
+    MAX_PATTERN_EDGE
+  );
+  let base: ImageData | null = null;
+  let frame: ImageData | null = null;
+
+  return createCanvasSensor(width, height, selection.frameRate ?? DEFAULT_FRAME_RATE, (ctx, index) => {
+    if (!base) {
+      drawPattern(ctx, source.pattern, width, height);
+      base = ctx.getImageData(0, 0, width, height);
+      frame = new ImageData(width, height);
+    }
+    if (source.noise <= 0 || !frame) return; // A static pattern stays on the canvas
+
+    const table = getNoiseTable();
+    const mask = NOISE_TABLE_SIZE - 1;
+    const offset = Math.floor(createRandom(index + 1)() * NOISE_TABLE_SIZE);
+    const { data: src } = base;
+    const { data: dst } = frame;
+    for (let i = 0; i < src.length; i += 4) {
+      const n = offset + i;
+      dst[i] = src[i] + table[n & mask] * source.noise;
+      dst[i + 1] = src[i + 1] + table[(n + 1) & mask] * source.noise;
+      dst[i + 2] = src[i + 2] + table[(n + 2) & mask] * source.noise;
+      dst[i + 3] = 255;
+    }
+    ctx.putImageData(frame, 0, 0);
+  }, () => {});
+};
+
+const openImages = async (source: Extract<VirtualSource, { kind: 'images' }>, selection: CameraSelection): Promise<VirtualSensor> => {
+  let current = await createImageBitmap(source.files[0]);
+  let currentIndex = 0;
+  let decoding = false;
+  let stopped = false;
+  const frameRate = selection.frameRate ?? DEFAULT_FRAME_RATE;
+  const { width, height } = fitWithin(current.width, current.height, MAX_SOURCE_EDGE);
+  let dirty = true;
+
+  const show = async (index: number) => {
+    decoding = true;
+    try {
+      const next = await createImageBitmap(source.files[index]);
+      if (stopped) {
+        next.close();
+        return;
+      }
+      current.close();
+      current = next;
+    } catch (err) {
+      console.warn(`Skipping ${source.files[index].name}, could not decode it`, err);
+    } finally {
+      currentIndex = index; // Failed files are skipped rather than retried
+      dirty = true;
+      decoding = false;
+    }
+  };
+
+  return createCanvasSensor(width, height, frameRate, (ctx, index) => {
+    const wanted = Math.floor(index * source.rate / frameRate) % source.files.length;
+    if (wanted !== currentIndex && !decoding) show(wanted);
+    if (!dirty) return;
+    drawContained(ctx, current, current.width, current.height);
+    dirty = false;
+  }, () => {
+    stopped = true;
+    current.close();
+  });
+};
+
+const openVideo = async (source: Extract<VirtualSource, { kind: 'video' }>, selection: CameraSelection): Promise<VirtualSensor> => {
+  const url = URL.createObjectURL(source.file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.loop = true;
+  video.playsInline = true;
+  video.src = url;
+  const cleanup = () => {
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  };
+
+  try {
+    await video.play();
+  } catch (err) {
+    cleanup();
+    console.warn("Virtual sensor video failed to play", err);
+    throw new Error(`Could not play ${source.file.name}`);
+  }
+  if (!video.videoWidth) {
+    cleanup();
+    throw new Error(`${source.file.name} has no video track`);
+  }
+
+  const { width, height } = fitWithin(video.videoWidth, video.videoHeight, MAX_SOURCE_EDGE);
+  return createCanvasSensor(width, height, selection.frameRate ?? DEFAULT_FRAME_RATE, (ctx) => {
+    drawContained(ctx, video, video.videoWidth, video.videoHeight);
+  }, cleanup);
+};
+
+/**
+ * Starts a virtual sensor. Patterns use the selected capture size (up to
+ * 1920px) and every source runs at the selected frame rate, 30fps by default.
+ */
+export const openVirtualSensor = async (source: VirtualSource, selection: CameraSelection): Promise<VirtualSensor> => {
+  switch (source.kind) {
+    case 'pattern': return openPattern(source, selection);
+    case 'images': return openImages(source, selection);
+    case 'video': return openVideo(source, selection);
+  }
+};
+
+const byName = new Intl.Collator(undefined, { numeric: true });
+
+/**
+ * Picks a source from user-selected files: the first video if there is one,
+ * otherwise the images in natural name order (IMG_2 before IMG_10).
+ */
+export const sourceFromFiles = (files: File[], rate = 1): VirtualSource | null => {
+  const video = files.find(file => file.type.startsWith('video/'));
+  if (video) return { kind: 'video', file: video };
+  const images = files.filter(file => file.type.startsWith('image/')).sort((a, b) => byName.compare(a.name, b.name));
+  return images.length > 0 ? { kind: 'images', files: images, rate } : null;
+};
+
+/**
+ * Reads a test pattern source from the page URL, e.g. `?sensor=chart&noise=8`,
+ * so headless runs can start without a camera. `?sensor=pattern` means bars.
+ */
+export const parseSensorParam = (search: string): SensorSource | null => {
+  const params = new URLSearchParams(search);
+  const value = params.get('sensor');
+  const pattern = value === 'pattern' ? 'bars' : TEST_PATTERNS.find(entry => entry.pattern === value)?.pattern;
+  if (!pattern) return null;
+  const noise = Number(params.get('noise'));
+  return { kind: 'pattern', pattern, noise: Number.isFinite(noise) && noise > 0 ? noise : 0 };
+};
+
+export const describeSource = (source: SensorSource): string => {
+  switch (source.kind) {
+    case 'camera': return 'Camera';
+    case 'pattern': return `Test ${TEST_PATTERNS.find(entry => entry.pattern === source.pattern)?.label ?? source.pattern}`;
+    case 'images': return source.files.length === 1 ? source.files[0].name : `${source.files.length} Images`;
+    case 'video': return source.file.name;
+  }
+};
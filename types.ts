@@ -1,22 +1,67 @@
 export interface CapturedImage {
   id: string;
-  url: string; // Data URL
+  kind: 'photo';
+  url?: string; // Object URL, loaded on demand from storage
+  thumbnailUrl: string; // Object URL
   timestamp: number;
+  size: number; // Bytes
   width: number;
   height: number;
   isEnhanced: boolean;
+  group?: CaptureGroup;
+  editedAt?: number; // Set while an edit stack exists for this photo
+  analyses?: AnalysisRecord[]; // Oldest first
+  chat?: ChatMessage[]; // Follow-up conversation about the photo
   metadata: {
     iso: number;
     shutterSpeed: string;
     aperture: string;
     mode: string;
+    wb?: string;
+    ev?: string;
+    stackCount?: number;
+    stackMethod?: StackMethod;
+    superResScale?: number; // Super-resolution merges: output size relative to the stream
+    superResFrames?: number; // Frames that made it into the merge
+    profile?: string; // Picture profile / LUT name
+    bracketCount?: number; // HDR merges
+    bracketStep?: number; // EV
+    nightBlend?: NightBlend; // Night mode merges
+    panoramaFrames?: number; // Panorama stitches: frames that made it in
+    panoramaFov?: number; // Degrees covered horizontally
   };
 }
 
+export interface CapturedVideo {
+  id: string;
+  kind: 'video';
+  url?: string; // Object URL, loaded on demand from storage
+  thumbnailUrl: string; // Object URL of the poster frame
+  timestamp: number;
+  size: number; // Bytes
+  duration: number; // Seconds
+  width: number;
+  height: number;
+  mimeType: string;
+  metadata: {
+    iso: number;
+    shutterSpeed: string;
+    aperture: string;
+    mode: string;
+    bitrate: number;
+    audio: boolean;
+  };
+}
+
+export type GalleryItem = CapturedImage | CapturedVideo;
+
 export enum CameraMode {
   PHOTO = 'PHOTO',
   VIDEO = 'VIDEO',
-  PRO = 'PRO', // Simulates Stacking/High Res
+  PRO = 'PRO', // Stacking / multi-frame super-resolution
+  HDR = 'HDR', // Exposure bracketing + fusion
+  NIGHT = 'NIGHT', // Simulated long exposure
+  PANORAMA = 'PANO', // Guided pan, stitched
 }
 
 export interface CameraSettings {
@@ -25,4 +70,272 @@ export interface CameraSettings {
   aperture: string;
   wb: string;
   ev: string;
-}
\ No newline at end of file
+}
+
+export type CameraFacing = 'front' | 'rear' | 'external';
+
+export interface CameraSelection {
+  deviceId: string | null; // Null picks a camera by facing
+  facing: CameraFacing;
+  width: number | null; // Requested capture size; null lets the browser choose
+  height: number | null;
+  frameRate: number | null;
+}
+
+export type TestPattern = 'bars' | 'ramp' | 'chart';
+
+// Where frames come from: a real camera, or a virtual sensor fed from files
+// or a generated test pattern
+export type SensorSource =
+  | { kind: 'camera' }
+  | { kind: 'pattern'; pattern: TestPattern; noise: number } // Noise sigma in 8-bit levels
+  | { kind: 'images'; files: File[]; rate: number } // Images per second, looping
+  | { kind: 'video'; file: File };
+
+export interface VideoSettings {
+  mimeType: string; // Empty string lets the browser choose
+  bitrate: number; // Bits per second
+  audio: boolean;
+}
+
+export type StackMethod = 'mean' | 'median' | 'sigma-clip';
+
+export interface StackingSettings {
+  frameCount: number; // 4-32
+  method: StackMethod;
+  superResolution: boolean; // Merge at 2x instead of stacking for noise
+}
+
+export type MeteringMode = 'matrix' | 'center' | 'spot';
+
+export type ExposureProgram = 'P' | 'A' | 'S' | 'M';
+
+export interface ExposureSettings {
+  program: ExposureProgram;
+  meteringMode: MeteringMode;
+  compensation: number; // EV, in 1/3 steps
+  aperture: number; // f-number, used in A and M
+  shutter: number; // Seconds, used in S and M
+  iso: number | 'AUTO'; // Used in M
+}
+
+export type PeakingColor = 'red' | 'yellow' | 'blue' | 'white';
+
+export interface AssistSettings {
+  histogram: boolean;
+  zebra: boolean;
+  zebraThreshold: number; // IRE, 70-100
+  peaking: boolean;
+  peakingColor: PeakingColor;
+  peakingLevel: 'low' | 'mid' | 'high';
+}
+
+export type CompositionGuide = 'none' | 'thirds' | 'phi' | 'spiral' | 'diagonals' | 'cross' | 'safe';
+
+export type CaptureAspect = 'native' | '1:1' | '4:3' | '3:2' | '16:9' | '65:24';
+
+export interface FramingSettings {
+  guide: CompositionGuide;
+  spiralTurn: number; // Golden spiral orientation, 0-3
+  aspect: CaptureAspect; // Captures are cropped to this
+  level: boolean; // Electronic level from device orientation
+  autoStraighten: boolean; // Level the capture by the measured roll
+}
+
+export type LutInterpolation = 'trilinear' | 'tetrahedral';
+
+export interface ProfileSettings {
+  profileId: string;
+  interpolation: LutInterpolation;
+}
+
+export type AutofocusMode = 'AF-S' | 'AF-C';
+
+// MF is implied by a manual focus distance
+export type FocusMode = AutofocusMode | 'MF';
+
+export interface FocusPoint {
+  x: number; // 0-1 across the camera frame
+  y: number; // 0-1 down the camera frame
+}
+
+export interface ManualControls {
+  whiteBalance: number | 'AUTO'; // Kelvin
+  focusDistance: number | 'AUTO'; // Metres
+  autofocus: AutofocusMode; // Used while focusDistance is AUTO
+  focusPoint: FocusPoint | null; // Tap-to-focus / spot metering point; null is wide area
+  aeAfLock: boolean; // Exposure and focus held where they were when locked
+  zoom: number; // Optical/sensor zoom factor
+  torch: boolean;
+}
+
+// Where a value shown in the OSD actually takes effect
+export type ControlSource = 'hardware' | 'simulated' | 'unsupported';
+
+export interface ControlStatus {
+  shutter: ControlSource;
+  aperture: ControlSource;
+  iso: ControlSource;
+  ev: ControlSource;
+  wb: ControlSource;
+  focus: ControlSource;
+  zoom: ControlSource;
+  torch: ControlSource;
+}
+
+export interface HdrSettings {
+  bracketCount: number; // Odd, 3-7
+  evStep: number; // Stops between brackets
+  keepSources: boolean; // Also save the individual bracket frames
+}
+
+// Night mode: average frames, or lighten moving lights over the average
+export type NightBlend = 'average' | 'trails';
+
+export interface NightSettings {
+  duration: number; // Simulated exposure, seconds (1-30)
+  blend: NightBlend;
+}
+
+// Which way the camera turns while shooting a panorama
+export type PanoramaDirection = 'left' | 'right';
+
+export interface PanoramaSettings {
+  direction: PanoramaDirection;
+  focalLength: number; // 35mm-equivalent of the lens in use, for the projection
+}
+
+export type DriveMode = 'single' | 'continuous' | 'timer' | 'interval';
+
+export type BurstSpeed = 'hi' | 'mid' | 'lo';
+
+export interface DriveSettings {
+  mode: DriveMode;
+  burstSpeed: BurstSpeed;
+  timerDelay: number; // Seconds: 2, 5 or 10
+  interval: number; // Seconds between intervalometer shots
+  shotCount: number; // Intervalometer shots
+  timelapse: boolean; // Assemble the interval shots into a video
+}
+
+// Captures saved together (e.g. an HDR merge and its brackets, a burst, or
+// a panorama and its source frames)
+export interface CaptureGroup {
+  id: string; // Id of the primary capture
+  kind: 'hdr' | 'burst' | 'panorama';
+  role: 'primary' | 'member';
+  index: number; // Position within the group, primary first
+}
+
+export type CropAspect = 'free' | 'original' | '1:1' | '4:5' | '4:3' | '3:2' | '16:9';
+
+export interface CropRect {
+  x: number; // Fractions of the rotated image, 0-1
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PhotoAdjustments {
+  crop: CropRect | null;
+  aspect: CropAspect;
+  rotation: number; // Quarter turns clockwise, in degrees: 0, 90, 180, 270
+  straighten: number; // Degrees, -45 to 45
+  exposure: number; // EV, -3 to 3
+  contrast: number; // -100 to 100
+  highlights: number; // -100 to 100
+  shadows: number; // -100 to 100
+  temperature: number; // -100 to 100, positive is warmer
+  tint: number; // -100 to 100, positive is more magenta
+  vibrance: number; // -100 to 100
+  vignette: number; // -100 to 100, negative darkens the corners
+  sharpen: number; // 0 to 100
+}
+
+// One change in an edit stack; later steps for the same tool win
+export type EditStep = {
+  [K in keyof PhotoAdjustments]: { tool: K; value: PhotoAdjustments[K] }
+}[keyof PhotoAdjustments];
+
+// Edits are stored beside the untouched original and rendered on demand
+export interface EditStack {
+  photoId: string;
+  steps: EditStep[];
+  updatedAt: number;
+}
+
+export type GallerySort = 'newest' | 'oldest' | 'largest';
+
+export type GalleryDateRange = 'all' | 'today' | 'week' | 'month';
+
+export interface GalleryView {
+  sort: GallerySort;
+  mode: string | null; // Capture mode as recorded in the metadata, null for all
+  dateRange: GalleryDateRange;
+  enhancedOnly: boolean; // PRO stacks and HDR merges
+}
+
+// Exposure and white balance suggested by scene analysis, formatted as in the OSD
+export type SuggestedSettings = Pick<CameraSettings, 'iso' | 'shutterSpeed' | 'aperture' | 'wb'>;
+
+export type AnalysisProviderId = 'gemini' | 'local';
+
+// Which provider to ask; 'auto' prefers Gemini and falls back to on-device
+export type AnalysisPreference = 'auto' | AnalysisProviderId;
+
+// Measurements made by the on-device analyzer
+export interface ImageDiagnostics {
+  clippedHighlights: number; // % of pixels
+  clippedShadows: number; // % of pixels
+  sharpness: number; // Variance of the Laplacian at 1:1
+  sharpnessScore: number; // 0-100
+  noise: number; // Estimated sigma, in 8-bit levels
+  colorCast: { temperature: number; tint: number }; // -1..1, positive is warm / magenta
+  horizonTilt: number | null; // Degrees, positive counter-clockwise; null without a dominant line
+  subject: { x: number; y: number }; // Salient centroid, fractions of the frame
+  thirdsDistance: number; // From the subject to the nearest thirds intersection, fractions of the frame
+}
+
+export interface SceneAnalysis {
+  provider: AnalysisProviderId;
+  settings: SuggestedSettings;
+  compositionScore: number; // 1-10
+  subjects: string[];
+  critique: string;
+  crop: CropRect | null; // Suggested crop of the unedited frame
+  diagnostics?: ImageDiagnostics;
+}
+
+export interface AnalysisRecord {
+  timestamp: number;
+  analysis: SceneAnalysis;
+  fallbackReason: string | null; // Why the preferred provider wasn't used
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number;
+  stopped?: boolean; // Reply cancelled part way through
+}
+
+export type InputAction =
+  | 'shutterHalf'
+  | 'shutterFull'
+  | 'aeAfLock'
+  | 'modeCycle'
+  | 'gallery'
+  | 'grid'
+  | 'evUp'
+  | 'evDown'
+  | 'isoUp'
+  | 'isoDown'
+  | 'cheatSheet';
+
+// A physical control: a keyboard key (by KeyboardEvent.code, so it survives
+// layouts and Bluetooth remotes) or a button on a standard-mapping gamepad
+export type InputBinding =
+  | { device: 'keyboard'; code: string }
+  | { device: 'gamepad'; button: number };
+
+export type InputBindings = Record<InputAction, InputBinding[]>;